@@ -11,6 +11,13 @@ const compat = new FlatCompat({
 
 const eslintConfig = [
   ...compat.extends("next/core-web-vitals", "next/typescript"),
+  {
+    // Email templates render standalone HTML documents, not Next.js pages
+    files: ["src/emails/**"],
+    rules: {
+      "@next/next/no-head-element": "off",
+    },
+  },
   {
     ignores: [
       "node_modules/**",
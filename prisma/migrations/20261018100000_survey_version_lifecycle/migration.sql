@@ -0,0 +1,48 @@
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_SurveyVersion" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "version" TEXT NOT NULL,
+    "group" TEXT NOT NULL,
+    "questions" JSONB NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "description" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'draft',
+    "publishedAt" DATETIME,
+    "publishedBy" TEXT,
+    "retiredAt" DATETIME,
+    "maxResponses" INTEGER
+);
+-- Active versions become published; inactive versions that collected responses become retired
+INSERT INTO "new_SurveyVersion" ("id", "version", "group", "questions", "createdAt", "updatedAt", "description", "status", "publishedAt", "retiredAt", "maxResponses")
+SELECT "id", "version", "group", "questions", "createdAt", "updatedAt", "description",
+    CASE
+        WHEN "isActive" THEN 'published'
+        WHEN EXISTS (SELECT 1 FROM "SurveyResponse" WHERE "SurveyResponse"."versionId" = "SurveyVersion"."id") THEN 'retired'
+        ELSE 'draft'
+    END,
+    CASE WHEN "isActive" THEN "createdAt" ELSE NULL END,
+    CASE
+        WHEN NOT "isActive" AND EXISTS (SELECT 1 FROM "SurveyResponse" WHERE "SurveyResponse"."versionId" = "SurveyVersion"."id") THEN "updatedAt"
+        ELSE NULL
+    END,
+    "maxResponses"
+FROM "SurveyVersion";
+-- Only the newest of several active versions in a group stays published; the older ones are retired
+UPDATE "new_SurveyVersion" SET "status" = 'retired', "retiredAt" = "updatedAt"
+WHERE "status" = 'published' AND EXISTS (
+    SELECT 1 FROM "new_SurveyVersion" AS "newer"
+    WHERE "newer"."group" = "new_SurveyVersion"."group" AND "newer"."status" = 'published'
+        AND ("newer"."createdAt" > "new_SurveyVersion"."createdAt"
+            OR ("newer"."createdAt" = "new_SurveyVersion"."createdAt" AND "newer"."id" > "new_SurveyVersion"."id"))
+);
+DROP TABLE "SurveyVersion";
+ALTER TABLE "new_SurveyVersion" RENAME TO "SurveyVersion";
+CREATE UNIQUE INDEX "SurveyVersion_version_key" ON "SurveyVersion"("version");
+CREATE INDEX "SurveyVersion_group_status_idx" ON "SurveyVersion"("group", "status");
+-- At most one published version per group; Prisma can't express partial indexes, so it lives only here
+CREATE UNIQUE INDEX "SurveyVersion_group_published_key" ON "SurveyVersion"("group") WHERE "status" = 'published';
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
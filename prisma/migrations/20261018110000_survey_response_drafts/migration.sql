@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "SurveyResponse" ADD COLUMN "lastQuestionId" TEXT;
+ALTER TABLE "SurveyResponse" ADD COLUMN "lastSavedAt" DATETIME;
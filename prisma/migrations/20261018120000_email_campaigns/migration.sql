@@ -0,0 +1,35 @@
+-- CreateTable
+CREATE TABLE "EmailCampaign" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "name" TEXT NOT NULL,
+    "groups" JSONB NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'active',
+    "reminderIntervalDays" INTEGER NOT NULL DEFAULT 7,
+    "maxReminders" INTEGER NOT NULL DEFAULT 0,
+    "nextRunAt" DATETIME,
+    "lastRunAt" DATETIME,
+    "createdBy" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "EmailSend" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "campaignId" INTEGER NOT NULL,
+    "email" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "error" TEXT,
+    "sentAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "EmailSend_campaignId_fkey" FOREIGN KEY ("campaignId") REFERENCES "EmailCampaign" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "EmailCampaign_status_nextRunAt_idx" ON "EmailCampaign"("status", "nextRunAt");
+
+-- CreateIndex
+CREATE INDEX "EmailSend_campaignId_email_idx" ON "EmailSend"("campaignId", "email");
+
+-- CreateIndex
+CREATE INDEX "EmailSend_email_sentAt_idx" ON "EmailSend"("email", "sentAt");
@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "OtpAttempt" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "email" TEXT NOT NULL,
+    "failedAttempts" INTEGER NOT NULL DEFAULT 0,
+    "lockedUntil" DATETIME,
+    "lastRequestedAt" DATETIME,
+    "lastFailedAt" DATETIME,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "OtpAttempt_email_key" ON "OtpAttempt"("email");
+
+-- remindersSent was used as the OTP attempt counter, so its values are not reminder counts
+UPDATE "InvitedUser" SET "remindersSent" = 0;
+
+-- Outstanding codes were stored in plaintext and can't be checked against hashes
+UPDATE "InvitedUser" SET "otpCode" = NULL, "otpExpiry" = NULL;
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "InvitedUser" ADD COLUMN "isBlocked" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "InvitedUser" ADD COLUMN "blockedAt" DATETIME;
+ALTER TABLE "InvitedUser" ADD COLUMN "blockedReason" TEXT;
+ALTER TABLE "InvitedUser" ADD COLUMN "blockedBy" TEXT;
+
+-- CreateIndex
+CREATE INDEX "InvitedUser_isBlocked_idx" ON "InvitedUser"("isBlocked");
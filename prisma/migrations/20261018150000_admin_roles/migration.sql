@@ -0,0 +1,22 @@
+-- Existing admins predate roles and keep full access
+UPDATE "AdminUser" SET "role" = 'owner' WHERE "role" = 'admin';
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_AdminUser" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "email" TEXT NOT NULL,
+    "password" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "role" TEXT NOT NULL DEFAULT 'viewer',
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastLogin" DATETIME
+);
+INSERT INTO "new_AdminUser" ("createdAt", "email", "id", "lastLogin", "name", "password", "role") SELECT "createdAt", "email", "id", "lastLogin", "name", "password", "role" FROM "AdminUser";
+DROP TABLE "AdminUser";
+ALTER TABLE "new_AdminUser" RENAME TO "AdminUser";
+CREATE UNIQUE INDEX "AdminUser_email_key" ON "AdminUser"("email");
+CREATE INDEX "AdminUser_email_idx" ON "AdminUser"("email");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "AdminUser" ADD COLUMN "isActive" BOOLEAN NOT NULL DEFAULT true;
+ALTER TABLE "AdminUser" ADD COLUMN "deactivatedAt" DATETIME;
+ALTER TABLE "AdminUser" ADD COLUMN "mustChangePassword" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "AdminUser" ADD COLUMN "passwordChangedAt" DATETIME;
+ALTER TABLE "AdminUser" ADD COLUMN "createdBy" TEXT;
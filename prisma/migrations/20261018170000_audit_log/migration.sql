@@ -0,0 +1,48 @@
+-- CreateTable
+CREATE TABLE "AuditLog" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "actorId" INTEGER,
+    "actorEmail" TEXT NOT NULL,
+    "actorRole" TEXT,
+    "action" TEXT NOT NULL,
+    "targetType" TEXT,
+    "targetId" TEXT,
+    "reason" TEXT,
+    "beforeState" TEXT,
+    "afterState" TEXT,
+    "ipAddress" TEXT,
+    "userAgent" TEXT,
+    "requestPath" TEXT,
+    "prevHash" TEXT NOT NULL,
+    "hash" TEXT NOT NULL
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AuditLog_prevHash_key" ON "AuditLog"("prevHash");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AuditLog_hash_key" ON "AuditLog"("hash");
+
+-- CreateIndex
+CREATE INDEX "AuditLog_createdAt_idx" ON "AuditLog"("createdAt");
+
+-- CreateIndex
+CREATE INDEX "AuditLog_action_createdAt_idx" ON "AuditLog"("action", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "AuditLog_actorEmail_createdAt_idx" ON "AuditLog"("actorEmail", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "AuditLog_targetType_targetId_idx" ON "AuditLog"("targetType", "targetId");
+
+-- The audit trail is append-only
+CREATE TRIGGER "AuditLog_no_update" BEFORE UPDATE ON "AuditLog"
+BEGIN
+    SELECT RAISE(ABORT, 'AuditLog is append-only');
+END;
+
+CREATE TRIGGER "AuditLog_no_delete" BEFORE DELETE ON "AuditLog"
+BEGIN
+    SELECT RAISE(ABORT, 'AuditLog is append-only');
+END;
@@ -0,0 +1,14 @@
+-- CreateTable
+CREATE TABLE "ProductionSnapshot" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdBy" TEXT NOT NULL,
+    "responseCount" INTEGER NOT NULL,
+    "inviteCount" INTEGER NOT NULL,
+    "data" TEXT NOT NULL,
+    "restoredAt" DATETIME,
+    "restoredBy" TEXT
+);
+
+-- CreateIndex
+CREATE INDEX "ProductionSnapshot_createdAt_idx" ON "ProductionSnapshot"("createdAt");
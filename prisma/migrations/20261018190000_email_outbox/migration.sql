@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "OutboxEmail" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "category" TEXT NOT NULL,
+    "from" TEXT NOT NULL,
+    "to" TEXT NOT NULL,
+    "subject" TEXT NOT NULL,
+    "html" TEXT NOT NULL,
+    "text" TEXT NOT NULL
+);
+
+-- CreateIndex
+CREATE INDEX "OutboxEmail_to_createdAt_idx" ON "OutboxEmail"("to", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "OutboxEmail_createdAt_idx" ON "OutboxEmail"("createdAt");
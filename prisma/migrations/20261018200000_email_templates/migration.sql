@@ -0,0 +1,13 @@
+-- CreateTable
+CREATE TABLE "EmailTemplate" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "key" TEXT NOT NULL,
+    "group" TEXT NOT NULL,
+    "subject" TEXT NOT NULL,
+    "intro" TEXT NOT NULL,
+    "updatedAt" DATETIME NOT NULL,
+    "updatedBy" TEXT NOT NULL
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "EmailTemplate_key_group_key" ON "EmailTemplate"("key", "group");
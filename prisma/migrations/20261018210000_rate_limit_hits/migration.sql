@@ -0,0 +1,12 @@
+-- CreateTable
+CREATE TABLE "RateLimitHit" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "key" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateIndex
+CREATE INDEX "RateLimitHit_key_createdAt_idx" ON "RateLimitHit"("key", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "RateLimitHit_createdAt_idx" ON "RateLimitHit"("createdAt");
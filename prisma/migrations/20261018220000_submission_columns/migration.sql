@@ -0,0 +1,33 @@
+-- AlterTable
+ALTER TABLE "SurveyResponse" ADD COLUMN "submissionNumber" INTEGER;
+ALTER TABLE "SurveyResponse" ADD COLUMN "isResubmission" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "SurveyResponse" ADD COLUMN "previousResponseId" INTEGER;
+
+-- Backfill: number each participant's complete submissions in the order they were stored
+UPDATE "SurveyResponse"
+SET "submissionNumber" = (
+    SELECT COUNT(*) FROM "SurveyResponse" AS earlier
+    WHERE earlier."email" = "SurveyResponse"."email"
+      AND earlier."partial" = false
+      AND earlier."id" <= "SurveyResponse"."id"
+),
+"previousResponseId" = (
+    SELECT MAX(earlier."id") FROM "SurveyResponse" AS earlier
+    WHERE earlier."email" = "SurveyResponse"."email"
+      AND earlier."partial" = false
+      AND earlier."id" < "SurveyResponse"."id"
+)
+WHERE "partial" = false;
+
+UPDATE "SurveyResponse" SET "isResubmission" = true WHERE "submissionNumber" > 1;
+
+-- Drop the bookkeeping keys the submit endpoint used to store alongside the answers
+UPDATE "SurveyResponse"
+SET "responses" = json_remove("responses", '$._submissionVersion', '$._isResubmission', '$._previousSubmissions')
+WHERE json_valid("responses")
+  AND (json_type("responses", '$._submissionVersion') IS NOT NULL
+    OR json_type("responses", '$._isResubmission') IS NOT NULL
+    OR json_type("responses", '$._previousSubmissions') IS NOT NULL);
+
+-- CreateIndex
+CREATE INDEX "SurveyResponse_isResubmission_idx" ON "SurveyResponse"("isResubmission");
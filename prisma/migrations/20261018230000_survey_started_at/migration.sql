@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "InvitedUser" ADD COLUMN "surveyStartedAt" DATETIME;
+
+-- Backfill: participants who already have a response started no later than their first one
+UPDATE "InvitedUser"
+SET "surveyStartedAt" = (
+    SELECT MIN("submittedAt") FROM "SurveyResponse"
+    WHERE "SurveyResponse"."email" = "InvitedUser"."email"
+)
+WHERE EXISTS (
+    SELECT 1 FROM "SurveyResponse" WHERE "SurveyResponse"."email" = "InvitedUser"."email"
+);
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "SurveyResponse" ADD COLUMN "startedAt" DATETIME;
+ALTER TABLE "SurveyResponse" ADD COLUMN "activeTime" INTEGER;
+ALTER TABLE "SurveyResponse" ADD COLUMN "idleTime" INTEGER;
+ALTER TABLE "SurveyResponse" ADD COLUMN "questionTimings" JSONB;
+
+-- Completion times recorded so far were random placeholders from the survey client,
+-- not measurements - clear them so timing statistics only reflect real data
+UPDATE "SurveyResponse" SET "completionTime" = NULL;
@@ -0,0 +1,46 @@
+-- CreateTable
+CREATE TABLE "CodebookCode" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "questionId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdBy" TEXT NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "AnswerCoding" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "responseId" INTEGER NOT NULL,
+    "questionId" TEXT NOT NULL,
+    "coderEmail" TEXT NOT NULL,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "AnswerCoding_responseId_fkey" FOREIGN KEY ("responseId") REFERENCES "SurveyResponse" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "CodedExcerpt" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "codingId" INTEGER NOT NULL,
+    "codeId" INTEGER NOT NULL,
+    "start" INTEGER NOT NULL,
+    "end" INTEGER NOT NULL,
+    "text" TEXT NOT NULL,
+    CONSTRAINT "CodedExcerpt_codingId_fkey" FOREIGN KEY ("codingId") REFERENCES "AnswerCoding" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "CodedExcerpt_codeId_fkey" FOREIGN KEY ("codeId") REFERENCES "CodebookCode" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CodebookCode_questionId_name_key" ON "CodebookCode"("questionId", "name");
+
+-- CreateIndex
+CREATE INDEX "AnswerCoding_questionId_idx" ON "AnswerCoding"("questionId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AnswerCoding_responseId_questionId_coderEmail_key" ON "AnswerCoding"("responseId", "questionId", "coderEmail");
+
+-- CreateIndex
+CREATE INDEX "CodedExcerpt_codingId_idx" ON "CodedExcerpt"("codingId");
+
+-- CreateIndex
+CREATE INDEX "CodedExcerpt_codeId_idx" ON "CodedExcerpt"("codeId");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "EmailCampaign" ADD COLUMN "runningSince" DATETIME;
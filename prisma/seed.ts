@@ -33,7 +33,7 @@ async function main() {
       email: 'admin@example.com',
       password: adminPasswordHash,
       name: 'System Administrator',
-      role: 'admin',
+      role: 'owner',
     },
   });
 
@@ -51,7 +51,9 @@ async function main() {
         group,
         description: `Initial ${group} survey based on NCLB framework`,
         questions: getSampleQuestions(group),
-        isActive: true,
+        status: 'published',
+        publishedAt: new Date(),
+        publishedBy: 'seed',
       },
     });
 
@@ -104,7 +106,22 @@ function getSampleQuestions(group: string) {
         required: true,
         placeholder: 'Share your thoughts on benefits and challenges...',
         validation: { minLength: 50, maxLength: 1000 },
-        branching: { if: "mentions 'cheating'", show: 'q2_followup' }
+        branching: {}
+      },
+      {
+        id: 'q2_followup',
+        text: 'You mentioned academic integrity. What would help you address AI-assisted cheating in your classroom?',
+        type: 'open_ended',
+        required: false,
+        placeholder: 'Describe the support or policies that would help...',
+        validation: { minLength: 20, maxLength: 1000 },
+        branching: {
+          action: 'show',
+          match: 'any',
+          conditions: [
+            { questionId: 'q2_benefits_challenges', operator: 'contains', keywords: ['cheat', 'plagiarism', 'academic integrity'] }
+          ]
+        }
       },
       {
         id: 'q3_training_needs',
@@ -142,7 +159,22 @@ function getSampleQuestions(group: string) {
         required: true,
         placeholder: 'Describe your AI tool usage patterns and purposes...',
         validation: { minLength: 30, maxLength: 800 },
-        branching: { if: "mentions specific tools", show: 'q1_followup' }
+        branching: {}
+      },
+      {
+        id: 'q1_followup',
+        text: 'Which of the AI tools you mentioned is most useful to you, and why?',
+        type: 'open_ended',
+        required: false,
+        placeholder: 'Tell us about the tool you rely on most...',
+        validation: { minLength: 20, maxLength: 800 },
+        branching: {
+          action: 'show',
+          match: 'any',
+          conditions: [
+            { questionId: 'q1_ai_use', operator: 'contains', keywords: ['chatgpt', 'gemini', 'copilot', 'grammarly', 'quillbot'] }
+          ]
+        }
       },
       {
         id: 'q2_cheating_perception',
@@ -189,7 +221,22 @@ function getSampleQuestions(group: string) {
         required: true,
         placeholder: 'Describe current district policies and stance...',
         validation: { minLength: 50, maxLength: 1000 },
-        branching: { if: "mentions policies", show: 'q1_followup' }
+        branching: {}
+      },
+      {
+        id: 'q1_followup',
+        text: 'How are the AI policies you described communicated to staff, students, and families?',
+        type: 'open_ended',
+        required: false,
+        placeholder: 'Describe how policies are shared and enforced...',
+        validation: { minLength: 30, maxLength: 1000 },
+        branching: {
+          action: 'show',
+          match: 'any',
+          conditions: [
+            { questionId: 'q1_district_stance', operator: 'contains', keywords: ['policy', 'policies', 'guideline'] }
+          ]
+        }
       },
       {
         id: 'q2_integration_plan',
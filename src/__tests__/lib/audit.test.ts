@@ -0,0 +1,69 @@
+/**
+ * Audit Trail Hash Chain Tests
+ * @rule 380 "Comprehensive testing standards with visual organization"
+ * @rule 105 "TypeScript strict typing for tests"
+ */
+
+import { AUDIT_GENESIS_HASH, computeAuditHash, serializeAuditState, type AuditHashFields } from '@/lib/audit-chain';
+
+const baseEntry = (): AuditHashFields => ({
+  createdAt: new Date('2026-10-18T12:00:00.000Z'),
+  actorId: 1,
+  actorEmail: 'owner@example.org',
+  actorRole: 'owner',
+  action: 'participant.blocked',
+  targetType: 'participant',
+  targetId: 'teacher@school.org',
+  reason: 'Duplicate account',
+  beforeState: serializeAuditState({ isBlocked: false }),
+  afterState: serializeAuditState({ isBlocked: true }),
+  ipAddress: '203.0.113.7',
+  userAgent: 'jest',
+  requestPath: 'POST /api/admin/block-user',
+});
+
+describe('📜 Audit Trail Tests', () => {
+  beforeEach(() => {
+    console.log('🧪 Setting up audit test environment');
+  });
+
+  test('✅ Should hash entries deterministically', () => {
+    console.log('🔗 Testing hash stability');
+
+    const first = computeAuditHash(AUDIT_GENESIS_HASH, baseEntry());
+    const second = computeAuditHash(AUDIT_GENESIS_HASH, baseEntry());
+
+    expect(first).toMatch(/^[a-f0-9]{64}$/);
+    expect(second).toBe(first);
+
+    console.log('✅ Hash is stable');
+  });
+
+  test('❌ Should detect any change to an entry', () => {
+    console.log('🕵️ Testing tamper detection');
+
+    const original = computeAuditHash(AUDIT_GENESIS_HASH, baseEntry());
+
+    expect(computeAuditHash(AUDIT_GENESIS_HASH, { ...baseEntry(), reason: 'Edited later' })).not.toBe(original);
+    expect(computeAuditHash(AUDIT_GENESIS_HASH, { ...baseEntry(), afterState: null })).not.toBe(original);
+    expect(computeAuditHash(AUDIT_GENESIS_HASH, {
+      ...baseEntry(),
+      createdAt: new Date('2026-10-18T12:00:01.000Z'),
+    })).not.toBe(original);
+
+    console.log('✅ Edits change the hash');
+  });
+
+  test('❌ Should chain each entry to the one before it', () => {
+    console.log('⛓️ Testing chain linkage');
+
+    const first = computeAuditHash(AUDIT_GENESIS_HASH, baseEntry());
+    const second = computeAuditHash(first, baseEntry());
+
+    // Same content on a different link hashes differently, so rows can't be reordered or dropped
+    expect(second).not.toBe(first);
+    expect(computeAuditHash('f'.repeat(64), baseEntry())).not.toBe(second);
+
+    console.log('✅ Entries are linked');
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Question Branching Rule Tests
+ * @rule 380 "Comprehensive testing standards with visual organization"
+ */
+
+import {
+  evaluateCondition,
+  getBranchingRule,
+  getHiddenQuestionIds,
+  getVisibleQuestions,
+} from '@/lib/branching';
+import { QuestionListSchema, validateSurveyResponses } from '@/lib/validation';
+
+const questions = [
+  {
+    id: 'q1_ai_use',
+    text: 'How do you use AI tools?',
+    type: 'open_ended',
+    required: true,
+    validation: { minLength: 5, maxLength: 500 },
+    branching: {},
+  },
+  {
+    id: 'q1_followup',
+    text: 'Which tool is most useful?',
+    type: 'open_ended',
+    required: true,
+    validation: { minLength: 5, maxLength: 500 },
+    branching: {
+      action: 'show',
+      match: 'any',
+      conditions: [{ questionId: 'q1_ai_use', operator: 'contains', keywords: ['chatgpt', 'copilot'] }],
+    },
+  },
+  {
+    id: 'q2_comfort',
+    text: 'How comfortable are you with AI?',
+    type: 'likert',
+    required: true,
+    validation: { min: 1, max: 5 },
+    branching: {},
+  },
+  {
+    id: 'q3_concerns',
+    text: 'What worries you most?',
+    type: 'open_ended',
+    required: true,
+    validation: { minLength: 5, maxLength: 500 },
+    branching: {
+      action: 'skip',
+      conditions: [{ questionId: 'q2_comfort', operator: 'gte', value: 4 }],
+    },
+  },
+];
+
+describe('🔀 Question Branching Tests', () => {
+  describe('evaluateCondition', () => {
+    test('✅ Should match keywords case-insensitively', () => {
+      console.log('🔍 Testing contains operator');
+
+      const condition = { questionId: 'q1', operator: 'contains' as const, keywords: ['ChatGPT'] };
+
+      expect(evaluateCondition(condition, 'I use chatgpt for essays')).toBe(true);
+      expect(evaluateCondition(condition, 'I do not use AI')).toBe(false);
+      expect(evaluateCondition(condition, undefined)).toBe(false);
+    });
+
+    test('✅ Should compare numeric answers stored as strings', () => {
+      console.log('🔢 Testing gte/lte operators');
+
+      expect(evaluateCondition({ questionId: 'q2', operator: 'gte', value: 4 }, '5')).toBe(true);
+      expect(evaluateCondition({ questionId: 'q2', operator: 'lte', value: 2 }, '3')).toBe(false);
+      expect(evaluateCondition({ questionId: 'q2', operator: 'gte', value: 4 }, 'not a number')).toBe(false);
+    });
+  });
+
+  describe('getVisibleQuestions', () => {
+    test('✅ Should show follow-ups only when their rule matches', () => {
+      console.log('👀 Testing show and skip rules');
+
+      const withoutTools = getVisibleQuestions(questions, { q1_ai_use: 'I mostly search the web', q2_comfort: 2 });
+      expect(withoutTools.map(q => q.id)).toEqual(['q1_ai_use', 'q2_comfort', 'q3_concerns']);
+
+      const withTools = getVisibleQuestions(questions, { q1_ai_use: 'I use Copilot daily', q2_comfort: 5 });
+      expect(withTools.map(q => q.id)).toEqual(['q1_ai_use', 'q1_followup', 'q2_comfort']);
+
+      console.log('✅ Branching rules evaluated correctly');
+    });
+
+    test('✅ Should ignore legacy free-text rules', () => {
+      console.log('🕰️ Testing legacy branching compatibility');
+
+      const legacy = [{ id: 'q1', branching: { if: "mentions 'cheating'", show: 'q2_followup' } }];
+
+      expect(getBranchingRule(legacy[0])).toBeNull();
+      expect(getVisibleQuestions(legacy, {})).toHaveLength(1);
+    });
+
+    test('✅ Should report hidden question IDs', () => {
+      const hidden = getHiddenQuestionIds(questions, { q1_ai_use: 'Nothing yet', q2_comfort: 4 });
+
+      expect(hidden).toEqual(['q1_followup', 'q3_concerns']);
+    });
+  });
+
+  describe('validateSurveyResponses with branching', () => {
+    test('✅ Should not require answers to hidden questions', () => {
+      console.log('📋 Testing required hidden questions');
+
+      const result = validateSurveyResponses(
+        { q1_ai_use: 'I mostly search the web', q2_comfort: 5 },
+        questions
+      );
+
+      expect(result.valid).toBe(true);
+    });
+
+    test('❌ Should require answers to visible follow-ups', () => {
+      const result = validateSurveyResponses(
+        { q1_ai_use: 'I use ChatGPT to study', q2_comfort: 5 },
+        questions
+      );
+
+      expect(result.valid).toBe(false);
+      expect(result.errors.map(e => e.questionId)).toEqual(['q1_followup']);
+    });
+  });
+
+  describe('QuestionListSchema branching checks', () => {
+    test('❌ Should reject rules that reference later or unknown questions', () => {
+      console.log('🚫 Testing forward references');
+
+      const forward = [
+        { ...questions[0], branching: { action: 'show', conditions: [{ questionId: 'q2_comfort', operator: 'answered' }] } },
+        questions[2],
+      ];
+
+      expect(QuestionListSchema.safeParse(forward).success).toBe(false);
+      expect(QuestionListSchema.safeParse(questions).success).toBe(true);
+    });
+  });
+});
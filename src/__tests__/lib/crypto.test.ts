@@ -4,7 +4,7 @@
  * @rule 105 "TypeScript strict typing for tests"
  */
 
-import { generateOTP, hashEmail, validateOTP } from '@/lib/crypto';
+import { generateOTP, hashEmail, hashOTP, validateOTP } from '@/lib/crypto';
 
 describe('🔐 Crypto Utilities Tests', () => {
   beforeEach(() => {
@@ -91,6 +91,33 @@ describe('🔐 Crypto Utilities Tests', () => {
     });
   });
 
+  describe('hashOTP', () => {
+    test('✅ Should not store the plain code', () => {
+      console.log('🔒 Testing OTP hashing');
+      
+      const hash = hashOTP('123456', 'user@example.com');
+      
+      expect(hash).not.toContain('123456');
+      expect(hash).toMatch(/^[a-f0-9]{64}$/);
+      expect(hashOTP('123456', 'USER@example.com')).toBe(hash);
+      
+      console.log('✅ OTP hash verified');
+    });
+
+    test('✅ Should bind the hash to the email', () => {
+      console.log('📧 Testing OTP hash per email');
+      
+      expect(hashOTP('123456', 'a@example.com')).not.toBe(hashOTP('123456', 'b@example.com'));
+      
+      const expiry = new Date(Date.now() + 10 * 60 * 1000);
+      const stored = hashOTP('123456', 'a@example.com');
+      expect(validateOTP(hashOTP('123456', 'a@example.com'), stored, expiry, 0).valid).toBe(true);
+      expect(validateOTP(hashOTP('123456', 'b@example.com'), stored, expiry, 0).valid).toBe(false);
+      
+      console.log('✅ OTP hash bound to email');
+    });
+  });
+
   describe('validateOTP', () => {
     test('✅ Should validate correct OTP', () => {
       console.log('✅ Testing valid OTP validation');
@@ -0,0 +1,73 @@
+/**
+ * Email Template Rendering Tests
+ * @rule 380 "Comprehensive testing standards with visual organization"
+ * @rule 105 "TypeScript strict typing for tests"
+ */
+
+import { renderToStaticMarkup } from 'react-dom/server';
+import { toPlainText } from '@react-email/render';
+import { buildEmailElement, getDefaultTemplate, interpolate, SAMPLE_RENDER_DATA } from '@/lib/email-rendering';
+
+describe('✉️ Email Template Rendering Tests', () => {
+  beforeEach(() => {
+    console.log('🧪 Setting up email rendering test environment');
+  });
+
+  test('✅ Should fill placeholders and leave unknown ones visible', () => {
+    console.log('🔤 Testing placeholder substitution');
+
+    const text = interpolate('Hello {{group}}, expires in {{ expiryMinutes }} min {{unknown}}', {
+      group: 'Teachers',
+      expiryMinutes: 10,
+    });
+
+    expect(text).toBe('Hello Teachers, expires in 10 min {{unknown}}');
+
+    console.log('✅ Placeholders substituted');
+  });
+
+  test('✅ Should use group wording where it exists and fall back otherwise', () => {
+    console.log('👥 Testing per-group defaults');
+
+    expect(getDefaultTemplate('invitation', 'Students').subject).not.toBe(getDefaultTemplate('invitation', 'all').subject);
+    expect(getDefaultTemplate('reminder', 'Students')).toEqual(getDefaultTemplate('reminder', 'all'));
+    expect(getDefaultTemplate('invitation', 'Parents')).toEqual(getDefaultTemplate('invitation', 'all'));
+
+    console.log('✅ Group variants resolved');
+  });
+
+  test('✅ Should render HTML and a matching plaintext part', () => {
+    console.log('🖨️ Testing OTP rendering');
+
+    const html = renderToStaticMarkup(buildEmailElement(
+      'otp',
+      { subject: 'Code for {{group}}', intro: 'First paragraph.\n\nSecond paragraph.' },
+      { ...SAMPLE_RENDER_DATA, group: 'Teachers' }
+    ));
+    const text = toPlainText(html);
+
+    expect(html).toContain('Code for Teachers');
+    expect(html).toContain('123456');
+    expect(html).toContain('Second paragraph.');
+    expect(text).toContain('123456');
+    expect(text).toContain('First paragraph.');
+    expect(text).not.toMatch(/<[a-z]/i);
+
+    console.log('✅ HTML and plaintext rendered');
+  });
+
+  test('❌ Should escape markup typed into the intro', () => {
+    console.log('🛡️ Testing intro escaping');
+
+    const html = renderToStaticMarkup(buildEmailElement(
+      'invitation',
+      { subject: 'Invitation', intro: '<script>alert(1)</script>' },
+      { group: 'Students', surveyUrl: 'https://survey.example.org' }
+    ));
+
+    expect(html).not.toContain('<script>');
+    expect(html).toContain('https://survey.example.org');
+
+    console.log('✅ Intro markup escaped');
+  });
+});
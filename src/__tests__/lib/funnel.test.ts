@@ -0,0 +1,90 @@
+/**
+ * Participation Funnel Tests
+ * @rule 380 "Comprehensive testing standards with visual organization"
+ * @rule 105 "TypeScript strict typing for tests"
+ */
+
+import { buildFunnels, buildQuestionDropOff, buildTrend, periodOf, type ParticipantProgress } from '@/lib/funnel';
+import type { SurveyQuestion } from '@/lib/validation';
+
+function participant(overrides: Partial<ParticipantProgress>): ParticipantProgress {
+  return {
+    email: 'someone@school.org',
+    group: 'Teachers',
+    invitedAt: new Date('2026-10-01T09:00:00.000Z'),
+    emailed: false,
+    otpRequested: false,
+    consented: false,
+    startedAt: null,
+    savedProgress: false,
+    completedAt: null,
+    ...overrides,
+  };
+}
+
+const participants: ParticipantProgress[] = [
+  participant({ email: 'a@school.org', emailed: true, otpRequested: true, consented: true, startedAt: new Date('2026-10-02T10:00:00.000Z'), completedAt: new Date('2026-10-02T10:20:00.000Z') }),
+  participant({ email: 'b@school.org', emailed: true, otpRequested: true, consented: true, startedAt: new Date('2026-10-03T10:00:00.000Z'), savedProgress: true }),
+  participant({ email: 'c@school.org', emailed: true }),
+  participant({ email: 'd@school.org' }),
+  // Invited by hand and never emailed, but completed
+  participant({ email: 'e@school.org', group: 'Students', consented: true, startedAt: new Date('2026-10-08T10:00:00.000Z'), completedAt: new Date('2026-10-08T10:15:00.000Z') }),
+];
+
+describe('🪜 Participation Funnel Tests', () => {
+  beforeEach(() => {
+    console.log('🧪 Setting up funnel test environment');
+  });
+
+  test('✅ Should count distinct participants at each step, never above 100%', () => {
+    console.log('📉 Testing funnel steps');
+
+    const [all, teachers, students] = buildFunnels(participants);
+
+    expect(all.group).toBe('all');
+    expect(all.steps.map(step => step.count)).toEqual([5, 4, 3, 3, 3, 3, 2]);
+    expect(all.completionRate).toBe(40);
+    expect(all.steps[1].dropOffRate).toBe(20);
+    expect(teachers.steps.map(step => step.count)).toEqual([4, 3, 2, 2, 2, 2, 1]);
+    expect(students.steps[1].count).toBe(1);
+    expect(all.steps.every(step => step.percentOfInvited <= 100)).toBe(true);
+
+    console.log('✅ Funnel steps counted');
+  });
+
+  test('✅ Should bucket trends by day or week', () => {
+    console.log('📆 Testing trends');
+
+    expect(periodOf(new Date('2026-10-08T10:00:00.000Z'), 'week')).toBe('2026-10-05');
+
+    const from = new Date('2026-10-01T00:00:00.000Z');
+    const to = new Date('2026-10-09T23:59:59.999Z');
+    const daily = buildTrend(participants, from, to, 'day');
+    const weekly = buildTrend(participants, from, to, 'week');
+
+    expect(daily).toHaveLength(9);
+    expect(daily[0]).toEqual({ period: '2026-10-01', invited: 5, started: 0, completed: 0 });
+    expect(daily[1]).toEqual({ period: '2026-10-02', invited: 0, started: 1, completed: 1 });
+    expect(weekly.map(point => point.period)).toEqual(['2026-09-28', '2026-10-05']);
+    expect(weekly[1]).toMatchObject({ started: 1, completed: 1 });
+
+    console.log('✅ Trends bucketed');
+  });
+
+  test('✅ Should show where unfinished drafts stopped', () => {
+    console.log('🚪 Testing drop-off per question');
+
+    const questions: SurveyQuestion[] = [
+      { id: 'q1', text: 'First', type: 'open_ended', required: true },
+      { id: 'q2', text: 'Second', type: 'open_ended', required: true },
+      { id: 'q3', text: 'Third', type: 'open_ended', required: true },
+    ];
+
+    const dropOff = buildQuestionDropOff(questions, ['q1', 'q2', 'q2', null, 'q_removed'], 4);
+
+    expect(dropOff.map(row => row.stoppedHere)).toEqual([1, 2, 0]);
+    expect(dropOff.map(row => row.reached)).toEqual([7, 6, 4]);
+
+    console.log('✅ Drop-off measured');
+  });
+});
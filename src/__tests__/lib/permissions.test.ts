@@ -0,0 +1,75 @@
+/**
+ * Admin Permission Matrix Tests
+ * @rule 380 "Comprehensive testing standards with visual organization"
+ * @rule 105 "TypeScript strict typing for tests"
+ */
+
+import { ADMIN_ROLES, PERMISSIONS, getRolePermissions, hasPermission, normalizeRole } from '@/lib/permissions';
+
+describe('🛡️ Admin Permission Tests', () => {
+  beforeEach(() => {
+    console.log('🧪 Setting up permission test environment');
+  });
+
+  test('✅ Should give owners every permission', () => {
+    console.log('👑 Testing owner permissions');
+
+    Object.values(PERMISSIONS).forEach(permission => {
+      expect(hasPermission(ADMIN_ROLES.OWNER, permission)).toBe(true);
+    });
+
+    console.log('✅ Owner has full access');
+  });
+
+  test('✅ Should keep viewers read-only', () => {
+    console.log('👀 Testing viewer permissions');
+
+    expect(hasPermission(ADMIN_ROLES.VIEWER, PERMISSIONS.RESPONSES_VIEW)).toBe(true);
+    expect(hasPermission(ADMIN_ROLES.VIEWER, PERMISSIONS.INVITES_VIEW)).toBe(true);
+    expect(hasPermission(ADMIN_ROLES.VIEWER, PERMISSIONS.INVITES_MANAGE)).toBe(false);
+    expect(hasPermission(ADMIN_ROLES.VIEWER, PERMISSIONS.RESPONSES_EXPORT)).toBe(false);
+    expect(hasPermission(ADMIN_ROLES.VIEWER, PERMISSIONS.CODING_MANAGE)).toBe(false);
+    expect(hasPermission(ADMIN_ROLES.VIEWER, PERMISSIONS.PRODUCTION_MANAGE)).toBe(false);
+
+    console.log('✅ Viewer is read-only');
+  });
+
+  test('✅ Should limit data exporters to responses', () => {
+    console.log('📦 Testing data exporter permissions');
+
+    expect(getRolePermissions(ADMIN_ROLES.DATA_EXPORTER)).toEqual([
+      PERMISSIONS.DASHBOARD_VIEW,
+      PERMISSIONS.RESPONSES_VIEW,
+      PERMISSIONS.RESPONSES_EXPORT,
+    ]);
+
+    console.log('✅ Data exporter scoped to responses');
+  });
+
+  test('✅ Should keep researchers out of system settings', () => {
+    console.log('🔬 Testing researcher permissions');
+
+    expect(hasPermission(ADMIN_ROLES.RESEARCHER, PERMISSIONS.VERSIONS_MANAGE)).toBe(true);
+    expect(hasPermission(ADMIN_ROLES.RESEARCHER, PERMISSIONS.CODING_MANAGE)).toBe(true);
+    expect(hasPermission(ADMIN_ROLES.RESEARCHER, PERMISSIONS.PRODUCTION_MANAGE)).toBe(false);
+    expect(hasPermission(ADMIN_ROLES.RESEARCHER, PERMISSIONS.ADMINS_MANAGE)).toBe(false);
+    // Researchers can read captured emails but not wipe them
+    expect(hasPermission(ADMIN_ROLES.RESEARCHER, PERMISSIONS.OUTBOX_VIEW)).toBe(true);
+    expect(hasPermission(ADMIN_ROLES.RESEARCHER, PERMISSIONS.OUTBOX_MANAGE)).toBe(false);
+
+    console.log('✅ Researcher scoped correctly');
+  });
+
+  test('❌ Should map legacy and unknown roles safely', () => {
+    console.log('🔍 Testing role normalization');
+
+    expect(normalizeRole('admin')).toBe(ADMIN_ROLES.OWNER);
+    expect(normalizeRole('superuser')).toBeNull();
+    expect(normalizeRole(undefined)).toBeNull();
+    expect(normalizeRole('toString')).toBeNull();
+    expect(normalizeRole('constructor')).toBeNull();
+    expect(getRolePermissions('superuser')).toEqual([]);
+
+    console.log('✅ Unknown roles get no permissions');
+  });
+});
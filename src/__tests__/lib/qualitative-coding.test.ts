@@ -0,0 +1,117 @@
+/**
+ * Qualitative Coding Tests
+ * @rule 380 "Comprehensive testing standards with visual organization"
+ * @rule 105 "TypeScript strict typing for tests"
+ */
+
+import {
+  AnswerCodingSchema,
+  buildAgreement,
+  buildCodingColumns,
+  cohensKappa,
+  resolveExcerpts,
+  summarizeCodeUse,
+} from '@/lib/qualitative-coding';
+
+function repeat(pair: [string, string], times: number): Array<[string, string]> {
+  return Array.from({ length: times }, () => pair);
+}
+
+describe('🏷️ Qualitative Coding Tests', () => {
+  beforeEach(() => {
+    console.log('🧪 Setting up qualitative coding test environment');
+  });
+
+  test('✅ Should copy excerpt text from the answer and reject bad offsets', () => {
+    console.log('✂️ Testing excerpt resolution');
+
+    const answer = 'Students ask great questions. Time is short.';
+    const resolved = resolveExcerpts(answer, [
+      { codeId: 2, start: 30, end: 44 },
+      { codeId: 1 },
+      { codeId: 2, start: 30, end: 44 },
+    ]);
+
+    expect(resolved).toEqual({
+      valid: true,
+      excerpts: [
+        { codeId: 1, start: 0, end: 44, text: answer },
+        { codeId: 2, start: 30, end: 44, text: 'Time is short.' },
+      ],
+    });
+    expect(resolveExcerpts(answer, [{ codeId: 1, start: 0, end: 99 }]).valid).toBe(false);
+    expect(resolveExcerpts('  ', [{ codeId: 1 }]).valid).toBe(false);
+    expect(resolveExcerpts('', []).valid).toBe(true);
+
+    expect(AnswerCodingSchema.safeParse({ responseId: 1, questionId: 'q1', excerpts: [{ codeId: 1, start: 5 }] }).success).toBe(false);
+    expect(AnswerCodingSchema.safeParse({ responseId: 1, questionId: 'q1', excerpts: [{ codeId: 1, start: 5, end: 5 }] }).success).toBe(false);
+
+    console.log('✅ Excerpts resolved');
+  });
+
+  test('✅ Should calculate Cohen\'s kappa', () => {
+    console.log('🤝 Testing kappa');
+
+    const pairs = [
+      ...repeat(['yes', 'yes'], 20),
+      ...repeat(['yes', 'no'], 5),
+      ...repeat(['no', 'yes'], 10),
+      ...repeat(['no', 'no'], 15),
+    ];
+
+    expect(cohensKappa(pairs)).toBe(0.4);
+    expect(cohensKappa(repeat(['yes', 'yes'], 3).concat(repeat(['no', 'no'], 2)))).toBe(1);
+    expect(cohensKappa(repeat(['no', 'no'], 4))).toBeNull();
+    expect(cohensKappa([])).toBeNull();
+
+    console.log('✅ Kappa calculated');
+  });
+
+  test('✅ Should compare coder pairs over answers both reviewed', () => {
+    console.log('👥 Testing coder agreement');
+
+    const codes = [{ id: 1, name: 'Engagement' }, { id: 2, name: 'Time' }];
+    const [agreement] = buildAgreement(codes, [
+      { responseId: 10, coderEmail: 'b@school.org', codeIds: [1] },
+      { responseId: 11, coderEmail: 'b@school.org', codeIds: [1, 2] },
+      { responseId: 12, coderEmail: 'b@school.org', codeIds: [] },
+      { responseId: 10, coderEmail: 'a@school.org', codeIds: [1] },
+      { responseId: 11, coderEmail: 'a@school.org', codeIds: [2] },
+      { responseId: 12, coderEmail: 'a@school.org', codeIds: [] },
+      // Only one coder has reviewed this answer
+      { responseId: 13, coderEmail: 'a@school.org', codeIds: [1] },
+    ]);
+
+    expect(agreement.coders).toEqual(['a@school.org', 'b@school.org']);
+    expect(agreement.units).toBe(3);
+    expect(agreement.percentAgreement).toBe(83.3);
+    expect(agreement.codes[0]).toMatchObject({ name: 'Engagement', appliedBy: [1, 2], percentAgreement: 66.7 });
+    expect(agreement.codes[0].kappa).toBe(0.4);
+    expect(agreement.codes[1].kappa).toBe(1);
+
+    console.log('✅ Coder agreement compared');
+  });
+
+  test('✅ Should summarize code use and build export columns', () => {
+    console.log('📦 Testing code usage and export columns');
+
+    expect(summarizeCodeUse([{ id: 1 }, { id: 2 }], [
+      { codeId: 1, responseId: 10 },
+      { codeId: 1, responseId: 10 },
+      { codeId: 1, responseId: 11 },
+    ])).toEqual([
+      { codeId: 1, answers: 2, excerpts: 3 },
+      { codeId: 2, answers: 0, excerpts: 0 },
+    ]);
+
+    const columns = buildCodingColumns([10, 11], [
+      { responseId: 10, questionId: 'q2', coderEmail: 'a@school.org', excerpts: [{ code: 'Time', text: 'short' }] },
+      { responseId: 10, questionId: 'q2', coderEmail: 'b@school.org', excerpts: [{ code: 'Engagement', text: 'ask' }, { code: 'Time', text: 'short' }] },
+    ]);
+
+    expect(columns.get(10)).toEqual({ q2_codes: 'Engagement; Time' });
+    expect(columns.get(11)).toEqual({ q2_codes: '' });
+
+    console.log('✅ Code usage and export columns built');
+  });
+});
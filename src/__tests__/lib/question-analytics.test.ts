@@ -0,0 +1,134 @@
+/**
+ * Question Analytics Tests
+ * @rule 380 "Comprehensive testing standards with visual organization"
+ * @rule 105 "TypeScript strict typing for tests"
+ */
+
+import {
+  AnalyticsQuerySchema,
+  buildQuestionAnalytics,
+  collectQuestions,
+  crossTabulate,
+  latestSubmissions,
+  summarizeNumbers,
+  type AnalyticsRow,
+  type AnalyticsVersion,
+} from '@/lib/question-analytics';
+
+const teachers: AnalyticsVersion = {
+  id: 1,
+  questions: [
+    { id: 'q1_policy', text: 'Does your school have an AI policy?', type: 'multiple_choice', required: true, options: ['Yes', 'No', 'Not sure'] },
+    { id: 'q2_comfort', text: 'How comfortable are you with AI?', type: 'likert', required: false, validation: { min: 1, max: 5 } },
+    {
+      id: 'q3_policy_detail',
+      text: 'What does the policy say?',
+      type: 'open_ended',
+      required: false,
+      branching: {
+        action: 'show',
+        match: 'any',
+        conditions: [{ questionId: 'q1_policy', operator: 'equals', value: 'Yes' }],
+      },
+    },
+  ],
+};
+
+const students: AnalyticsVersion = {
+  id: 2,
+  questions: [
+    { id: 'q2_comfort', text: 'How comfortable are you using AI?', type: 'likert', required: true, validation: { min: 1, max: 5 } },
+  ],
+};
+
+const rows: AnalyticsRow[] = [
+  { id: 1, email: 't1@school.org', group: 'Teachers', versionId: 1, responses: { q1_policy: 'Yes', q2_comfort: 4, q3_policy_detail: 'Disclose AI use' } },
+  { id: 2, email: 't2@school.org', group: 'Teachers', versionId: 1, responses: { q1_policy: 'No', q2_comfort: 2 } },
+  { id: 3, email: 't3@school.org', group: 'Teachers', versionId: 1, responses: { q1_policy: 'Yes' } },
+  { id: 4, email: 's1@school.org', group: 'Students', versionId: 2, responses: { q2_comfort: 5 } },
+  { id: 5, email: 's2@school.org', group: 'Students', versionId: 2, responses: { q2_comfort: 3 } },
+];
+
+describe('📈 Question Analytics Tests', () => {
+  beforeEach(() => {
+    console.log('🧪 Setting up question analytics test environment');
+  });
+
+  test('✅ Should summarize numbers with the sample standard deviation', () => {
+    console.log('🧮 Testing descriptive statistics');
+
+    expect(summarizeNumbers([])).toBeNull();
+    expect(summarizeNumbers([2, 4, 4, 5])).toEqual({ count: 4, mean: 3.75, median: 4, stdDev: 1.26, min: 2, max: 5 });
+    expect(summarizeNumbers([3])?.stdDev).toBe(0);
+
+    console.log('✅ Statistics computed');
+  });
+
+  test('✅ Should count each participant once by default', () => {
+    console.log('🔁 Testing latest submissions');
+
+    const latest = latestSubmissions([
+      { id: 1, email: 'a@school.org' },
+      { id: 2, email: 'b@school.org' },
+      { id: 7, email: 'a@school.org' },
+    ]);
+
+    expect(latest.map(row => row.id)).toEqual([2, 7]);
+    expect(AnalyticsQuerySchema.parse({}).submissions).toBe('latest');
+    expect(AnalyticsQuerySchema.safeParse({ rowQuestionId: 'q1_policy' }).success).toBe(false);
+
+    console.log('✅ One submission per participant');
+  });
+
+  test('✅ Should build distributions and per-group statistics', () => {
+    console.log('📊 Testing distributions');
+
+    const analytics = buildQuestionAnalytics([teachers, students], rows);
+    const policy = analytics.find(question => question.id === 'q1_policy');
+    const comfort = analytics.find(question => question.id === 'q2_comfort');
+
+    expect(policy?.overall.distribution).toEqual([
+      { value: 'Yes', count: 2, percent: 66.7 },
+      { value: 'No', count: 1, percent: 33.3 },
+      { value: 'Not sure', count: 0, percent: 0 },
+    ]);
+    expect(comfort?.text).toBe('How comfortable are you with AI?');
+    expect(comfort?.overall.summary?.mean).toBe(3.5);
+    expect(comfort?.byGroup.map(tally => [tally.group, tally.summary?.mean])).toEqual([
+      ['Teachers', 3],
+      ['Students', 4],
+    ]);
+
+    console.log('✅ Distributions built');
+  });
+
+  test('✅ Should measure skip rates only among respondents shown the question', () => {
+    console.log('🔀 Testing skip rates');
+
+    const analytics = buildQuestionAnalytics([teachers, students], rows);
+    const comfort = analytics.find(question => question.id === 'q2_comfort');
+    const detail = analytics.find(question => question.id === 'q3_policy_detail');
+
+    expect(comfort?.overall).toMatchObject({ shown: 5, answered: 4, skipped: 1, skipRate: 20 });
+    // Only the two "Yes" teachers were shown the follow-up
+    expect(detail?.overall).toMatchObject({ shown: 2, answered: 1, skipRate: 50, distribution: [] });
+
+    console.log('✅ Skip rates measured');
+  });
+
+  test('✅ Should cross-tabulate two categorical questions', () => {
+    console.log('🔢 Testing cross-tabulation');
+
+    const [policy, comfort] = collectQuestions([teachers]);
+    const table = crossTabulate(policy, comfort, [teachers], rows);
+
+    expect(table.rowCategories).toEqual(['Yes', 'No', 'Not sure']);
+    expect(table.columnCategories).toEqual(['1', '2', '3', '4', '5']);
+    expect(table.counts[0]).toEqual([0, 0, 0, 1, 0]);
+    expect(table.counts[1]).toEqual([0, 1, 0, 0, 0]);
+    expect(table.rowTotals).toEqual([1, 1, 0]);
+    expect(table.total).toBe(2);
+
+    console.log('✅ Cross-tabulation built');
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Sliding-Window Rate Limit Tests
+ * @rule 380 "Comprehensive testing standards with visual organization"
+ * @rule 105 "TypeScript strict typing for tests"
+ */
+
+import { evaluateSlidingWindow, MemoryRateLimitStore, type RateLimitConfig } from '@/lib/rate-limit-window';
+
+const config: RateLimitConfig = { name: 'test', requests: 3, windowMs: 60 * 1000 };
+
+const at = (seconds: number) => new Date(Date.UTC(2026, 9, 18, 12, 0, seconds));
+
+describe('🚦 Rate Limit Window Tests', () => {
+  beforeEach(() => {
+    console.log('🧪 Setting up rate limit test environment');
+  });
+
+  test('✅ Should admit requests up to the limit', () => {
+    console.log('📈 Testing admission');
+
+    const result = evaluateSlidingWindow(config, [at(0), at(10), at(20)], at(20));
+
+    expect(result.allowed).toBe(true);
+    expect(result.remaining).toBe(0);
+    expect(result.resetAt).toEqual(at(60));
+
+    console.log('✅ Requests admitted');
+  });
+
+  test('❌ Should reject once the window is full and say when to retry', () => {
+    console.log('🛑 Testing rejection');
+
+    const result = evaluateSlidingWindow(config, [at(0), at(10), at(20), at(30)], at(30));
+
+    expect(result.allowed).toBe(false);
+    expect(result.remaining).toBe(0);
+    expect(result.retryAfterSeconds).toBe(30);
+
+    console.log('✅ Request rejected');
+  });
+
+  test('✅ Should slide rather than reset at a fixed boundary', async () => {
+    console.log('⏱️ Testing sliding window');
+
+    const store = new MemoryRateLimitStore();
+
+    expect((await store.hit('k', config, at(0))).allowed).toBe(true);
+    expect((await store.hit('k', config, at(40))).allowed).toBe(true);
+    expect((await store.hit('k', config, at(50))).allowed).toBe(true);
+    expect((await store.hit('k', config, at(55))).allowed).toBe(false);
+
+    // The first hit has aged out, the other two still count
+    expect((await store.hit('k', config, at(61))).allowed).toBe(true);
+    expect((await store.hit('k', config, at(62))).allowed).toBe(false);
+
+    console.log('✅ Window slides');
+  });
+
+  test('✅ Should not count rejected requests and keep keys apart', async () => {
+    console.log('🔑 Testing key isolation');
+
+    const store = new MemoryRateLimitStore();
+
+    for (let second = 0; second < 10; second++) {
+      await store.hit('ip:203.0.113.7', config, at(second));
+    }
+
+    // Hammering while blocked doesn't extend the block past the first hits' expiry
+    expect((await store.hit('ip:203.0.113.7', config, at(61))).allowed).toBe(true);
+    expect((await store.hit('ip:198.51.100.2', config, at(5))).allowed).toBe(true);
+
+    await store.reset('ip:203.0.113.7');
+    expect((await store.hit('ip:203.0.113.7', config, at(62))).remaining).toBe(2);
+
+    console.log('✅ Keys are independent');
+  });
+
+  test('✅ Should take back a hit for a request that failed after being counted', async () => {
+    console.log('↩️ Testing release');
+
+    const store = new MemoryRateLimitStore();
+    const single = { name: 'single', requests: 1, windowMs: 60 * 60 * 1000 };
+
+    await store.hit('participant:a@example.com', single, at(0));
+    await store.release('participant:a@example.com');
+
+    expect((await store.hit('participant:a@example.com', single, at(1))).allowed).toBe(true);
+    expect((await store.hit('participant:a@example.com', single, at(2))).allowed).toBe(false);
+
+    console.log('✅ Release verified');
+  });
+});
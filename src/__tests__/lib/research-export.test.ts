@@ -0,0 +1,158 @@
+/**
+ * Research Export Format Tests
+ * @rule 380 "Comprehensive testing standards with visual organization"
+ * @rule 105 "TypeScript strict typing for tests"
+ */
+
+import {
+  answerCode,
+  buildCodebook,
+  buildJsonLines,
+  buildLongRows,
+  buildSavExport,
+  codebookCsv,
+  LONG_CSV_HEADERS,
+  toCsv,
+  toVariableName,
+  type ExportResponse,
+  type ExportVersion,
+} from '@/lib/research-export';
+
+const versions: ExportVersion[] = [
+  {
+    id: 1,
+    version: 'v1',
+    questions: [
+      { id: 'tech_use', text: 'How often do you use AI tools?', type: 'multiple_choice', required: true, options: ['Never', 'Weekly'] },
+      { id: 'comfort', text: 'How comfortable are you with AI?', type: 'likert', required: true, validation: { min: 1, max: 3 } },
+      { id: 'concerns', text: 'What concerns you?', type: 'open_ended', required: false },
+    ],
+  },
+  {
+    id: 2,
+    version: 'v2',
+    questions: [
+      { id: 'tech_use', text: 'How often do you use AI tools?', type: 'multiple_choice', required: true, options: ['Never', 'Daily'] },
+      { id: 'to', text: 'Who should decide AI policy?', type: 'open_ended', required: false },
+    ],
+  },
+];
+
+function response(overrides: Partial<ExportResponse>): ExportResponse {
+  return {
+    id: 1,
+    participantId: 'abc123',
+    group: 'Teachers',
+    versionId: 1,
+    submittedAt: new Date('2026-10-01T12:00:00Z'),
+    partial: false,
+    submissionNumber: 1,
+    isResubmission: false,
+    completionTime: 300,
+    activeTime: 240,
+    idleTime: 60,
+    deviceType: 'desktop',
+    responses: {},
+    ...overrides,
+  };
+}
+
+const responses = [
+  response({ id: 1, responses: { tech_use: 'Weekly', comfort: 3, concerns: 'Cheating, "mostly"' } }),
+  response({ id: 2, participantId: 'def456', group: 'Students', versionId: 2, responses: { tech_use: 'Daily', to: 'Teachers' } }),
+];
+
+describe('📦 Research Export Tests', () => {
+  beforeEach(() => {
+    console.log('🧪 Setting up research export test environment');
+  });
+
+  test('✅ Should build a codebook with value labels from the question definitions', () => {
+    console.log('📖 Testing codebook');
+
+    const codebook = buildCodebook(versions, { includeMetadata: false, codingColumns: ['concerns_codes'] });
+    const byName = new Map(codebook.map(variable => [variable.name, variable]));
+
+    expect(codebook.map(variable => variable.name)).toEqual([
+      'participant_id', 'response_id', 'stakeholder_group', 'survey_version', 'submitted_at', 'is_partial',
+      'submission_number', 'is_resubmission', 'tech_use', 'comfort', 'concerns', 'q_to', 'concerns_codes',
+    ]);
+    // Options added in a later version continue the numbering
+    expect(byName.get('tech_use')?.valueLabels).toEqual([
+      { value: 1, label: 'Never' }, { value: 2, label: 'Weekly' }, { value: 3, label: 'Daily' },
+    ]);
+    expect(byName.get('tech_use')?.versions).toEqual(['v1', 'v2']);
+    expect(byName.get('comfort')).toMatchObject({ storage: 'numeric', measure: 'ordinal' });
+    expect(byName.get('comfort')?.valueLabels.map(label => label.label)).toEqual(['1 (lowest)', '2', '3 (highest)']);
+    expect(byName.get('concerns')).toMatchObject({ storage: 'string', valueLabels: [] });
+    expect(byName.get('concerns_codes')).toMatchObject({ source: 'coding', label: 'Qualitative codes: What concerns you?' });
+
+    const withTiming = buildCodebook(versions, { includeMetadata: true });
+    expect(withTiming.map(variable => variable.name)).toContain('active_time');
+
+    console.log('✅ Codebook verified');
+  });
+
+  test('✅ Should pick valid, unique variable names and code answers', () => {
+    console.log('🔤 Testing names and codes');
+
+    const taken = new Set(['group']);
+    expect(toVariableName('group', taken)).toBe('q_group');
+    expect(toVariableName('with', taken)).toBe('q_with');
+    expect(toVariableName('group', taken)).toBe('group_2');
+
+    const [techUse, comfort] = buildCodebook(versions, { includeMetadata: false }).filter(variable => variable.source === 'question');
+    expect(answerCode(techUse, 'Daily')).toBe(3);
+    expect(answerCode(techUse, 'Monthly')).toBeNull();
+    expect(answerCode(comfort, '2')).toBe(2);
+    expect(answerCode(comfort, '')).toBeNull();
+
+    console.log('✅ Names and codes verified');
+  });
+
+  test('✅ Should lay out one tidy row per question asked', () => {
+    console.log('📏 Testing long format');
+
+    const codebook = buildCodebook(versions, { includeMetadata: false });
+    const rows = buildLongRows(codebook, responses, versions, false);
+
+    expect(rows).toHaveLength(5);
+    expect(rows[0]).toMatchObject({ response_id: 1, question_id: 'tech_use', status: 'answered', answer: 'Weekly', answer_code: 2 });
+    expect(rows[4]).toMatchObject({ survey_version: 'v2', question_id: 'to', variable: 'q_to', answer: 'Teachers', answer_code: null });
+    expect(rows[0]).not.toHaveProperty('codes');
+
+    const csv = toCsv(LONG_CSV_HEADERS, rows).split('\r\n');
+    expect(csv[0]).toBe(LONG_CSV_HEADERS.join(','));
+    expect(csv[3]).toContain(',"Cheating, ""mostly""",');
+
+    const unanswered = buildLongRows(codebook, [response({ responses: { tech_use: 'Never' } })], versions, true);
+    expect(unanswered[1]).toMatchObject({ question_id: 'comfort', status: 'skipped', answer: '', codes: '' });
+
+    console.log('✅ Long format verified');
+  });
+
+  test('✅ Should write JSON Lines, a codebook CSV and a labelled .sav', () => {
+    console.log('🧾 Testing output files');
+
+    const codebook = buildCodebook(versions, { includeMetadata: false });
+    const lines = buildJsonLines(codebook, responses, versions).trimEnd().split('\n').map(line => JSON.parse(line));
+
+    expect(lines[0]).toMatchObject({
+      participant_id: 'abc123', stakeholder_group: 'Teachers', survey_version: 'v1', submitted_at: '2026-10-01T12:00:00.000Z',
+      tech_use: 'Weekly', tech_use_code: 2, comfort: 3, comfort_code: 3, q_to: null,
+    });
+    expect(lines[1]).toMatchObject({ stakeholder_group: 'Students', tech_use_code: 3, q_to: 'Teachers', concerns: null });
+
+    const codebookRows = codebookCsv(codebook).split('\r\n');
+    expect(codebookRows[0]).toBe('variable,label,question_id,question_type,storage,measure,value_labels,versions');
+    expect(codebookRows).toContain('tech_use,How often do you use AI tools?,tech_use,multiple_choice,numeric,nominal,1=Never; 2=Weekly; 3=Daily,v1; v2');
+
+    const sav = buildSavExport(codebook, responses, versions, 'Test export');
+    expect(sav.toString('ascii', 0, 4)).toBe('$FL2');
+    // Case count in the header
+    expect(sav.readInt32LE(80)).toBe(2);
+    expect(sav.includes(Buffer.from('TECH_USE=tech_use'))).toBe(true);
+
+    console.log('✅ Output files verified');
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Response Detail Assembly Tests
+ * @rule 380 "Comprehensive testing standards with visual organization"
+ * @rule 105 "TypeScript strict typing for tests"
+ */
+
+import { buildAnswerSheet } from '@/lib/response-detail';
+import type { SurveyQuestion } from '@/lib/validation';
+
+const questions: SurveyQuestion[] = [
+  {
+    id: 'q1_ai_use',
+    text: 'How do you use AI tools?',
+    type: 'open_ended',
+    required: true,
+  },
+  {
+    id: 'q1_followup',
+    text: 'Which tool is most useful?',
+    type: 'open_ended',
+    required: false,
+    branching: {
+      action: 'show',
+      match: 'any',
+      conditions: [{ questionId: 'q1_ai_use', operator: 'contains', keywords: ['chatgpt'] }],
+    },
+  },
+  {
+    id: 'q2_comfort',
+    text: 'How comfortable are you with AI?',
+    type: 'likert',
+    required: true,
+    validation: { min: 1, max: 7 },
+  },
+  {
+    id: 'q3_policy',
+    text: 'Does your school have an AI policy?',
+    type: 'multiple_choice',
+    required: false,
+    options: ['Yes', 'No', 'Not sure'],
+  },
+];
+
+describe('📄 Response Detail Tests', () => {
+  beforeEach(() => {
+    console.log('🧪 Setting up response detail test environment');
+  });
+
+  test('✅ Should list every question in order with its answer', () => {
+    console.log('📋 Testing answer sheet order');
+
+    const sheet = buildAnswerSheet(questions, {
+      q2_comfort: 6,
+      q1_ai_use: 'Mostly ChatGPT for lesson plans',
+      q1_followup: 'ChatGPT',
+      q3_policy: 'No',
+    });
+
+    expect(sheet.items.map(item => item.questionId)).toEqual(['q1_ai_use', 'q1_followup', 'q2_comfort', 'q3_policy']);
+    expect(sheet.items.map(item => item.number)).toEqual([1, 2, 3, 4]);
+    expect(sheet.items.every(item => item.status === 'answered')).toBe(true);
+    expect(sheet.items[2].scale).toEqual({ min: 1, max: 7 });
+    expect(sheet.items[3].options).toEqual(['Yes', 'No', 'Not sure']);
+
+    console.log('✅ Answer sheet ordered');
+  });
+
+  test('✅ Should separate skipped questions from ones branching hid', () => {
+    console.log('🔀 Testing skipped and hidden questions');
+
+    const sheet = buildAnswerSheet(questions, {
+      q1_ai_use: 'I do not use any tools yet',
+      q1_followup: 'Left over from an earlier answer',
+      q2_comfort: 2,
+      q3_policy: '   ',
+    });
+
+    expect(sheet.items[1].status).toBe('hidden');
+    expect(sheet.items[3].status).toBe('skipped');
+
+    console.log('✅ Skipped and hidden questions marked');
+  });
+
+  test('✅ Should keep answers to removed questions and drop bookkeeping keys', () => {
+    console.log('🗂️ Testing unmatched answers');
+
+    const sheet = buildAnswerSheet(questions, {
+      q1_ai_use: 'Copilot',
+      q9_removed: 'Still here',
+      _submissionVersion: 2,
+    });
+
+    expect(sheet.unmatched).toEqual([{ questionId: 'q9_removed', answer: 'Still here' }]);
+
+    console.log('✅ Unmatched answers kept');
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * Response List Filter Tests
+ * @rule 380 "Comprehensive testing standards with visual organization"
+ * @rule 105 "TypeScript strict typing for tests"
+ */
+
+import { ResponseQuerySchema, toLikePattern } from '@/lib/response-filters';
+
+describe('🔎 Response Filter Tests', () => {
+  beforeEach(() => {
+    console.log('🧪 Setting up response filter test environment');
+  });
+
+  test('✅ Should parse query string filters with defaults', () => {
+    console.log('🧾 Testing query parsing');
+
+    const query = ResponseQuerySchema.parse({
+      group: 'Teachers',
+      versionId: '3',
+      cursor: '120',
+      from: '2026-10-01T00:00:00.000Z',
+    });
+
+    expect(query).toMatchObject({ group: 'Teachers', versionId: 3, cursor: 120, limit: 25, sort: 'newest' });
+    expect(query.from).toEqual(new Date('2026-10-01T00:00:00.000Z'));
+
+    console.log('✅ Query parsed');
+  });
+
+  test('❌ Should reject unknown groups, oversized pages and reversed dates', () => {
+    console.log('🚫 Testing invalid queries');
+
+    expect(ResponseQuerySchema.safeParse({ group: 'Parents' }).success).toBe(false);
+    expect(ResponseQuerySchema.safeParse({ limit: '500' }).success).toBe(false);
+    expect(ResponseQuerySchema.safeParse({ search: 'a' }).success).toBe(false);
+    expect(ResponseQuerySchema.safeParse({
+      from: '2026-10-18T00:00:00.000Z',
+      to: '2026-10-01T00:00:00.000Z',
+    }).success).toBe(false);
+
+    console.log('✅ Invalid queries rejected');
+  });
+
+  test('✅ Should treat LIKE wildcards in searches literally', () => {
+    console.log('🔤 Testing search escaping');
+
+    expect(toLikePattern('AI')).toBe('%AI%');
+    expect(toLikePattern('100%_done')).toBe('%100\\%\\_done%');
+
+    console.log('✅ Wildcards escaped');
+  });
+});
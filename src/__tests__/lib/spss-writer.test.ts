@@ -0,0 +1,188 @@
+/**
+ * SPSS System File Writer Tests
+ * @rule 380 "Comprehensive testing standards with visual organization"
+ * @rule 105 "TypeScript strict typing for tests"
+ */
+
+import { shortVariableNames, toSpssDateTime, truncateUtf8, writeSavFile, type SavFile } from '@/lib/spss-writer';
+
+interface ReadVariable {
+  shortName: string;
+  width: number;
+  label: string | null;
+}
+
+/**
+ * Reads back the parts of a .sav file the writer produces, following the record layout
+ */
+function readSav(buffer: Buffer) {
+  let offset = 0;
+  const int32 = () => { offset += 4; return buffer.readInt32LE(offset - 4); };
+  const float64 = () => { offset += 8; return buffer.readDoubleLE(offset - 8); };
+  const text = (length: number) => { offset += length; return buffer.toString('utf8', offset - length, offset); };
+
+  const magic = text(4);
+  text(60);
+  const [layout, caseSize, compression, , caseCount] = [int32(), int32(), int32(), int32(), int32()];
+  const bias = float64();
+  const created = text(17);
+  const fileLabel = text(64).trimEnd();
+  text(3);
+
+  const variables: ReadVariable[] = [];
+  const valueLabels: Array<{ labels: Array<[number, string]>; positions: number[] }> = [];
+  const extensions = new Map<number, Buffer>();
+
+  for (let type = int32(); type !== 999; type = int32()) {
+    if (type === 2) {
+      const [width, hasLabel] = [int32(), int32(), int32(), int32(), int32()];
+      const shortName = text(8).trimEnd();
+      let label: string | null = null;
+      if (hasLabel) {
+        const length = int32();
+        label = text(Math.ceil(length / 4) * 4).slice(0, length);
+      }
+      variables.push({ shortName, width, label });
+    } else if (type === 3) {
+      const labels: Array<[number, string]> = [];
+      for (let count = int32(); count > 0; count--) {
+        const value = float64();
+        const length = buffer.readUInt8(offset);
+        labels.push([value, buffer.toString('utf8', offset + 1, offset + 1 + length)]);
+        offset += Math.ceil((length + 1) / 8) * 8;
+      }
+      expect(int32()).toBe(4);
+      const positions = Array.from({ length: int32() }, () => int32());
+      valueLabels.push({ labels, positions });
+    } else if (type === 7) {
+      const [subtype, size, count] = [int32(), int32(), int32()];
+      extensions.set(subtype, buffer.subarray(offset, offset + size * count));
+      offset += size * count;
+    } else {
+      throw new Error(`Unexpected record type ${type}`);
+    }
+  }
+  int32();
+
+  return { magic, layout, caseSize, compression, caseCount, bias, created, fileLabel, variables, valueLabels, extensions, data: buffer.subarray(offset) };
+}
+
+const file: SavFile = {
+  label: 'Pilot export',
+  createdAt: new Date('2026-10-18T09:05:03Z'),
+  variables: [
+    { name: 'participant_id', label: 'Participant ID', type: 'string', measure: 'nominal' },
+    { name: 'tech_use', label: 'How often do you use AI tools?', type: 'numeric', measure: 'nominal', valueLabels: [{ value: 1, label: 'Never' }, { value: 2, label: 'Daily' }] },
+    { name: 'submitted_at', type: 'datetime', measure: 'scale' },
+  ],
+  cases: [
+    ['a1b2c3d4e5', 2, new Date('2026-10-01T12:00:00Z')],
+    ['f6', null, null],
+  ],
+};
+
+describe('💾 SPSS Writer Tests', () => {
+  beforeEach(() => {
+    console.log('🧪 Setting up SPSS writer test environment');
+  });
+
+  test('✅ Should write the header and a dictionary with continuation records', () => {
+    console.log('📋 Testing dictionary');
+
+    const sav = readSav(writeSavFile(file));
+
+    expect(sav.magic).toBe('$FL2');
+    expect([sav.layout, sav.compression, sav.caseCount, sav.bias]).toEqual([2, 0, 2, 100]);
+    expect(sav.created).toBe('18 Oct 2609:05:03');
+    expect(sav.fileLabel).toBe('Pilot export');
+    // A 10-byte string takes two slots, so the case is four slots wide
+    expect(sav.caseSize).toBe(4);
+    expect(sav.variables).toEqual([
+      { shortName: 'PARTICIP', width: 10, label: 'Participant ID' },
+      { shortName: '', width: -1, label: null },
+      { shortName: 'TECH_USE', width: 0, label: 'How often do you use AI tools?' },
+      { shortName: 'SUBMITTE', width: 0, label: null },
+    ]);
+    expect(sav.valueLabels).toEqual([{ labels: [[1, 'Never'], [2, 'Daily']], positions: [3] }]);
+
+    console.log('✅ Dictionary verified');
+  });
+
+  test('✅ Should record long names, encoding and measurement levels', () => {
+    console.log('🏷️ Testing extension records');
+
+    const { extensions } = readSav(writeSavFile(file));
+
+    expect(extensions.get(13)?.toString('utf8')).toBe('PARTICIP=participant_id\tTECH_USE=tech_use\tSUBMITTE=submitted_at');
+    expect(extensions.get(20)?.toString('ascii')).toBe('UTF-8');
+    expect(extensions.get(3)?.readInt32LE(28)).toBe(65001);
+    const display = extensions.get(11);
+    expect(display && [0, 3, 6].map(index => display.readInt32LE(index * 4))).toEqual([1, 1, 3]);
+
+    console.log('✅ Extension records verified');
+  });
+
+  test('✅ Should write cases with padded strings and system-missing numbers', () => {
+    console.log('🔢 Testing case data');
+
+    const { data } = readSav(writeSavFile(file));
+
+    expect(data.length).toBe(2 * 4 * 8);
+    expect(data.toString('utf8', 0, 16)).toBe('a1b2c3d4e5      ');
+    expect(data.readDoubleLE(16)).toBe(2);
+    expect(data.readDoubleLE(24)).toBe(toSpssDateTime(new Date('2026-10-01T12:00:00Z')));
+    expect(data.toString('utf8', 32, 48)).toBe('f6              ');
+    expect(data.readDoubleLE(48)).toBe(-Number.MAX_VALUE);
+    expect(data.readDoubleLE(56)).toBe(-Number.MAX_VALUE);
+
+    console.log('✅ Case data verified');
+  });
+
+  test('✅ Should split strings over 255 bytes into very long string segments', () => {
+    console.log('📜 Testing very long strings');
+
+    const answer = 'a'.repeat(252) + 'b'.repeat(252) + 'c'.repeat(96);
+    const sav = readSav(writeSavFile({
+      variables: [
+        { name: 'concerns', label: 'What concerns you?', type: 'string', measure: 'nominal' },
+        { name: 'concerns_2', type: 'numeric', measure: 'scale' },
+      ],
+      cases: [[answer, 1]],
+    }));
+
+    // 600 bytes: two 255-byte segments carrying 252 each, then the last 96
+    const named = sav.variables.filter(variable => variable.width !== -1);
+    expect(named).toEqual([
+      { shortName: 'CONCERNS', width: 255, label: 'What concerns you?' },
+      { shortName: 'CONCERN2', width: 255, label: null },
+      { shortName: 'CONCERN3', width: 96, label: null },
+      // Real variables are named before segments, so they keep the names they'd have without them
+      { shortName: 'CONCERN1', width: 0, label: null },
+    ]);
+    expect(sav.caseSize).toBe(32 + 32 + 12 + 1);
+    expect(sav.extensions.get(14)?.toString('utf8')).toBe('CONCERNS=00600\0\t');
+    expect(sav.extensions.get(13)?.toString('utf8')).toBe('CONCERNS=concerns\tCONCERN1=concerns_2');
+    expect(sav.extensions.get(11)?.length).toBe(4 * 3 * 4);
+
+    expect(sav.data.toString('utf8', 0, 256)).toBe('a'.repeat(252) + '    ');
+    expect(sav.data.toString('utf8', 256, 512)).toBe('b'.repeat(252) + '    ');
+    expect(sav.data.toString('utf8', 512, 608)).toBe('c'.repeat(96));
+    expect(sav.data.readDoubleLE(608)).toBe(1);
+
+    console.log('✅ Very long strings verified');
+  });
+
+  test('✅ Should cut text on character boundaries and keep short names unique', () => {
+    console.log('✂️ Testing names and truncation');
+
+    expect(truncateUtf8('café au lait', 4).toString('utf8')).toBe('caf');
+    expect(truncateUtf8('abc', 8).toString('utf8')).toBe('abc');
+    expect(shortVariableNames(['teacher_q1', 'teacher_q2', 'teacher_q1_codes', 'age'])).toEqual([
+      'TEACHER_', 'TEACHER1', 'TEACHER2', 'AGE',
+    ]);
+    // 1 Jan 1970 is 141428 days after the SPSS epoch
+    expect(toSpssDateTime(new Date(0))).toBe(141428 * 86400);
+
+    console.log('✅ Names and truncation verified');
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * Submission History Diff Tests
+ * @rule 380 "Comprehensive testing standards with visual organization"
+ * @rule 105 "TypeScript strict typing for tests"
+ */
+
+import { buildSubmissionDiff, compareAnswers } from '@/lib/submission-diff';
+import type { SurveyQuestion } from '@/lib/validation';
+
+const versionOne: SurveyQuestion[] = [
+  { id: 'q1_ai_use', text: 'How do you use AI tools?', type: 'open_ended', required: true },
+  { id: 'q2_comfort', text: 'How comfortable are you with AI?', type: 'likert', required: true },
+  { id: 'q3_tools', text: 'Which tools have you tried?', type: 'multiple_choice', required: false, options: ['ChatGPT', 'Copilot', 'Gemini'] },
+];
+
+const versionTwo: SurveyQuestion[] = [
+  { id: 'q2_comfort', text: 'How comfortable are you using AI tools?', type: 'likert', required: true },
+  { id: 'q1_ai_use', text: 'How do you use AI tools?', type: 'open_ended', required: true },
+  { id: 'q4_training', text: 'Have you had AI training?', type: 'multiple_choice', required: false, options: ['Yes', 'No'] },
+];
+
+describe('🔁 Submission Diff Tests', () => {
+  beforeEach(() => {
+    console.log('🧪 Setting up submission diff test environment');
+  });
+
+  test('✅ Should classify answer changes', () => {
+    console.log('⚖️ Testing answer comparison');
+
+    expect(compareAnswers('Lesson plans', ' Lesson plans ')).toBe('unchanged');
+    expect(compareAnswers(['Copilot', 'ChatGPT'], ['ChatGPT', 'Copilot'])).toBe('unchanged');
+    expect(compareAnswers(3, 5)).toBe('changed');
+    expect(compareAnswers(null, 'Yes')).toBe('added');
+    expect(compareAnswers('Yes', null)).toBe('removed');
+
+    console.log('✅ Answer changes classified');
+  });
+
+  test('✅ Should line up submissions in the latest question order', () => {
+    console.log('📋 Testing row order across versions');
+
+    const diff = buildSubmissionDiff([
+      { id: 1, questions: versionOne, responses: { q1_ai_use: 'Not at all', q2_comfort: 2, q3_tools: ['ChatGPT'] } },
+      { id: 4, questions: versionTwo, responses: { q1_ai_use: 'Not at all', q2_comfort: 5, q4_training: 'Yes' } },
+    ]);
+
+    expect(diff.rows.map(row => row.questionId)).toEqual(['q2_comfort', 'q1_ai_use', 'q4_training', 'q3_tools']);
+    expect(diff.rows[0].text).toBe('How comfortable are you using AI tools?');
+    expect(diff.rows.map(row => row.changes)).toEqual([
+      [null, 'changed'],
+      [null, 'unchanged'],
+      [null, 'added'],
+      [null, 'removed'],
+    ]);
+    expect(diff.changedCounts).toEqual([0, 3]);
+
+    console.log('✅ Submissions lined up');
+  });
+
+  test('✅ Should keep answers to removed questions', () => {
+    console.log('🗂️ Testing unmatched answers');
+
+    const diff = buildSubmissionDiff([
+      { id: 2, questions: versionOne, responses: { q1_ai_use: 'Grading', q9_removed: 'Old answer' } },
+      { id: 3, questions: versionOne, responses: { q1_ai_use: 'Grading' } },
+    ]);
+
+    const removed = diff.rows.find(row => row.questionId === 'q9_removed');
+    expect(removed?.answers).toEqual(['Old answer', null]);
+    expect(removed?.changes).toEqual([null, 'removed']);
+
+    console.log('✅ Unmatched answers kept');
+  });
+});
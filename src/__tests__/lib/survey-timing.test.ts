@@ -0,0 +1,90 @@
+/**
+ * Survey Timing Tests
+ * @rule 380 "Comprehensive testing standards with visual organization"
+ * @rule 105 "TypeScript strict typing for tests"
+ */
+
+import {
+  enterQuestion,
+  IDLE_THRESHOLD_MS,
+  recordActivity,
+  recordHidden,
+  recordVisible,
+  startTiming,
+  summarizeTiming,
+  toStoredTiming,
+} from '@/lib/survey-timing';
+
+const START = Date.parse('2026-10-18T09:00:00.000Z');
+const seconds = (count: number) => START + count * 1000;
+
+describe('⏱️ Survey Timing Tests', () => {
+  beforeEach(() => {
+    console.log('🧪 Setting up survey timing test environment');
+  });
+
+  test('✅ Should credit active time to the question on screen', () => {
+    console.log('📝 Testing dwell time');
+
+    let state = startTiming(START);
+    state = enterQuestion(state, 'q1', seconds(2));
+    state = recordActivity(state, seconds(20));
+    state = enterQuestion(state, 'q2', seconds(45));
+    const timing = summarizeTiming(state, seconds(55));
+
+    expect(timing.startedAt).toBe('2026-10-18T09:00:00.000Z');
+    expect(timing.questionTimes).toEqual({ q1: 43, q2: 10 });
+    expect(timing.activeSeconds).toBe(53);
+    expect(timing.idleSeconds).toBe(0);
+
+    console.log('✅ Dwell time credited');
+  });
+
+  test('✅ Should count long pauses and hidden tabs as idle', () => {
+    console.log('💤 Testing idle gaps');
+
+    let state = enterQuestion(startTiming(START), 'q1', START);
+    state = recordActivity(state, START + IDLE_THRESHOLD_MS + 30_000);
+    state = recordHidden(state, seconds(100));
+    state = recordActivity(state, seconds(200)); // ignored while hidden
+    state = recordVisible(state, seconds(400));
+    const timing = summarizeTiming(state, seconds(410));
+
+    expect(timing.questionTimes).toEqual({ q1: 60 + 10 + 10 });
+    expect(timing.idleSeconds).toBe(30 + 300);
+    expect(timing.idleGaps).toBe(2);
+
+    console.log('✅ Idle gaps recorded');
+  });
+
+  test('✅ Should measure completion on the server and drop unknown questions', () => {
+    console.log('🛡️ Testing stored timings');
+
+    const now = new Date(seconds(300));
+    const stored = toStoredTiming({
+      startedAt: new Date(START).toISOString(),
+      activeSeconds: 999,
+      idleSeconds: 900,
+      idleGaps: 1,
+      questionTimes: { q1: 120, q2: 100, q_hidden: 50 },
+    }, ['q1', 'q2'], now);
+
+    expect(stored).toEqual({
+      startedAt: new Date(START),
+      completionTime: 300,
+      activeTime: 220,
+      idleTime: 80,
+      questionTimings: { q1: 120, q2: 100 },
+    });
+
+    expect(toStoredTiming({
+      startedAt: new Date(seconds(600)).toISOString(),
+      activeSeconds: 0,
+      idleSeconds: 0,
+      idleGaps: 0,
+      questionTimes: {},
+    }, [], now)).toBeNull();
+
+    console.log('✅ Stored timings checked');
+  });
+});
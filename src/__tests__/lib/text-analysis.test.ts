@@ -0,0 +1,88 @@
+/**
+ * Open-Ended Text Analysis Tests
+ * @rule 380 "Comprehensive testing standards with visual organization"
+ * @rule 105 "TypeScript strict typing for tests"
+ */
+
+import {
+  analyzeAnswers,
+  findThemes,
+  inverseDocumentFrequency,
+  phrases,
+  tfidfKeywords,
+  tokenize,
+  topPhrases,
+  topTerms,
+} from '@/lib/text-analysis';
+
+const answers = [
+  { group: 'Teachers', text: 'Students use ChatGPT for cheating on essays.' },
+  { group: 'Teachers', text: 'We need training on AI detection and cheating policies.' },
+  { group: 'Teachers', text: 'More training, and clear policies about cheating!' },
+  { group: 'Students', text: 'ChatGPT helps me brainstorm essays and study for math.' },
+  { group: 'Students', text: 'I use ChatGPT to study math and check essays.' },
+];
+
+describe('🔤 Text Analysis Tests', () => {
+  beforeEach(() => {
+    console.log('🧪 Setting up text analysis test environment');
+  });
+
+  test('✅ Should tokenize without stop words, numbers or possessives', () => {
+    console.log('✂️ Testing tokenization');
+
+    expect(tokenize("The student’s AI tools don't help in 2024 - it's ChatGPT!")).toEqual([
+      'student', 'ai', 'tools', "don't", 'help', 'chatgpt',
+    ]);
+    expect(phrases(['clear', 'policies', 'cheating'])).toEqual(['clear policies', 'policies cheating']);
+
+    console.log('✅ Tokenization verified');
+  });
+
+  test('✅ Should count words and repeated phrases deterministically', () => {
+    console.log('📊 Testing frequencies');
+
+    const documents = answers.map(answer => tokenize(answer.text));
+    const terms = topTerms(documents, 3);
+
+    // Equally frequent words are listed alphabetically
+    expect(terms[1]).toEqual({ term: 'cheating', count: 3, answers: 3 });
+    expect(terms.map(entry => entry.term)).toEqual(['chatgpt', 'cheating', 'essays']);
+    expect(topPhrases(documents).map(entry => entry.term)).toEqual(['study math']);
+    expect(topTerms([...documents].reverse(), 3)).toEqual(terms);
+
+    console.log('✅ Frequencies verified');
+  });
+
+  test('✅ Should weight group keywords against all answers', () => {
+    console.log('⚖️ Testing TF-IDF keywords');
+
+    const documents = answers.map(answer => tokenize(answer.text));
+    const idf = inverseDocumentFrequency(documents);
+    const studentKeywords = tfidfKeywords(documents.slice(3), idf, 3);
+
+    expect(idf.get('math')).toBeGreaterThan(idf.get('essays') || 0);
+    expect(studentKeywords.map(keyword => keyword.term)).toEqual(['math', 'study', 'chatgpt']);
+    expect(tfidfKeywords([], idf)).toEqual([]);
+
+    console.log('✅ TF-IDF keywords verified');
+  });
+
+  test('✅ Should cluster co-occurring words into themes and summarize per group', () => {
+    console.log('🧩 Testing themes');
+
+    const themes = findThemes(answers.map(answer => tokenize(answer.text)));
+
+    expect(themes).toEqual([
+      { terms: ['chatgpt', 'essays', 'math', 'study'], answers: 3 },
+      { terms: ['cheating', 'policies', 'training'], answers: 3 },
+    ]);
+
+    const analysis = analyzeAnswers(answers);
+    expect(analysis.overall.answers).toBe(5);
+    expect(analysis.byGroup.map(group => group.group)).toEqual(['Teachers', 'Students']);
+    expect(analysis.byGroup[0].keywords[0].term).toBe('cheating');
+
+    console.log('✅ Themes verified');
+  });
+});
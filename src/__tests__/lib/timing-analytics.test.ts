@@ -0,0 +1,95 @@
+/**
+ * Response Timing Analytics Tests
+ * @rule 380 "Comprehensive testing standards with visual organization"
+ * @rule 105 "TypeScript strict typing for tests"
+ */
+
+import { findSpeeders, summarizeDurations, summarizeQuestionTimes, type TimedResponse } from '@/lib/timing-analytics';
+
+function timed(
+  id: number,
+  completionTime: number,
+  versionId = 1,
+  questionTimings: unknown = null,
+  activeTime: number | null = null
+): TimedResponse {
+  return {
+    id,
+    email: `p${id}@school.org`,
+    group: 'Teachers',
+    versionId,
+    completionTime,
+    activeTime,
+    idleTime: null,
+    questionTimings,
+  };
+}
+
+describe('🐇 Timing Analytics Tests', () => {
+  beforeEach(() => {
+    console.log('🧪 Setting up timing analytics test environment');
+  });
+
+  test('✅ Should summarize durations with percentiles', () => {
+    console.log('📏 Testing duration summary');
+
+    expect(summarizeDurations([])).toBeNull();
+    expect(summarizeDurations([100, 200, 300, 400, 500])).toEqual({
+      count: 5, mean: 300, median: 300, p25: 200, p75: 400, p90: 460,
+    });
+
+    console.log('✅ Durations summarized');
+  });
+
+  test('✅ Should flag responses far below their version median', () => {
+    console.log('🚩 Testing speeder detection');
+
+    const responses = [
+      timed(1, 600), timed(2, 540), timed(3, 660), timed(4, 90), timed(5, 700), timed(6, 200),
+      // Too few responses on version 2 to judge
+      timed(7, 10, 2), timed(8, 500, 2),
+    ];
+
+    const speeders = findSpeeders(responses);
+
+    expect(speeders.map(speeder => speeder.id)).toEqual([4, 6]);
+    expect(speeders[0]).toMatchObject({ measure: 'completion', versionMedian: 570, ratio: 0.16 });
+
+    console.log('✅ Speeders flagged');
+  });
+
+  test('✅ Should judge speed on active time, not idle gaps', () => {
+    console.log('💤 Testing active time speeders');
+
+    const responses = [
+      timed(1, 600, 1, null, 500), timed(2, 540, 1, null, 480), timed(3, 660, 1, null, 520),
+      timed(4, 700, 1, null, 510),
+      // Rushed the answers, then left the tab open
+      timed(5, 3000, 1, null, 60),
+    ];
+
+    const speeders = findSpeeders(responses);
+
+    expect(speeders).toHaveLength(1);
+    expect(speeders[0]).toMatchObject({ id: 5, measure: 'active', time: 60, versionMedian: 500, ratio: 0.12 });
+
+    console.log('✅ Active time speeders flagged');
+  });
+
+  test('✅ Should summarize time per question', () => {
+    console.log('⏲️ Testing question timings');
+
+    const timings = summarizeQuestionTimes(
+      [
+        { id: 'q1', text: 'First' },
+        { id: 'q2', text: 'Second' },
+      ],
+      [timed(1, 300, 1, { q1: 40, q2: 5 }), timed(2, 400, 1, { q1: 80 }), timed(3, 200, 1, 'not timings')]
+    );
+
+    expect(timings[0].summary).toMatchObject({ count: 2, median: 60 });
+    expect(timings[1].summary).toMatchObject({ count: 1, median: 5 });
+
+    console.log('✅ Question timings summarized');
+  });
+});
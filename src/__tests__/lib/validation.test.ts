@@ -8,7 +8,9 @@ import {
   validateQuestionResponse, 
   validateSurveyResponses, 
   sanitizeHtml, 
-  sanitizeTextInput 
+  sanitizeTextInput,
+  QuestionSchema,
+  QuestionListSchema,
 } from '@/lib/validation';
 
 describe('🛡️ Input Validation and Security Tests', () => {
@@ -247,4 +249,58 @@ describe('🛡️ Input Validation and Security Tests', () => {
       console.log('✅ Input length limiting working');
     });
   });
+
+  describe('QuestionSchema', () => {
+    test('✅ Should accept questions in the seeded shape', () => {
+      console.log('📋 Testing question definition validation');
+
+      const question = {
+        id: 'q1_tech_use',
+        text: 'How do you currently use technology in your classrooms?',
+        type: 'open_ended',
+        required: true,
+        placeholder: 'Describe your current technology use...',
+        validation: { minLength: 50, maxLength: 1000 },
+        branching: {},
+      };
+
+      expect(QuestionSchema.safeParse(question).success).toBe(true);
+
+      console.log('✅ Seeded question shape accepted');
+    });
+
+    test('❌ Should reject incomplete question definitions', () => {
+      console.log('🚫 Testing invalid question definitions');
+
+      const invalidQuestions = [
+        { id: 'q1', text: '', type: 'open_ended', required: true },
+        { id: 'Q 1', text: 'Valid text', type: 'open_ended', required: true },
+        { id: 'q1', text: 'Pick one', type: 'multiple_choice', required: true, options: ['Only'] },
+        { id: 'q1', text: 'Pick one', type: 'multiple_choice', required: true, options: ['A', 'A'] },
+        { id: 'q1', text: 'Rate it', type: 'likert', required: true, validation: { min: 5, max: 1 } },
+        { id: 'q1', text: 'Describe', type: 'essay', required: true },
+      ];
+
+      invalidQuestions.forEach(question => {
+        expect(QuestionSchema.safeParse(question).success).toBe(false);
+      });
+
+      console.log('✅ Invalid question definitions rejected');
+    });
+
+    test('❌ Should reject duplicate question IDs', () => {
+      console.log('🔁 Testing duplicate question ID detection');
+
+      const questions = [
+        { id: 'q1', text: 'First', type: 'open_ended', required: true },
+        { id: 'q1', text: 'Second', type: 'open_ended', required: false },
+      ];
+
+      const result = QuestionListSchema.safeParse(questions);
+      expect(result.success).toBe(false);
+      expect(QuestionListSchema.safeParse([]).success).toBe(false);
+
+      console.log('✅ Duplicate question IDs rejected');
+    });
+  });
 });
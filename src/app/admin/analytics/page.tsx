@@ -0,0 +1,416 @@
+/**
+ * Admin Question Analytics Page
+ * Answer distributions, statistics and skip rates for every question, compared
+ * across stakeholder groups, with a cross-tabulation of any two choice questions
+ * and response timing
+ * @rule 042 "UI component architecture with data display"
+ * @rule 054 "Accessibility requirements for dashboard"
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { BarChart3, Loader2, X } from 'lucide-react';
+import { ResponseTiming } from '@/components/admin/ResponseTiming';
+import { STAKEHOLDER_GROUPS } from '@/lib/validation';
+import type { CrossTabulation, QuestionAnalytics, QuestionTally } from '@/lib/question-analytics';
+
+interface AnalyticsFilters {
+  group: string;
+  versionId: string;
+  from: string;
+  to: string;
+  submissions: string;
+}
+
+interface CrossTabSelection {
+  rowQuestionId: string;
+  columnQuestionId: string;
+}
+
+interface AnalyticsData {
+  respondents: number;
+  excludedTestAccounts: boolean;
+  questions: QuestionAnalytics[];
+  crossTab: CrossTabulation | null;
+  filterOptions: { versions: { id: number; version: string; group: string }[] };
+}
+
+const emptyFilters: AnalyticsFilters = {
+  group: 'all',
+  versionId: 'all',
+  from: '',
+  to: '',
+  submissions: 'latest',
+};
+
+const emptyCrossTab: CrossTabSelection = { rowQuestionId: '', columnQuestionId: '' };
+
+const QUESTION_TYPE_LABELS: Record<string, string> = {
+  open_ended: 'Open-ended',
+  multiple_choice: 'Multiple choice',
+  likert: 'Likert',
+};
+
+function buildAnalyticsParams(filters: AnalyticsFilters, crossTab: CrossTabSelection) {
+  const params = new URLSearchParams({ submissions: filters.submissions });
+  if (filters.group !== 'all') params.set('group', filters.group);
+  if (filters.versionId !== 'all') params.set('versionId', filters.versionId);
+  // Date inputs are local calendar days - include the whole of the end day
+  if (filters.from) params.set('from', new Date(`${filters.from}T00:00:00`).toISOString());
+  if (filters.to) params.set('to', new Date(`${filters.to}T23:59:59.999`).toISOString());
+  if (crossTab.rowQuestionId && crossTab.columnQuestionId) {
+    params.set('rowQuestionId', crossTab.rowQuestionId);
+    params.set('columnQuestionId', crossTab.columnQuestionId);
+  }
+  return params;
+}
+
+function DistributionBars({ tally }: { tally: QuestionTally }) {
+  return (
+    <ul className="space-y-2" aria-label="Answer distribution">
+      {tally.distribution.map(category => (
+        <li key={category.value} className="grid grid-cols-[8rem_1fr_6rem] items-center gap-3 text-sm">
+          <span className="truncate" title={category.value}>{category.value}</span>
+          <div className="h-4 rounded bg-muted overflow-hidden" aria-hidden="true">
+            <div className="h-full bg-primary" style={{ width: `${category.percent}%` }} />
+          </div>
+          <span className="text-right tabular-nums">
+            {category.count} ({category.percent}%)
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function GroupComparison({ question }: { question: QuestionAnalytics }) {
+  const tallies = [...question.byGroup, question.overall];
+  const groupLabel = (tally: QuestionTally) => tally.group === 'all' ? 'All groups' : tally.group.replace('_', ' ');
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Group</TableHead>
+          <TableHead className="text-right">Answered</TableHead>
+          <TableHead className="text-right">Skip rate</TableHead>
+          {question.type === 'likert' && (
+            <>
+              <TableHead className="text-right">Mean</TableHead>
+              <TableHead className="text-right">Median</TableHead>
+              <TableHead className="text-right">Std. dev.</TableHead>
+            </>
+          )}
+          {question.type === 'multiple_choice' && question.overall.distribution.map(category => (
+            <TableHead key={category.value} className="text-right">{category.value}</TableHead>
+          ))}
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {tallies.map(tally => (
+          <TableRow key={tally.group} className={tally.group === 'all' ? 'font-medium' : ''}>
+            <TableCell>{groupLabel(tally)}</TableCell>
+            <TableCell className="text-right tabular-nums">{tally.answered} / {tally.shown}</TableCell>
+            <TableCell className="text-right tabular-nums">{tally.skipRate}%</TableCell>
+            {question.type === 'likert' && (
+              <>
+                <TableCell className="text-right tabular-nums">{tally.summary?.mean ?? '-'}</TableCell>
+                <TableCell className="text-right tabular-nums">{tally.summary?.median ?? '-'}</TableCell>
+                <TableCell className="text-right tabular-nums">{tally.summary?.stdDev ?? '-'}</TableCell>
+              </>
+            )}
+            {question.type === 'multiple_choice' && question.overall.distribution.map(category => (
+              <TableCell key={category.value} className="text-right tabular-nums">
+                {tally.distribution.find(entry => entry.value === category.value)?.percent ?? 0}%
+              </TableCell>
+            ))}
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+function CrossTabTable({ crossTab, rowLabel }: { crossTab: CrossTabulation; rowLabel: string }) {
+  return (
+    <div className="overflow-x-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>{rowLabel}</TableHead>
+            {crossTab.columnCategories.map(category => (
+              <TableHead key={category} className="text-right">{category}</TableHead>
+            ))}
+            <TableHead className="text-right">Total</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {crossTab.rowCategories.map((category, rowIndex) => {
+            const rowTotal = crossTab.rowTotals[rowIndex];
+            return (
+              <TableRow key={category}>
+                <TableCell className="font-medium">{category}</TableCell>
+                {crossTab.counts[rowIndex].map((count, columnIndex) => (
+                  <TableCell key={crossTab.columnCategories[columnIndex]} className="text-right tabular-nums">
+                    {count}
+                    {rowTotal > 0 && (
+                      <span className="text-muted-foreground"> ({Math.round((count / rowTotal) * 1000) / 10}%)</span>
+                    )}
+                  </TableCell>
+                ))}
+                <TableCell className="text-right tabular-nums font-medium">{rowTotal}</TableCell>
+              </TableRow>
+            );
+          })}
+          <TableRow className="font-medium">
+            <TableCell>Total</TableCell>
+            {crossTab.columnTotals.map((total, columnIndex) => (
+              <TableCell key={crossTab.columnCategories[columnIndex]} className="text-right tabular-nums">{total}</TableCell>
+            ))}
+            <TableCell className="text-right tabular-nums">{crossTab.total}</TableCell>
+          </TableRow>
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
+
+export default function AdminAnalyticsPage() {
+  const [data, setData] = useState<AnalyticsData | null>(null);
+  const [filters, setFilters] = useState<AnalyticsFilters>(emptyFilters);
+  const [crossTab, setCrossTab] = useState<CrossTabSelection>(emptyCrossTab);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadAnalytics(emptyFilters, emptyCrossTab);
+  }, []);
+
+  const loadAnalytics = async (activeFilters: AnalyticsFilters, activeCrossTab: CrossTabSelection) => {
+    setIsLoading(true);
+    setError('');
+
+    try {
+      console.log('📈 Loading question analytics');
+
+      const response = await fetch(`/api/admin/analytics?${buildAnalyticsParams(activeFilters, activeCrossTab)}`, {
+        credentials: 'include',
+      });
+
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.details?.[0]?.message || result.error || 'Failed to load analytics');
+      }
+
+      setData(result);
+      console.log('✅ Question analytics loaded:', result.questions.length, 'questions');
+
+    } catch (error) {
+      console.error('❌ Failed to load analytics:', error);
+      setError(error instanceof Error ? error.message : 'Failed to load analytics');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const updateFilter = (name: keyof AnalyticsFilters, value: string) => {
+    const updated = { ...filters, [name]: value };
+    setFilters(updated);
+    // The chosen questions may not exist in the new selection
+    setCrossTab(emptyCrossTab);
+    loadAnalytics(updated, emptyCrossTab);
+  };
+
+  const clearFilters = () => {
+    setFilters(emptyFilters);
+    setCrossTab(emptyCrossTab);
+    loadAnalytics(emptyFilters, emptyCrossTab);
+  };
+
+  const updateCrossTab = (name: keyof CrossTabSelection, value: string) => {
+    const updated = { ...crossTab, [name]: value };
+    setCrossTab(updated);
+    if (updated.rowQuestionId && updated.columnQuestionId) {
+      loadAnalytics(filters, updated);
+    }
+  };
+
+  const hasFilters = JSON.stringify(filters) !== JSON.stringify(emptyFilters);
+  const categoricalQuestions = data?.questions.filter(question => question.type !== 'open_ended') || [];
+  const questionText = (id: string) => data?.questions.find(question => question.id === id)?.text || id;
+
+  return (
+    <div className="container mx-auto py-8 px-4 space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <BarChart3 className="h-5 w-5" />
+            <span>Question Analytics</span>
+          </CardTitle>
+          <CardDescription>
+            Complete responses only.
+            {data && <> {data.respondents} respondents in this selection.</>}
+            {data?.excludedTestAccounts && <> Test accounts are excluded in production mode.</>}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-3 items-end">
+            <div className="space-y-1">
+              <Label htmlFor="analytics-group" className="text-xs">Group</Label>
+              <Select value={filters.group} onValueChange={(value) => updateFilter('group', value)}>
+                <SelectTrigger id="analytics-group"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All groups</SelectItem>
+                  {STAKEHOLDER_GROUPS.map(group => (
+                    <SelectItem key={group} value={group}>{group.replace('_', ' ')}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="analytics-version" className="text-xs">Version</Label>
+              <Select value={filters.versionId} onValueChange={(value) => updateFilter('versionId', value)}>
+                <SelectTrigger id="analytics-version"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All versions</SelectItem>
+                  {data?.filterOptions.versions.map(version => (
+                    <SelectItem key={version.id} value={String(version.id)}>{version.version} ({version.group})</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="analytics-from" className="text-xs">From</Label>
+              <Input
+                id="analytics-from"
+                type="date"
+                value={filters.from}
+                onChange={(e) => updateFilter('from', e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="analytics-to" className="text-xs">To</Label>
+              <Input
+                id="analytics-to"
+                type="date"
+                value={filters.to}
+                onChange={(e) => updateFilter('to', e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="analytics-submissions" className="text-xs">Resubmissions</Label>
+              <Select value={filters.submissions} onValueChange={(value) => updateFilter('submissions', value)}>
+                <SelectTrigger id="analytics-submissions"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="latest">Latest per participant</SelectItem>
+                  <SelectItem value="all">Every submission</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          {hasFilters && (
+            <Button variant="ghost" size="sm" className="mt-3" onClick={clearFilters}>
+              <X className="h-4 w-4 mr-2" />
+              Clear filters
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {isLoading && !data ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="text-center space-y-3">
+            <Loader2 className="h-8 w-8 animate-spin mx-auto" />
+            <p className="text-muted-foreground">Loading analytics...</p>
+          </div>
+        </div>
+      ) : data && (
+        <div className={`space-y-6 ${isLoading ? 'opacity-60' : ''}`} aria-busy={isLoading}>
+          {data.questions.length === 0 && (
+            <p className="text-sm text-muted-foreground">No complete responses match these filters.</p>
+          )}
+
+          {data.respondents > 0 && <ResponseTiming query={buildAnalyticsParams(filters, emptyCrossTab).toString()} />}
+
+          {/* Cross-tabulation */}
+          {categoricalQuestions.length >= 2 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Cross-tabulation</CardTitle>
+                <CardDescription>Respondents who answered both questions, with row percentages</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid md:grid-cols-2 gap-3">
+                  <div className="space-y-1">
+                    <Label htmlFor="crosstab-row" className="text-xs">Rows</Label>
+                    <Select value={crossTab.rowQuestionId} onValueChange={(value) => updateCrossTab('rowQuestionId', value)}>
+                      <SelectTrigger id="crosstab-row"><SelectValue placeholder="Choose a question" /></SelectTrigger>
+                      <SelectContent>
+                        {categoricalQuestions.map(question => (
+                          <SelectItem key={question.id} value={question.id}>{question.text}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="crosstab-column" className="text-xs">Columns</Label>
+                    <Select value={crossTab.columnQuestionId} onValueChange={(value) => updateCrossTab('columnQuestionId', value)}>
+                      <SelectTrigger id="crosstab-column"><SelectValue placeholder="Choose a question" /></SelectTrigger>
+                      <SelectContent>
+                        {categoricalQuestions.map(question => (
+                          <SelectItem key={question.id} value={question.id}>{question.text}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                {data.crossTab && (
+                  <CrossTabTable crossTab={data.crossTab} rowLabel={questionText(data.crossTab.rowQuestionId)} />
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Per-question analytics */}
+          {data.questions.map((question, index) => (
+            <Card key={question.id} data-testid="question-analytics">
+              <CardHeader>
+                <CardTitle className="text-base flex items-start justify-between gap-4">
+                  <span>{index + 1}. {question.text}</span>
+                  <Badge variant="outline" className="shrink-0">{QUESTION_TYPE_LABELS[question.type] || question.type}</Badge>
+                </CardTitle>
+                <CardDescription>
+                  {question.overall.answered} answered &middot; {question.overall.skipped} skipped ({question.overall.skipRate}%)
+                  {question.overall.summary && (
+                    <> &middot; mean {question.overall.summary.mean}, median {question.overall.summary.median}, SD {question.overall.summary.stdDev}</>
+                  )}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                {question.overall.distribution.length > 0 && <DistributionBars tally={question.overall} />}
+                {(question.byGroup.length > 1 || question.type !== 'open_ended') && <GroupComparison question={question} />}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
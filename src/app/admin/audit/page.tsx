@@ -0,0 +1,454 @@
+/**
+ * Admin Audit Log Page
+ * Search, inspect and export the record of administrative actions
+ * @rule 042 "UI component architecture with table and filter composition"
+ * @rule 054 "Accessibility requirements for data tables"
+ * @rule 130 "Error handling for audit queries"
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Download, Loader2, Search, ShieldCheck, ShieldAlert, ChevronLeft, ChevronRight } from 'lucide-react';
+
+interface AuditEntry {
+  id: number;
+  createdAt: string;
+  actorEmail: string;
+  actorRole: string | null;
+  action: string;
+  targetType: string | null;
+  targetId: string | null;
+  reason: string | null;
+  before: unknown;
+  after: unknown;
+  ipAddress: string | null;
+  userAgent: string | null;
+  requestPath: string | null;
+  hash: string;
+}
+
+interface AuditFilters {
+  search: string;
+  action: string;
+  actor: string;
+  from: string;
+  to: string;
+}
+
+interface ChainStatus {
+  valid: boolean;
+  checked: number;
+  brokenAtId: number | null;
+}
+
+const PAGE_SIZE = 50;
+
+const emptyFilters: AuditFilters = {
+  search: '',
+  action: 'all',
+  actor: '',
+  from: '',
+  to: '',
+};
+
+function buildQuery(filters: AuditFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  if (filters.search) params.set('search', filters.search);
+  if (filters.action !== 'all') params.set('action', filters.action);
+  if (filters.actor) params.set('actor', filters.actor);
+  // Date inputs are local calendar days - widen "to" to the end of that day
+  if (filters.from) params.set('from', new Date(`${filters.from}T00:00:00`).toISOString());
+  if (filters.to) params.set('to', new Date(`${filters.to}T23:59:59.999`).toISOString());
+  return params;
+}
+
+export default function AuditLogPage() {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [actions, setActions] = useState<string[]>([]);
+  const [filters, setFilters] = useState<AuditFilters>(emptyFilters);
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [total, setTotal] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [selected, setSelected] = useState<AuditEntry | null>(null);
+  const [chainStatus, setChainStatus] = useState<ChainStatus | null>(null);
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [exporting, setExporting] = useState<'csv' | 'json' | null>(null);
+
+  useEffect(() => {
+    loadEntries(emptyFilters, 1);
+  }, []);
+
+  const loadEntries = async (activeFilters: AuditFilters, targetPage: number) => {
+    setIsLoading(true);
+    setError('');
+
+    try {
+      console.log('📜 Loading audit log page', targetPage);
+
+      const params = buildQuery(activeFilters);
+      params.set('page', String(targetPage));
+      params.set('limit', String(PAGE_SIZE));
+
+      const response = await fetch(`/api/admin/audit?${params}`, {
+        credentials: 'include',
+      });
+
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to load audit log');
+      }
+
+      setEntries(data.entries);
+      setActions(data.actions);
+      setTotal(data.total);
+      setTotalPages(data.totalPages);
+      setPage(data.page);
+      console.log('✅ Audit entries loaded:', data.entries.length, 'of', data.total);
+
+    } catch (error) {
+      console.error('❌ Failed to load audit log:', error);
+      setError(error instanceof Error ? error.message : 'Failed to load audit log');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    loadEntries(filters, 1);
+  };
+
+  const handleReset = () => {
+    setFilters(emptyFilters);
+    loadEntries(emptyFilters, 1);
+  };
+
+  const handleVerify = async () => {
+    setIsVerifying(true);
+
+    try {
+      const response = await fetch('/api/admin/audit/verify', {
+        credentials: 'include',
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to verify audit chain');
+      }
+
+      setChainStatus({ valid: data.valid, checked: data.checked, brokenAtId: data.brokenAtId });
+
+    } catch (error) {
+      console.error('❌ Audit chain verification failed:', error);
+      setError(error instanceof Error ? error.message : 'Failed to verify audit chain');
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  const handleExport = async (format: 'csv' | 'json') => {
+    setExporting(format);
+
+    try {
+      console.log(`📥 Exporting audit log as ${format.toUpperCase()}`);
+
+      const params = buildQuery(filters);
+      params.set('format', format);
+
+      const response = await fetch(`/api/admin/audit/export?${params}`, {
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Export failed');
+      }
+
+      // Download the file
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.style.display = 'none';
+      a.href = url;
+      a.download = `audit-log.${format}`;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+
+      console.log('✅ Audit log export downloaded');
+
+    } catch (error) {
+      console.error('❌ Audit log export failed:', error);
+      alert(`Export failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+  };
+
+  const formatState = (state: unknown) => {
+    return state === null || state === undefined ? '—' : JSON.stringify(state, null, 2);
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b bg-card">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-2xl font-bold text-primary">Audit Log</h1>
+              <p className="text-muted-foreground">Tamper-evident record of every administrative action</p>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Button variant="outline" onClick={handleVerify} disabled={isVerifying}>
+                {isVerifying ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <ShieldCheck className="h-4 w-4 mr-2" />}
+                Verify Integrity
+              </Button>
+              <Button variant="outline" onClick={() => handleExport('csv')} disabled={exporting !== null}>
+                {exporting === 'csv' ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Download className="h-4 w-4 mr-2" />}
+                CSV
+              </Button>
+              <Button variant="outline" onClick={() => handleExport('json')} disabled={exporting !== null}>
+                {exporting === 'json' ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Download className="h-4 w-4 mr-2" />}
+                JSON
+              </Button>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="container mx-auto px-4 py-8 space-y-6">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {chainStatus && (
+          <Alert variant={chainStatus.valid ? 'default' : 'destructive'}>
+            <AlertDescription className="flex items-center">
+              {chainStatus.valid ? (
+                <>
+                  <ShieldCheck className="h-4 w-4 mr-2 text-green-600" />
+                  Chain intact - all {chainStatus.checked} entries verified.
+                </>
+              ) : (
+                <>
+                  <ShieldAlert className="h-4 w-4 mr-2" />
+                  Chain broken at entry #{chainStatus.brokenAtId} after {chainStatus.checked} valid entries. The log has been altered.
+                </>
+              )}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {/* Filters */}
+        <Card>
+          <CardContent className="pt-6">
+            <form onSubmit={handleSearch} className="grid gap-4 md:grid-cols-6 items-end">
+              <div className="space-y-2 md:col-span-2">
+                <Label htmlFor="audit-search">Search</Label>
+                <Input
+                  id="audit-search"
+                  placeholder="Target, reason or details"
+                  value={filters.search}
+                  onChange={(e) => setFilters({ ...filters, search: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="audit-action">Action</Label>
+                <Select value={filters.action} onValueChange={(value) => setFilters({ ...filters, action: value })}>
+                  <SelectTrigger id="audit-action">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All actions</SelectItem>
+                    {actions.map(action => (
+                      <SelectItem key={action} value={action}>{action}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="audit-actor">Admin</Label>
+                <Input
+                  id="audit-actor"
+                  placeholder="Email"
+                  value={filters.actor}
+                  onChange={(e) => setFilters({ ...filters, actor: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="audit-from">From</Label>
+                <Input
+                  id="audit-from"
+                  type="date"
+                  value={filters.from}
+                  onChange={(e) => setFilters({ ...filters, from: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="audit-to">To</Label>
+                <Input
+                  id="audit-to"
+                  type="date"
+                  value={filters.to}
+                  onChange={(e) => setFilters({ ...filters, to: e.target.value })}
+                />
+              </div>
+              <div className="flex space-x-2 md:col-span-6 justify-end">
+                <Button type="button" variant="outline" onClick={handleReset}>
+                  Reset
+                </Button>
+                <Button type="submit">
+                  <Search className="h-4 w-4 mr-2" />
+                  Search
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Entries ({total})</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="text-center py-8">
+                <div className="text-muted-foreground">Loading audit log...</div>
+              </div>
+            ) : entries.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">No audit entries match these filters</div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>When</TableHead>
+                    <TableHead>Admin</TableHead>
+                    <TableHead>Action</TableHead>
+                    <TableHead>Target</TableHead>
+                    <TableHead>Reason</TableHead>
+                    <TableHead className="text-right">Details</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {entries.map((entry) => (
+                    <TableRow key={entry.id}>
+                      <TableCell className="whitespace-nowrap">{formatDate(entry.createdAt)}</TableCell>
+                      <TableCell>
+                        <div>{entry.actorEmail}</div>
+                        {entry.actorRole && <div className="text-xs text-muted-foreground">{entry.actorRole}</div>}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={entry.action.endsWith('failed') ? 'destructive' : 'outline'}>{entry.action}</Badge>
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {entry.targetType ? `${entry.targetType}${entry.targetId ? `: ${entry.targetId}` : ''}` : '—'}
+                      </TableCell>
+                      <TableCell className="text-sm max-w-xs truncate">{entry.reason || '—'}</TableCell>
+                      <TableCell className="text-right">
+                        <Button variant="ghost" size="sm" onClick={() => setSelected(entry)}>
+                          View
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+
+            {totalPages > 1 && (
+              <div className="flex items-center justify-between pt-4">
+                <div className="text-sm text-muted-foreground">Page {page} of {totalPages}</div>
+                <div className="flex space-x-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => loadEntries(filters, page - 1)}
+                    disabled={page <= 1 || isLoading}
+                  >
+                    <ChevronLeft className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => loadEntries(filters, page + 1)}
+                    disabled={page >= totalPages || isLoading}
+                  >
+                    <ChevronRight className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+
+      {/* Entry Details Dialog */}
+      <Dialog open={selected !== null} onOpenChange={(open) => { if (!open) setSelected(null); }}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Audit Entry #{selected?.id}</DialogTitle>
+          </DialogHeader>
+          {selected && (
+            <div className="space-y-4 text-sm">
+              <div className="grid grid-cols-2 gap-2">
+                <div className="text-muted-foreground">When</div>
+                <div>{formatDate(selected.createdAt)}</div>
+                <div className="text-muted-foreground">Admin</div>
+                <div>{selected.actorEmail}{selected.actorRole ? ` (${selected.actorRole})` : ''}</div>
+                <div className="text-muted-foreground">Action</div>
+                <div>{selected.action}</div>
+                <div className="text-muted-foreground">Request</div>
+                <div>{selected.requestPath || '—'}</div>
+                <div className="text-muted-foreground">IP Address</div>
+                <div>{selected.ipAddress || '—'}</div>
+                <div className="text-muted-foreground">User Agent</div>
+                <div className="break-all">{selected.userAgent || '—'}</div>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <div className="font-medium mb-1">Before</div>
+                  <pre className="bg-muted rounded p-2 text-xs overflow-auto max-h-64">{formatState(selected.before)}</pre>
+                </div>
+                <div>
+                  <div className="font-medium mb-1">After</div>
+                  <pre className="bg-muted rounded p-2 text-xs overflow-auto max-h-64">{formatState(selected.after)}</pre>
+                </div>
+              </div>
+              <div className="text-xs text-muted-foreground break-all">Hash: {selected.hash}</div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
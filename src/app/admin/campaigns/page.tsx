@@ -0,0 +1,532 @@
+/**
+ * Admin Email Campaigns Page
+ * @rule 042 "UI component architecture for campaign management"
+ * @rule 054 "Accessibility requirements for forms and tables"
+ * @rule 130 "Error handling for email delivery"
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { STAKEHOLDER_GROUPS } from '@/lib/validation';
+import { PERMISSIONS } from '@/lib/permissions';
+import { useAdminPermissions } from '@/components/admin/AdminPermissions';
+import { Plus, Mail, Loader2, Play, Pause, RotateCcw, Eye } from 'lucide-react';
+
+interface Campaign {
+  id: number;
+  name: string;
+  groups: string[];
+  status: 'active' | 'paused' | 'completed';
+  reminderIntervalDays: number;
+  maxReminders: number;
+  nextRunAt: string | null;
+  lastRunAt: string | null;
+  createdBy: string;
+  createdAt: string;
+  invitationsSent: number;
+  remindersSent: number;
+  failures: number;
+}
+
+interface CampaignRecipient {
+  email: string;
+  group: string;
+  hasTaken: boolean;
+  isBlocked: boolean;
+  invited: boolean;
+  remindersSent: number;
+  lastContactedAt: string | null;
+  failures: number;
+  lastError: string | null;
+  history: Array<{ type: string; status: string; error: string | null; sentAt: string }>;
+}
+
+interface CampaignForm {
+  name: string;
+  groups: string[];
+  reminderIntervalDays: number;
+  maxReminders: number;
+}
+
+const STATUS_BADGES: Record<Campaign['status'], { label: string; variant: 'default' | 'secondary' | 'outline' }> = {
+  active: { label: 'Active', variant: 'default' },
+  paused: { label: 'Paused', variant: 'outline' },
+  completed: { label: 'Completed', variant: 'secondary' },
+};
+
+const emptyForm = (): CampaignForm => ({
+  name: '',
+  groups: [],
+  reminderIntervalDays: 7,
+  maxReminders: 2,
+});
+
+export default function AdminCampaignsPage() {
+  const [campaigns, setCampaigns] = useState<Campaign[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [form, setForm] = useState<CampaignForm | null>(null);
+  const [formError, setFormError] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [actionLoading, setActionLoading] = useState<number | null>(null);
+  const [detail, setDetail] = useState<{ campaign: Campaign; recipients: CampaignRecipient[] } | null>(null);
+  const { can } = useAdminPermissions();
+  const canManage = can(PERMISSIONS.CAMPAIGNS_MANAGE);
+
+  useEffect(() => {
+    loadCampaigns();
+  }, []);
+
+  const loadCampaigns = async () => {
+    try {
+      console.log('📬 Loading email campaigns');
+
+      const response = await fetch('/api/admin/campaigns', {
+        credentials: 'include',
+      });
+
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to load campaigns');
+      }
+
+      setCampaigns(data.campaigns);
+      console.log('✅ Campaigns loaded:', data.total);
+
+    } catch (error) {
+      console.error('❌ Failed to load campaigns:', error);
+      setError('Failed to load campaigns');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const toggleGroup = (group: string, checked: boolean) => {
+    if (!form) return;
+    setForm({
+      ...form,
+      groups: checked ? [...form.groups, group] : form.groups.filter(g => g !== group),
+    });
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form) return;
+
+    if (!form.name.trim() || form.groups.length === 0) {
+      setFormError('A name and at least one group are required');
+      return;
+    }
+
+    setIsSaving(true);
+    setFormError('');
+
+    try {
+      console.log('📬 Starting campaign:', form.name);
+
+      const response = await fetch('/api/admin/campaigns', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify(form),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to create campaign');
+      }
+
+      alert(`✅ ${data.message}`);
+      setForm(null);
+      loadCampaigns();
+
+    } catch (error) {
+      console.error('❌ Failed to create campaign:', error);
+      setFormError(error instanceof Error ? error.message : 'Failed to create campaign');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRun = async (campaign: Campaign) => {
+    if (!confirm(`Send all invitations and reminders that are currently due for "${campaign.name}"?`)) {
+      return;
+    }
+
+    setActionLoading(campaign.id);
+    try {
+      const response = await fetch(`/api/admin/campaigns/${campaign.id}/run`, {
+        method: 'POST',
+        credentials: 'include',
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to run campaign');
+      }
+
+      alert(`✅ ${data.message}`);
+      loadCampaigns();
+
+    } catch (error) {
+      console.error('❌ Failed to run campaign:', error);
+      alert(`❌ ${error instanceof Error ? error.message : 'Failed to run campaign'}`);
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  const handleStatusChange = async (campaign: Campaign, action: 'pause' | 'resume') => {
+    setActionLoading(campaign.id);
+    try {
+      const response = await fetch(`/api/admin/campaigns/${campaign.id}/status`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ action }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || `Failed to ${action} campaign`);
+      }
+
+      loadCampaigns();
+
+    } catch (error) {
+      console.error(`❌ Failed to ${action} campaign:`, error);
+      alert(`❌ ${error instanceof Error ? error.message : `Failed to ${action} campaign`}`);
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  const handleView = async (campaign: Campaign) => {
+    try {
+      const response = await fetch(`/api/admin/campaigns/${campaign.id}`, {
+        credentials: 'include',
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load campaign');
+      }
+
+      setDetail({ campaign, recipients: data.recipients });
+
+    } catch (error) {
+      console.error('❌ Failed to load campaign detail:', error);
+      alert(`❌ ${error instanceof Error ? error.message : 'Failed to load campaign'}`);
+    }
+  };
+
+  const formatDate = (dateString: string | null) => {
+    if (!dateString) return '—';
+    return new Date(dateString).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b bg-card">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-2xl font-bold text-primary">Email Campaigns</h1>
+              <p className="text-muted-foreground">Invite participants and remind non-responders</p>
+            </div>
+            {canManage && (
+              <Button onClick={() => { setForm(emptyForm()); setFormError(''); }}>
+                <Plus className="h-4 w-4 mr-2" />
+                New Campaign
+              </Button>
+            )}
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="container mx-auto px-4 py-8">
+        {error && (
+          <Alert variant="destructive" className="mb-6">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Campaigns</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="text-center py-8">
+                <div className="text-muted-foreground">Loading campaigns...</div>
+              </div>
+            ) : campaigns.length === 0 ? (
+              <div className="text-center py-8">
+                <Mail className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
+                <div className="text-lg font-medium">No campaigns yet</div>
+                <div className="text-muted-foreground">
+                  Start a campaign to email invitations to your participants
+                </div>
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Campaign</TableHead>
+                    <TableHead>Groups</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Sent</TableHead>
+                    <TableHead>Reminders</TableHead>
+                    <TableHead>Next Run</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {campaigns.map((campaign) => (
+                    <TableRow key={campaign.id}>
+                      <TableCell>
+                        <div className="font-medium">{campaign.name}</div>
+                        <div className="text-xs text-muted-foreground">by {campaign.createdBy}</div>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {campaign.groups.map(group => (
+                            <Badge key={group} variant="outline">{group}</Badge>
+                          ))}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={STATUS_BADGES[campaign.status].variant}>
+                          {STATUS_BADGES[campaign.status].label}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        <div>{campaign.invitationsSent} invitations, {campaign.remindersSent} reminders</div>
+                        {campaign.failures > 0 && (
+                          <div className="text-xs text-destructive">{campaign.failures} failed</div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {campaign.maxReminders === 0
+                          ? 'None'
+                          : `Up to ${campaign.maxReminders}, every ${campaign.reminderIntervalDays} day${campaign.reminderIntervalDays === 1 ? '' : 's'}`}
+                      </TableCell>
+                      <TableCell>{formatDate(campaign.nextRunAt)}</TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end space-x-2">
+                          <Button variant="ghost" size="sm" onClick={() => handleView(campaign)} title="View recipients">
+                            <Eye className="h-4 w-4" />
+                          </Button>
+                          {canManage && campaign.status === 'active' && (
+                            <>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleRun(campaign)}
+                                disabled={actionLoading === campaign.id}
+                                title="Send due emails now"
+                              >
+                                {actionLoading === campaign.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <Play className="h-4 w-4" />}
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleStatusChange(campaign, 'pause')}
+                                disabled={actionLoading === campaign.id}
+                                title="Pause reminders"
+                              >
+                                <Pause className="h-4 w-4" />
+                              </Button>
+                            </>
+                          )}
+                          {canManage && campaign.status === 'paused' && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleStatusChange(campaign, 'resume')}
+                              disabled={actionLoading === campaign.id}
+                              title="Resume reminders"
+                            >
+                              <RotateCcw className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+
+      {/* New Campaign Dialog */}
+      <Dialog open={form !== null} onOpenChange={(open) => { if (!open) setForm(null); }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>New Campaign</DialogTitle>
+          </DialogHeader>
+          {form && (
+            <form onSubmit={handleCreate} className="space-y-4">
+              {formError && (
+                <Alert variant="destructive">
+                  <AlertDescription>{formError}</AlertDescription>
+                </Alert>
+              )}
+
+              <div className="space-y-2">
+                <Label htmlFor="campaign-name">Campaign Name</Label>
+                <Input
+                  id="campaign-name"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  placeholder="Spring 2026 teacher outreach"
+                  disabled={isSaving}
+                />
+              </div>
+
+              <fieldset className="space-y-2">
+                <legend className="text-sm font-medium">Stakeholder Groups</legend>
+                <div className="grid grid-cols-2 gap-2">
+                  {STAKEHOLDER_GROUPS.map(group => (
+                    <div key={group} className="flex items-center space-x-2">
+                      <Checkbox
+                        id={`campaign-group-${group}`}
+                        checked={form.groups.includes(group)}
+                        onCheckedChange={(checked) => toggleGroup(group, checked === true)}
+                        disabled={isSaving}
+                      />
+                      <Label htmlFor={`campaign-group-${group}`}>{group.replace('_', ' ')}</Label>
+                    </div>
+                  ))}
+                </div>
+              </fieldset>
+
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-2">
+                  <Label htmlFor="campaign-max-reminders">Reminders (max)</Label>
+                  <Input
+                    id="campaign-max-reminders"
+                    type="number"
+                    min={0}
+                    max={10}
+                    value={form.maxReminders}
+                    onChange={(e) => setForm({ ...form, maxReminders: parseInt(e.target.value, 10) || 0 })}
+                    disabled={isSaving}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="campaign-interval">Days Between Emails</Label>
+                  <Input
+                    id="campaign-interval"
+                    type="number"
+                    min={1}
+                    max={60}
+                    value={form.reminderIntervalDays}
+                    onChange={(e) => setForm({ ...form, reminderIntervalDays: parseInt(e.target.value, 10) || 1 })}
+                    disabled={isSaving}
+                  />
+                </div>
+              </div>
+
+              <p className="text-sm text-muted-foreground">
+                Invitations are sent to everyone in the selected groups who hasn&apos;t completed the survey.
+                Reminders only go to participants who still haven&apos;t responded.
+              </p>
+
+              <div className="flex justify-end space-x-2">
+                <Button type="button" variant="outline" onClick={() => setForm(null)} disabled={isSaving}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={isSaving}>
+                  {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Send Invitations
+                </Button>
+              </div>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Recipient History Dialog */}
+      <Dialog open={detail !== null} onOpenChange={(open) => { if (!open) setDetail(null); }}>
+        <DialogContent className="max-w-4xl">
+          <DialogHeader>
+            <DialogTitle>{detail?.campaign.name} - Recipients</DialogTitle>
+          </DialogHeader>
+          {detail && (
+            <div className="max-h-[60vh] overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Email</TableHead>
+                    <TableHead>Group</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Reminders</TableHead>
+                    <TableHead>Last Contacted</TableHead>
+                    <TableHead>Failures</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {detail.recipients.map((recipient) => (
+                    <TableRow key={recipient.email}>
+                      <TableCell className="font-medium">{recipient.email}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline">{recipient.group}</Badge>
+                      </TableCell>
+                      <TableCell>
+                        {recipient.hasTaken ? (
+                          <Badge>Responded</Badge>
+                        ) : recipient.isBlocked ? (
+                          <Badge variant="destructive">Blocked</Badge>
+                        ) : recipient.invited ? (
+                          <Badge variant="secondary">Invited</Badge>
+                        ) : (
+                          <Badge variant="outline">Not contacted</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>{recipient.remindersSent}</TableCell>
+                      <TableCell>{formatDate(recipient.lastContactedAt)}</TableCell>
+                      <TableCell>
+                        {recipient.failures > 0 ? (
+                          <span className="text-destructive text-sm" title={recipient.lastError || undefined}>
+                            {recipient.failures} ({recipient.lastError || 'unknown error'})
+                          </span>
+                        ) : (
+                          '—'
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
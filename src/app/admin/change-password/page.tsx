@@ -0,0 +1,142 @@
+/**
+ * Admin Change Password Page
+ * Also the forced stop after signing in with a temporary password
+ * @rule 042 "UI component architecture with form composition"
+ * @rule 054 "Accessibility requirements for forms"
+ * @rule 130 "Error handling with user feedback"
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { KeyRound, Loader2 } from 'lucide-react';
+import { useAdminPermissions } from '@/components/admin/AdminPermissions';
+import { MIN_PASSWORD_LENGTH } from '@/lib/permissions';
+
+export default function AdminChangePasswordPage() {
+  const { user } = useAdminPermissions();
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (newPassword !== confirmPassword) {
+      setError('New passwords do not match');
+      return;
+    }
+
+    setIsSaving(true);
+
+    try {
+      console.log('🔑 Changing admin password');
+
+      const response = await fetch('/api/admin/change-password', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ currentPassword, newPassword }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to change password');
+      }
+
+      console.log('✅ Password changed');
+      alert('✅ Password changed successfully');
+
+      // Full navigation so the layout reloads the profile without the forced-change flag
+      window.location.href = '/admin/dashboard';
+
+    } catch (error) {
+      console.error('❌ Password change failed:', error);
+      setError(error instanceof Error ? error.message : 'Failed to change password');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8 flex justify-center">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <KeyRound className="h-5 w-5 text-primary" />
+            Change Password
+          </CardTitle>
+          <CardDescription>
+            {user?.mustChangePassword
+              ? 'You signed in with a temporary password. Choose a new one to continue.'
+              : 'Update the password for your admin account.'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {error && (
+              <Alert variant="destructive">
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="current-password">Current Password</Label>
+              <Input
+                id="current-password"
+                type="password"
+                autoComplete="current-password"
+                value={currentPassword}
+                onChange={(e) => setCurrentPassword(e.target.value)}
+                required
+                disabled={isSaving}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="new-password">New Password</Label>
+              <Input
+                id="new-password"
+                type="password"
+                autoComplete="new-password"
+                minLength={MIN_PASSWORD_LENGTH}
+                value={newPassword}
+                onChange={(e) => setNewPassword(e.target.value)}
+                required
+                disabled={isSaving}
+              />
+              <p className="text-sm text-muted-foreground">At least {MIN_PASSWORD_LENGTH} characters</p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="confirm-password">Confirm New Password</Label>
+              <Input
+                id="confirm-password"
+                type="password"
+                autoComplete="new-password"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                required
+                disabled={isSaving}
+              />
+            </div>
+
+            <Button type="submit" className="w-full" disabled={isSaving}>
+              {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Change Password
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,633 @@
+/**
+ * Admin Qualitative Coding Page
+ * Codebooks per open-ended question, tagging excerpts of answers with codes, and
+ * agreement between coders who reviewed the same answers
+ * @rule 042 "UI component architecture with data display"
+ * @rule 054 "Accessibility requirements for dashboard"
+ */
+
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Check, ChevronLeft, ChevronRight, Loader2, Pencil, Tags, Trash2, X } from 'lucide-react';
+import { PERMISSIONS } from '@/lib/permissions';
+import { useAdminPermissions } from '@/components/admin/AdminPermissions';
+import type { CoderPairAgreement, ExcerptInput } from '@/lib/qualitative-coding';
+
+interface CodebookEntry {
+  id: number;
+  name: string;
+  description: string | null;
+  createdBy: string;
+  answers: number;
+  excerpts: number;
+}
+
+interface Excerpt {
+  id: number;
+  codeId: number;
+  start: number;
+  end: number;
+  text: string;
+}
+
+interface CodingAnswer {
+  responseId: number;
+  group: string;
+  version: string;
+  submittedAt: string;
+  text: string;
+  excerpts: Excerpt[] | null;
+  otherCoders: number;
+}
+
+interface WorkspaceData {
+  coder: string;
+  questions: { id: string; text: string }[];
+  question: { id: string; text: string } | null;
+  codes: CodebookEntry[];
+  progress: { answers: number; codedByMe: number; codedByAnyone: number };
+  page: number;
+  pageCount: number;
+  answers: CodingAnswer[];
+  agreement: CoderPairAgreement[];
+}
+
+interface WorkspaceQuery {
+  questionId: string;
+  status: string;
+  page: number;
+}
+
+const emptyQuery: WorkspaceQuery = { questionId: '', status: 'all', page: 1 };
+
+const emptyCode = { name: '', description: '' };
+
+/**
+ * Character offsets of the current text selection within the container, if it lies inside it
+ */
+function selectionOffsets(container: HTMLElement | null): { start: number; end: number } | null {
+  const selection = window.getSelection();
+  if (!container || !selection || selection.rangeCount === 0 || selection.isCollapsed) return null;
+
+  const range = selection.getRangeAt(0);
+  if (!container.contains(range.startContainer) || !container.contains(range.endContainer)) return null;
+
+  const before = document.createRange();
+  before.selectNodeContents(container);
+  before.setEnd(range.startContainer, range.startOffset);
+  const start = before.toString().length;
+  return { start, end: start + range.toString().length };
+}
+
+/**
+ * Splits the answer into plain and highlighted runs for the coder's excerpts
+ */
+function highlightSegments(text: string, excerpts: Excerpt[]) {
+  const covered = new Array<boolean>(text.length).fill(false);
+  excerpts.forEach(excerpt => covered.fill(true, excerpt.start, excerpt.end));
+
+  const segments: { text: string; highlighted: boolean }[] = [];
+  for (let index = 0; index < text.length; index++) {
+    const last = segments[segments.length - 1];
+    if (last && last.highlighted === covered[index]) {
+      last.text += text[index];
+    } else {
+      segments.push({ text: text[index], highlighted: covered[index] });
+    }
+  }
+  return segments;
+}
+
+const formatKappa = (kappa: number | null) => kappa === null ? 'n/a' : kappa.toFixed(2);
+
+function AnswerCoder({
+  answer,
+  codes,
+  canCode,
+  isSaving,
+  onSave,
+  onWithdraw,
+}: {
+  answer: CodingAnswer;
+  codes: CodebookEntry[];
+  canCode: boolean;
+  isSaving: boolean;
+  onSave: (excerpts: ExcerptInput[]) => void;
+  onWithdraw: () => void;
+}) {
+  const textRef = useRef<HTMLParagraphElement>(null);
+  const [codeId, setCodeId] = useState('');
+  const [selectionError, setSelectionError] = useState('');
+  const excerpts = answer.excerpts || [];
+  const codeName = (id: number) => codes.find(code => code.id === id)?.name || 'Deleted code';
+  const current = excerpts.map(({ codeId: id, start, end }) => ({ codeId: id, start, end }));
+
+  const tag = (wholeAnswer: boolean) => {
+    setSelectionError('');
+    if (wholeAnswer) {
+      onSave([...current, { codeId: Number(codeId) }]);
+      return;
+    }
+
+    const offsets = selectionOffsets(textRef.current);
+    if (!offsets) {
+      setSelectionError('Select part of this answer first');
+      return;
+    }
+    onSave([...current, { codeId: Number(codeId), ...offsets }]);
+    window.getSelection()?.removeAllRanges();
+  };
+
+  return (
+    <li className="border rounded-lg p-4 space-y-3" data-testid="coding-answer">
+      <div className="flex items-center justify-between gap-4 text-xs text-muted-foreground">
+        <span>
+          Response #{answer.responseId} &middot; {answer.group.replace('_', ' ')} &middot; {answer.version}
+        </span>
+        <span className="flex items-center gap-2">
+          {answer.otherCoders > 0 && <span>{answer.otherCoders} other coder{answer.otherCoders === 1 ? '' : 's'}</span>}
+          <Badge variant={answer.excerpts ? 'default' : 'outline'}>{answer.excerpts ? 'Coded by you' : 'Not coded by you'}</Badge>
+        </span>
+      </div>
+
+      <p ref={textRef} className="whitespace-pre-wrap text-sm">
+        {highlightSegments(answer.text, excerpts).map((segment, index) => segment.highlighted
+          ? <mark key={index} className="bg-primary/20 rounded-sm">{segment.text}</mark>
+          : <span key={index}>{segment.text}</span>
+        )}
+      </p>
+
+      {excerpts.length > 0 && (
+        <ul className="space-y-1" aria-label="Your excerpts">
+          {excerpts.map((excerpt, index) => (
+            <li key={excerpt.id} className="flex items-start gap-2 text-sm">
+              <Badge variant="secondary" className="shrink-0">{codeName(excerpt.codeId)}</Badge>
+              <span className="text-muted-foreground italic">
+                {excerpt.start === 0 && excerpt.end === answer.text.length ? 'Whole answer' : `“${excerpt.text}”`}
+              </span>
+              {canCode && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="ml-auto h-6 px-2"
+                  disabled={isSaving}
+                  onClick={() => onSave(current.filter((_, position) => position !== index))}
+                  aria-label={`Remove ${codeName(excerpt.codeId)} excerpt`}
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {canCode && (
+        <div className="flex flex-wrap items-center gap-2">
+          <Select value={codeId} onValueChange={setCodeId}>
+            <SelectTrigger className="w-48" aria-label={`Code for response ${answer.responseId}`}>
+              <SelectValue placeholder="Choose a code" />
+            </SelectTrigger>
+            <SelectContent>
+              {codes.map(code => (
+                <SelectItem key={code.id} value={String(code.id)}>{code.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button size="sm" variant="outline" disabled={!codeId || isSaving} onClick={() => tag(false)}>
+            Tag selection
+          </Button>
+          <Button size="sm" variant="outline" disabled={!codeId || isSaving} onClick={() => tag(true)}>
+            Tag whole answer
+          </Button>
+          {!answer.excerpts && (
+            <Button size="sm" variant="ghost" disabled={isSaving} onClick={() => onSave([])}>
+              No code applies
+            </Button>
+          )}
+          {answer.excerpts && (
+            <Button size="sm" variant="ghost" disabled={isSaving} onClick={onWithdraw}>
+              Withdraw my coding
+            </Button>
+          )}
+          {isSaving && <Loader2 className="h-4 w-4 animate-spin" />}
+        </div>
+      )}
+      {selectionError && <p className="text-sm text-destructive">{selectionError}</p>}
+    </li>
+  );
+}
+
+export default function AdminCodingPage() {
+  const { can } = useAdminPermissions();
+  const canCode = can(PERMISSIONS.CODING_MANAGE);
+  const [data, setData] = useState<WorkspaceData | null>(null);
+  const [query, setQuery] = useState<WorkspaceQuery>(emptyQuery);
+  const [newCode, setNewCode] = useState(emptyCode);
+  const [editing, setEditing] = useState<{ id: number; name: string; description: string } | null>(null);
+  const [savingId, setSavingId] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadWorkspace(emptyQuery);
+  }, []);
+
+  const loadWorkspace = async (activeQuery: WorkspaceQuery) => {
+    setIsLoading(true);
+    setError('');
+
+    try {
+      console.log('🏷️ Loading coding workspace');
+
+      const params = new URLSearchParams({ status: activeQuery.status, page: String(activeQuery.page) });
+      if (activeQuery.questionId) params.set('questionId', activeQuery.questionId);
+
+      const response = await fetch(`/api/admin/coding?${params}`, {
+        credentials: 'include',
+      });
+
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to load coding workspace');
+      }
+
+      setData(result);
+      setQuery({ ...activeQuery, questionId: result.question?.id || '', page: result.page || 1 });
+      console.log('✅ Coding workspace loaded:', result.answers?.length || 0, 'answers');
+
+    } catch (error) {
+      console.error('❌ Failed to load coding workspace:', error);
+      setError(error instanceof Error ? error.message : 'Failed to load coding workspace');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const updateQuery = (changes: Partial<WorkspaceQuery>) => {
+    loadWorkspace({ ...query, page: 1, ...changes });
+  };
+
+  const sendJson = async (url: string, method: string, body?: unknown) => {
+    const response = await fetch(url, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      ...(body !== undefined && { body: JSON.stringify(body) }),
+    });
+
+    const result = await response.json();
+
+    if (!response.ok) {
+      throw new Error(result.details?.[0]?.message || result.error || 'Request failed');
+    }
+    return result;
+  };
+
+  const handleAddCode = async () => {
+    if (!data?.question) return;
+    setError('');
+
+    try {
+      await sendJson('/api/admin/coding/codes', 'POST', {
+        questionId: data.question.id,
+        name: newCode.name,
+        description: newCode.description || undefined,
+      });
+      setNewCode(emptyCode);
+      await loadWorkspace(query);
+    } catch (error) {
+      console.error('❌ Failed to add code:', error);
+      setError(error instanceof Error ? error.message : 'Failed to add code');
+    }
+  };
+
+  const handleUpdateCode = async () => {
+    if (!editing) return;
+    setError('');
+
+    try {
+      await sendJson(`/api/admin/coding/codes/${editing.id}`, 'PATCH', {
+        name: editing.name,
+        description: editing.description,
+      });
+      setEditing(null);
+      await loadWorkspace(query);
+    } catch (error) {
+      console.error('❌ Failed to update code:', error);
+      setError(error instanceof Error ? error.message : 'Failed to update code');
+    }
+  };
+
+  const handleDeleteCode = async (code: CodebookEntry) => {
+    const warning = code.excerpts > 0
+      ? `\n\n${code.excerpts} excerpt${code.excerpts === 1 ? '' : 's'} tagged with it will be removed for every coder.`
+      : '';
+    if (!confirm(`Delete the code "${code.name}"?${warning}`)) {
+      return;
+    }
+    setError('');
+
+    try {
+      await sendJson(`/api/admin/coding/codes/${code.id}`, 'DELETE');
+      await loadWorkspace(query);
+    } catch (error) {
+      console.error('❌ Failed to delete code:', error);
+      setError(error instanceof Error ? error.message : 'Failed to delete code');
+    }
+  };
+
+  const handleSaveCoding = async (responseId: number, excerpts: ExcerptInput[]) => {
+    if (!data?.question) return;
+    setSavingId(responseId);
+    setError('');
+
+    try {
+      await sendJson('/api/admin/coding/answers', 'PUT', { responseId, questionId: data.question.id, excerpts });
+      await loadWorkspace(query);
+    } catch (error) {
+      console.error('❌ Failed to save coding:', error);
+      setError(error instanceof Error ? error.message : 'Failed to save coding');
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const handleWithdrawCoding = async (responseId: number) => {
+    if (!data?.question) return;
+    setSavingId(responseId);
+    setError('');
+
+    try {
+      const params = new URLSearchParams({ responseId: String(responseId), questionId: data.question.id });
+      await sendJson(`/api/admin/coding/answers?${params}`, 'DELETE');
+      await loadWorkspace(query);
+    } catch (error) {
+      console.error('❌ Failed to withdraw coding:', error);
+      setError(error instanceof Error ? error.message : 'Failed to withdraw coding');
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  return (
+    <div className="container mx-auto py-8 px-4 space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <Tags className="h-5 w-5" />
+            <span>Qualitative Coding</span>
+          </CardTitle>
+          <CardDescription>
+            Build a codebook for each open-ended question and tag answers with it. Every coder codes
+            independently; agreement is measured on answers more than one coder has reviewed.
+          </CardDescription>
+        </CardHeader>
+        {data && data.questions.length > 0 && (
+          <CardContent className="grid md:grid-cols-[1fr_12rem] gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="coding-question" className="text-xs">Question</Label>
+              <Select value={query.questionId} onValueChange={(value) => updateQuery({ questionId: value })}>
+                <SelectTrigger id="coding-question"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {data.questions.map(question => (
+                    <SelectItem key={question.id} value={question.id}>{question.text}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="coding-status" className="text-xs">Answers</Label>
+              <Select value={query.status} onValueChange={(value) => updateQuery({ status: value })}>
+                <SelectTrigger id="coding-status"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All answers</SelectItem>
+                  <SelectItem value="uncoded">Not coded by me</SelectItem>
+                  <SelectItem value="coded">Coded by me</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <p className="md:col-span-2 text-sm text-muted-foreground">
+              {data.progress.answers} answers &middot; {data.progress.codedByMe} coded by you &middot; {data.progress.codedByAnyone} coded by anyone
+            </p>
+          </CardContent>
+        )}
+      </Card>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {isLoading && !data ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="text-center space-y-3">
+            <Loader2 className="h-8 w-8 animate-spin mx-auto" />
+            <p className="text-muted-foreground">Loading coding workspace...</p>
+          </div>
+        </div>
+      ) : data && !data.question ? (
+        <p className="text-sm text-muted-foreground">There are no answers to open-ended questions to code yet.</p>
+      ) : data && (
+        <div className={`grid lg:grid-cols-[20rem_1fr] gap-6 items-start ${isLoading ? 'opacity-60' : ''}`} aria-busy={isLoading}>
+          {/* Codebook */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Codebook</CardTitle>
+              <CardDescription>Shared by every coder of this question</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {data.codes.length === 0 && <p className="text-sm text-muted-foreground">No codes yet.</p>}
+              <ul className="space-y-3">
+                {data.codes.map(code => (
+                  <li key={code.id} className="space-y-1">
+                    {editing?.id === code.id ? (
+                      <div className="space-y-2">
+                        <Input
+                          value={editing.name}
+                          onChange={(event) => setEditing({ ...editing, name: event.target.value })}
+                          aria-label="Code name"
+                        />
+                        <Input
+                          value={editing.description}
+                          onChange={(event) => setEditing({ ...editing, description: event.target.value })}
+                          placeholder="Description"
+                          aria-label="Code description"
+                        />
+                        <div className="flex gap-2">
+                          <Button size="sm" onClick={handleUpdateCode} disabled={!editing.name.trim()}>
+                            <Check className="h-3 w-3 mr-1" /> Save
+                          </Button>
+                          <Button size="sm" variant="ghost" onClick={() => setEditing(null)}>Cancel</Button>
+                        </div>
+                      </div>
+                    ) : (
+                      <>
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium text-sm">{code.name}</span>
+                          <span className="text-xs text-muted-foreground">{code.answers} answers</span>
+                          {canCode && (
+                            <span className="ml-auto flex">
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                className="h-6 px-2"
+                                onClick={() => setEditing({ id: code.id, name: code.name, description: code.description || '' })}
+                                aria-label={`Edit ${code.name}`}
+                              >
+                                <Pencil className="h-3 w-3" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                className="h-6 px-2"
+                                onClick={() => handleDeleteCode(code)}
+                                aria-label={`Delete ${code.name}`}
+                              >
+                                <Trash2 className="h-3 w-3" />
+                              </Button>
+                            </span>
+                          )}
+                        </div>
+                        {code.description && <p className="text-xs text-muted-foreground">{code.description}</p>}
+                      </>
+                    )}
+                  </li>
+                ))}
+              </ul>
+
+              {canCode && (
+                <div className="space-y-2 border-t pt-4">
+                  <Label htmlFor="new-code-name" className="text-xs">New code</Label>
+                  <Input
+                    id="new-code-name"
+                    value={newCode.name}
+                    onChange={(event) => setNewCode({ ...newCode, name: event.target.value })}
+                    placeholder="Name"
+                  />
+                  <Input
+                    value={newCode.description}
+                    onChange={(event) => setNewCode({ ...newCode, description: event.target.value })}
+                    placeholder="Description (optional)"
+                    aria-label="New code description"
+                  />
+                  <Button size="sm" onClick={handleAddCode} disabled={!newCode.name.trim()}>Add code</Button>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <div className="space-y-6">
+            {/* Answers */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">{data.question?.text}</CardTitle>
+                {canCode && (
+                  <CardDescription>
+                    Choose a code, then select text in an answer and tag it, or tag the whole answer.
+                  </CardDescription>
+                )}
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {data.answers.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No answers match this filter.</p>
+                ) : (
+                  <ol className="space-y-4">
+                    {data.answers.map(answer => (
+                      <AnswerCoder
+                        key={answer.responseId}
+                        answer={answer}
+                        codes={data.codes}
+                        canCode={canCode}
+                        isSaving={savingId === answer.responseId}
+                        onSave={(excerpts) => handleSaveCoding(answer.responseId, excerpts)}
+                        onWithdraw={() => handleWithdrawCoding(answer.responseId)}
+                      />
+                    ))}
+                  </ol>
+                )}
+
+                {data.pageCount > 1 && (
+                  <div className="flex items-center justify-between">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={query.page <= 1 || isLoading}
+                      onClick={() => loadWorkspace({ ...query, page: query.page - 1 })}
+                    >
+                      <ChevronLeft className="h-4 w-4 mr-1" /> Previous
+                    </Button>
+                    <span className="text-sm text-muted-foreground">Page {data.page} of {data.pageCount}</span>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={query.page >= data.pageCount || isLoading}
+                      onClick={() => loadWorkspace({ ...query, page: query.page + 1 })}
+                    >
+                      Next <ChevronRight className="h-4 w-4 ml-1" />
+                    </Button>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Inter-rater agreement */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Inter-rater agreement</CardTitle>
+                <CardDescription>
+                  Cohen&apos;s kappa per pair of coders, treating each code as applied or not applied to each
+                  answer both coders reviewed. n/a means there was no disagreement possible to measure.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                {data.agreement.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">Agreement appears once two coders have coded this question.</p>
+                ) : data.agreement.map(pair => (
+                  <div key={pair.coders.join()} className="space-y-2">
+                    <h3 className="text-sm font-medium">
+                      {pair.coders[0]} &amp; {pair.coders[1]} &middot; {pair.units} shared answers &middot; kappa {formatKappa(pair.kappa)} ({pair.percentAgreement}% agreement)
+                    </h3>
+                    {pair.units > 0 && (
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Code</TableHead>
+                            <TableHead className="text-right">Applied by each</TableHead>
+                            <TableHead className="text-right">Agreement</TableHead>
+                            <TableHead className="text-right">Kappa</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {pair.codes.map(code => (
+                            <TableRow key={code.codeId}>
+                              <TableCell>{code.name}</TableCell>
+                              <TableCell className="text-right tabular-nums">{code.appliedBy[0]} / {code.appliedBy[1]}</TableCell>
+                              <TableCell className="text-right tabular-nums">{code.percentAgreement}%</TableCell>
+                              <TableCell className="text-right tabular-nums">{formatKappa(code.kappa)}</TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    )}
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
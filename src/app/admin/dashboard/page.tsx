@@ -8,15 +8,21 @@
 'use client';
 
 import { useState, useEffect } from 'react';
+import Link from 'next/link';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Users, FileText, TrendingUp, Settings, Loader2, Download } from 'lucide-react';
+import { PERMISSIONS } from '@/lib/permissions';
+import { useAdminPermissions } from '@/components/admin/AdminPermissions';
+import { ParticipationFunnel } from '@/components/admin/ParticipationFunnel';
+import type { ProductionSwitchPlan } from '@/lib/production-snapshot';
 
 interface DashboardStats {
   totalInvites: number;
   totalResponses: number;
+  completedParticipants: number;
   completionRate: number;
   responsesByGroup: Record<string, number>;
   averageCompletionTime: number;
@@ -37,6 +43,7 @@ export default function AdminDashboard() {
   const [error, setError] = useState('');
   const [productionMode, setProductionMode] = useState(false);
   const [isTogglingProduction, setIsTogglingProduction] = useState(false);
+  const { can } = useAdminPermissions();
 
   useEffect(() => {
     loadDashboardStats();
@@ -76,22 +83,53 @@ export default function AdminDashboard() {
   };
 
   const handleToggleProduction = async () => {
+    setIsTogglingProduction(true);
+
+    // Dry run first so the prompt shows exactly what will be wiped
+    let plan: ProductionSwitchPlan;
+    try {
+      const response = await fetch('/api/admin/toggle-production', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ dryRun: true }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to preview production mode switch');
+      }
+
+      plan = data.plan;
+    } catch (error) {
+      alert(`❌ ${error instanceof Error ? error.message : 'Failed to preview production mode switch'}`);
+      setIsTogglingProduction(false);
+      return;
+    }
+
+    const groupSummary = Object.entries(plan.responses.byGroup)
+      .map(([group, count]) => `    ${group}: ${count}`)
+      .join('\n');
+
     const confirmation = prompt(
       '⚠️ CRITICAL: Switch to Production Mode?\n\n' +
       'This will:\n' +
-      '• DELETE all survey responses\n' +
-      '• RESET all invited users\n' +
-      '• BLOCK test accounts from surveys\n' +
-      '• This action CANNOT be undone via UI\n\n' +
+      `• DELETE ${plan.responses.total} survey responses (${plan.responses.partial} partial)\n` +
+      (groupSummary ? `${groupSummary}\n` : '') +
+      `• RESET ${plan.invitesToReset.length} invited users\n` +
+      `• CLEAR ${plan.otpAttemptsCleared} access-code lockout records\n` +
+      '• BLOCK test accounts from surveys\n\n' +
+      'A snapshot is saved first, so an owner can switch back and restore it.\n\n' +
       'Type "PRODUCTION" to confirm:'
     );
 
     if (confirmation !== 'PRODUCTION') {
       alert('❌ Production mode activation cancelled');
+      setIsTogglingProduction(false);
       return;
     }
 
-    setIsTogglingProduction(true);
     try {
       const response = await fetch('/api/admin/toggle-production', {
         method: 'POST',
@@ -110,6 +148,7 @@ export default function AdminDashboard() {
         `✅ PRODUCTION MODE ACTIVATED!\n\n` +
         `Deleted: ${data.deletedResponses} responses\n` +
         `Reset: ${data.resetUsers} users\n` +
+        `Snapshot: #${data.snapshotId}\n` +
         `Activated by: ${data.activatedBy}\n\n` +
         `The system is now ready for real data collection.`
       );
@@ -124,6 +163,76 @@ export default function AdminDashboard() {
     }
   };
 
+  const handleRevertToDevelopment = async () => {
+    const reason = prompt('Why are you switching back to development mode? (recorded in the audit log)');
+    if (!reason?.trim()) {
+      return;
+    }
+
+    setIsTogglingProduction(true);
+    try {
+      const snapshotsResponse = await fetch('/api/admin/toggle-production/snapshots', {
+        credentials: 'include',
+      });
+      const snapshotsData = await snapshotsResponse.json();
+
+      if (!snapshotsResponse.ok) {
+        throw new Error(snapshotsData.error || 'Failed to load snapshots');
+      }
+
+      const latest = (snapshotsData.snapshots as Array<{ id: number; createdAt: string; responseCount: number; restoredAt: string | null }>)
+        .find(snapshot => !snapshot.restoredAt);
+
+      const restore = latest
+        ? confirm(
+          `Restore snapshot #${latest.id} from ${new Date(latest.createdAt).toLocaleString()}?\n\n` +
+          `It holds ${latest.responseCount} development responses. They are added alongside any ` +
+          'production responses - nothing collected since is deleted.\n\n' +
+          'OK = restore, Cancel = switch back without restoring'
+        )
+        : false;
+
+      const confirmation = prompt('Type "DEVELOPMENT" to switch back to development mode:');
+      if (confirmation !== 'DEVELOPMENT') {
+        alert('❌ Switch to development mode cancelled');
+        return;
+      }
+
+      const response = await fetch('/api/admin/toggle-production/revert', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({
+          confirmation: 'DEVELOPMENT',
+          reason,
+          ...(restore && latest && { restoreSnapshotId: latest.id }),
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to switch back to development mode');
+      }
+
+      alert(
+        '✅ DEVELOPMENT MODE ACTIVE\n\n' +
+        (data.restored
+          ? `Restored ${data.restored.restoredResponses} responses from snapshot #${data.restored.snapshotId}` +
+            (data.restored.skippedResponses ? ` (${data.restored.skippedResponses} skipped)` : '')
+          : 'No snapshot restored')
+      );
+
+      setProductionMode(false);
+      loadDashboardStats();
+
+    } catch (error) {
+      alert(`❌ Failed to switch back to development mode: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsTogglingProduction(false);
+    }
+  };
+
   const handleExport = async () => {
     try {
       console.log('📤 Initiating data export');
@@ -203,10 +312,12 @@ export default function AdminDashboard() {
             <h1 className="text-2xl font-bold text-primary">Dashboard</h1>
             <p className="text-muted-foreground">Survey statistics and analytics</p>
           </div>
-          <Button onClick={handleExport} className="bg-primary text-primary-foreground hover:bg-primary/90">
-            <Download className="h-4 w-4 mr-2" />
-            Export Data
-          </Button>
+          {can(PERMISSIONS.RESPONSES_EXPORT) && (
+            <Button onClick={handleExport} className="bg-primary text-primary-foreground hover:bg-primary/90">
+              <Download className="h-4 w-4 mr-2" />
+              Export Data
+            </Button>
+          )}
         </div>
 
         {/* Production Mode Indicator */}
@@ -219,31 +330,52 @@ export default function AdminDashboard() {
                   - Test accounts can access surveys and save data
                 </span>
               </div>
-              <Button 
-                variant="destructive" 
-                size="sm"
-                onClick={handleToggleProduction}
-                disabled={isTogglingProduction}
-              >
-                {isTogglingProduction ? (
-                  <>
-                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                    Activating...
-                  </>
-                ) : (
-                  '🚀 Switch to Production Mode'
-                )}
-              </Button>
+              {can(PERMISSIONS.PRODUCTION_MANAGE) && (
+                <Button 
+                  variant="destructive" 
+                  size="sm"
+                  onClick={handleToggleProduction}
+                  disabled={isTogglingProduction}
+                >
+                  {isTogglingProduction ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      Activating...
+                    </>
+                  ) : (
+                    '🚀 Switch to Production Mode'
+                  )}
+                </Button>
+              )}
             </AlertDescription>
           </Alert>
         ) : (
           <>
             <Alert className="border-green-200 bg-green-50">
-              <AlertDescription className="flex items-center gap-2">
-                <span className="text-green-800 font-semibold">✅ PRODUCTION MODE ACTIVE</span>
-                <span className="text-green-600 text-sm">
-                  - Test accounts blocked | Real data collection enabled
-                </span>
+              <AlertDescription className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                  <span className="text-green-800 font-semibold">✅ PRODUCTION MODE ACTIVE</span>
+                  <span className="text-green-600 text-sm">
+                    - Test accounts blocked | Real data collection enabled
+                  </span>
+                </div>
+                {can(PERMISSIONS.PRODUCTION_MANAGE) && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={handleRevertToDevelopment}
+                    disabled={isTogglingProduction}
+                  >
+                    {isTogglingProduction ? (
+                      <>
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        Switching...
+                      </>
+                    ) : (
+                      '↩️ Back to Development Mode'
+                    )}
+                  </Button>
+                )}
               </AlertDescription>
             </Alert>
             <Alert className="border-primary/20 bg-primary/5">
@@ -277,7 +409,7 @@ export default function AdminDashboard() {
             <CardContent>
               <div className="text-2xl font-bold">{stats.totalResponses}</div>
               <p className="text-xs text-muted-foreground">
-                Surveys completed
+                Including drafts and resubmissions
               </p>
             </CardContent>
           </Card>
@@ -290,7 +422,7 @@ export default function AdminDashboard() {
             <CardContent>
               <div className="text-2xl font-bold">{stats.completionRate}%</div>
               <p className="text-xs text-muted-foreground">
-                Response rate
+                {stats.completedParticipants} of {stats.totalInvites} invited participants completed
               </p>
             </CardContent>
           </Card>
@@ -311,13 +443,23 @@ export default function AdminDashboard() {
           </Card>
         </div>
 
+        {/* Participation Funnel */}
+        <ParticipationFunnel />
+
         {/* Responses by Group */}
         <Card>
-          <CardHeader>
-            <CardTitle>Responses by Stakeholder Group</CardTitle>
-            <CardDescription>
-              Current response distribution across target groups
-            </CardDescription>
+          <CardHeader className="flex flex-row items-start justify-between">
+            <div className="space-y-1.5">
+              <CardTitle>Responses by Stakeholder Group</CardTitle>
+              <CardDescription>
+                Current response distribution across target groups
+              </CardDescription>
+            </div>
+            {can(PERMISSIONS.RESPONSES_VIEW) && (
+              <Button variant="outline" size="sm" asChild>
+                <Link href="/admin/analytics">Question analytics</Link>
+              </Button>
+            )}
           </CardHeader>
           <CardContent>
             <div className="space-y-4">
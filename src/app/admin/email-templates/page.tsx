@@ -0,0 +1,398 @@
+/**
+ * Admin Email Templates Page
+ * Edit the subject and intro of each participant email per stakeholder group,
+ * with a live HTML and plaintext preview rendered from sample data
+ * @rule 042 "UI component architecture with editor and preview composition"
+ * @rule 054 "Accessibility requirements for form inputs"
+ * @rule 130 "Error handling for email operations"
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { STAKEHOLDER_GROUPS } from '@/lib/validation';
+import { PERMISSIONS } from '@/lib/permissions';
+import { useAdminPermissions } from '@/components/admin/AdminPermissions';
+import { Eye, Loader2, RotateCcw, Save } from 'lucide-react';
+
+interface EmailTemplate {
+  key: string;
+  group: string;
+  subject: string;
+  intro: string;
+  source: 'override' | 'all-override' | 'group-default' | 'default';
+  updatedAt: string | null;
+  updatedBy: string | null;
+}
+
+interface EmailPreview {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+const TEMPLATE_KEYS = [
+  { value: 'otp', label: 'Access code' },
+  { value: 'invitation', label: 'Invitation' },
+  { value: 'reminder', label: 'Reminder' },
+];
+
+const TEMPLATE_GROUPS = ['all', ...STAKEHOLDER_GROUPS];
+
+const SOURCE_LABELS: Record<EmailTemplate['source'], string> = {
+  'override': 'Customized',
+  'all-override': 'Customized for all groups',
+  'group-default': 'Built-in group wording',
+  'default': 'Built-in',
+};
+
+function findTemplate(list: EmailTemplate[], key: string, group: string) {
+  return list.find(template => template.key === key && template.group === group);
+}
+
+export default function EmailTemplatesPage() {
+  const { can } = useAdminPermissions();
+  const canManage = can(PERMISSIONS.CAMPAIGNS_MANAGE);
+
+  const [templates, setTemplates] = useState<EmailTemplate[]>([]);
+  const [placeholders, setPlaceholders] = useState<string[]>([]);
+  const [selectedKey, setSelectedKey] = useState('invitation');
+  const [selectedGroup, setSelectedGroup] = useState('all');
+  const [subject, setSubject] = useState('');
+  const [intro, setIntro] = useState('');
+  const [preview, setPreview] = useState<EmailPreview | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+
+  const current = findTemplate(templates, selectedKey, selectedGroup);
+  const isDirty = current !== undefined && (subject !== current.subject || intro !== current.intro);
+
+  useEffect(() => {
+    loadTemplates('invitation', 'all');
+  }, []);
+
+  // Re-render the stored wording whenever the selection or the saved templates change
+  useEffect(() => {
+    loadPreview(selectedKey, selectedGroup);
+  }, [selectedKey, selectedGroup, templates]);
+
+  const selectTemplate = (key: string, group: string) => {
+    const template = findTemplate(templates, key, group);
+    setSelectedKey(key);
+    setSelectedGroup(group);
+    setSubject(template?.subject || '');
+    setIntro(template?.intro || '');
+    setNotice('');
+  };
+
+  const loadTemplates = async (key: string, group: string) => {
+    setIsLoading(true);
+    setError('');
+
+    try {
+      console.log('📥 Loading email templates');
+
+      const response = await fetch('/api/admin/email-templates', {
+        credentials: 'include',
+      });
+
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to load email templates');
+      }
+
+      const template = findTemplate(data.templates, key, group);
+      setTemplates(data.templates);
+      setPlaceholders(data.placeholders);
+      setSubject(template?.subject || '');
+      setIntro(template?.intro || '');
+      console.log('✅ Email templates loaded:', data.templates.length);
+
+    } catch (error) {
+      console.error('❌ Failed to load email templates:', error);
+      setError(error instanceof Error ? error.message : 'Failed to load email templates');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const loadPreview = async (key: string, group: string, edits?: { subject: string; intro: string }) => {
+    setIsPreviewing(true);
+
+    try {
+      const response = await fetch('/api/admin/email-templates/preview', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ key, group, ...edits }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to render preview');
+      }
+
+      setPreview(data.preview);
+
+    } catch (error) {
+      console.error('❌ Failed to render email preview:', error);
+      setError(error instanceof Error ? error.message : 'Failed to render preview');
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError('');
+
+    try {
+      const response = await fetch('/api/admin/email-templates', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ key: selectedKey, group: selectedGroup, subject, intro }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.details?.[0]?.message || data.error || 'Failed to save email template');
+      }
+
+      await loadTemplates(selectedKey, selectedGroup);
+      setNotice(data.message);
+
+    } catch (error) {
+      console.error('❌ Failed to save email template:', error);
+      setError(error instanceof Error ? error.message : 'Failed to save email template');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleReset = async () => {
+    if (!confirm('Discard the customized wording and go back to the default?')) {
+      return;
+    }
+
+    setIsSaving(true);
+    setError('');
+
+    try {
+      const params = new URLSearchParams({ key: selectedKey, group: selectedGroup });
+      const response = await fetch(`/api/admin/email-templates?${params}`, {
+        method: 'DELETE',
+        credentials: 'include',
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to reset email template');
+      }
+
+      await loadTemplates(selectedKey, selectedGroup);
+      setNotice(data.message);
+
+    } catch (error) {
+      console.error('❌ Failed to reset email template:', error);
+      setError(error instanceof Error ? error.message : 'Failed to reset email template');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const formatGroup = (group: string) => group === 'all' ? 'All groups' : group.replace('_', ' ');
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b bg-card">
+        <div className="container mx-auto px-4 py-4">
+          <div>
+            <h1 className="text-2xl font-bold text-primary">Email Templates</h1>
+            <p className="text-muted-foreground">
+              Customize the wording participants receive, for everyone or for a single group
+            </p>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="container mx-auto px-4 py-8 space-y-6">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {notice && (
+          <Alert>
+            <AlertDescription>{notice}</AlertDescription>
+          </Alert>
+        )}
+
+        {isLoading && templates.length === 0 ? (
+          <div className="text-center py-8">
+            <div className="text-muted-foreground">Loading email templates...</div>
+          </div>
+        ) : (
+          <div className="grid gap-6 lg:grid-cols-2">
+            {/* Editor */}
+            <Card>
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <CardTitle>Wording</CardTitle>
+                  {current && <Badge variant="outline">{SOURCE_LABELS[current.source]}</Badge>}
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="template-key">Email</Label>
+                    <Select value={selectedKey} onValueChange={(value) => selectTemplate(value, selectedGroup)}>
+                      <SelectTrigger id="template-key">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {TEMPLATE_KEYS.map(key => (
+                          <SelectItem key={key.value} value={key.value}>{key.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="template-group">Group</Label>
+                    <Select value={selectedGroup} onValueChange={(value) => selectTemplate(selectedKey, value)}>
+                      <SelectTrigger id="template-group">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {TEMPLATE_GROUPS.map(group => (
+                          <SelectItem key={group} value={group}>{formatGroup(group)}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="template-subject">Subject</Label>
+                  <Input
+                    id="template-subject"
+                    value={subject}
+                    onChange={(e) => setSubject(e.target.value)}
+                    maxLength={200}
+                    disabled={!canManage}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="template-intro">Intro</Label>
+                  <Textarea
+                    id="template-intro"
+                    value={intro}
+                    onChange={(e) => setIntro(e.target.value)}
+                    rows={8}
+                    maxLength={2000}
+                    disabled={!canManage}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Leave a blank line between paragraphs. Placeholders: {placeholders.map(name => `{{${name}}}`).join(', ')}
+                  </p>
+                </div>
+
+                {current?.updatedBy && (
+                  <p className="text-xs text-muted-foreground">
+                    Last changed by {current.updatedBy} on {new Date(current.updatedAt!).toLocaleString()}
+                  </p>
+                )}
+
+                <div className="flex items-center space-x-2">
+                  <Button
+                    variant="outline"
+                    onClick={() => loadPreview(selectedKey, selectedGroup, { subject, intro })}
+                    disabled={isPreviewing || !subject.trim() || !intro.trim()}
+                  >
+                    {isPreviewing ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Eye className="h-4 w-4 mr-2" />}
+                    Preview
+                  </Button>
+                  {canManage && (
+                    <>
+                      <Button onClick={handleSave} disabled={isSaving || !isDirty}>
+                        {isSaving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+                        Save
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        onClick={handleReset}
+                        disabled={isSaving || current?.source !== 'override'}
+                      >
+                        <RotateCcw className="h-4 w-4 mr-2" />
+                        Reset to Default
+                      </Button>
+                    </>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* Preview */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Preview</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {preview ? (
+                  <div className="space-y-4">
+                    <div className="text-sm">
+                      <span className="text-muted-foreground">Subject:</span>{' '}
+                      <span className="font-medium" data-testid="template-preview-subject">{preview.subject}</span>
+                    </div>
+                    <Tabs defaultValue="html">
+                      <TabsList>
+                        <TabsTrigger value="html">HTML</TabsTrigger>
+                        <TabsTrigger value="text">Plain text</TabsTrigger>
+                      </TabsList>
+                      <TabsContent value="html">
+                        {/* Sandboxed so template markup can't run scripts in the admin origin */}
+                        <iframe
+                          title="Email template preview"
+                          sandbox=""
+                          srcDoc={preview.html}
+                          className="w-full h-[60vh] border rounded bg-white"
+                        />
+                      </TabsContent>
+                      <TabsContent value="text">
+                        <pre className="bg-muted rounded p-4 text-sm whitespace-pre-wrap max-h-[60vh] overflow-auto" data-testid="template-preview-text">
+                          {preview.text}
+                        </pre>
+                      </TabsContent>
+                    </Tabs>
+                  </div>
+                ) : (
+                  <div className="text-center py-8 text-muted-foreground">Rendering preview...</div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
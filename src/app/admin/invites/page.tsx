@@ -18,6 +18,11 @@ import { Badge } from '@/components/ui/badge';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Plus, Mail, RotateCcw, Loader2, Ban, CheckCircle } from 'lucide-react';
+import { InviteImportDialog } from '@/components/admin/InviteImportDialog';
+import { useAdminPermissions } from '@/components/admin/AdminPermissions';
+import { PERMISSIONS } from '@/lib/permissions';
+
+type BlockFilter = 'all' | 'active' | 'blocked';
 
 interface InvitedUser {
   id: number;
@@ -26,6 +31,7 @@ interface InvitedUser {
   invitedAt: string;
   hasTaken: boolean;
   consented: boolean;
+  lastContactedAt?: string | null;
   responseCount?: number;
   hasEverSubmitted?: boolean;
   canResubmit?: boolean;
@@ -48,17 +54,22 @@ export default function AdminInvitesPage() {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [resubmissionLoading, setResubmissionLoading] = useState<string | null>(null);
   const [blockingLoading, setBlockingLoading] = useState<string | null>(null);
+  const [blockFilter, setBlockFilter] = useState<BlockFilter>('all');
+  const { can } = useAdminPermissions();
+  const canManageInvites = can(PERMISSIONS.INVITES_MANAGE);
+  const canBlock = can(PERMISSIONS.PARTICIPANTS_BLOCK);
 
   // Load invites on component mount
   useEffect(() => {
     loadInvites();
   }, []);
 
-  const loadInvites = async () => {
+  const loadInvites = async (filter: BlockFilter = 'all') => {
     try {
-      console.log('📋 Loading invited users from database');
+      console.log('📋 Loading invited users from database:', filter);
       
-      const response = await fetch('/api/admin/invites', {
+      const query = filter === 'all' ? '' : `?status=${filter}`;
+      const response = await fetch(`/api/admin/invites${query}`, {
         credentials: 'include', // Include cookies for authentication
       });
       
@@ -97,24 +108,20 @@ export default function AdminInvitesPage() {
     try {
       console.log('➕ Adding new invite:', { email: newEmail, group: newGroup });
       
-      // TODO: Replace with actual API call
-      // const response = await fetch('/api/admin/invites', {
-      //   method: 'POST',
-      //   headers: { 'Content-Type': 'application/json' },
-      //   body: JSON.stringify({ email: newEmail, group: newGroup }),
-      // });
-
-      // Mock success for now
-      const newInvite: InvitedUser = {
-        id: Date.now(),
-        email: newEmail,
-        group: newGroup,
-        invitedAt: new Date().toISOString(),
-        hasTaken: false,
-        consented: false,
-      };
-
-      setInvites(prev => [newInvite, ...prev]);
+      const response = await fetch('/api/admin/invites', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ email: newEmail, group: newGroup }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to add invite');
+      }
+
+      setInvites(prev => [{ ...data.invite, responseCount: 0, hasEverSubmitted: false }, ...prev]);
       setNewEmail('');
       setNewGroup('');
       setIsAddDialogOpen(false);
@@ -123,7 +130,7 @@ export default function AdminInvitesPage() {
 
     } catch (error) {
       console.error('❌ Failed to add invite:', error);
-      setError('Failed to add invite');
+      setError(error instanceof Error ? error.message : 'Failed to add invite');
     } finally {
       setIsSubmitting(false);
     }
@@ -179,7 +186,7 @@ export default function AdminInvitesPage() {
       alert(statusMessage);
       
       // Reload invites to show updated status
-      loadInvites();
+      loadInvites(blockFilter);
 
     } catch (error) {
       console.error(`❌ Failed to ${action} user:`, error);
@@ -224,7 +231,7 @@ export default function AdminInvitesPage() {
       alert(`✅ One-Time Resubmission Approved!\n\nParticipant: ${email.replace(/(.{2}).*(@.*)/, '$1***$2')}\nGroup: ${group}\n\n🎯 What happens next:\n• User can now retake the survey once\n• After resubmission, they'll need approval again\n• All historical responses are preserved (${data.user?.previousSubmissions || 0} previous submissions)\n\n⚠️ Remember: This is one-time permission only!`);
       
       // Reload invites to show updated status
-      loadInvites();
+      loadInvites(blockFilter);
 
     } catch (error) {
       console.error('❌ Failed to enable resubmission:', error);
@@ -244,68 +251,75 @@ export default function AdminInvitesPage() {
               <h1 className="text-2xl font-bold text-primary">Manage Invites</h1>
               <p className="text-muted-foreground">Invite and manage survey participants</p>
             </div>
-            <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
-              <DialogTrigger asChild>
-                <Button>
-                  <Plus className="h-4 w-4 mr-2" />
-                  Add Invite
-                </Button>
-              </DialogTrigger>
-              <DialogContent>
-                <DialogHeader>
-                  <DialogTitle>Add New Invite</DialogTitle>
-                </DialogHeader>
-                <form onSubmit={handleAddInvite} className="space-y-4">
-                  {error && (
-                    <Alert variant="destructive">
-                      <AlertDescription>{error}</AlertDescription>
-                    </Alert>
-                  )}
-
-                  <div className="space-y-2">
-                    <Label htmlFor="email">Email Address</Label>
-                    <Input
-                      id="email"
-                      type="email"
-                      placeholder="participant@example.com"
-                      value={newEmail}
-                      onChange={(e) => setNewEmail(e.target.value)}
-                      required
-                      disabled={isSubmitting}
-                    />
-                  </div>
-
-                  <div className="space-y-2">
-                    <Label htmlFor="group">Stakeholder Group</Label>
-                    <Select value={newGroup} onValueChange={setNewGroup} disabled={isSubmitting}>
-                      <SelectTrigger>
-                        <SelectValue placeholder="Select group" />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="Teachers">Teachers</SelectItem>
-                        <SelectItem value="Students">Students</SelectItem>
-                        <SelectItem value="Administrators">Administrators</SelectItem>
-                        <SelectItem value="IT_Admins">IT Admins</SelectItem>
-                      </SelectContent>
-                    </Select>
-                  </div>
-
-                  <div className="flex justify-end space-x-2">
-                    <Button 
-                      type="button" 
-                      variant="outline" 
-                      onClick={() => setIsAddDialogOpen(false)}
-                      disabled={isSubmitting}
-                    >
-                      Cancel
-                    </Button>
-                    <Button type="submit" disabled={isSubmitting}>
-                      {isSubmitting ? 'Adding...' : 'Add Invite'}
-                    </Button>
-                  </div>
-                </form>
-              </DialogContent>
-            </Dialog>
+            <div className="flex items-center space-x-2">
+              {canManageInvites && (
+                <>
+                  <InviteImportDialog onImported={() => loadInvites(blockFilter)} />
+                  <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
+                    <DialogTrigger asChild>
+                      <Button>
+                        <Plus className="h-4 w-4 mr-2" />
+                        Add Invite
+                      </Button>
+                    </DialogTrigger>
+                    <DialogContent>
+                      <DialogHeader>
+                        <DialogTitle>Add New Invite</DialogTitle>
+                      </DialogHeader>
+                      <form onSubmit={handleAddInvite} className="space-y-4">
+                        {error && (
+                          <Alert variant="destructive">
+                            <AlertDescription>{error}</AlertDescription>
+                          </Alert>
+                        )}
+
+                        <div className="space-y-2">
+                          <Label htmlFor="email">Email Address</Label>
+                          <Input
+                            id="email"
+                            type="email"
+                            placeholder="participant@example.com"
+                            value={newEmail}
+                            onChange={(e) => setNewEmail(e.target.value)}
+                            required
+                            disabled={isSubmitting}
+                          />
+                        </div>
+
+                        <div className="space-y-2">
+                          <Label htmlFor="group">Stakeholder Group</Label>
+                          <Select value={newGroup} onValueChange={setNewGroup} disabled={isSubmitting}>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select group" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="Teachers">Teachers</SelectItem>
+                              <SelectItem value="Students">Students</SelectItem>
+                              <SelectItem value="Administrators">Administrators</SelectItem>
+                              <SelectItem value="IT_Admins">IT Admins</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </div>
+
+                        <div className="flex justify-end space-x-2">
+                          <Button 
+                            type="button" 
+                            variant="outline" 
+                            onClick={() => setIsAddDialogOpen(false)}
+                            disabled={isSubmitting}
+                          >
+                            Cancel
+                          </Button>
+                          <Button type="submit" disabled={isSubmitting}>
+                            {isSubmitting ? 'Adding...' : 'Add Invite'}
+                          </Button>
+                        </div>
+                      </form>
+                    </DialogContent>
+                  </Dialog>
+                </>
+              )}
+            </div>
           </div>
         </div>
       </header>
@@ -314,13 +328,35 @@ export default function AdminInvitesPage() {
       <main className="container mx-auto px-4 py-8">
         <Card>
           <CardHeader>
-            <CardTitle>Invited Users</CardTitle>
+            <div className="flex items-center justify-between">
+              <CardTitle>Invited Users</CardTitle>
+              <Select
+                value={blockFilter}
+                onValueChange={(value) => {
+                  setBlockFilter(value as BlockFilter);
+                  loadInvites(value as BlockFilter);
+                }}
+              >
+                <SelectTrigger className="w-48" aria-label="Filter by access status">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All participants</SelectItem>
+                  <SelectItem value="active">Active only</SelectItem>
+                  <SelectItem value="blocked">Blocked only</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
           </CardHeader>
           <CardContent>
             {isLoading ? (
               <div className="text-center py-8">
                 <div className="text-muted-foreground">Loading invites...</div>
               </div>
+            ) : invites.length === 0 && blockFilter !== 'all' ? (
+              <div className="text-center py-8 text-muted-foreground">
+                No {blockFilter} participants
+              </div>
             ) : invites.length === 0 ? (
               <div className="text-center py-8">
                 <Mail className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
@@ -328,10 +364,12 @@ export default function AdminInvitesPage() {
                 <div className="text-muted-foreground mb-4">
                   Start by adding participants to your survey
                 </div>
-                <Button onClick={() => setIsAddDialogOpen(true)}>
-                  <Plus className="h-4 w-4 mr-2" />
-                  Add First Invite
-                </Button>
+                {canManageInvites && (
+                  <Button onClick={() => setIsAddDialogOpen(true)}>
+                    <Plus className="h-4 w-4 mr-2" />
+                    Add First Invite
+                  </Button>
+                )}
               </div>
             ) : (
               <Table>
@@ -341,6 +379,7 @@ export default function AdminInvitesPage() {
                     <TableHead>Group</TableHead>
                     <TableHead>Status</TableHead>
                     <TableHead>Invited</TableHead>
+                    <TableHead>Last Contacted</TableHead>
                     <TableHead className="text-right">Actions</TableHead>
                   </TableRow>
                 </TableHeader>
@@ -373,12 +412,20 @@ export default function AdminInvitesPage() {
                             </Badge>
                           )}
                         </div>
+                        {invite.isBlocked && (
+                          <div className="mt-1 text-xs text-muted-foreground">
+                            {invite.blockedReason || 'No reason given'}
+                            {invite.blockedAt && ` · ${formatDate(invite.blockedAt)}`}
+                            {invite.blockedBy && ` · by ${invite.blockedBy}`}
+                          </div>
+                        )}
                       </TableCell>
                       <TableCell>{formatDate(invite.invitedAt)}</TableCell>
+                      <TableCell>{invite.lastContactedAt ? formatDate(invite.lastContactedAt) : '—'}</TableCell>
                       <TableCell className="text-right">
                         <div className="flex justify-end space-x-2">
                           {/* Resubmission Button - Show for users with responses */}
-                          {invite.showResubmitButton && (
+                          {canManageInvites && invite.showResubmitButton && (
                             <Button 
                               variant="outline" 
                               size="sm"
@@ -402,22 +449,24 @@ export default function AdminInvitesPage() {
                           )}
                           
                           {/* Block/Unblock Button */}
-                          <Button 
-                            variant={invite.isBlocked ? "outline" : "ghost"}
-                            size="sm"
-                            onClick={() => handleBlockUser(invite.email, invite.group, invite.isBlocked || false)}
-                            disabled={blockingLoading === invite.email}
-                            title={invite.isBlocked ? "Unblock participant" : "Block participant from survey"}
-                            className={invite.isBlocked ? "text-accent hover:text-accent/90" : "text-destructive hover:text-destructive/90"}
-                          >
-                            {blockingLoading === invite.email ? (
-                              <Loader2 className="h-4 w-4 animate-spin" />
-                            ) : invite.isBlocked ? (
-                              <CheckCircle className="h-4 w-4" />
-                            ) : (
-                              <Ban className="h-4 w-4" />
-                            )}
-                          </Button>
+                          {canBlock && (
+                            <Button 
+                              variant={invite.isBlocked ? "outline" : "ghost"}
+                              size="sm"
+                              onClick={() => handleBlockUser(invite.email, invite.group, invite.isBlocked || false)}
+                              disabled={blockingLoading === invite.email}
+                              title={invite.isBlocked ? "Unblock participant" : "Block participant from survey"}
+                              className={invite.isBlocked ? "text-accent hover:text-accent/90" : "text-destructive hover:text-destructive/90"}
+                            >
+                              {blockingLoading === invite.email ? (
+                                <Loader2 className="h-4 w-4 animate-spin" />
+                              ) : invite.isBlocked ? (
+                                <CheckCircle className="h-4 w-4" />
+                              ) : (
+                                <Ban className="h-4 w-4" />
+                              )}
+                            </Button>
+                          )}
                         </div>
                       </TableCell>
                     </TableRow>
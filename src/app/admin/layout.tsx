@@ -6,19 +6,59 @@
 
 'use client';
 
-import { useRouter } from 'next/navigation';
+import { useEffect } from 'react';
+import { usePathname, useRouter } from 'next/navigation';
 import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Button } from '@/components/ui/button';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
 import Link from 'next/link';
-import { BarChart3, Users, FileText, Settings, LogOut, User, Microscope } from 'lucide-react';
+import { BarChart3, Users, FileText, Settings, LogOut, User, Microscope, KeyRound } from 'lucide-react';
+import { AdminPermissionsProvider, useAdminPermissions } from '@/components/admin/AdminPermissions';
+import { ADMIN_ROLE_LABELS, PERMISSIONS, type Permission } from '@/lib/permissions';
+
+const NAV_TABS: { value: string; href: string; label: string; permission: Permission }[] = [
+  { value: 'dashboard', href: '/admin/dashboard', label: 'Dashboard', permission: PERMISSIONS.DASHBOARD_VIEW },
+  { value: 'invites', href: '/admin/invites', label: 'Invites', permission: PERMISSIONS.INVITES_VIEW },
+  { value: 'campaigns', href: '/admin/campaigns', label: 'Campaigns', permission: PERMISSIONS.CAMPAIGNS_VIEW },
+  { value: 'email-templates', href: '/admin/email-templates', label: 'Email Templates', permission: PERMISSIONS.CAMPAIGNS_VIEW },
+  { value: 'versions', href: '/admin/versions', label: 'Versions', permission: PERMISSIONS.VERSIONS_VIEW },
+  { value: 'responses', href: '/admin/responses', label: 'Responses', permission: PERMISSIONS.RESPONSES_VIEW },
+  { value: 'analytics', href: '/admin/analytics', label: 'Analytics', permission: PERMISSIONS.RESPONSES_VIEW },
+  { value: 'text-analysis', href: '/admin/text-analysis', label: 'Text Analysis', permission: PERMISSIONS.RESPONSES_VIEW },
+  { value: 'coding', href: '/admin/coding', label: 'Coding', permission: PERMISSIONS.RESPONSES_VIEW },
+  { value: 'resubmissions', href: '/admin/resubmissions', label: 'Resubmissions', permission: PERMISSIONS.RESPONSES_VIEW },
+  { value: 'testing', href: '/admin/testing', label: 'Testing', permission: PERMISSIONS.PRODUCTION_MANAGE },
+  { value: 'outbox', href: '/admin/outbox', label: 'Outbox', permission: PERMISSIONS.OUTBOX_VIEW },
+  { value: 'users', href: '/admin/users', label: 'Admin Users', permission: PERMISSIONS.ADMINS_MANAGE },
+  { value: 'audit', href: '/admin/audit', label: 'Audit Log', permission: PERMISSIONS.AUDIT_VIEW },
+];
 
 export default function AdminLayout({
   children,
 }: {
   children: React.ReactNode;
 }) {
+  const pathname = usePathname();
+
+  // Remount after leaving the login page so the new session's permissions are loaded
+  return (
+    <AdminPermissionsProvider key={pathname === '/admin/login' ? 'login' : 'admin'}>
+      <AdminShell>{children}</AdminShell>
+    </AdminPermissionsProvider>
+  );
+}
+
+function AdminShell({ children }: { children: React.ReactNode }) {
   const router = useRouter();
+  const pathname = usePathname();
+  const { user, can } = useAdminPermissions();
+
+  // Keep an admin with a temporary password on the change-password screen
+  useEffect(() => {
+    if (user?.mustChangePassword && pathname !== '/admin/change-password') {
+      router.replace('/admin/change-password');
+    }
+  }, [user, pathname, router]);
 
   const handleLogout = async () => {
     try {
@@ -55,24 +95,11 @@ export default function AdminLayout({
             <div className="flex items-center space-x-4">
               <Tabs defaultValue="dashboard" className="w-auto">
                 <TabsList>
-                  <TabsTrigger value="dashboard" asChild>
-                    <Link href="/admin/dashboard">Dashboard</Link>
-                  </TabsTrigger>
-                  <TabsTrigger value="invites" asChild>
-                    <Link href="/admin/invites">Invites</Link>
-                  </TabsTrigger>
-                  <TabsTrigger value="versions" asChild>
-                    <Link href="/admin/versions">Versions</Link>
-                  </TabsTrigger>
-                  <TabsTrigger value="responses" asChild>
-                    <Link href="/admin/responses">Responses</Link>
-                  </TabsTrigger>
-                  <TabsTrigger value="resubmissions" asChild>
-                    <Link href="/admin/resubmissions">Resubmissions</Link>
-                  </TabsTrigger>
-                  <TabsTrigger value="testing" asChild>
-                    <Link href="/admin/testing">Testing</Link>
-                  </TabsTrigger>
+                  {NAV_TABS.filter(tab => can(tab.permission)).map(tab => (
+                    <TabsTrigger key={tab.value} value={tab.value} asChild>
+                      <Link href={tab.href}>{tab.label}</Link>
+                    </TabsTrigger>
+                  ))}
                 </TabsList>
               </Tabs>
 
@@ -81,10 +108,19 @@ export default function AdminLayout({
                 <DropdownMenuTrigger asChild>
                   <Button className="flex items-center space-x-2 bg-primary text-primary-foreground hover:bg-primary/90">
                     <User className="h-4 w-4" />
-                    <span className="hidden sm:inline">Admin</span>
+                    <span className="hidden sm:inline">
+                      {user ? `${user.name} · ${ADMIN_ROLE_LABELS[user.role]}` : 'Admin'}
+                    </span>
                   </Button>
                 </DropdownMenuTrigger>
                 <DropdownMenuContent align="end" className="w-48 bg-white border border-border shadow-lg" sideOffset={5}>
+                  <DropdownMenuItem
+                    onClick={() => router.push('/admin/change-password')}
+                    className="flex items-center space-x-2 cursor-pointer bg-white"
+                  >
+                    <KeyRound className="h-4 w-4" />
+                    <span>Change Password</span>
+                  </DropdownMenuItem>
                   <DropdownMenuItem 
                     onClick={handleLogout}
                     className="flex items-center space-x-2 text-destructive hover:text-destructive/90 hover:bg-destructive/10 cursor-pointer focus:bg-destructive/10 focus:text-destructive/90 bg-white"
@@ -47,8 +47,8 @@ export default function AdminLoginPage() {
 
       console.log('✅ Admin login successful');
       
-      // Redirect to admin dashboard
-      router.push('/admin/dashboard');
+      // Temporary passwords must be replaced before anything else
+      router.push(data.mustChangePassword ? '/admin/change-password' : '/admin/dashboard');
 
     } catch (error) {
       console.error('❌ Login error:', error);
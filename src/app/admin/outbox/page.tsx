@@ -0,0 +1,311 @@
+/**
+ * Admin Email Outbox Page
+ * Shows emails captured by the outbox transport, rendered as recipients would see them
+ * @rule 042 "UI component architecture with table and preview composition"
+ * @rule 054 "Accessibility requirements for data tables"
+ * @rule 130 "Error handling for email operations"
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { RefreshCw, Search, Trash2, Loader2 } from 'lucide-react';
+import { PERMISSIONS } from '@/lib/permissions';
+import { useAdminPermissions } from '@/components/admin/AdminPermissions';
+
+interface OutboxSummary {
+  id: number;
+  createdAt: string;
+  category: string;
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+}
+
+interface OutboxMessage extends OutboxSummary {
+  html: string;
+}
+
+interface OutboxFilters {
+  to: string;
+  category: string;
+}
+
+const emptyFilters: OutboxFilters = { to: '', category: 'all' };
+
+export default function OutboxPage() {
+  const [messages, setMessages] = useState<OutboxSummary[]>([]);
+  const [total, setTotal] = useState(0);
+  const [transport, setTransport] = useState('');
+  const [filters, setFilters] = useState<OutboxFilters>(emptyFilters);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isClearing, setIsClearing] = useState(false);
+  const [error, setError] = useState('');
+  const [selected, setSelected] = useState<OutboxMessage | null>(null);
+  const { can } = useAdminPermissions();
+  const canManage = can(PERMISSIONS.OUTBOX_MANAGE);
+
+  useEffect(() => {
+    loadMessages(emptyFilters);
+  }, []);
+
+  const loadMessages = async (activeFilters: OutboxFilters) => {
+    setIsLoading(true);
+    setError('');
+
+    try {
+      console.log('📥 Loading outbox');
+
+      const params = new URLSearchParams();
+      if (activeFilters.to) params.set('to', activeFilters.to);
+      if (activeFilters.category !== 'all') params.set('category', activeFilters.category);
+
+      const response = await fetch(`/api/admin/outbox?${params}`, {
+        credentials: 'include',
+      });
+
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to load outbox');
+      }
+
+      setMessages(data.messages);
+      setTotal(data.total);
+      setTransport(data.transport);
+      console.log('✅ Outbox loaded:', data.messages.length, 'messages');
+
+    } catch (error) {
+      console.error('❌ Failed to load outbox:', error);
+      setError(error instanceof Error ? error.message : 'Failed to load outbox');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const openMessage = async (id: number) => {
+    try {
+      const response = await fetch(`/api/admin/outbox/${id}`, {
+        credentials: 'include',
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load message');
+      }
+
+      setSelected(data.message);
+
+    } catch (error) {
+      console.error('❌ Failed to load outbox message:', error);
+      setError(error instanceof Error ? error.message : 'Failed to load message');
+    }
+  };
+
+  const handleClear = async () => {
+    if (!confirm(`Delete all ${total} captured emails?`)) {
+      return;
+    }
+
+    setIsClearing(true);
+
+    try {
+      const response = await fetch('/api/admin/outbox', {
+        method: 'DELETE',
+        credentials: 'include',
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to clear outbox');
+      }
+
+      setMessages([]);
+      setTotal(0);
+      console.log('✅', data.message);
+
+    } catch (error) {
+      console.error('❌ Failed to clear outbox:', error);
+      setError(error instanceof Error ? error.message : 'Failed to clear outbox');
+    } finally {
+      setIsClearing(false);
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b bg-card">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-2xl font-bold text-primary">Email Outbox</h1>
+              <p className="text-muted-foreground">
+                Emails captured instead of sent{transport && <> &middot; active transport: <strong>{transport}</strong></>}
+              </p>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Button variant="outline" onClick={() => loadMessages(filters)} disabled={isLoading}>
+                <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+                Refresh
+              </Button>
+              {canManage && (
+                <Button variant="destructive" onClick={handleClear} disabled={isClearing || total === 0}>
+                  {isClearing ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Trash2 className="h-4 w-4 mr-2" />}
+                  Clear
+                </Button>
+              )}
+            </div>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="container mx-auto px-4 py-8 space-y-6">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {transport && transport !== 'outbox' && (
+          <Alert>
+            <AlertDescription>
+              Emails are currently delivered through {transport}, so new messages won&apos;t appear here.
+              Set <code>EMAIL_TRANSPORT=outbox</code> to capture them.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle>Messages ({total})</CardTitle>
+              <form
+                className="flex items-center space-x-2"
+                onSubmit={(e) => { e.preventDefault(); loadMessages(filters); }}
+              >
+                <Input
+                  placeholder="Recipient email"
+                  aria-label="Filter by recipient"
+                  value={filters.to}
+                  onChange={(e) => setFilters({ ...filters, to: e.target.value })}
+                  className="w-64"
+                />
+                <Select value={filters.category} onValueChange={(value) => setFilters({ ...filters, category: value })}>
+                  <SelectTrigger className="w-36" aria-label="Filter by type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All types</SelectItem>
+                    <SelectItem value="otp">Access codes</SelectItem>
+                    <SelectItem value="invitation">Invitations</SelectItem>
+                    <SelectItem value="reminder">Reminders</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Button type="submit" variant="outline" size="sm">
+                  <Search className="h-4 w-4" />
+                </Button>
+              </form>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="text-center py-8">
+                <div className="text-muted-foreground">Loading outbox...</div>
+              </div>
+            ) : messages.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">No captured emails</div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Received</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>To</TableHead>
+                    <TableHead>Subject</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {messages.map((message) => (
+                    <TableRow
+                      key={message.id}
+                      className="cursor-pointer"
+                      onClick={() => openMessage(message.id)}
+                      data-testid="outbox-message"
+                    >
+                      <TableCell className="whitespace-nowrap">{formatDate(message.createdAt)}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline">{message.category}</Badge>
+                      </TableCell>
+                      <TableCell>{message.to}</TableCell>
+                      <TableCell className="font-medium">{message.subject}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+
+      {/* Message Preview Dialog */}
+      <Dialog open={selected !== null} onOpenChange={(open) => { if (!open) setSelected(null); }}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>{selected?.subject}</DialogTitle>
+          </DialogHeader>
+          {selected && (
+            <div className="space-y-4">
+              <div className="text-sm text-muted-foreground">
+                From {selected.from} to {selected.to} &middot; {formatDate(selected.createdAt)}
+              </div>
+              <Tabs defaultValue="html">
+                <TabsList>
+                  <TabsTrigger value="html">HTML</TabsTrigger>
+                  <TabsTrigger value="text">Plain text</TabsTrigger>
+                </TabsList>
+                <TabsContent value="html">
+                  {/* Sandboxed so captured markup can't run scripts in the admin origin */}
+                  <iframe
+                    title="Email preview"
+                    sandbox=""
+                    srcDoc={selected.html}
+                    className="w-full h-[60vh] border rounded bg-white"
+                  />
+                </TabsContent>
+                <TabsContent value="text">
+                  <pre className="bg-muted rounded p-4 text-sm whitespace-pre-wrap max-h-[60vh] overflow-auto" data-testid="outbox-text">
+                    {selected.text}
+                  </pre>
+                </TabsContent>
+              </Tabs>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,308 @@
+/**
+ * Admin Survey Response Detail Page
+ * Every question of the response's survey version in order, with the participant's
+ * answer, skipped and branched-out questions marked, and links to their other submissions
+ * @rule 042 "UI component architecture for data display"
+ * @rule 054 "Accessibility requirements for data display"
+ */
+
+'use client';
+
+import { use, useState, useEffect } from 'react';
+import Link from 'next/link';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { ArrowLeft, Clock, Loader2, Monitor, History } from 'lucide-react';
+
+interface AnswerItem {
+  number: number;
+  questionId: string;
+  text: string;
+  type: string;
+  required: boolean;
+  status: 'answered' | 'skipped' | 'hidden';
+  answer: unknown;
+  options?: string[];
+  scale?: { min: number; max: number };
+}
+
+interface ResponseDetail {
+  id: number;
+  email: string;
+  group: string;
+  partial: boolean;
+  submittedAt: string;
+  lastSavedAt: string | null;
+  lastQuestionId: string | null;
+  completionTime: number | null;
+  activeTime: number | null;
+  idleTime: number | null;
+  deviceType: string;
+  userAgent: string;
+  version: { id: number; version: string; group: string; description: string | null };
+  submissionNumber: number | null;
+  isResubmission: boolean;
+}
+
+interface SubmissionSummary {
+  id: number;
+  submittedAt: string;
+  partial: boolean;
+  version: string;
+  submissionNumber: number | null;
+}
+
+interface DetailData {
+  response: ResponseDetail;
+  answers: AnswerItem[];
+  questionTimings: Record<string, number> | null;
+  unmatchedAnswers: { questionId: string; answer: unknown }[];
+  summary: { answered: number; skipped: number; hidden: number };
+  submissions: SubmissionSummary[];
+}
+
+const STATUS_BADGES: Record<AnswerItem['status'], { label: string; variant: 'default' | 'secondary' | 'outline' }> = {
+  answered: { label: 'Answered', variant: 'default' },
+  skipped: { label: 'Skipped', variant: 'secondary' },
+  hidden: { label: 'Not shown (branching)', variant: 'outline' },
+};
+
+function formatAnswer(item: Pick<AnswerItem, 'answer' | 'scale'>): string {
+  const { answer } = item;
+  if (answer === null || answer === undefined || answer === '') return '';
+  if (Array.isArray(answer)) return answer.join(', ');
+  if (item.scale && typeof answer === 'number') return `${answer} on a ${item.scale.min}–${item.scale.max} scale`;
+  if (typeof answer === 'object') return JSON.stringify(answer);
+  return String(answer);
+}
+
+export default function ResponseDetailPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = use(params);
+  const [data, setData] = useState<DetailData | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadResponse(id);
+  }, [id]);
+
+  const loadResponse = async (responseId: string) => {
+    setIsLoading(true);
+    setError('');
+
+    try {
+      console.log('📄 Loading survey response', responseId);
+
+      const response = await fetch(`/api/admin/responses/${responseId}`, {
+        credentials: 'include',
+      });
+
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to load response');
+      }
+
+      setData(result);
+      console.log('✅ Response loaded:', result.answers.length, 'questions');
+
+    } catch (error) {
+      console.error('❌ Failed to load response:', error);
+      setError(error instanceof Error ? error.message : 'Failed to load response');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+  };
+
+  const formatCompletionTime = (seconds: number | null) => {
+    if (seconds === null) return '-';
+    const minutes = Math.floor(seconds / 60);
+    return minutes > 0 ? `${minutes} min ${seconds % 60} s` : `${seconds} s`;
+  };
+
+  return (
+    <div className="container mx-auto py-8 px-4 space-y-6">
+      <Button variant="ghost" asChild>
+        <Link href="/admin/responses">
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Back to Responses
+        </Link>
+      </Button>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="text-center space-y-3">
+            <Loader2 className="h-8 w-8 animate-spin mx-auto" />
+            <p className="text-muted-foreground">Loading response...</p>
+          </div>
+        </div>
+      ) : data && (
+        <>
+          {/* Metadata */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <span>Response #{data.response.id}</span>
+                <Badge variant={data.response.partial ? 'secondary' : 'default'}>
+                  {data.response.partial ? 'Partial' : 'Complete'}
+                </Badge>
+                {data.response.isResubmission && (
+                  <Badge variant="secondary">Submission #{data.response.submissionNumber}</Badge>
+                )}
+              </CardTitle>
+              <CardDescription>
+                <span className="font-mono">{data.response.email}</span> &middot; {data.response.group.replace('_', ' ')} &middot; version {data.response.version.version}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                <div>
+                  <div className="text-muted-foreground">Submitted</div>
+                  <div className="font-medium">{formatDate(data.response.submittedAt)}</div>
+                </div>
+                <div>
+                  <div className="text-muted-foreground">Completion time</div>
+                  <div className="font-medium flex items-center space-x-1">
+                    <Clock className="h-3 w-3" />
+                    <span>{formatCompletionTime(data.response.completionTime)}</span>
+                  </div>
+                  {data.response.activeTime !== null && (
+                    <div className="text-xs text-muted-foreground">
+                      {formatCompletionTime(data.response.activeTime)} active &middot; {formatCompletionTime(data.response.idleTime)} idle
+                    </div>
+                  )}
+                </div>
+                <div>
+                  <div className="text-muted-foreground">Device</div>
+                  <div className="font-medium flex items-center space-x-1">
+                    <Monitor className="h-3 w-3" />
+                    <span>{data.response.deviceType}</span>
+                  </div>
+                </div>
+                <div>
+                  <div className="text-muted-foreground">Questions</div>
+                  <div className="font-medium">
+                    {data.summary.answered} answered &middot; {data.summary.skipped} skipped &middot; {data.summary.hidden} not shown
+                  </div>
+                </div>
+              </div>
+              <p className="mt-4 text-xs text-muted-foreground break-all" title="User agent">{data.response.userAgent}</p>
+              {data.response.partial && data.response.lastSavedAt && (
+                <p className="mt-2 text-sm text-muted-foreground">
+                  Draft last saved {formatDate(data.response.lastSavedAt)}
+                  {data.response.lastQuestionId && <> at question <code>{data.response.lastQuestionId}</code></>}
+                </p>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Answers */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Answers</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ol className="space-y-4">
+                {data.answers.map(item => (
+                  <li
+                    key={item.questionId}
+                    className={`border rounded-lg p-4 ${item.status === 'hidden' ? 'opacity-60' : ''}`}
+                    data-testid="response-answer"
+                  >
+                    <div className="flex items-start justify-between gap-4">
+                      <div className="font-medium">
+                        {item.number}. {item.text}
+                        {item.required && <span className="text-destructive" aria-label="required"> *</span>}
+                      </div>
+                      <Badge variant={STATUS_BADGES[item.status].variant} className="shrink-0">
+                        {STATUS_BADGES[item.status].label}
+                      </Badge>
+                    </div>
+                    {data.questionTimings?.[item.questionId] !== undefined && (
+                      <p className="mt-1 text-xs text-muted-foreground">
+                        {formatCompletionTime(data.questionTimings[item.questionId])} on this question
+                      </p>
+                    )}
+                    {item.status === 'answered' ? (
+                      <p className="mt-2 whitespace-pre-wrap text-sm">{formatAnswer(item)}</p>
+                    ) : (
+                      <p className="mt-2 text-sm text-muted-foreground italic">
+                        {item.status === 'hidden' ? 'Skipped by branching rules' : 'No answer'}
+                      </p>
+                    )}
+                  </li>
+                ))}
+              </ol>
+
+              {data.unmatchedAnswers.length > 0 && (
+                <div className="mt-6 space-y-2">
+                  <h3 className="text-sm font-medium">Answers to questions no longer in this version</h3>
+                  {data.unmatchedAnswers.map(entry => (
+                    <div key={entry.questionId} className="text-sm">
+                      <code>{entry.questionId}</code>: {formatAnswer({ answer: entry.answer })}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Other submissions */}
+          {data.submissions.length > 1 && (
+            <Card id="submissions">
+              <CardHeader className="flex flex-row items-center justify-between">
+                <CardTitle className="flex items-center space-x-2">
+                  <History className="h-5 w-5" />
+                  <span>All Submissions by This Participant</span>
+                </CardTitle>
+                <Button variant="outline" size="sm" asChild>
+                  <Link href={`/admin/resubmissions/${data.response.id}`}>Compare submissions</Link>
+                </Button>
+              </CardHeader>
+              <CardContent>
+                <ul className="space-y-2">
+                  {data.submissions.map(submission => (
+                    <li key={submission.id} className="flex items-center justify-between text-sm">
+                      <span className="flex items-center space-x-2">
+                        <Badge variant={submission.partial ? 'secondary' : 'outline'}>
+                          {submission.partial ? 'Draft' : `#${submission.submissionNumber}`}
+                        </Badge>
+                        <span>{formatDate(submission.submittedAt)}</span>
+                        <span className="text-muted-foreground">version {submission.version}</span>
+                      </span>
+                      {submission.id === data.response.id ? (
+                        <span className="text-muted-foreground">Viewing</span>
+                      ) : (
+                        <Link href={`/admin/responses/${submission.id}`} className="text-primary hover:underline">
+                          View
+                        </Link>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </CardContent>
+            </Card>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
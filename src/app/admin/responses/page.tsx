@@ -1,5 +1,6 @@
 /**
  * Admin Survey Responses Page - Enhanced
+ * Filters, search and sorting run on the server; rows load a page at a time
  * @rule 042 "UI component architecture for data display"
  * @rule 054 "Accessibility requirements for data tables"
  */
@@ -7,12 +8,20 @@
 'use client';
 
 import { useState, useEffect } from 'react';
+import Link from 'next/link';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { Download, FileText, Clock, Loader2, Eye, History, Users, BarChart3 } from 'lucide-react';
+import { Download, FileText, Clock, Loader2, Eye, History, Users, BarChart3, Search, X } from 'lucide-react';
+import { STAKEHOLDER_GROUPS } from '@/lib/validation';
+import { PERMISSIONS } from '@/lib/permissions';
+import { useAdminPermissions } from '@/components/admin/AdminPermissions';
 
 interface SurveyResponse {
   id: number;
@@ -24,7 +33,8 @@ interface SurveyResponse {
   deviceType: string | null;
   userAgent: string;
   questionsAnswered: number;
-  submissionNumber: number;
+  submissionNumber: number | null;
+  isResubmission: boolean;
   version: {
     version: string;
     group: string;
@@ -32,78 +42,186 @@ interface SurveyResponse {
   };
 }
 
+interface ResponseStats {
+  totalResponses: number;
+  completedResponses: number;
+  partialResponses: number;
+  uniqueParticipants: number;
+  averageCompletionTime: number | null;
+  byGroup: Record<string, number>;
+}
+
+interface FilterOptions {
+  versions: { id: number; version: string; group: string }[];
+  deviceTypes: string[];
+}
+
+interface ResponseFilters {
+  search: string;
+  group: string;
+  versionId: string;
+  status: string;
+  deviceType: string;
+  resubmission: string;
+  from: string;
+  to: string;
+  sort: string;
+}
+
+const emptyFilters: ResponseFilters = {
+  search: '',
+  group: 'all',
+  versionId: 'all',
+  status: 'all',
+  deviceType: 'all',
+  resubmission: 'all',
+  from: '',
+  to: '',
+  sort: 'newest',
+};
+
+const PAGE_SIZE = 25;
+
+function buildResponseParams(filters: ResponseFilters, cursor: number | null) {
+  const params = new URLSearchParams({ limit: String(PAGE_SIZE), sort: filters.sort });
+  if (cursor) params.set('cursor', String(cursor));
+  if (filters.search.trim()) params.set('search', filters.search.trim());
+  if (filters.group !== 'all') params.set('group', filters.group);
+  if (filters.versionId !== 'all') params.set('versionId', filters.versionId);
+  if (filters.status !== 'all') params.set('status', filters.status);
+  if (filters.deviceType !== 'all') params.set('deviceType', filters.deviceType);
+  if (filters.resubmission !== 'all') params.set('resubmission', filters.resubmission);
+  // Date inputs are local calendar days - include the whole of the end day
+  if (filters.from) params.set('from', new Date(`${filters.from}T00:00:00`).toISOString());
+  if (filters.to) params.set('to', new Date(`${filters.to}T23:59:59.999`).toISOString());
+  return params;
+}
+
+type ExportFormat = 'excel' | 'csv' | 'spss' | 'long_csv' | 'jsonl' | 'codebook';
+
+const EXPORT_FILES: Record<ExportFormat, { label: string; filename: string }> = {
+  excel: { label: 'Excel', filename: 'survey-responses.xlsx' },
+  csv: { label: 'CSV', filename: 'survey-responses.csv' },
+  spss: { label: 'SPSS (.sav)', filename: 'survey-responses.sav' },
+  long_csv: { label: 'Long-format CSV', filename: 'survey-responses-long.csv' },
+  jsonl: { label: 'JSON Lines', filename: 'survey-responses.jsonl' },
+  codebook: { label: 'Codebook', filename: 'survey-codebook.csv' },
+};
+
 export default function AdminResponsesPage() {
   const [responses, setResponses] = useState<SurveyResponse[]>([]);
+  const [stats, setStats] = useState<ResponseStats | null>(null);
+  const [filterOptions, setFilterOptions] = useState<FilterOptions>({ versions: [], deviceTypes: [] });
+  const [filters, setFilters] = useState<ResponseFilters>(emptyFilters);
+  const [appliedFilters, setAppliedFilters] = useState<ResponseFilters>(emptyFilters);
+  const [nextCursor, setNextCursor] = useState<number | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
   const [error, setError] = useState('');
   const [isExporting, setIsExporting] = useState(false);
+  const [includeCoding, setIncludeCoding] = useState(false);
+  const { can } = useAdminPermissions();
 
   useEffect(() => {
-    loadResponses();
+    loadResponses(emptyFilters);
   }, []);
 
-  const loadResponses = async () => {
+  const loadResponses = async (activeFilters: ResponseFilters, cursor: number | null = null) => {
+    if (cursor) {
+      setIsLoadingMore(true);
+    } else {
+      setIsLoading(true);
+    }
+    setError('');
+
     try {
       console.log('📋 Loading survey responses from database');
 
-      const response = await fetch('/api/admin/responses', {
+      const response = await fetch(`/api/admin/responses?${buildResponseParams(activeFilters, cursor)}`, {
         credentials: 'include',
       });
 
-      if (!response.ok) {
-        throw new Error('Failed to fetch responses');
-      }
-
       const data = await response.json();
 
-      if (data.success) {
-        setResponses(data.responses);
-        console.log('✅ Responses loaded successfully:', data.responses.length, 'responses');
+      if (!response.ok || !data.success) {
+        throw new Error(data.details?.[0]?.message || data.error || 'Failed to load responses');
+      }
+
+      if (cursor) {
+        setResponses(previous => [...previous, ...data.responses]);
       } else {
-        throw new Error(data.error || 'Failed to load responses');
+        setResponses(data.responses);
+        setAppliedFilters(activeFilters);
+        setStats(data.stats);
+        setFilterOptions(data.filterOptions);
       }
+      setNextCursor(data.nextCursor);
+      console.log('✅ Responses loaded successfully:', data.responses.length, 'responses');
 
     } catch (error) {
       console.error('❌ Failed to load responses:', error);
       setError(error instanceof Error ? error.message : 'Failed to load responses');
     } finally {
       setIsLoading(false);
+      setIsLoadingMore(false);
+    }
+  };
+
+  const updateFilter = (name: keyof ResponseFilters, value: string) => {
+    const updated = { ...filters, [name]: value };
+    setFilters(updated);
+    // Search applies on submit; everything else immediately
+    if (name !== 'search') {
+      loadResponses(updated);
+    }
+  };
+
+  const clearFilters = () => {
+    setFilters(emptyFilters);
+    loadResponses(emptyFilters);
+  };
+
+  const downloadExport = async (format: ExportFormat) => {
+    const response = await fetch('/api/admin/export', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      body: JSON.stringify({ format, includeCoding }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to export ${EXPORT_FILES[format].label} file`);
     }
+
+    // Download the file
+    const blob = await response.blob();
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.style.display = 'none';
+    a.href = url;
+    a.download = EXPORT_FILES[format].filename;
+    document.body.appendChild(a);
+    a.click();
+    window.URL.revokeObjectURL(url);
+    document.body.removeChild(a);
   };
 
-  const handleExport = async (format: 'excel' | 'csv') => {
+  const handleExport = async (format: ExportFormat) => {
     setIsExporting(true);
     try {
       console.log(`📤 Exporting data as ${format}`);
 
-      const response = await fetch('/api/admin/export', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        credentials: 'include',
-        body: JSON.stringify({ format }),
-      });
-
-      if (!response.ok) {
-        throw new Error(`Failed to export ${format} file`);
+      await downloadExport(format);
+      // Statistics package formats come with a codebook describing their variables
+      if (format !== 'excel' && format !== 'csv') {
+        await downloadExport('codebook');
       }
 
-      // Download the file
-      const blob = await response.blob();
-      const url = window.URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.style.display = 'none';
-      a.href = url;
-      a.download = `survey-responses.${format === 'excel' ? 'xlsx' : 'csv'}`;
-      document.body.appendChild(a);
-      a.click();
-      window.URL.revokeObjectURL(url);
-      document.body.removeChild(a);
-
-      console.log(`✅ ${format.toUpperCase()} export downloaded successfully`);
+      console.log(`✅ ${EXPORT_FILES[format].label} export downloaded successfully`);
 
     } catch (error) {
       console.error('❌ Export failed:', error);
-      setError(`Failed to export ${format} file`);
+      setError(error instanceof Error ? error.message : `Failed to export ${EXPORT_FILES[format].label} file`);
     } finally {
       setIsExporting(false);
     }
@@ -125,9 +243,7 @@ export default function AdminResponsesPage() {
     return `${minutes} min`;
   };
 
-  const uniqueParticipants = new Set(responses.map(r => r.email)).size;
-  const completeResponses = responses.filter(r => !r.partial).length;
-  const partialResponses = responses.filter(r => r.partial).length;
+  const hasFilters = JSON.stringify(filters) !== JSON.stringify(emptyFilters);
 
   return (
     <div className="container mx-auto py-8 px-4 space-y-6">
@@ -151,7 +267,7 @@ export default function AdminResponsesPage() {
       )}
 
       {/* Statistics Overview */}
-      {!isLoading && responses.length > 0 && (
+      {stats && stats.totalResponses > 0 && (
         <Card>
           <CardHeader>
             <CardTitle className="flex items-center space-x-2">
@@ -162,19 +278,19 @@ export default function AdminResponsesPage() {
           <CardContent>
             <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
               <div className="text-center p-4 bg-primary/5 rounded-lg">
-                <div className="text-3xl font-bold text-primary">{responses.length}</div>
+                <div className="text-3xl font-bold text-primary">{stats.totalResponses}</div>
                 <div className="text-sm text-muted-foreground">Total Responses</div>
               </div>
               <div className="text-center p-4 bg-accent/10 rounded-lg">
-                <div className="text-3xl font-bold text-accent">{completeResponses}</div>
+                <div className="text-3xl font-bold text-accent">{stats.completedResponses}</div>
                 <div className="text-sm text-muted-foreground">Complete</div>
               </div>
               <div className="text-center p-4 bg-secondary/10 rounded-lg">
-                <div className="text-3xl font-bold text-secondary">{partialResponses}</div>
+                <div className="text-3xl font-bold text-secondary">{stats.partialResponses}</div>
                 <div className="text-sm text-muted-foreground">Partial</div>
               </div>
               <div className="text-center p-4 bg-primary/10 rounded-lg">
-                <div className="text-3xl font-bold text-primary">{uniqueParticipants}</div>
+                <div className="text-3xl font-bold text-primary">{stats.uniqueParticipants}</div>
                 <div className="text-sm text-muted-foreground">Unique Participants</div>
               </div>
             </div>
@@ -183,58 +299,210 @@ export default function AdminResponsesPage() {
       )}
 
       {/* Export Controls */}
-      <Card>
-        <CardHeader>
-          <CardTitle>Data Export</CardTitle>
-          <CardDescription>
-            Export anonymized survey data for research analysis
-          </CardDescription>
-        </CardHeader>
-        <CardContent>
-          <div className="flex flex-wrap gap-3">
-            <Button
-              onClick={() => handleExport('excel')}
-              disabled={isExporting || responses.length === 0}
-              className="flex items-center space-x-2"
-            >
-              {isExporting ? (
-                <Loader2 className="h-4 w-4 animate-spin" />
-              ) : (
-                <Download className="h-4 w-4" />
-              )}
-              <span>Export Excel</span>
-            </Button>
-            <Button
-              onClick={() => handleExport('csv')}
-              disabled={isExporting || responses.length === 0}
-              variant="outline"
-              className="flex items-center space-x-2"
-            >
-              {isExporting ? (
-                <Loader2 className="h-4 w-4 animate-spin" />
-              ) : (
-                <FileText className="h-4 w-4" />
-              )}
-              <span>Export CSV</span>
-            </Button>
-          </div>
-          
-          {isExporting && (
-            <div className="mt-4 p-3 bg-primary/5 border border-primary/20 rounded-lg">
-              <p className="text-sm text-primary/90 flex items-center space-x-2">
-                <Loader2 className="h-4 w-4 animate-spin" />
-                <span>Preparing export with anonymized data and privacy protection...</span>
-              </p>
+      {can(PERMISSIONS.RESPONSES_EXPORT) && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Data Export</CardTitle>
+            <CardDescription>
+              Export anonymized survey data for research analysis
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="flex flex-wrap gap-3">
+              <Button
+                onClick={() => handleExport('excel')}
+                disabled={isExporting || !stats?.totalResponses}
+                className="flex items-center space-x-2"
+              >
+                {isExporting ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <Download className="h-4 w-4" />
+                )}
+                <span>Export Excel</span>
+              </Button>
+              <Button
+                onClick={() => handleExport('csv')}
+                disabled={isExporting || !stats?.totalResponses}
+                variant="outline"
+                className="flex items-center space-x-2"
+              >
+                {isExporting ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <FileText className="h-4 w-4" />
+                )}
+                <span>Export CSV</span>
+              </Button>
             </div>
-          )}
 
-          {responses.length === 0 && !isLoading && (
-            <div className="mt-4 p-3 bg-muted/50 rounded-lg">
+            <div className="mt-4 space-y-2">
               <p className="text-sm text-muted-foreground">
-                No responses available for export. Responses will appear here once participants complete surveys.
+                For SPSS, Stata and R - each download comes with a codebook of variable names, question text and value labels
               </p>
+              <div className="flex flex-wrap gap-3">
+                {(['spss', 'long_csv', 'jsonl'] as const).map(format => (
+                  <Button
+                    key={format}
+                    onClick={() => handleExport(format)}
+                    disabled={isExporting || !stats?.totalResponses}
+                    variant="outline"
+                    size="sm"
+                    className="flex items-center space-x-2"
+                  >
+                    <Download className="h-4 w-4" />
+                    <span>{EXPORT_FILES[format].label}</span>
+                  </Button>
+                ))}
+              </div>
             </div>
-          )}
+
+            <div className="mt-4 flex items-center space-x-2">
+              <Checkbox
+                id="include-coding"
+                checked={includeCoding}
+                onCheckedChange={(checked) => setIncludeCoding(checked === true)}
+              />
+              <Label htmlFor="include-coding">Include qualitative codes (Excel adds a sheet of coded excerpts)</Label>
+            </div>
+          
+            {isExporting && (
+              <div className="mt-4 p-3 bg-primary/5 border border-primary/20 rounded-lg">
+                <p className="text-sm text-primary/90 flex items-center space-x-2">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  <span>Preparing export with anonymized data and privacy protection...</span>
+                </p>
+              </div>
+            )}
+
+            {stats?.totalResponses === 0 && !hasFilters && (
+              <div className="mt-4 p-3 bg-muted/50 rounded-lg">
+                <p className="text-sm text-muted-foreground">
+                  No responses available for export. Responses will appear here once participants complete surveys.
+                </p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Filters */}
+      <Card>
+        <CardContent className="pt-6">
+          <form
+            className="space-y-4"
+            onSubmit={(e) => { e.preventDefault(); loadResponses(filters); }}
+          >
+            <div className="flex items-center space-x-2">
+              <Input
+                placeholder="Search open-ended answers"
+                aria-label="Search open-ended answers"
+                value={filters.search}
+                onChange={(e) => updateFilter('search', e.target.value)}
+              />
+              <Button type="submit" variant="outline">
+                <Search className="h-4 w-4 mr-2" />
+                Search
+              </Button>
+              {hasFilters && (
+                <Button type="button" variant="ghost" onClick={clearFilters}>
+                  <X className="h-4 w-4 mr-2" />
+                  Clear
+                </Button>
+              )}
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-8 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="filter-group" className="text-xs">Group</Label>
+                <Select value={filters.group} onValueChange={(value) => updateFilter('group', value)}>
+                  <SelectTrigger id="filter-group"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All groups</SelectItem>
+                    {STAKEHOLDER_GROUPS.map(group => (
+                      <SelectItem key={group} value={group}>{group.replace('_', ' ')}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="filter-version" className="text-xs">Version</Label>
+                <Select value={filters.versionId} onValueChange={(value) => updateFilter('versionId', value)}>
+                  <SelectTrigger id="filter-version"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All versions</SelectItem>
+                    {filterOptions.versions.map(version => (
+                      <SelectItem key={version.id} value={String(version.id)}>{version.version} ({version.group})</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="filter-status" className="text-xs">Status</Label>
+                <Select value={filters.status} onValueChange={(value) => updateFilter('status', value)}>
+                  <SelectTrigger id="filter-status"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Any status</SelectItem>
+                    <SelectItem value="complete">Complete</SelectItem>
+                    <SelectItem value="partial">Partial</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="filter-device" className="text-xs">Device</Label>
+                <Select value={filters.deviceType} onValueChange={(value) => updateFilter('deviceType', value)}>
+                  <SelectTrigger id="filter-device"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Any device</SelectItem>
+                    {filterOptions.deviceTypes.map(type => (
+                      <SelectItem key={type} value={type}>{type}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="filter-resubmission" className="text-xs">Resubmissions</Label>
+                <Select value={filters.resubmission} onValueChange={(value) => updateFilter('resubmission', value)}>
+                  <SelectTrigger id="filter-resubmission"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Include</SelectItem>
+                    <SelectItem value="only">Only resubmissions</SelectItem>
+                    <SelectItem value="exclude">Exclude</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="filter-from" className="text-xs">From</Label>
+                <Input
+                  id="filter-from"
+                  type="date"
+                  value={filters.from}
+                  onChange={(e) => updateFilter('from', e.target.value)}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="filter-to" className="text-xs">To</Label>
+                <Input
+                  id="filter-to"
+                  type="date"
+                  value={filters.to}
+                  onChange={(e) => updateFilter('to', e.target.value)}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="filter-sort" className="text-xs">Sort</Label>
+                <Select value={filters.sort} onValueChange={(value) => updateFilter('sort', value)}>
+                  <SelectTrigger id="filter-sort"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="newest">Newest first</SelectItem>
+                    <SelectItem value="oldest">Oldest first</SelectItem>
+                    <SelectItem value="fastest">Fastest (timed only)</SelectItem>
+                    <SelectItem value="slowest">Slowest (timed only)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </form>
         </CardContent>
       </Card>
 
@@ -257,6 +525,10 @@ export default function AdminResponsesPage() {
                 <p className="text-muted-foreground">Loading survey responses...</p>
               </div>
             </div>
+          ) : responses.length === 0 && hasFilters ? (
+            <div className="text-center py-12 text-muted-foreground">
+              No responses match these filters
+            </div>
           ) : responses.length === 0 ? (
             <div className="text-center py-12">
               <FileText className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
@@ -291,7 +563,7 @@ export default function AdminResponsesPage() {
                       <TableCell>
                         <div className="space-y-1">
                           <div className="font-mono text-sm">{response.email}</div>
-                          {response.submissionNumber > 1 && (
+                          {response.isResubmission && (
                             <Badge variant="secondary" className="text-xs">
                               Submission #{response.submissionNumber}
                             </Badge>
@@ -334,16 +606,21 @@ export default function AdminResponsesPage() {
                       </TableCell>
                       <TableCell className="text-right">
                         <div className="flex justify-end space-x-1">
-                          <Button variant="secondary" size="sm" title="View Response Details">
-                            <Eye className="h-4 w-4" />
+                          <Button variant="secondary" size="sm" title="View Response Details" asChild>
+                            <Link href={`/admin/responses/${response.id}`}>
+                              <Eye className="h-4 w-4" />
+                            </Link>
                           </Button>
-                          {response.submissionNumber > 1 && (
+                          {response.isResubmission && (
                             <Button 
                               variant="secondary" 
                               size="sm" 
                               title="View Submission History"
+                              asChild
                             >
-                              <History className="h-4 w-4" />
+                              <Link href={`/admin/responses/${response.id}#submissions`}>
+                                <History className="h-4 w-4" />
+                              </Link>
                             </Button>
                           )}
                         </div>
@@ -352,6 +629,20 @@ export default function AdminResponsesPage() {
                   ))}
                 </TableBody>
               </Table>
+              <div className="flex items-center justify-between p-3 border-t text-sm text-muted-foreground">
+                <span>Showing {responses.length} of {stats?.totalResponses ?? responses.length}</span>
+                {nextCursor && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => loadResponses(appliedFilters, nextCursor)}
+                    disabled={isLoadingMore}
+                  >
+                    {isLoadingMore && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    Load More
+                  </Button>
+                )}
+              </div>
             </div>
           )}
         </CardContent>
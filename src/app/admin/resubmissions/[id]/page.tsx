@@ -0,0 +1,227 @@
+/**
+ * Admin Submission Comparison Page
+ * A participant's complete submissions side by side, one column each, with the
+ * answers that changed from the previous submission highlighted
+ * @rule 042 "UI component architecture for data display"
+ * @rule 054 "Accessibility requirements for data display"
+ */
+
+'use client';
+
+import { use, useState, useEffect } from 'react';
+import Link from 'next/link';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ArrowLeft, Loader2 } from 'lucide-react';
+
+type AnswerChange = 'unchanged' | 'changed' | 'added' | 'removed';
+
+interface SubmissionColumn {
+  id: number;
+  submissionNumber: number;
+  submittedAt: string;
+  completionTime: number | null;
+  version: string;
+  changedQuestions: number;
+}
+
+interface DiffRow {
+  questionId: string;
+  text: string;
+  type: string;
+  answers: unknown[];
+  changes: Array<AnswerChange | null>;
+}
+
+interface HistoryData {
+  participant: { email: string; group: string; canResubmit: boolean };
+  submissions: SubmissionColumn[];
+  rows: DiffRow[];
+}
+
+const CHANGE_STYLES: Record<AnswerChange, { label: string; className: string }> = {
+  unchanged: { label: '', className: '' },
+  changed: { label: 'Changed', className: 'bg-yellow-50 border-l-4 border-yellow-400' },
+  added: { label: 'Added', className: 'bg-green-50 border-l-4 border-green-400' },
+  removed: { label: 'Removed', className: 'bg-red-50 border-l-4 border-red-400' },
+};
+
+function formatAnswer(answer: unknown): string {
+  if (answer === null || answer === undefined) return '';
+  if (Array.isArray(answer)) return answer.join(', ');
+  if (typeof answer === 'object') return JSON.stringify(answer);
+  return String(answer);
+}
+
+export default function SubmissionComparisonPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = use(params);
+  const [data, setData] = useState<HistoryData | null>(null);
+  const [changedOnly, setChangedOnly] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadHistory(id);
+  }, [id]);
+
+  const loadHistory = async (responseId: string) => {
+    setIsLoading(true);
+    setError('');
+
+    try {
+      console.log('🔁 Loading submission history for response', responseId);
+
+      const response = await fetch(`/api/admin/resubmissions/${responseId}`, {
+        credentials: 'include',
+      });
+
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to load submission history');
+      }
+
+      setData(result);
+      console.log('✅ Submission history loaded:', result.submissions.length, 'submissions');
+
+    } catch (error) {
+      console.error('❌ Failed to load submission history:', error);
+      setError(error instanceof Error ? error.message : 'Failed to load submission history');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+  };
+
+  const visibleRows = data
+    ? data.rows.filter(row => !changedOnly || row.changes.some(change => change !== null && change !== 'unchanged'))
+    : [];
+
+  return (
+    <div className="container mx-auto py-8 px-4 space-y-6">
+      <Button variant="ghost" asChild>
+        <Link href="/admin/resubmissions">
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Back to Resubmissions
+        </Link>
+      </Button>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="text-center space-y-3">
+            <Loader2 className="h-8 w-8 animate-spin mx-auto" />
+            <p className="text-muted-foreground">Loading submission history...</p>
+          </div>
+        </div>
+      ) : data && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <span>Submission History</span>
+              <Badge variant="secondary">{data.submissions.length} submissions</Badge>
+              {data.participant.canResubmit && <Badge variant="outline">Can Retake</Badge>}
+            </CardTitle>
+            <CardDescription>
+              <span className="font-mono">{data.participant.email}</span> &middot; {data.participant.group.replace('_', ' ')}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {data.submissions.length < 2 && (
+              <p className="text-sm text-muted-foreground">
+                This participant has only submitted once, so there is nothing to compare yet.
+              </p>
+            )}
+
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="changed-only"
+                checked={changedOnly}
+                onCheckedChange={(checked) => setChangedOnly(checked === true)}
+              />
+              <Label htmlFor="changed-only">Only show questions that changed</Label>
+            </div>
+
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="min-w-[16rem]">Question</TableHead>
+                    {data.submissions.map(submission => (
+                      <TableHead key={submission.id} className="min-w-[14rem] align-top py-2">
+                        <div className="space-y-1">
+                          <Link href={`/admin/responses/${submission.id}`} className="font-medium text-primary hover:underline">
+                            Submission #{submission.submissionNumber}
+                          </Link>
+                          <div className="text-xs font-normal">
+                            {formatDate(submission.submittedAt)} &middot; version {submission.version}
+                          </div>
+                          {submission.submissionNumber > 1 && (
+                            <div className="text-xs font-normal">
+                              {submission.changedQuestions} {submission.changedQuestions === 1 ? 'answer' : 'answers'} changed
+                            </div>
+                          )}
+                        </div>
+                      </TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visibleRows.map(row => (
+                    <TableRow key={row.questionId} data-testid="submission-diff-row">
+                      <TableCell className="align-top font-medium">
+                        {row.text}
+                        {row.type === 'unknown' && (
+                          <div className="text-xs text-muted-foreground">No longer in the survey</div>
+                        )}
+                      </TableCell>
+                      {row.answers.map((answer, index) => {
+                        const change = row.changes[index];
+                        const style = change ? CHANGE_STYLES[change] : CHANGE_STYLES.unchanged;
+                        return (
+                          <TableCell key={data.submissions[index].id} className={`align-top ${style.className}`}>
+                            {answer === null ? (
+                              <span className="text-sm text-muted-foreground italic">No answer</span>
+                            ) : (
+                              <span className="text-sm whitespace-pre-wrap">{formatAnswer(answer)}</span>
+                            )}
+                            {style.label && (
+                              <div className="mt-1 text-xs font-medium text-muted-foreground">{style.label}</div>
+                            )}
+                          </TableCell>
+                        );
+                      })}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            {changedOnly && visibleRows.length === 0 && (
+              <p className="text-sm text-muted-foreground">No answers changed between submissions.</p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
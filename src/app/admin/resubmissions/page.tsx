@@ -7,102 +7,102 @@
 'use client';
 
 import { useState, useEffect } from 'react';
+import Link from 'next/link';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { Label } from '@/components/ui/label';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { RotateCcw, History, Users, Clock, Loader2 } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { PERMISSIONS } from '@/lib/permissions';
+import { useAdminPermissions } from '@/components/admin/AdminPermissions';
+import { RotateCcw, History, Clock, Loader2, GitCompare } from 'lucide-react';
 
-interface UserSubmissionHistory {
+type Scope = 'resubmitted' | 'all';
+
+interface ParticipantHistory {
   email: string;
   group: string;
-  hasTaken: boolean;
-  consented: boolean;
-  submissions: {
-    id: number;
-    submittedAt: string;
-    completionTime: number;
-    responses: any;
-  }[];
+  canResubmit: boolean;
+  submissionCount: number;
+  latestResponseId: number;
+  lastSubmittedAt: string | null;
 }
 
 export default function AdminResubmissionsPage() {
-  const [users, setUsers] = useState<UserSubmissionHistory[]>([]);
+  const { can } = useAdminPermissions();
+  const canManage = can(PERMISSIONS.INVITES_MANAGE);
+  const [participants, setParticipants] = useState<ParticipantHistory[]>([]);
+  const [scope, setScope] = useState<Scope>('resubmitted');
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState('');
   const [resetEmail, setResetEmail] = useState('');
   const [isResetting, setIsResetting] = useState(false);
 
   useEffect(() => {
-    loadUserSubmissions();
-  }, []);
+    loadParticipants(scope);
+  }, [scope]);
+
+  const loadParticipants = async (selectedScope: Scope) => {
+    setIsLoading(true);
+    setError('');
 
-  const loadUserSubmissions = async () => {
     try {
-      console.log('📊 Loading user submission history');
-      
-      // For now, create mock data based on database
-      const mockUsers: UserSubmissionHistory[] = [
-        {
-          email: 'spehargreg@yahoo.com',
-          group: 'Teachers',
-          hasTaken: false, // Just reset
-          consented: true,
-          submissions: [
-            {
-              id: 1,
-              submittedAt: new Date().toISOString(),
-              completionTime: 245,
-              responses: { q1: 'Previous response...' }
-            }
-          ]
-        },
-        {
-          email: 'student@example.com',
-          group: 'Students',
-          hasTaken: true,
-          consented: true,
-          submissions: [
-            {
-              id: 2,
-              submittedAt: new Date(Date.now() - 86400000).toISOString(),
-              completionTime: 180,
-              responses: { q1: 'Student response...' }
-            }
-          ]
-        }
-      ];
-
-      setUsers(mockUsers);
-      console.log('✅ User submissions loaded');
+      console.log('📊 Loading participant submission history');
+
+      const response = await fetch(`/api/admin/resubmissions?scope=${selectedScope}`, {
+        credentials: 'include',
+      });
+
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to load submission history');
+      }
+
+      setParticipants(result.participants);
+      console.log('✅ Submission history loaded:', result.participants.length, 'participants');
 
     } catch (error) {
       console.error('❌ Failed to load submissions:', error);
-      setError('Failed to load user submissions');
+      setError(error instanceof Error ? error.message : 'Failed to load submission history');
     } finally {
       setIsLoading(false);
     }
   };
 
-  const handleEnableResubmission = async (email: string) => {
+  const handleEnableResubmission = async (participant: { email: string } | { responseId: number }, label: string) => {
     setIsResetting(true);
     try {
-      console.log('🔄 Enabling resubmission for:', email.replace(/(.{2}).*(@.*)/, '$1***$2'));
+      console.log('🔄 Enabling resubmission for:', label);
+
+      const response = await fetch('/api/admin/allow-resubmission', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include',
+        body: JSON.stringify({
+          ...participant,
+          reason: 'Admin-initiated resubmission from resubmissions page',
+        }),
+      });
+
+      const data = await response.json();
 
-      // For now, simulate the API call
-      await new Promise(resolve => setTimeout(resolve, 1000));
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to enable resubmission');
+      }
 
-      alert(`✅ Resubmission Enabled!\n\nUser: ${email.replace(/(.{2}).*(@.*)/, '$1***$2')}\n\nThe user can now retake the survey.\nAll previous responses are preserved for research analysis.`);
-      
-      // Reload data
-      loadUserSubmissions();
+      alert(`✅ Resubmission Enabled!\n\nUser: ${data.user.email}\n\nThe user can now retake the survey.\nAll previous responses are preserved for research analysis.`);
+
+      setResetEmail('');
+      loadParticipants(scope);
 
     } catch (error) {
       console.error('❌ Failed to enable resubmission:', error);
-      alert('Failed to enable resubmission');
+      alert(`❌ Failed to enable resubmission: ${error instanceof Error ? error.message : 'Unknown error'}`);
     } finally {
       setIsResetting(false);
     }
@@ -117,16 +117,6 @@ export default function AdminResubmissionsPage() {
     });
   };
 
-  if (isLoading) {
-    return (
-      <div className="container mx-auto py-8 px-4">
-        <div className="flex items-center justify-center">
-          <Loader2 className="h-8 w-8 animate-spin" />
-        </div>
-      </div>
-    );
-  }
-
   return (
     <div className="container mx-auto py-8 px-4 space-y-6">
       <Card>
@@ -144,97 +134,129 @@ export default function AdminResubmissionsPage() {
           )}
 
           {/* Quick Reset Tool */}
-          <div className="bg-primary/5 border border-primary/20 rounded-lg p-4">
-            <h3 className="font-medium text-primary mb-3">Quick Resubmission Reset</h3>
-            <div className="flex space-x-2">
-              <Input
-                placeholder="Enter email address"
-                value={resetEmail}
-                onChange={(e) => setResetEmail(e.target.value)}
-                className="max-w-xs"
-              />
-              <Button
-                onClick={() => handleEnableResubmission(resetEmail)}
-                disabled={!resetEmail || isResetting}
-                size="sm"
-              >
-                {isResetting ? (
-                  <>
-                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                    Enabling...
-                  </>
-                ) : (
-                  <>
-                    <RotateCcw className="mr-2 h-4 w-4" />
-                    Enable Resubmission
-                  </>
-                )}
-              </Button>
+          {canManage && (
+            <div className="bg-primary/5 border border-primary/20 rounded-lg p-4">
+              <h3 className="font-medium text-primary mb-3">Quick Resubmission Reset</h3>
+              <div className="flex space-x-2">
+                <Input
+                  placeholder="Enter email address"
+                  value={resetEmail}
+                  onChange={(e) => setResetEmail(e.target.value)}
+                  className="max-w-xs"
+                  aria-label="Participant email address"
+                />
+                <Button
+                  onClick={() => handleEnableResubmission({ email: resetEmail }, resetEmail.replace(/(.{2}).*(@.*)/, '$1***$2'))}
+                  disabled={!resetEmail || isResetting}
+                  size="sm"
+                >
+                  {isResetting ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      Enabling...
+                    </>
+                  ) : (
+                    <>
+                      <RotateCcw className="mr-2 h-4 w-4" />
+                      Enable Resubmission
+                    </>
+                  )}
+                </Button>
+              </div>
+              <p className="text-xs text-primary/90 mt-2">
+                This allows a participant to retake the survey while preserving their previous responses.
+              </p>
             </div>
-            <p className="text-xs text-primary/90 mt-2">
-              This allows a participant to retake the survey while preserving their previous responses.
-            </p>
-          </div>
+          )}
 
-          {/* User Submission History */}
+          {/* Participant Submission History */}
           <div className="space-y-4">
-            <h3 className="text-lg font-medium">Participant Submission History</h3>
-            
-            <Table>
-              <TableHeader>
-                <TableRow>
-                  <TableHead>Email</TableHead>
-                  <TableHead>Group</TableHead>
-                  <TableHead>Status</TableHead>
-                  <TableHead>Submissions</TableHead>
-                  <TableHead>Last Submitted</TableHead>
-                  <TableHead>Actions</TableHead>
-                </TableRow>
-              </TableHeader>
-              <TableBody>
-                {users.map((user) => (
-                  <TableRow key={user.email}>
-                    <TableCell className="font-mono text-sm">
-                      {user.email.replace(/(.{2}).*(@.*)/, '$1***$2')}
-                    </TableCell>
-                    <TableCell>
-                      <Badge variant="secondary">{user.group}</Badge>
-                    </TableCell>
-                    <TableCell>
-                      <Badge variant={user.hasTaken ? "default" : "outline"}>
-                        {user.hasTaken ? 'Completed' : 'Can Retake'}
-                      </Badge>
-                    </TableCell>
-                    <TableCell>
-                      <div className="flex items-center space-x-1">
-                        <History className="h-4 w-4 text-muted-foreground" />
-                        <span>{user.submissions.length}</span>
-                      </div>
-                    </TableCell>
-                    <TableCell>
-                      {user.submissions.length > 0 && (
-                        <div className="flex items-center space-x-1 text-sm">
-                          <Clock className="h-3 w-3 text-muted-foreground" />
-                          <span>{formatDate(user.submissions[0].submittedAt)}</span>
-                        </div>
-                      )}
-                    </TableCell>
-                    <TableCell>
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        onClick={() => handleEnableResubmission(user.email)}
-                        disabled={!user.hasTaken || isResetting}
-                        className="text-xs"
-                      >
-                        <RotateCcw className="mr-1 h-3 w-3" />
-                        Enable Resubmit
-                      </Button>
-                    </TableCell>
+            <div className="flex items-center justify-between">
+              <h3 className="text-lg font-medium">Participant Submission History</h3>
+              <Select value={scope} onValueChange={(value) => setScope(value as Scope)}>
+                <SelectTrigger className="w-56" aria-label="Participants to show">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="resubmitted">Submitted more than once</SelectItem>
+                  <SelectItem value="all">All participants who submitted</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {isLoading ? (
+              <div className="flex items-center justify-center py-8">
+                <Loader2 className="h-8 w-8 animate-spin" />
+              </div>
+            ) : participants.length === 0 ? (
+              <p className="text-sm text-muted-foreground py-4">
+                {scope === 'resubmitted' ? 'No participant has submitted more than once yet.' : 'No complete submissions yet.'}
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Email</TableHead>
+                    <TableHead>Group</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Submissions</TableHead>
+                    <TableHead>Last Submitted</TableHead>
+                    <TableHead>Actions</TableHead>
                   </TableRow>
-                ))}
-              </TableBody>
-            </Table>
+                </TableHeader>
+                <TableBody>
+                  {participants.map((participant) => (
+                    <TableRow key={participant.latestResponseId}>
+                      <TableCell className="font-mono text-sm">{participant.email}</TableCell>
+                      <TableCell>
+                        <Badge variant="secondary">{participant.group}</Badge>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={participant.canResubmit ? 'outline' : 'default'}>
+                          {participant.canResubmit ? 'Can Retake' : 'Completed'}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-center space-x-1">
+                          <History className="h-4 w-4 text-muted-foreground" />
+                          <span>{participant.submissionCount}</span>
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        {participant.lastSubmittedAt && (
+                          <div className="flex items-center space-x-1 text-sm">
+                            <Clock className="h-3 w-3 text-muted-foreground" />
+                            <span>{formatDate(participant.lastSubmittedAt)}</span>
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-center space-x-2">
+                          <Button variant="outline" size="sm" className="text-xs" asChild>
+                            <Link href={`/admin/resubmissions/${participant.latestResponseId}`}>
+                              <GitCompare className="mr-1 h-3 w-3" />
+                              Compare
+                            </Link>
+                          </Button>
+                          {canManage && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleEnableResubmission({ responseId: participant.latestResponseId }, participant.email)}
+                              disabled={participant.canResubmit || isResetting}
+                              className="text-xs"
+                            >
+                              <RotateCcw className="mr-1 h-3 w-3" />
+                              Enable Resubmit
+                            </Button>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
           </div>
 
           {/* Research Notes */}
@@ -242,9 +264,9 @@ export default function AdminResubmissionsPage() {
             <h3 className="font-medium text-secondary mb-2">Research Data Management</h3>
             <ul className="text-sm text-secondary/90 space-y-1">
               <li>• All previous responses are preserved for longitudinal analysis</li>
-              <li>• Resubmissions are tracked with version numbers</li>
-              <li>• Historical data remains available for research comparison</li>
-              <li>• Export functions can include all versions or latest only</li>
+              <li>• Each submission is numbered, and resubmissions are flagged in exports</li>
+              <li>• Compare shows every submission side by side with the answers that changed</li>
+              <li>• The responses list can include or exclude resubmissions</li>
             </ul>
           </div>
         </CardContent>
@@ -252,4 +274,3 @@ export default function AdminResubmissionsPage() {
     </div>
   );
 }
-
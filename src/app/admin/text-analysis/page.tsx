@@ -0,0 +1,291 @@
+/**
+ * Admin Text Analysis Page
+ * Frequent words and phrases, distinctive keywords and recurring themes in the
+ * answers to each open-ended question, overall and per stakeholder group
+ * @rule 042 "UI component architecture with data display"
+ * @rule 054 "Accessibility requirements for dashboard"
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Loader2, TextSearch, X } from 'lucide-react';
+import { STAKEHOLDER_GROUPS } from '@/lib/validation';
+import type { GroupTextSummary, Keyword, TermCount, TextSummary } from '@/lib/text-analysis';
+
+interface TextAnalysisFilters {
+  questionId: string;
+  group: string;
+  versionId: string;
+  submissions: string;
+}
+
+interface TextAnalysisData {
+  excludedTestAccounts: boolean;
+  questions: { id: string; text: string }[];
+  question: { id: string; text: string } | null;
+  analysis: { overall: TextSummary; byGroup: GroupTextSummary[] } | null;
+  filterOptions: { versions: { id: number; version: string; group: string }[] };
+}
+
+const emptyFilters: TextAnalysisFilters = {
+  questionId: '',
+  group: 'all',
+  versionId: 'all',
+  submissions: 'latest',
+};
+
+function buildTextAnalysisParams(filters: TextAnalysisFilters) {
+  const params = new URLSearchParams({ submissions: filters.submissions });
+  if (filters.questionId) params.set('questionId', filters.questionId);
+  if (filters.group !== 'all') params.set('group', filters.group);
+  if (filters.versionId !== 'all') params.set('versionId', filters.versionId);
+  return params;
+}
+
+function TermBars({ label, terms }: { label: string; terms: TermCount[] }) {
+  const max = Math.max(1, ...terms.map(term => term.count));
+
+  return (
+    <div className="space-y-2">
+      <h4 className="text-sm font-medium">{label}</h4>
+      {terms.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Nothing repeated yet.</p>
+      ) : (
+        <ul className="space-y-1" aria-label={label}>
+          {terms.map(term => (
+            <li key={term.term} className="grid grid-cols-[9rem_1fr_5rem] items-center gap-3 text-sm">
+              <span className="truncate" title={term.term}>{term.term}</span>
+              <div className="h-3 rounded bg-muted overflow-hidden" aria-hidden="true">
+                <div className="h-full bg-primary" style={{ width: `${(term.count / max) * 100}%` }} />
+              </div>
+              <span className="text-right tabular-nums text-xs text-muted-foreground">
+                {term.count} in {term.answers}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+function Themes({ summary }: { summary: TextSummary }) {
+  return (
+    <div className="space-y-2">
+      <h4 className="text-sm font-medium">Themes</h4>
+      {summary.themes.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Not enough overlapping answers to find themes.</p>
+      ) : (
+        <ul className="space-y-2">
+          {summary.themes.map(theme => (
+            <li key={theme.terms.join()} className="flex flex-wrap items-center gap-1 text-sm">
+              {theme.terms.map(term => <Badge key={term} variant="secondary">{term}</Badge>)}
+              <span className="text-xs text-muted-foreground ml-1">
+                {theme.answers} of {summary.answers} answers
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+function Keywords({ keywords }: { keywords: Keyword[] }) {
+  return (
+    <div className="space-y-2">
+      <h4 className="text-sm font-medium">Distinctive keywords (TF-IDF)</h4>
+      <div className="flex flex-wrap gap-1">
+        {keywords.map(keyword => (
+          <Badge key={keyword.term} variant="outline" title={`Score ${keyword.score}, used ${keyword.count} times`}>
+            {keyword.term}
+          </Badge>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default function AdminTextAnalysisPage() {
+  const [data, setData] = useState<TextAnalysisData | null>(null);
+  const [filters, setFilters] = useState<TextAnalysisFilters>(emptyFilters);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadAnalysis(emptyFilters);
+  }, []);
+
+  const loadAnalysis = async (activeFilters: TextAnalysisFilters) => {
+    setIsLoading(true);
+    setError('');
+
+    try {
+      console.log('🔤 Loading text analysis');
+
+      const response = await fetch(`/api/admin/text-analysis?${buildTextAnalysisParams(activeFilters)}`, {
+        credentials: 'include',
+      });
+
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.details?.[0]?.message || result.error || 'Failed to load text analysis');
+      }
+
+      setData(result);
+      setFilters({ ...activeFilters, questionId: result.question?.id || '' });
+      console.log('✅ Text analysis loaded:', result.analysis?.overall.answers || 0, 'answers');
+
+    } catch (error) {
+      console.error('❌ Failed to load text analysis:', error);
+      setError(error instanceof Error ? error.message : 'Failed to load text analysis');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const updateFilter = (name: keyof TextAnalysisFilters, value: string) => {
+    // The chosen question may not exist in a different group or version
+    loadAnalysis({ ...filters, ...(name !== 'questionId' && { questionId: '' }), [name]: value });
+  };
+
+  const hasFilters = filters.group !== 'all' || filters.versionId !== 'all' || filters.submissions !== 'latest';
+  const analysis = data?.analysis;
+
+  return (
+    <div className="container mx-auto py-8 px-4 space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <TextSearch className="h-5 w-5" />
+            <span>Text Analysis</span>
+          </CardTitle>
+          <CardDescription>
+            Computed locally from complete responses - no answers leave the server.
+            {analysis && <> {analysis.overall.answers} answers, {analysis.overall.words} meaningful words.</>}
+            {data?.excludedTestAccounts && <> Test accounts are excluded in production mode.</>}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-2 md:grid-cols-[2fr_1fr_1fr_1fr] gap-3 items-end">
+            <div className="space-y-1 col-span-2 md:col-span-1">
+              <Label htmlFor="text-question" className="text-xs">Question</Label>
+              <Select value={filters.questionId} onValueChange={(value) => updateFilter('questionId', value)}>
+                <SelectTrigger id="text-question"><SelectValue placeholder="No open-ended questions" /></SelectTrigger>
+                <SelectContent>
+                  {data?.questions.map(question => (
+                    <SelectItem key={question.id} value={question.id}>{question.text}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="text-group" className="text-xs">Group</Label>
+              <Select value={filters.group} onValueChange={(value) => updateFilter('group', value)}>
+                <SelectTrigger id="text-group"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All groups</SelectItem>
+                  {STAKEHOLDER_GROUPS.map(group => (
+                    <SelectItem key={group} value={group}>{group.replace('_', ' ')}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="text-version" className="text-xs">Version</Label>
+              <Select value={filters.versionId} onValueChange={(value) => updateFilter('versionId', value)}>
+                <SelectTrigger id="text-version"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All versions</SelectItem>
+                  {data?.filterOptions.versions.map(version => (
+                    <SelectItem key={version.id} value={String(version.id)}>{version.version} ({version.group})</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="text-submissions" className="text-xs">Resubmissions</Label>
+              <Select value={filters.submissions} onValueChange={(value) => updateFilter('submissions', value)}>
+                <SelectTrigger id="text-submissions"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="latest">Latest per participant</SelectItem>
+                  <SelectItem value="all">Every submission</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          {hasFilters && (
+            <Button variant="ghost" size="sm" className="mt-3" onClick={() => loadAnalysis(emptyFilters)}>
+              <X className="h-4 w-4 mr-2" />
+              Clear filters
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {isLoading && !data ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="text-center space-y-3">
+            <Loader2 className="h-8 w-8 animate-spin mx-auto" />
+            <p className="text-muted-foreground">Analyzing answers...</p>
+          </div>
+        </div>
+      ) : data && (
+        <div className={`space-y-6 ${isLoading ? 'opacity-60' : ''}`} aria-busy={isLoading}>
+          {!analysis || analysis.overall.answers === 0 ? (
+            <p className="text-sm text-muted-foreground">No answers to open-ended questions match these filters.</p>
+          ) : (
+            <>
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-base">All groups</CardTitle>
+                  <CardDescription>{data.question?.text}</CardDescription>
+                </CardHeader>
+                <CardContent className="grid md:grid-cols-2 gap-6">
+                  <TermBars label="Most frequent words" terms={analysis.overall.topTerms} />
+                  <div className="space-y-6">
+                    <TermBars label="Repeated phrases" terms={analysis.overall.topPhrases} />
+                    <Themes summary={analysis.overall} />
+                  </div>
+                </CardContent>
+              </Card>
+
+              {analysis.byGroup.map(group => (
+                <Card key={group.group} data-testid="group-text-analysis">
+                  <CardHeader>
+                    <CardTitle className="text-base">{group.group.replace('_', ' ')}</CardTitle>
+                    <CardDescription>{group.answers} answers, {group.words} meaningful words</CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-6">
+                    <Keywords keywords={group.keywords} />
+                    <div className="grid md:grid-cols-2 gap-6">
+                      <TermBars label="Most frequent words" terms={group.topTerms} />
+                      <div className="space-y-6">
+                        <TermBars label="Repeated phrases" terms={group.topPhrases} />
+                        <Themes summary={group} />
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
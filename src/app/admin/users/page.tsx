@@ -0,0 +1,431 @@
+/**
+ * Admin Users Management Page
+ * Owners add admins, change roles, reset passwords and deactivate accounts
+ * @rule 042 "UI component architecture with table and form composition"
+ * @rule 054 "Accessibility requirements for data tables"
+ * @rule 130 "Error handling for CRUD operations"
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Plus, Loader2, KeyRound, UserX, UserCheck } from 'lucide-react';
+import { useAdminPermissions } from '@/components/admin/AdminPermissions';
+import { ADMIN_ROLE_LABELS, ADMIN_ROLES, type AdminRole } from '@/lib/permissions';
+
+interface AdminUserRow {
+  id: number;
+  email: string;
+  name: string;
+  role: string;
+  isActive: boolean;
+  deactivatedAt: string | null;
+  mustChangePassword: boolean;
+  lastLogin: string | null;
+  createdAt: string;
+  createdBy: string | null;
+}
+
+interface AdminForm {
+  email: string;
+  name: string;
+  role: AdminRole;
+}
+
+const emptyForm = (): AdminForm => ({
+  email: '',
+  name: '',
+  role: ADMIN_ROLES.VIEWER,
+});
+
+const roleLabel = (role: string) => ADMIN_ROLE_LABELS[role as AdminRole] || role;
+
+export default function AdminUsersPage() {
+  const { user: currentUser } = useAdminPermissions();
+  const [users, setUsers] = useState<AdminUserRow[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [form, setForm] = useState<AdminForm | null>(null);
+  const [formError, setFormError] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [actionLoading, setActionLoading] = useState<number | null>(null);
+  const [credentials, setCredentials] = useState<{ email: string; temporaryPassword: string } | null>(null);
+
+  useEffect(() => {
+    loadUsers();
+  }, []);
+
+  const loadUsers = async () => {
+    try {
+      console.log('👥 Loading admin users');
+
+      const response = await fetch('/api/admin/users', {
+        credentials: 'include',
+      });
+
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to load admin users');
+      }
+
+      setUsers(data.users);
+      console.log('✅ Admin users loaded:', data.total);
+
+    } catch (error) {
+      console.error('❌ Failed to load admin users:', error);
+      setError(error instanceof Error ? error.message : 'Failed to load admin users');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const replaceUser = (updated: AdminUserRow) => {
+    setUsers(prev => prev.map(user => (user.id === updated.id ? updated : user)));
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form) return;
+
+    setIsSaving(true);
+    setFormError('');
+
+    try {
+      console.log('➕ Adding admin user:', form.email, form.role);
+
+      const response = await fetch('/api/admin/users', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify(form),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to add admin user');
+      }
+
+      setUsers(prev => [...prev, data.user]);
+      setCredentials({ email: data.user.email, temporaryPassword: data.temporaryPassword });
+      setForm(null);
+      console.log('✅ Admin user added');
+
+    } catch (error) {
+      console.error('❌ Failed to add admin user:', error);
+      setFormError(error instanceof Error ? error.message : 'Failed to add admin user');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const updateUser = async (user: AdminUserRow, changes: { role?: AdminRole; isActive?: boolean }) => {
+    setActionLoading(user.id);
+    setError('');
+
+    try {
+      const response = await fetch(`/api/admin/users/${user.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify(changes),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update admin user');
+      }
+
+      replaceUser(data.user);
+      console.log('✅ Admin user updated:', user.email, changes);
+
+    } catch (error) {
+      console.error('❌ Failed to update admin user:', error);
+      setError(error instanceof Error ? error.message : 'Failed to update admin user');
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  const handleToggleActive = (user: AdminUserRow) => {
+    const action = user.isActive ? 'Deactivate' : 'Reactivate';
+    if (!confirm(`${action} ${user.email}?${user.isActive ? '\n\nThey will be signed out and unable to log in.' : ''}`)) {
+      return;
+    }
+    updateUser(user, { isActive: !user.isActive });
+  };
+
+  const handleResetPassword = async (user: AdminUserRow) => {
+    if (!confirm(`Reset the password for ${user.email}?\n\nTheir current password stops working immediately and they must choose a new one at next login.`)) {
+      return;
+    }
+
+    setActionLoading(user.id);
+    setError('');
+
+    try {
+      const response = await fetch(`/api/admin/users/${user.id}/reset-password`, {
+        method: 'POST',
+        credentials: 'include',
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to reset password');
+      }
+
+      replaceUser(data.user);
+      setCredentials({ email: data.user.email, temporaryPassword: data.temporaryPassword });
+      console.log('✅ Password reset for:', user.email);
+
+    } catch (error) {
+      console.error('❌ Failed to reset password:', error);
+      setError(error instanceof Error ? error.message : 'Failed to reset password');
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  const formatDate = (dateString: string | null) => {
+    if (!dateString) return 'Never';
+    return new Date(dateString).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b bg-card">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-2xl font-bold text-primary">Admin Users</h1>
+              <p className="text-muted-foreground">Manage who can access the admin dashboard and what they can do</p>
+            </div>
+            <Button onClick={() => { setForm(emptyForm()); setFormError(''); }}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Admin
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="container mx-auto px-4 py-8 space-y-6">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {credentials && (
+          <Alert>
+            <AlertDescription className="flex items-center justify-between gap-4">
+              <span>
+                Temporary password for <strong>{credentials.email}</strong>:{' '}
+                <code className="bg-muted px-2 py-1 rounded font-mono">{credentials.temporaryPassword}</code>
+                <span className="block text-xs text-muted-foreground mt-1">
+                  Share it securely - it won&apos;t be shown again, and they must change it at first login.
+                </span>
+              </span>
+              <Button variant="outline" size="sm" onClick={() => setCredentials(null)}>
+                Done
+              </Button>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Accounts</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="text-center py-8">
+                <div className="text-muted-foreground">Loading admin users...</div>
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Email</TableHead>
+                    <TableHead>Role</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Last Login</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {users.map((user) => {
+                    const isSelf = user.id === currentUser?.id;
+                    return (
+                      <TableRow key={user.id} className={user.isActive ? undefined : 'opacity-60'}>
+                        <TableCell className="font-medium">
+                          {user.name}
+                          {isSelf && <span className="ml-2 text-xs text-muted-foreground">(you)</span>}
+                        </TableCell>
+                        <TableCell>
+                          <div>{user.email}</div>
+                          {user.createdBy && (
+                            <div className="text-xs text-muted-foreground">Added by {user.createdBy}</div>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <Select
+                            value={user.role}
+                            onValueChange={(value) => updateUser(user, { role: value as AdminRole })}
+                            disabled={actionLoading === user.id || !user.isActive}
+                          >
+                            <SelectTrigger className="w-40" aria-label={`Role for ${user.email}`}>
+                              <SelectValue>{roleLabel(user.role)}</SelectValue>
+                            </SelectTrigger>
+                            <SelectContent>
+                              {Object.values(ADMIN_ROLES).map(role => (
+                                <SelectItem key={role} value={role}>{ADMIN_ROLE_LABELS[role]}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex items-center space-x-2">
+                            {user.isActive ? (
+                              <Badge>Active</Badge>
+                            ) : (
+                              <Badge variant="secondary">Deactivated</Badge>
+                            )}
+                            {user.isActive && user.mustChangePassword && (
+                              <Badge variant="outline" className="text-xs">Password change pending</Badge>
+                            )}
+                          </div>
+                        </TableCell>
+                        <TableCell>{formatDate(user.lastLogin)}</TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex justify-end space-x-2">
+                            {actionLoading === user.id && <Loader2 className="h-4 w-4 animate-spin self-center" />}
+                            {user.isActive && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleResetPassword(user)}
+                                disabled={actionLoading === user.id}
+                                title="Reset password"
+                              >
+                                <KeyRound className="h-4 w-4" />
+                              </Button>
+                            )}
+                            {!isSelf && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleToggleActive(user)}
+                                disabled={actionLoading === user.id}
+                                title={user.isActive ? 'Deactivate account' : 'Reactivate account'}
+                                className={user.isActive ? 'text-destructive hover:text-destructive/90' : undefined}
+                              >
+                                {user.isActive ? <UserX className="h-4 w-4" /> : <UserCheck className="h-4 w-4" />}
+                              </Button>
+                            )}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+
+      {/* Add Admin Dialog */}
+      <Dialog open={form !== null} onOpenChange={(open) => { if (!open) setForm(null); }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add Admin</DialogTitle>
+          </DialogHeader>
+          {form && (
+            <form onSubmit={handleCreate} className="space-y-4">
+              {formError && (
+                <Alert variant="destructive">
+                  <AlertDescription>{formError}</AlertDescription>
+                </Alert>
+              )}
+
+              <div className="space-y-2">
+                <Label htmlFor="admin-name">Name</Label>
+                <Input
+                  id="admin-name"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  required
+                  disabled={isSaving}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="admin-email">Email Address</Label>
+                <Input
+                  id="admin-email"
+                  type="email"
+                  value={form.email}
+                  onChange={(e) => setForm({ ...form, email: e.target.value })}
+                  required
+                  disabled={isSaving}
+                />
+                <p className="text-sm text-muted-foreground">
+                  Admin accounts can never take the survey, so don&apos;t use a participant&apos;s address.
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="admin-role">Role</Label>
+                <Select
+                  value={form.role}
+                  onValueChange={(value) => setForm({ ...form, role: value as AdminRole })}
+                  disabled={isSaving}
+                >
+                  <SelectTrigger id="admin-role">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.values(ADMIN_ROLES).map(role => (
+                      <SelectItem key={role} value={role}>{ADMIN_ROLE_LABELS[role]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="flex justify-end space-x-2">
+                <Button type="button" variant="outline" onClick={() => setForm(null)} disabled={isSaving}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={isSaving}>
+                  {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Add Admin
+                </Button>
+              </div>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -10,8 +10,17 @@ import { useState, useEffect } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
-import { Plus, FileText, Users, Calendar } from 'lucide-react';
+import { QuestionEditor, createBlankQuestion } from '@/components/admin/QuestionEditor';
+import { SurveyVersionSchema, STAKEHOLDER_GROUPS, type SurveyQuestion } from '@/lib/validation';
+import { PERMISSIONS } from '@/lib/permissions';
+import { useAdminPermissions } from '@/components/admin/AdminPermissions';
+import { Plus, FileText, Users, Calendar, Copy, Trash2, Loader2, Send, Archive } from 'lucide-react';
 
 interface SurveyVersion {
   id: number;
@@ -20,13 +29,48 @@ interface SurveyVersion {
   description: string | null;
   questionCount: number;
   responseCount: number;
-  isActive: boolean;
+  status: 'draft' | 'published' | 'retired';
+  publishedAt: string | null;
   createdAt: string;
 }
 
+interface VersionForm {
+  id: number | null;
+  version: string;
+  group: string;
+  description: string;
+  questions: SurveyQuestion[];
+  status: SurveyVersion['status'];
+  readOnly: boolean;
+}
+
+const STATUS_BADGES: Record<SurveyVersion['status'], { label: string; variant: 'default' | 'secondary' | 'outline' }> = {
+  draft: { label: 'Draft', variant: 'outline' },
+  published: { label: 'Published', variant: 'default' },
+  retired: { label: 'Retired', variant: 'secondary' },
+};
+
+const emptyForm = (): VersionForm => ({
+  id: null,
+  version: '',
+  group: '',
+  description: '',
+  questions: [createBlankQuestion(0)],
+  status: 'draft',
+  readOnly: false,
+});
+
 export default function AdminVersionsPage() {
   const [versions, setVersions] = useState<SurveyVersion[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [form, setForm] = useState<VersionForm | null>(null);
+  const [formError, setFormError] = useState('');
+  const [questionErrors, setQuestionErrors] = useState<Record<number, string[]>>({});
+  const [isSaving, setIsSaving] = useState(false);
+  const [statusLoading, setStatusLoading] = useState<number | null>(null);
+  const { can } = useAdminPermissions();
+  const canManage = can(PERMISSIONS.VERSIONS_MANAGE);
 
   useEffect(() => {
     loadVersions();
@@ -35,61 +79,226 @@ export default function AdminVersionsPage() {
   const loadVersions = async () => {
     try {
       console.log('📋 Loading survey versions');
-      
-      // Mock data for now - will be replaced with API call
-      const mockVersions: SurveyVersion[] = [
-        {
-          id: 1,
-          version: 'v1.0-Teachers',
-          group: 'Teachers',
-          description: 'Initial teacher survey based on NCLB framework',
-          questionCount: 5,
-          responseCount: 45,
-          isActive: true,
-          createdAt: new Date().toISOString(),
-        },
-        {
-          id: 2,
-          version: 'v1.0-Students',
-          group: 'Students',
-          description: 'Initial student survey based on NCLB framework',
-          questionCount: 5,
-          responseCount: 78,
-          isActive: true,
-          createdAt: new Date().toISOString(),
-        },
-        {
-          id: 3,
-          version: 'v1.0-Administrators',
-          group: 'Administrators',
-          description: 'Initial administrator survey based on NCLB framework',
-          questionCount: 5,
-          responseCount: 23,
-          isActive: true,
-          createdAt: new Date().toISOString(),
-        },
-        {
-          id: 4,
-          version: 'v1.0-IT_Admins',
-          group: 'IT_Admins',
-          description: 'Initial IT administrator survey based on NCLB framework',
-          questionCount: 6,
-          responseCount: 10,
-          isActive: true,
-          createdAt: new Date().toISOString(),
-        },
-      ];
-      
-      setVersions(mockVersions);
-      console.log('✅ Survey versions loaded');
-      
+
+      const response = await fetch('/api/admin/versions', {
+        credentials: 'include',
+      });
+
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to fetch survey versions');
+      }
+
+      setVersions(data.versions);
+      console.log('✅ Survey versions loaded:', data.total, 'versions');
+
     } catch (error) {
       console.error('❌ Failed to load versions:', error);
+      setError(error instanceof Error ? error.message : 'Failed to load survey versions');
     } finally {
       setIsLoading(false);
     }
   };
 
+  const openEditor = async (version: SurveyVersion, readOnly: boolean) => {
+    try {
+      const response = await fetch(`/api/admin/versions/${version.id}`, {
+        credentials: 'include',
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load survey version');
+      }
+
+      setFormError('');
+      setQuestionErrors({});
+      setForm({
+        id: data.version.id,
+        version: data.version.version,
+        group: data.version.group,
+        description: data.version.description || '',
+        questions: Array.isArray(data.version.questions) ? data.version.questions : [],
+        status: data.version.status,
+        readOnly: readOnly || data.version.status !== 'draft',
+      });
+    } catch (error) {
+      console.error('❌ Failed to open version:', error);
+      setError(error instanceof Error ? error.message : 'Failed to load survey version');
+    }
+  };
+
+  const openCreate = () => {
+    setFormError('');
+    setQuestionErrors({});
+    setForm(emptyForm());
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form) return;
+
+    const payload = {
+      version: form.version,
+      group: form.group,
+      description: form.description || null,
+      // Drop blank option lines left over from editing
+      questions: form.questions.map(question => ({
+        ...question,
+        options: question.options?.map(option => option.trim()).filter(Boolean),
+      })),
+    };
+
+    // Validate locally with the same schema the API uses
+    const validation = SurveyVersionSchema.safeParse(payload);
+    if (!validation.success) {
+      const perQuestion: Record<number, string[]> = {};
+      const general: string[] = [];
+
+      validation.error.issues.forEach(issue => {
+        if (issue.path[0] === 'questions' && typeof issue.path[1] === 'number') {
+          const index = issue.path[1];
+          perQuestion[index] = [...(perQuestion[index] || []), issue.message];
+        } else {
+          general.push(issue.message);
+        }
+      });
+
+      setQuestionErrors(perQuestion);
+      setFormError(general.join('. ') || 'Please fix the highlighted questions');
+      return;
+    }
+
+    setIsSaving(true);
+    setFormError('');
+    setQuestionErrors({});
+
+    try {
+      console.log('💾 Saving survey version:', form.version);
+
+      const response = await fetch(form.id ? `/api/admin/versions/${form.id}` : '/api/admin/versions', {
+        method: form.id ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify(validation.data),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save survey version');
+      }
+
+      console.log('✅ Survey version saved');
+      setForm(null);
+      loadVersions();
+
+    } catch (error) {
+      console.error('❌ Failed to save version:', error);
+      setFormError(error instanceof Error ? error.message : 'Failed to save survey version');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleClone = async (version: SurveyVersion) => {
+    const newName = prompt(`Clone ${version.version}\n\nEnter a name for the new version:`, `${version.version}-copy`);
+
+    if (!newName) {
+      return; // User cancelled
+    }
+
+    try {
+      console.log('📄 Cloning survey version:', version.version);
+
+      const response = await fetch('/api/admin/versions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ cloneFromId: version.id, version: newName }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to clone survey version');
+      }
+
+      console.log('✅ Survey version cloned');
+      loadVersions();
+
+    } catch (error) {
+      console.error('❌ Failed to clone version:', error);
+      alert(`❌ Failed to clone version: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const handleStatusChange = async (version: SurveyVersion, action: 'publish' | 'retire') => {
+    const confirmMessage = action === 'publish'
+      ? `📢 Publish ${version.version}?\n\nThis will:\n✅ Make it the live survey for ${version.group}\n✅ Retire the currently published ${version.group} version\n🔒 Freeze its questions permanently\n\nContinue?`
+      : `📦 Retire ${version.version}?\n\n${version.group} participants will have no survey until another version is published.\nExisting responses stay linked to this version.\n\nContinue?`;
+
+    if (!confirm(confirmMessage)) {
+      return;
+    }
+
+    setStatusLoading(version.id);
+    try {
+      console.log(`📢 ${action === 'publish' ? 'Publishing' : 'Retiring'} survey version:`, version.version);
+
+      const response = await fetch(`/api/admin/versions/${version.id}/status`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ action }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || `Failed to ${action} survey version`);
+      }
+
+      console.log(`✅ Survey version ${action}ed`);
+      loadVersions();
+
+    } catch (error) {
+      console.error(`❌ Failed to ${action} version:`, error);
+      alert(`❌ Failed to ${action} version: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setStatusLoading(null);
+    }
+  };
+
+  const handleDelete = async (version: SurveyVersion) => {
+    if (!confirm(`Delete ${version.version}?\n\nThis cannot be undone.`)) {
+      return;
+    }
+
+    try {
+      console.log('🗑️ Deleting survey version:', version.version);
+
+      const response = await fetch(`/api/admin/versions/${version.id}`, {
+        method: 'DELETE',
+        credentials: 'include',
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to delete survey version');
+      }
+
+      console.log('✅ Survey version deleted');
+      loadVersions();
+
+    } catch (error) {
+      console.error('❌ Failed to delete version:', error);
+      alert(`❌ Failed to delete version: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('en-US', {
       year: 'numeric',
@@ -109,12 +318,20 @@ export default function AdminVersionsPage() {
               Manage survey versions for different stakeholder groups
             </p>
           </div>
-          <Button>
-            <Plus className="h-4 w-4 mr-2" />
-            Create Version
-          </Button>
+          {canManage && (
+            <Button onClick={openCreate}>
+              <Plus className="h-4 w-4 mr-2" />
+              Create Version
+            </Button>
+          )}
         </div>
 
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
         {/* Versions Table */}
         <Card>
           <CardHeader>
@@ -160,8 +377,8 @@ export default function AdminVersionsPage() {
                         </div>
                       </TableCell>
                       <TableCell>
-                        <Badge variant={version.isActive ? "default" : "secondary"}>
-                          {version.isActive ? "Active" : "Inactive"}
+                        <Badge variant={STATUS_BADGES[version.status].variant}>
+                          {STATUS_BADGES[version.status].label}
                         </Badge>
                       </TableCell>
                       <TableCell>
@@ -172,12 +389,51 @@ export default function AdminVersionsPage() {
                       </TableCell>
                       <TableCell className="text-right">
                         <div className="flex justify-end space-x-2">
-                          <Button variant="secondary" size="sm">
-                            Edit
-                          </Button>
-                          <Button variant="secondary" size="sm">
+                          {canManage && version.status === 'draft' && (
+                            <>
+                              <Button variant="secondary" size="sm" onClick={() => openEditor(version, false)}>
+                                Edit
+                              </Button>
+                              <Button
+                                size="sm"
+                                onClick={() => handleStatusChange(version, 'publish')}
+                                disabled={statusLoading === version.id}
+                                title="Publish version"
+                              >
+                                {statusLoading === version.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+                              </Button>
+                            </>
+                          )}
+                          {canManage && version.status === 'published' && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleStatusChange(version, 'retire')}
+                              disabled={statusLoading === version.id}
+                              title="Retire version"
+                            >
+                              {statusLoading === version.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <Archive className="h-4 w-4" />}
+                            </Button>
+                          )}
+                          <Button variant="secondary" size="sm" onClick={() => openEditor(version, true)}>
                             View
                           </Button>
+                          {canManage && (
+                            <Button variant="outline" size="sm" onClick={() => handleClone(version)} title="Clone version">
+                              <Copy className="h-4 w-4" />
+                            </Button>
+                          )}
+                          {canManage && version.status === 'draft' && version.responseCount === 0 && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleDelete(version)}
+                              title="Delete version"
+                              className="text-destructive hover:text-destructive/90"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          )}
                         </div>
                       </TableCell>
                     </TableRow>
@@ -188,6 +444,101 @@ export default function AdminVersionsPage() {
           </CardContent>
         </Card>
       </div>
+
+      {/* Version Editor */}
+      <Dialog open={form !== null} onOpenChange={(open) => !open && setForm(null)}>
+        <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              {form?.readOnly ? form.version : form?.id ? 'Edit Survey Version' : 'Create Survey Version'}
+            </DialogTitle>
+          </DialogHeader>
+
+          {form && (
+            <form onSubmit={handleSave} className="space-y-4">
+              {formError && (
+                <Alert variant="destructive">
+                  <AlertDescription>{formError}</AlertDescription>
+                </Alert>
+              )}
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="version-name">Version Name</Label>
+                  <Input
+                    id="version-name"
+                    placeholder="v1.1-Teachers"
+                    value={form.version}
+                    onChange={(e) => setForm({ ...form, version: e.target.value })}
+                    disabled={form.readOnly || isSaving}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Stakeholder Group</Label>
+                  <Select
+                    value={form.group}
+                    onValueChange={(group) => setForm({ ...form, group })}
+                    disabled={form.readOnly || isSaving}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select group" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {STAKEHOLDER_GROUPS.map(group => (
+                        <SelectItem key={group} value={group}>{group.replace('_', ' ')}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="version-description">Description</Label>
+                <Input
+                  id="version-description"
+                  value={form.description}
+                  onChange={(e) => setForm({ ...form, description: e.target.value })}
+                  disabled={form.readOnly || isSaving}
+                />
+              </div>
+
+              {form.readOnly && form.status !== 'draft' && (
+                <Alert>
+                  <AlertDescription>
+                    This version is {form.status} and its questions are frozen. Clone it to make changes.
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              <QuestionEditor
+                questions={form.questions}
+                onChange={(questions) => setForm({ ...form, questions })}
+                errors={questionErrors}
+                disabled={form.readOnly || isSaving}
+              />
+
+              <div className="flex justify-end space-x-2">
+                <Button type="button" variant="outline" onClick={() => setForm(null)} disabled={isSaving}>
+                  {form.readOnly ? 'Close' : 'Cancel'}
+                </Button>
+                {!form.readOnly && (
+                  <Button type="submit" disabled={isSaving}>
+                    {isSaving ? (
+                      <>
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        Saving...
+                      </>
+                    ) : (
+                      'Save Version'
+                    )}
+                  </Button>
+                )}
+              </div>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
@@ -7,25 +7,30 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { prisma } from '@/lib/prisma';
-import { getSessionFromRequest } from '@/lib/auth';
+import { requireAdminPermission } from '@/lib/admin-guard';
+import { PERMISSIONS } from '@/lib/permissions';
+import { AUDIT_ACTIONS, recordAuditEvent } from '@/lib/audit';
+import { RATE_LIMITS, resetRateLimit } from '@/lib/rate-limiter';
 
+// The resubmissions page only sees masked emails, so it names the participant by one of their responses
 const AllowResubmissionSchema = z.object({
-  email: z.string().email('Please enter a valid email address'),
+  email: z.string().email('Please enter a valid email address').optional(),
+  responseId: z.number().int().positive().optional(),
   reason: z.string().optional(),
+}).refine(data => Boolean(data.email) !== Boolean(data.responseId), {
+  message: 'Provide either an email address or a response ID',
 });
 
 export async function POST(request: NextRequest) {
   try {
     console.log('🔄 Processing allow resubmission request');
 
-    // Verify admin session
-    const session = await getSessionFromRequest(request);
-    if (!session) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      );
+    // Verify admin session and role
+    const guard = await requireAdminPermission(request, PERMISSIONS.INVITES_MANAGE);
+    if (guard.response) {
+      return guard.response;
     }
+    const { session } = guard;
 
     // Parse and validate request body
     const body = await request.json();
@@ -38,7 +43,31 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { email, reason } = validation.data;
+    const { responseId, reason } = validation.data;
+    let email = validation.data.email;
+
+    if (responseId) {
+      const response = await prisma.surveyResponse.findUnique({
+        where: { id: responseId },
+        select: { email: true },
+      });
+
+      if (!response) {
+        return NextResponse.json(
+          { error: 'Response not found' },
+          { status: 404 }
+        );
+      }
+
+      email = response.email;
+    }
+
+    if (!email) {
+      return NextResponse.json(
+        { error: 'Invalid request data' },
+        { status: 400 }
+      );
+    }
 
     // Verify user exists
     const user = await prisma.invitedUser.findUnique({
@@ -80,6 +109,20 @@ export async function POST(request: NextRequest) {
       },
     });
 
+    // The hourly submission limit would otherwise block the resubmission just allowed
+    await resetRateLimit(request, RATE_LIMITS.SURVEY_SUBMIT, { account: `participant:${email}` });
+
+    await recordAuditEvent({
+      action: AUDIT_ACTIONS.RESUBMISSION_ALLOWED,
+      actor: session,
+      targetType: 'participant',
+      targetId: email,
+      reason: reason || 'Admin-initiated resubmission',
+      before: { hasTaken: user.hasTaken, previousSubmissions: submissionHistory.length },
+      after: { hasTaken: false },
+      request,
+    });
+
     console.log('✅ Resubmission enabled for user:', email.replace(/(.{2}).*(@.*)/, '$1***$2'));
     console.log('📊 Previous submissions:', submissionHistory.length);
 
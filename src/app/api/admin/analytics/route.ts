@@ -0,0 +1,123 @@
+/**
+ * Admin Question Analytics API Endpoint
+ * Per-question distributions, statistics, skip rates and group comparisons for
+ * complete responses, with an optional cross-tabulation of two questions.
+ * In production mode test accounts are left out.
+ * @rule 060 "API standards with proper data aggregation"
+ * @rule 130 "Error handling for dashboard data"
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { requireAdminPermission } from '@/lib/admin-guard';
+import { PERMISSIONS } from '@/lib/permissions';
+import { getProductionMode, TEST_ACCOUNT_DOMAIN } from '@/lib/production-mode';
+import { getResponseFilterOptions } from '@/lib/response-query';
+import {
+  AnalyticsQuerySchema,
+  buildQuestionAnalytics,
+  collectQuestions,
+  crossTabulate,
+  isCategorical,
+  latestSubmissions,
+  type AnalyticsVersion,
+} from '@/lib/question-analytics';
+import type { SurveyQuestion } from '@/lib/validation';
+
+export async function GET(request: NextRequest) {
+  try {
+    console.log('📈 Fetching question analytics');
+
+    // Verify admin session and role
+    const guard = await requireAdminPermission(request, PERMISSIONS.RESPONSES_VIEW);
+    if (guard.response) {
+      return guard.response;
+    }
+
+    const validation = AnalyticsQuerySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams));
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid analytics query', details: validation.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const query = validation.data;
+    const productionMode = await getProductionMode();
+
+    const where: Prisma.SurveyResponseWhereInput = {
+      partial: false,
+      ...(query.versionId && { versionId: query.versionId }),
+      ...(query.group && { group: query.group }),
+      ...((query.from || query.to) && {
+        submittedAt: {
+          ...(query.from && { gte: query.from }),
+          ...(query.to && { lte: query.to }),
+        },
+      }),
+      ...(productionMode && { NOT: { email: { endsWith: TEST_ACCOUNT_DOMAIN } } }),
+    };
+
+    const [responses, versionRows, filterOptions] = await Promise.all([
+      prisma.surveyResponse.findMany({
+        where,
+        select: { id: true, email: true, group: true, versionId: true, responses: true },
+        orderBy: { id: 'asc' },
+      }),
+      prisma.surveyVersion.findMany({
+        where: {
+          ...(query.versionId && { id: query.versionId }),
+          ...(query.group && { group: query.group }),
+          responses: { some: {} },
+        },
+        select: { id: true, questions: true },
+        orderBy: { createdAt: 'desc' },
+      }),
+      getResponseFilterOptions(),
+    ]);
+
+    const rows = query.submissions === 'latest' ? latestSubmissions(responses) : responses;
+    const versions: AnalyticsVersion[] = versionRows.map(version => ({
+      id: version.id,
+      questions: Array.isArray(version.questions) ? (version.questions as unknown as SurveyQuestion[]) : [],
+    }));
+
+    let crossTab = null;
+    if (query.rowQuestionId && query.columnQuestionId) {
+      const questions = collectQuestions(versions);
+      const rowQuestion = questions.find(question => question.id === query.rowQuestionId);
+      const columnQuestion = questions.find(question => question.id === query.columnQuestionId);
+
+      if (!rowQuestion || !columnQuestion || !isCategorical(rowQuestion) || !isCategorical(columnQuestion)) {
+        return NextResponse.json(
+          { error: 'Cross-tabulation needs two multiple-choice or Likert questions from the selected responses' },
+          { status: 400 }
+        );
+      }
+
+      crossTab = crossTabulate(rowQuestion, columnQuestion, versions, rows);
+    }
+
+    const questions = buildQuestionAnalytics(versions, rows);
+
+    console.log('✅ Question analytics compiled:', questions.length, 'questions,', rows.length, 'respondents');
+
+    return NextResponse.json({
+      success: true,
+      respondents: rows.length,
+      excludedTestAccounts: productionMode,
+      questions,
+      crossTab,
+      filterOptions: { versions: filterOptions.versions },
+    });
+
+  } catch (error) {
+    console.error('❌ Question analytics error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch question analytics' },
+      { status: 500 }
+    );
+  }
+}
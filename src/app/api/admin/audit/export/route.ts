@@ -0,0 +1,92 @@
+/**
+ * Admin Audit Log Export API Endpoint
+ * Downloads the filtered audit trail as CSV or JSON, hashes included
+ * @rule 060 "API standards for data export operations"
+ * @rule 012 "API security for critical operations"
+ * @rule 130 "Error handling for export operations"
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { requireAdminPermission } from '@/lib/admin-guard';
+import { PERMISSIONS } from '@/lib/permissions';
+import {
+  AUDIT_ACTIONS,
+  AuditQuerySchema,
+  auditEntriesToCsv,
+  buildAuditWhere,
+  recordAuditEvent,
+  serializeAuditEntry,
+} from '@/lib/audit';
+
+const AuditExportSchema = AuditQuerySchema.omit({ page: true, limit: true }).extend({
+  format: z.enum(['csv', 'json']).default('csv'),
+});
+
+export async function GET(request: NextRequest) {
+  try {
+    console.log('📜 Processing audit log export');
+
+    // Verify admin session and role
+    const guard = await requireAdminPermission(request, PERMISSIONS.AUDIT_VIEW);
+    if (guard.response) {
+      return guard.response;
+    }
+    const { session } = guard;
+
+    const validation = AuditExportSchema.safeParse(Object.fromEntries(request.nextUrl.searchParams));
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid export parameters', details: validation.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const { format, ...filters } = validation.data;
+
+    const entries = await prisma.auditLog.findMany({
+      where: buildAuditWhere(filters),
+      orderBy: { id: 'asc' },
+    });
+
+    await recordAuditEvent({
+      action: AUDIT_ACTIONS.AUDIT_EXPORTED,
+      actor: session,
+      targetType: 'audit_log',
+      after: { format, filters, entryCount: entries.length },
+      request,
+    });
+
+    console.log('✅ Audit log exported:', entries.length, 'entries as', format, 'by', session.email);
+
+    const date = new Date().toISOString().split('T')[0];
+
+    if (format === 'json') {
+      return new NextResponse(JSON.stringify(entries.map(entry => ({
+        ...serializeAuditEntry(entry),
+        prevHash: entry.prevHash,
+      })), null, 2), {
+        headers: {
+          'Content-Type': 'application/json',
+          'Content-Disposition': `attachment; filename="audit_log_${date}.json"`,
+        },
+      });
+    }
+
+    return new NextResponse(auditEntriesToCsv(entries), {
+      headers: {
+        'Content-Type': 'text/csv',
+        'Content-Disposition': `attachment; filename="audit_log_${date}.csv"`,
+      },
+    });
+
+  } catch (error) {
+    console.error('❌ Audit log export error:', error);
+    return NextResponse.json(
+      { error: 'Failed to export audit log' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * Admin Audit Log API Endpoint
+ * Searchable, paginated view of the administrative audit trail
+ * @rule 060 "API standards for admin operations"
+ * @rule 012 "API security for critical operations"
+ * @rule 130 "Error handling for audit queries"
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requireAdminPermission } from '@/lib/admin-guard';
+import { PERMISSIONS } from '@/lib/permissions';
+import { AUDIT_ACTIONS, AuditQuerySchema, buildAuditWhere, serializeAuditEntry } from '@/lib/audit';
+
+export async function GET(request: NextRequest) {
+  try {
+    console.log('📜 Fetching audit log');
+
+    // Verify admin session and role
+    const guard = await requireAdminPermission(request, PERMISSIONS.AUDIT_VIEW);
+    if (guard.response) {
+      return guard.response;
+    }
+
+    const validation = AuditQuerySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams));
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid audit query', details: validation.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const { page, limit, ...filters } = validation.data;
+    const where = buildAuditWhere(filters);
+
+    const [entries, total] = await Promise.all([
+      prisma.auditLog.findMany({
+        where,
+        orderBy: { id: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.auditLog.count({ where }),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      entries: entries.map(serializeAuditEntry),
+      total,
+      page,
+      limit,
+      totalPages: Math.max(1, Math.ceil(total / limit)),
+      actions: Object.values(AUDIT_ACTIONS),
+    });
+
+  } catch (error) {
+    console.error('❌ Audit log fetch error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch audit log' },
+      { status: 500 }
+    );
+  }
+}
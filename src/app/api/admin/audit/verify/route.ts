@@ -0,0 +1,44 @@
+/**
+ * Admin Audit Chain Verification API Endpoint
+ * Recomputes every entry's hash and reports the first break in the chain
+ * @rule 060 "API standards for admin operations"
+ * @rule 012 "API security for critical operations"
+ * @rule 130 "Error handling for audit queries"
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdminPermission } from '@/lib/admin-guard';
+import { PERMISSIONS } from '@/lib/permissions';
+import { verifyAuditChain } from '@/lib/audit';
+
+export async function GET(request: NextRequest) {
+  try {
+    console.log('🔗 Verifying audit chain');
+
+    // Verify admin session and role
+    const guard = await requireAdminPermission(request, PERMISSIONS.AUDIT_VIEW);
+    if (guard.response) {
+      return guard.response;
+    }
+
+    const status = await verifyAuditChain();
+
+    if (status.valid) {
+      console.log('✅ Audit chain intact:', status.checked, 'entries');
+    } else {
+      console.error('🚨 Audit chain broken at entry', status.brokenAtId);
+    }
+
+    return NextResponse.json({
+      success: true,
+      ...status,
+    });
+
+  } catch (error) {
+    console.error('❌ Audit chain verification error:', error);
+    return NextResponse.json(
+      { error: 'Failed to verify audit chain' },
+      { status: 500 }
+    );
+  }
+}
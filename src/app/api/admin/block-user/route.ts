@@ -7,7 +7,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { prisma } from '@/lib/prisma';
-import { getSessionFromRequest } from '@/lib/auth';
+import { requireAdminPermission } from '@/lib/admin-guard';
+import { PERMISSIONS } from '@/lib/permissions';
+import { AUDIT_ACTIONS, recordAuditEvent } from '@/lib/audit';
 
 const BlockUserSchema = z.object({
   email: z.string().email('Please enter a valid email address'),
@@ -19,14 +21,12 @@ export async function POST(request: NextRequest) {
   try {
     console.log('🚫 Processing user block/unblock request');
 
-    // Verify admin session
-    const session = await getSessionFromRequest(request);
-    if (!session) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      );
+    // Verify admin session and role
+    const guard = await requireAdminPermission(request, PERMISSIONS.PARTICIPANTS_BLOCK);
+    if (guard.response) {
+      return guard.response;
     }
+    const { session } = guard;
 
     // Parse and validate request body
     const body = await request.json();
@@ -49,6 +49,8 @@ export async function POST(request: NextRequest) {
         email: true,
         group: true,
         isBlocked: true,
+        blockedReason: true,
+        blockedBy: true,
         hasTaken: true,
       },
     });
@@ -73,9 +75,23 @@ export async function POST(request: NextRequest) {
           blockedAt: new Date(),
           blockedReason: reason,
           blockedBy: adminEmail,
+          // Void any outstanding access code so it can't be used after the block
+          otpCode: null,
+          otpExpiry: null,
         },
       });
 
+      await recordAuditEvent({
+        action: AUDIT_ACTIONS.PARTICIPANT_BLOCKED,
+        actor: session,
+        targetType: 'participant',
+        targetId: email,
+        reason,
+        before: { isBlocked: user.isBlocked, blockedReason: user.blockedReason, blockedBy: user.blockedBy },
+        after: { isBlocked: true, blockedReason: reason, blockedBy: adminEmail },
+        request,
+      });
+
       console.log('🚫 User blocked:', email.replace(/(.{2}).*(@.*)/, '$1***$2'));
 
       return NextResponse.json({
@@ -102,6 +118,17 @@ export async function POST(request: NextRequest) {
         },
       });
 
+      await recordAuditEvent({
+        action: AUDIT_ACTIONS.PARTICIPANT_UNBLOCKED,
+        actor: session,
+        targetType: 'participant',
+        targetId: email,
+        reason,
+        before: { isBlocked: user.isBlocked, blockedReason: user.blockedReason, blockedBy: user.blockedBy },
+        after: { isBlocked: false },
+        request,
+      });
+
       console.log('✅ User unblocked:', email.replace(/(.{2}).*(@.*)/, '$1***$2'));
 
       return NextResponse.json({
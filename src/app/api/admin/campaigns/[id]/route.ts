@@ -0,0 +1,71 @@
+/**
+ * Admin Single Email Campaign API Endpoint
+ * Returns the campaign with each recipient's contact history
+ * @rule 060 "API standards for admin email operations"
+ * @rule 130 "Error handling for admin operations"
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requireAdminPermission } from '@/lib/admin-guard';
+import { PERMISSIONS } from '@/lib/permissions';
+import { getCampaignGroups, getCampaignRecipients } from '@/lib/campaigns';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Verify admin session and role
+    const guard = await requireAdminPermission(request, PERMISSIONS.CAMPAIGNS_VIEW);
+    if (guard.response) {
+      return guard.response;
+    }
+
+    const campaignId = Number((await params).id);
+    if (!Number.isInteger(campaignId) || campaignId <= 0) {
+      return NextResponse.json(
+        { error: 'Invalid campaign ID' },
+        { status: 400 }
+      );
+    }
+
+    const campaign = await prisma.emailCampaign.findUnique({
+      where: { id: campaignId },
+    });
+
+    if (!campaign) {
+      return NextResponse.json(
+        { error: 'Campaign not found' },
+        { status: 404 }
+      );
+    }
+
+    const groups = getCampaignGroups(campaign.groups);
+    const recipients = await getCampaignRecipients(campaignId, groups);
+
+    return NextResponse.json({
+      success: true,
+      campaign: {
+        id: campaign.id,
+        name: campaign.name,
+        groups,
+        status: campaign.status,
+        reminderIntervalDays: campaign.reminderIntervalDays,
+        maxReminders: campaign.maxReminders,
+        nextRunAt: campaign.nextRunAt?.toISOString() || null,
+        lastRunAt: campaign.lastRunAt?.toISOString() || null,
+        createdBy: campaign.createdBy,
+        createdAt: campaign.createdAt.toISOString(),
+      },
+      recipients,
+    });
+
+  } catch (error) {
+    console.error('❌ Email campaign fetch error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch campaign' },
+      { status: 500 }
+    );
+  }
+}
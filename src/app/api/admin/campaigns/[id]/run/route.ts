@@ -0,0 +1,73 @@
+/**
+ * Admin Email Campaign Run-Now API Endpoint
+ * Sends anything currently due without waiting for the scheduler
+ * @rule 060 "API standards for admin email operations"
+ * @rule 012 "API security for critical operations"
+ * @rule 130 "Error handling for email delivery"
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdminPermission } from '@/lib/admin-guard';
+import { PERMISSIONS } from '@/lib/permissions';
+import { CampaignError, runCampaign } from '@/lib/campaigns';
+import { AUDIT_ACTIONS, recordAuditEvent } from '@/lib/audit';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    console.log('📬 Processing manual campaign run');
+
+    // Verify admin session and role
+    const guard = await requireAdminPermission(request, PERMISSIONS.CAMPAIGNS_MANAGE);
+    if (guard.response) {
+      return guard.response;
+    }
+    const { session } = guard;
+
+    const campaignId = Number((await params).id);
+    if (!Number.isInteger(campaignId) || campaignId <= 0) {
+      return NextResponse.json(
+        { error: 'Invalid campaign ID' },
+        { status: 400 }
+      );
+    }
+
+    const run = await runCampaign(campaignId);
+
+    await recordAuditEvent({
+      action: AUDIT_ACTIONS.CAMPAIGN_RUN,
+      actor: session,
+      targetType: 'campaign',
+      targetId: campaignId,
+      after: run,
+      request,
+    });
+
+    console.log('✅ Campaign run by', session.email, run);
+
+    return NextResponse.json({
+      success: true,
+      message: `${run.invitationsSent} invitation(s) and ${run.remindersSent} reminder(s) sent, ${run.failures} failed`,
+      run: {
+        ...run,
+        nextRunAt: run.nextRunAt?.toISOString() || null,
+      },
+    });
+
+  } catch (error) {
+    if (error instanceof CampaignError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+
+    console.error('❌ Campaign run error:', error);
+    return NextResponse.json(
+      { error: 'Failed to run campaign' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * Admin Email Campaign Pause/Resume API Endpoint
+ * @rule 060 "API standards for admin email operations"
+ * @rule 012 "API security for critical operations"
+ * @rule 130 "Error handling for campaign lifecycle changes"
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireAdminPermission } from '@/lib/admin-guard';
+import { PERMISSIONS } from '@/lib/permissions';
+import { CAMPAIGN_STATUS, CampaignError, setCampaignPaused } from '@/lib/campaigns';
+import { AUDIT_ACTIONS, recordAuditEvent } from '@/lib/audit';
+
+const CampaignStatusSchema = z.object({
+  action: z.enum(['pause', 'resume']),
+});
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    console.log('📢 Processing campaign status change');
+
+    // Verify admin session and role
+    const guard = await requireAdminPermission(request, PERMISSIONS.CAMPAIGNS_MANAGE);
+    if (guard.response) {
+      return guard.response;
+    }
+    const { session } = guard;
+
+    const campaignId = Number((await params).id);
+    if (!Number.isInteger(campaignId) || campaignId <= 0) {
+      return NextResponse.json(
+        { error: 'Invalid campaign ID' },
+        { status: 400 }
+      );
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validation = CampaignStatusSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: validation.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const paused = validation.data.action === 'pause';
+    const campaign = await setCampaignPaused(campaignId, paused);
+
+    await recordAuditEvent({
+      action: paused ? AUDIT_ACTIONS.CAMPAIGN_PAUSED : AUDIT_ACTIONS.CAMPAIGN_RESUMED,
+      actor: session,
+      targetType: 'campaign',
+      targetId: campaign.id,
+      before: { status: paused ? CAMPAIGN_STATUS.ACTIVE : CAMPAIGN_STATUS.PAUSED },
+      after: { status: campaign.status },
+      request,
+    });
+
+    console.log(`✅ Campaign ${paused ? 'paused' : 'resumed'}:`, campaign.name, 'by', session.email);
+
+    return NextResponse.json({
+      success: true,
+      message: `Campaign ${paused ? 'paused' : 'resumed'} successfully`,
+      campaign: {
+        id: campaign.id,
+        status: campaign.status,
+        nextRunAt: campaign.nextRunAt?.toISOString() || null,
+      },
+    });
+
+  } catch (error) {
+    if (error instanceof CampaignError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+
+    console.error('❌ Campaign status error:', error);
+    return NextResponse.json(
+      { error: 'Failed to change campaign status' },
+      { status: 500 }
+    );
+  }
+}
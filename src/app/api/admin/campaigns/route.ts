@@ -0,0 +1,146 @@
+/**
+ * Admin Email Campaigns API Endpoint
+ * @rule 060 "API standards for admin email operations"
+ * @rule 012 "API security for critical operations"
+ * @rule 130 "Error handling for email delivery"
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { requireAdminPermission } from '@/lib/admin-guard';
+import { PERMISSIONS } from '@/lib/permissions';
+import { STAKEHOLDER_GROUPS } from '@/lib/validation';
+import { getCampaignGroups, runCampaign, SEND_STATUS, SEND_TYPE } from '@/lib/campaigns';
+import { AUDIT_ACTIONS, recordAuditEvent } from '@/lib/audit';
+
+const CreateCampaignSchema = z.object({
+  name: z.string().trim().min(1, 'Campaign name is required').max(100),
+  groups: z.array(z.enum(STAKEHOLDER_GROUPS)).min(1, 'Select at least one group'),
+  reminderIntervalDays: z.number().int().min(1).max(60).default(7),
+  maxReminders: z.number().int().min(0).max(10).default(2),
+});
+
+export async function GET(request: NextRequest) {
+  try {
+    console.log('📬 Fetching email campaigns');
+
+    // Verify admin session and role
+    const guard = await requireAdminPermission(request, PERMISSIONS.CAMPAIGNS_VIEW);
+    if (guard.response) {
+      return guard.response;
+    }
+
+    const [campaigns, sendCounts] = await Promise.all([
+      prisma.emailCampaign.findMany({
+        orderBy: { createdAt: 'desc' },
+      }),
+      prisma.emailSend.groupBy({
+        by: ['campaignId', 'type', 'status'],
+        _count: { _all: true },
+      }),
+    ]);
+
+    const countFor = (campaignId: number, type: string | null, status: string) =>
+      sendCounts
+        .filter(count => count.campaignId === campaignId && (!type || count.type === type) && count.status === status)
+        .reduce((total, count) => total + count._count._all, 0);
+
+    return NextResponse.json({
+      success: true,
+      campaigns: campaigns.map(campaign => ({
+        id: campaign.id,
+        name: campaign.name,
+        groups: getCampaignGroups(campaign.groups),
+        status: campaign.status,
+        reminderIntervalDays: campaign.reminderIntervalDays,
+        maxReminders: campaign.maxReminders,
+        nextRunAt: campaign.nextRunAt?.toISOString() || null,
+        lastRunAt: campaign.lastRunAt?.toISOString() || null,
+        createdBy: campaign.createdBy,
+        createdAt: campaign.createdAt.toISOString(),
+        invitationsSent: countFor(campaign.id, SEND_TYPE.INVITATION, SEND_STATUS.SENT),
+        remindersSent: countFor(campaign.id, SEND_TYPE.REMINDER, SEND_STATUS.SENT),
+        failures: countFor(campaign.id, null, SEND_STATUS.FAILED),
+      })),
+      total: campaigns.length,
+    });
+
+  } catch (error) {
+    console.error('❌ Email campaigns fetch error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch campaigns' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    console.log('📬 Processing new email campaign');
+
+    // Verify admin session and role
+    const guard = await requireAdminPermission(request, PERMISSIONS.CAMPAIGNS_MANAGE);
+    if (guard.response) {
+      return guard.response;
+    }
+    const { session } = guard;
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validation = CreateCampaignSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid campaign data', details: validation.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const { name, groups, reminderIntervalDays, maxReminders } = validation.data;
+
+    const campaign = await prisma.emailCampaign.create({
+      data: {
+        name,
+        groups,
+        reminderIntervalDays,
+        maxReminders,
+        createdBy: session.email,
+        nextRunAt: new Date(),
+      },
+    });
+
+    // Invitations go out straight away; reminders follow on the schedule
+    const run = await runCampaign(campaign.id);
+
+    await recordAuditEvent({
+      action: AUDIT_ACTIONS.CAMPAIGN_CREATED,
+      actor: session,
+      targetType: 'campaign',
+      targetId: campaign.id,
+      after: { name, groups, reminderIntervalDays, maxReminders, invitationsSent: run.invitationsSent, failures: run.failures },
+      request,
+    });
+
+    console.log('✅ Campaign created:', name, 'for', groups.join(', '), 'by', session.email);
+
+    return NextResponse.json({
+      success: true,
+      message: `Campaign started - ${run.invitationsSent} invitation${run.invitationsSent === 1 ? '' : 's'} sent`,
+      campaign: {
+        id: campaign.id,
+        name: campaign.name,
+        status: run.status,
+        nextRunAt: run.nextRunAt?.toISOString() || null,
+      },
+      run,
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('❌ Email campaign create error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create campaign' },
+      { status: 500 }
+    );
+  }
+}
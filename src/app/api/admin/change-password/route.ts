@@ -0,0 +1,74 @@
+/**
+ * Admin Change Password API Endpoint
+ * Self-service change for the signed-in admin; required after a temporary password
+ * @rule 060 "API standards with session management"
+ * @rule 009 "Security considerations for credentials"
+ * @rule 130 "Error handling for authentication flow"
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireAdminSession } from '@/lib/admin-guard';
+import { AdminUserError, changeOwnPassword, PasswordSchema } from '@/lib/admin-users';
+import { AUDIT_ACTIONS, recordAuditEvent } from '@/lib/audit';
+
+const ChangePasswordSchema = z.object({
+  currentPassword: z.string().min(1, 'Current password is required'),
+  newPassword: PasswordSchema,
+});
+
+export async function POST(request: NextRequest) {
+  try {
+    console.log('🔑 Processing admin password change');
+
+    // Allowed while a forced change is pending - that's what this endpoint is for
+    const guard = await requireAdminSession(request);
+    if (guard.response) {
+      return guard.response;
+    }
+    const { session } = guard;
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validation = ChangePasswordSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: validation.error.issues[0]?.message || 'Invalid password data', details: validation.error.issues },
+        { status: 400 }
+      );
+    }
+
+    await changeOwnPassword(session.id, validation.data.currentPassword, validation.data.newPassword);
+
+    await recordAuditEvent({
+      action: AUDIT_ACTIONS.ADMIN_PASSWORD_CHANGED,
+      actor: session,
+      targetType: 'admin_user',
+      targetId: session.id,
+      reason: session.mustChangePassword ? 'Replaced temporary password' : null,
+      request,
+    });
+
+    console.log('✅ Admin password changed:', session.email);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Password changed successfully',
+    });
+
+  } catch (error) {
+    if (error instanceof AdminUserError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+
+    console.error('❌ Admin password change error:', error);
+    return NextResponse.json(
+      { error: 'Failed to change password' },
+      { status: 500 }
+    );
+  }
+}
@@ -6,6 +6,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { prisma } from '@/lib/prisma';
+import { requireAdminPermission } from '@/lib/admin-guard';
+import { PERMISSIONS } from '@/lib/permissions';
 
 const CheckAdminSchema = z.object({
   email: z.string().email(),
@@ -13,6 +15,12 @@ const CheckAdminSchema = z.object({
 
 export async function POST(request: NextRequest) {
   try {
+    // Only admins may probe the admin list - otherwise this leaks who the admins are
+    const guard = await requireAdminPermission(request, PERMISSIONS.INVITES_VIEW);
+    if (guard.response) {
+      return guard.response;
+    }
+
     const body = await request.json();
     const validation = CheckAdminSchema.safeParse(body);
 
@@ -0,0 +1,228 @@
+/**
+ * Admin Answer Coding API Endpoint
+ * Saves the signed-in coder's excerpts for one open-ended answer, replacing their
+ * previous coding of it, or withdraws their review entirely. Other coders' work
+ * is never touched.
+ * @rule 060 "API standards for qualitative coding"
+ * @rule 130 "Error handling for admin operations"
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { requireAdminPermission } from '@/lib/admin-guard';
+import { PERMISSIONS } from '@/lib/permissions';
+import { AnswerCodingSchema, codableText, resolveExcerpts } from '@/lib/qualitative-coding';
+import type { SurveyQuestion } from '@/lib/validation';
+import { AUDIT_ACTIONS, recordAuditEvent } from '@/lib/audit';
+
+// Offsets and codes only - the excerpt text is participant data and stays out of the audit log
+const AUDITED_EXCERPT_FIELDS = { codeId: true, start: true, end: true } as const;
+
+const WithdrawCodingSchema = z.object({
+  responseId: z.coerce.number().int().positive(),
+  questionId: z.string().trim().min(1),
+});
+
+export async function PUT(request: NextRequest) {
+  try {
+    console.log('🏷️ Saving answer coding');
+
+    // Verify admin session and role
+    const guard = await requireAdminPermission(request, PERMISSIONS.CODING_MANAGE);
+    if (guard.response) {
+      return guard.response;
+    }
+    const { session } = guard;
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validation = AnswerCodingSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid coding', details: validation.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const { responseId, questionId, excerpts } = validation.data;
+
+    const response = await prisma.surveyResponse.findUnique({
+      where: { id: responseId },
+      select: {
+        partial: true,
+        responses: true,
+        version: { select: { questions: true } },
+      },
+    });
+
+    if (!response || response.partial) {
+      return NextResponse.json(
+        { error: 'Response not found' },
+        { status: 404 }
+      );
+    }
+
+    const questions = Array.isArray(response.version.questions)
+      ? (response.version.questions as unknown as SurveyQuestion[])
+      : [];
+    if (questions.find(question => question.id === questionId)?.type !== 'open_ended') {
+      return NextResponse.json(
+        { error: 'Only answers to open-ended questions can be coded' },
+        { status: 400 }
+      );
+    }
+
+    const codeIds = [...new Set(excerpts.map(excerpt => excerpt.codeId))];
+    const codeCount = await prisma.codebookCode.count({
+      where: { id: { in: codeIds }, questionId },
+    });
+
+    if (codeCount !== codeIds.length) {
+      return NextResponse.json(
+        { error: 'Every code must come from this question\'s codebook' },
+        { status: 400 }
+      );
+    }
+
+    const answer = codableText((response.responses as Record<string, unknown> | null)?.[questionId]);
+    const resolution = resolveExcerpts(answer, excerpts);
+
+    if (!resolution.valid) {
+      return NextResponse.json(
+        { error: resolution.error },
+        { status: 400 }
+      );
+    }
+
+    const { coding, previous } = await prisma.$transaction(async (tx) => {
+      const saved = await tx.answerCoding.upsert({
+        where: { responseId_questionId_coderEmail: { responseId, questionId, coderEmail: session.email } },
+        create: { responseId, questionId, coderEmail: session.email },
+        update: {},
+      });
+
+      const previous = await tx.codedExcerpt.findMany({
+        where: { codingId: saved.id },
+        select: AUDITED_EXCERPT_FIELDS,
+        orderBy: { start: 'asc' },
+      });
+
+      await tx.codedExcerpt.deleteMany({
+        where: { codingId: saved.id },
+      });
+
+      await tx.codedExcerpt.createMany({
+        data: resolution.excerpts.map(excerpt => ({ ...excerpt, codingId: saved.id })),
+      });
+
+      // Touch the review so updatedAt reflects this save even when nothing changed
+      const coding = await tx.answerCoding.update({
+        where: { id: saved.id },
+        data: { updatedAt: new Date() },
+        include: {
+          excerpts: {
+            select: { id: true, codeId: true, start: true, end: true, text: true },
+            orderBy: { start: 'asc' },
+          },
+        },
+      });
+
+      return { coding, previous };
+    });
+
+    await recordAuditEvent({
+      action: AUDIT_ACTIONS.CODING_SAVED,
+      actor: session,
+      targetType: 'answer_coding',
+      targetId: `${responseId}:${questionId}`,
+      before: { excerpts: previous },
+      after: {
+        excerpts: coding.excerpts.map(({ codeId, start, end }) => ({ codeId, start, end })),
+      },
+      request,
+    });
+
+    console.log('✅ Answer coding saved:', responseId, questionId, coding.excerpts.length, 'excerpts');
+
+    return NextResponse.json({
+      success: true,
+      coding: {
+        responseId,
+        questionId,
+        updatedAt: coding.updatedAt.toISOString(),
+        excerpts: coding.excerpts,
+      },
+    });
+
+  } catch (error) {
+    console.error('❌ Answer coding error:', error);
+    return NextResponse.json(
+      { error: 'Failed to save coding' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    console.log('🗑️ Withdrawing answer coding');
+
+    // Verify admin session and role
+    const guard = await requireAdminPermission(request, PERMISSIONS.CODING_MANAGE);
+    if (guard.response) {
+      return guard.response;
+    }
+    const { session } = guard;
+
+    const validation = WithdrawCodingSchema.safeParse(Object.fromEntries(request.nextUrl.searchParams));
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid coding', details: validation.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const { responseId, questionId } = validation.data;
+
+    const existing = await prisma.answerCoding.findUnique({
+      where: { responseId_questionId_coderEmail: { responseId, questionId, coderEmail: session.email } },
+      select: {
+        id: true,
+        excerpts: { select: AUDITED_EXCERPT_FIELDS, orderBy: { start: 'asc' } },
+      },
+    });
+
+    // deleteMany so a withdrawal racing this one isn't an error
+    const result = existing
+      ? await prisma.answerCoding.deleteMany({ where: { id: existing.id } })
+      : { count: 0 };
+
+    if (existing && result.count > 0) {
+      await recordAuditEvent({
+        action: AUDIT_ACTIONS.CODING_WITHDRAWN,
+        actor: session,
+        targetType: 'answer_coding',
+        targetId: `${responseId}:${questionId}`,
+        before: { excerpts: existing.excerpts },
+        request,
+      });
+    }
+
+    console.log('✅ Answer coding withdrawn:', responseId, questionId);
+
+    return NextResponse.json({
+      success: true,
+      removed: result.count > 0,
+    });
+
+  } catch (error) {
+    console.error('❌ Answer coding withdrawal error:', error);
+    return NextResponse.json(
+      { error: 'Failed to withdraw coding' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,182 @@
+/**
+ * Admin Single Codebook Code API Endpoint
+ * Renames or redescribes a code, or removes it together with every excerpt tagged with it
+ * @rule 060 "API standards for qualitative coding"
+ * @rule 130 "Error handling for admin operations"
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requireAdminPermission } from '@/lib/admin-guard';
+import { PERMISSIONS } from '@/lib/permissions';
+import { CodeUpdateSchema } from '@/lib/qualitative-coding';
+import { AUDIT_ACTIONS, recordAuditEvent } from '@/lib/audit';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+async function resolveCodeId(context: RouteContext): Promise<number | null> {
+  const { id } = await context.params;
+  const codeId = Number(id);
+  return Number.isInteger(codeId) && codeId > 0 ? codeId : null;
+}
+
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  try {
+    console.log('✏️ Processing codebook code update');
+
+    // Verify admin session and role
+    const guard = await requireAdminPermission(request, PERMISSIONS.CODING_MANAGE);
+    if (guard.response) {
+      return guard.response;
+    }
+    const { session } = guard;
+
+    const codeId = await resolveCodeId(context);
+    if (!codeId) {
+      return NextResponse.json(
+        { error: 'Invalid code ID' },
+        { status: 400 }
+      );
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validation = CodeUpdateSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid code', details: validation.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const existing = await prisma.codebookCode.findUnique({
+      where: { id: codeId },
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Code not found' },
+        { status: 404 }
+      );
+    }
+
+    const { name, description } = validation.data;
+
+    if (name && name !== existing.name) {
+      const nameTaken = await prisma.codebookCode.findUnique({
+        where: { questionId_name: { questionId: existing.questionId, name } },
+        select: { id: true },
+      });
+
+      if (nameTaken) {
+        return NextResponse.json(
+          { error: `The code "${name}" already exists for this question` },
+          { status: 409 }
+        );
+      }
+    }
+
+    const code = await prisma.codebookCode.update({
+      where: { id: codeId },
+      data: {
+        ...(name && { name }),
+        ...(description !== undefined && { description: description || null }),
+      },
+    });
+
+    await recordAuditEvent({
+      action: AUDIT_ACTIONS.CODEBOOK_CODE_UPDATED,
+      actor: session,
+      targetType: 'codebook_code',
+      targetId: codeId,
+      before: { name: existing.name, description: existing.description },
+      after: { name: code.name, description: code.description },
+      request,
+    });
+
+    console.log('✅ Codebook code updated:', codeId);
+
+    return NextResponse.json({
+      success: true,
+      code,
+    });
+
+  } catch (error) {
+    console.error('❌ Codebook code update error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update code' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  try {
+    console.log('🗑️ Processing codebook code delete request');
+
+    // Verify admin session and role
+    const guard = await requireAdminPermission(request, PERMISSIONS.CODING_MANAGE);
+    if (guard.response) {
+      return guard.response;
+    }
+    const { session } = guard;
+
+    const codeId = await resolveCodeId(context);
+    if (!codeId) {
+      return NextResponse.json(
+        { error: 'Invalid code ID' },
+        { status: 400 }
+      );
+    }
+
+    const existing = await prisma.codebookCode.findUnique({
+      where: { id: codeId },
+      include: {
+        _count: {
+          select: { excerpts: true },
+        },
+      },
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Code not found' },
+        { status: 404 }
+      );
+    }
+
+    // Excerpts tagged with the code are removed with it; the coders' reviews remain
+    await prisma.codebookCode.delete({
+      where: { id: codeId },
+    });
+
+    await recordAuditEvent({
+      action: AUDIT_ACTIONS.CODEBOOK_CODE_DELETED,
+      actor: session,
+      targetType: 'codebook_code',
+      targetId: codeId,
+      before: {
+        questionId: existing.questionId,
+        name: existing.name,
+        description: existing.description,
+        excerpts: existing._count.excerpts,
+      },
+      request,
+    });
+
+    console.log('✅ Codebook code deleted:', codeId, 'with', existing._count.excerpts, 'excerpts');
+
+    return NextResponse.json({
+      success: true,
+      deletedExcerpts: existing._count.excerpts,
+    });
+
+  } catch (error) {
+    console.error('❌ Codebook code delete error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete code' },
+      { status: 500 }
+    );
+  }
+}
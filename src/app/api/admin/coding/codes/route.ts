@@ -0,0 +1,92 @@
+/**
+ * Admin Codebook API Endpoint
+ * Adds a code to the codebook of an open-ended question
+ * @rule 060 "API standards for qualitative coding"
+ * @rule 130 "Error handling for admin operations"
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requireAdminPermission } from '@/lib/admin-guard';
+import { PERMISSIONS } from '@/lib/permissions';
+import { CodeSchema } from '@/lib/qualitative-coding';
+import { getCodableQuestions } from '@/lib/coding-workspace';
+import { AUDIT_ACTIONS, recordAuditEvent } from '@/lib/audit';
+
+export async function POST(request: NextRequest) {
+  try {
+    console.log('🏷️ Processing codebook code creation');
+
+    // Verify admin session and role
+    const guard = await requireAdminPermission(request, PERMISSIONS.CODING_MANAGE);
+    if (guard.response) {
+      return guard.response;
+    }
+    const { session } = guard;
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validation = CodeSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid code', details: validation.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const { questionId, name, description } = validation.data;
+
+    const questions = await getCodableQuestions();
+    if (!questions.some(question => question.id === questionId)) {
+      return NextResponse.json(
+        { error: 'Codes can only be added to open-ended questions that have responses' },
+        { status: 400 }
+      );
+    }
+
+    const existing = await prisma.codebookCode.findUnique({
+      where: { questionId_name: { questionId, name } },
+      select: { id: true },
+    });
+
+    if (existing) {
+      return NextResponse.json(
+        { error: `The code "${name}" already exists for this question` },
+        { status: 409 }
+      );
+    }
+
+    const code = await prisma.codebookCode.create({
+      data: {
+        questionId,
+        name,
+        description: description || null,
+        createdBy: session.email,
+      },
+    });
+
+    await recordAuditEvent({
+      action: AUDIT_ACTIONS.CODEBOOK_CODE_CREATED,
+      actor: session,
+      targetType: 'codebook_code',
+      targetId: code.id,
+      after: { questionId, name, description: code.description },
+      request,
+    });
+
+    console.log('✅ Codebook code created:', code.id);
+
+    return NextResponse.json({
+      success: true,
+      code,
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('❌ Codebook code creation error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create code' },
+      { status: 500 }
+    );
+  }
+}
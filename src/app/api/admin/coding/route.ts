@@ -0,0 +1,52 @@
+/**
+ * Admin Qualitative Coding Workspace API Endpoint
+ * The codebook, a page of answers with the signed-in coder's excerpts, coding
+ * progress and inter-rater agreement for one open-ended question.
+ * @rule 060 "API standards with proper data aggregation"
+ * @rule 130 "Error handling for admin operations"
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdminPermission } from '@/lib/admin-guard';
+import { PERMISSIONS } from '@/lib/permissions';
+import { CodingQuerySchema } from '@/lib/qualitative-coding';
+import { loadCodingWorkspace } from '@/lib/coding-workspace';
+
+export async function GET(request: NextRequest) {
+  try {
+    console.log('🏷️ Fetching coding workspace');
+
+    // Verify admin session and role
+    const guard = await requireAdminPermission(request, PERMISSIONS.RESPONSES_VIEW);
+    if (guard.response) {
+      return guard.response;
+    }
+    const { session } = guard;
+
+    const validation = CodingQuerySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams));
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid coding query', details: validation.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const workspace = await loadCodingWorkspace(validation.data, session.email);
+
+    console.log('✅ Coding workspace loaded:', workspace.question?.id || 'no open-ended questions');
+
+    return NextResponse.json({
+      success: true,
+      coder: session.email,
+      ...workspace,
+    });
+
+  } catch (error) {
+    console.error('❌ Coding workspace error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch coding workspace' },
+      { status: 500 }
+    );
+  }
+}
@@ -6,19 +6,17 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/prisma';
-import { getSessionFromRequest } from '@/lib/auth';
+import { requireAdminPermission } from '@/lib/admin-guard';
+import { PERMISSIONS } from '@/lib/permissions';
 
 export async function GET(request: NextRequest) {
   try {
     console.log('📊 Fetching dashboard statistics');
 
-    // Verify admin session
-    const session = await getSessionFromRequest(request);
-    if (!session || session.type !== 'admin') {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      );
+    // Verify admin session and role
+    const guard = await requireAdminPermission(request, PERMISSIONS.DASHBOARD_VIEW);
+    if (guard.response) {
+      return guard.response;
     }
 
     // Get total invites
@@ -27,9 +25,17 @@ export async function GET(request: NextRequest) {
     // Get total responses
     const totalResponses = await prisma.surveyResponse.count();
 
-    // Calculate completion rate
+    // Completion rate counts invited participants with a complete submission, once each -
+    // drafts and resubmissions are rows too, so dividing row counts could pass 100%
+    const [invitedEmails, completers] = await Promise.all([
+      prisma.invitedUser.findMany({ select: { email: true } }),
+      prisma.surveyResponse.groupBy({ by: ['email'], where: { partial: false } }),
+    ]);
+    const invited = new Set(invitedEmails.map(invite => invite.email));
+    const completedParticipants = completers.filter(row => invited.has(row.email)).length;
+
     const completionRate = totalInvites > 0 
-      ? Math.round((totalResponses / totalInvites) * 100 * 10) / 10 
+      ? Math.round((completedParticipants / totalInvites) * 100 * 10) / 10 
       : 0;
 
     // Get responses by group
@@ -78,6 +84,7 @@ export async function GET(request: NextRequest) {
     const stats = {
       totalInvites,
       totalResponses,
+      completedParticipants,
       completionRate,
       responsesByGroup: groupStats,
       averageCompletionTime,
@@ -0,0 +1,65 @@
+/**
+ * Admin Email Template Preview API Endpoint
+ * Renders an email with sample data - either the stored wording or unsaved edits -
+ * so admins can check the HTML and plaintext before anything is sent
+ * @rule 060 "API standards for admin email operations"
+ * @rule 130 "Error handling for email operations"
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdminPermission } from '@/lib/admin-guard';
+import { PERMISSIONS } from '@/lib/permissions';
+import { ALL_GROUPS, renderEmailTemplate, SAMPLE_RENDER_DATA } from '@/lib/email-rendering';
+import { EmailTemplateKeySchema, EmailTemplateSchema, resolveEmailTemplate } from '@/lib/email-templates';
+
+const PreviewSchema = EmailTemplateKeySchema.extend({
+  subject: EmailTemplateSchema.shape.subject.optional(),
+  intro: EmailTemplateSchema.shape.intro.optional(),
+});
+
+export async function POST(request: NextRequest) {
+  try {
+    console.log('👀 Rendering email template preview');
+
+    // Verify admin session and role
+    const guard = await requireAdminPermission(request, PERMISSIONS.CAMPAIGNS_VIEW);
+    if (guard.response) {
+      return guard.response;
+    }
+
+    const body = await request.json();
+    const validation = PreviewSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid preview request', details: validation.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const { key, group, subject, intro } = validation.data;
+    const stored = await resolveEmailTemplate(key, group);
+
+    // The all-groups template is previewed as a teacher would receive it
+    const sampleGroup = group === ALL_GROUPS ? 'Teachers' : group;
+
+    const preview = await renderEmailTemplate(
+      key,
+      { subject: subject ?? stored.subject, intro: intro ?? stored.intro },
+      { ...SAMPLE_RENDER_DATA, group: sampleGroup }
+    );
+
+    return NextResponse.json({
+      success: true,
+      preview,
+      sampleGroup,
+    });
+
+  } catch (error) {
+    console.error('❌ Email template preview error:', error);
+    return NextResponse.json(
+      { error: 'Failed to render preview' },
+      { status: 500 }
+    );
+  }
+}
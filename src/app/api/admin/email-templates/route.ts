@@ -0,0 +1,161 @@
+/**
+ * Admin Email Templates API Endpoint - GET, PUT and DELETE methods
+ * Lists the effective subject and intro of every email per group, and stores or
+ * removes the overrides admins make
+ * @rule 060 "API standards for admin email operations"
+ * @rule 012 "API security for critical operations"
+ * @rule 130 "Error handling for email operations"
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdminPermission } from '@/lib/admin-guard';
+import { PERMISSIONS } from '@/lib/permissions';
+import { AUDIT_ACTIONS, recordAuditEvent } from '@/lib/audit';
+import { TEMPLATE_PLACEHOLDERS } from '@/lib/email-rendering';
+import {
+  EmailTemplateKeySchema,
+  EmailTemplateSchema,
+  listEmailTemplates,
+  resetEmailTemplate,
+  resolveEmailTemplate,
+  saveEmailTemplate,
+} from '@/lib/email-templates';
+
+export async function GET(request: NextRequest) {
+  try {
+    console.log('✉️ Fetching email templates');
+
+    // Verify admin session and role
+    const guard = await requireAdminPermission(request, PERMISSIONS.CAMPAIGNS_VIEW);
+    if (guard.response) {
+      return guard.response;
+    }
+
+    const templates = await listEmailTemplates();
+
+    return NextResponse.json({
+      success: true,
+      templates,
+      placeholders: TEMPLATE_PLACEHOLDERS,
+    });
+
+  } catch (error) {
+    console.error('❌ Email templates fetch error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch email templates' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    console.log('✉️ Saving email template');
+
+    // Verify admin session and role
+    const guard = await requireAdminPermission(request, PERMISSIONS.CAMPAIGNS_MANAGE);
+    if (guard.response) {
+      return guard.response;
+    }
+    const { session } = guard;
+
+    const body = await request.json();
+    const validation = EmailTemplateSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid email template', details: validation.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const { key, group } = validation.data;
+    const before = await resolveEmailTemplate(key, group);
+    await saveEmailTemplate(validation.data, session.email);
+    const template = await resolveEmailTemplate(key, group);
+
+    await recordAuditEvent({
+      action: AUDIT_ACTIONS.EMAIL_TEMPLATE_UPDATED,
+      actor: session,
+      targetType: 'email_template',
+      targetId: `${key}:${group}`,
+      before: { subject: before.subject, intro: before.intro, source: before.source },
+      after: { subject: template.subject, intro: template.intro, source: template.source },
+      request,
+    });
+
+    console.log('✅ Email template saved:', key, group, 'by', session.email);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Email template saved',
+      template,
+    });
+
+  } catch (error) {
+    console.error('❌ Email template save error:', error);
+    return NextResponse.json(
+      { error: 'Failed to save email template' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    console.log('✉️ Resetting email template');
+
+    // Verify admin session and role
+    const guard = await requireAdminPermission(request, PERMISSIONS.CAMPAIGNS_MANAGE);
+    if (guard.response) {
+      return guard.response;
+    }
+    const { session } = guard;
+
+    const validation = EmailTemplateKeySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams));
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid email template', details: validation.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const { key, group } = validation.data;
+    const removed = await resetEmailTemplate(key, group);
+
+    if (!removed) {
+      return NextResponse.json(
+        { error: 'This template has no override to reset' },
+        { status: 404 }
+      );
+    }
+
+    const template = await resolveEmailTemplate(key, group);
+
+    await recordAuditEvent({
+      action: AUDIT_ACTIONS.EMAIL_TEMPLATE_RESET,
+      actor: session,
+      targetType: 'email_template',
+      targetId: `${key}:${group}`,
+      before: { subject: removed.subject, intro: removed.intro },
+      after: { subject: template.subject, intro: template.intro, source: template.source },
+      request,
+    });
+
+    console.log('✅ Email template reset:', key, group, 'by', session.email);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Email template reset to default',
+      template,
+    });
+
+  } catch (error) {
+    console.error('❌ Email template reset error:', error);
+    return NextResponse.json(
+      { error: 'Failed to reset email template' },
+      { status: 500 }
+    );
+  }
+}
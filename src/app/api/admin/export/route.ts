@@ -8,13 +8,33 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { prisma } from '@/lib/prisma';
-import { getSessionFromRequest } from '@/lib/auth';
+import { requireAdminPermission } from '@/lib/admin-guard';
+import { PERMISSIONS } from '@/lib/permissions';
 import { hashEmail } from '@/lib/crypto';
 import { getProductionMode } from '@/lib/production-mode';
 import ExcelJS from 'exceljs';
+import { AUDIT_ACTIONS, recordAuditEvent } from '@/lib/audit';
+import { buildCodingColumns, type ExportedCoding } from '@/lib/qualitative-coding';
+import {
+  buildCodebook,
+  buildJsonLines,
+  buildLongRows,
+  buildSavExport,
+  codebookCsv,
+  LONG_CSV_HEADERS,
+  RESEARCH_FORMATS,
+  toCsv,
+  type ExportResponse,
+  type ExportVersion,
+  type ResearchFormat,
+} from '@/lib/research-export';
+import type { SurveyQuestion } from '@/lib/validation';
 
 const ExportSchema = z.object({
-  format: z.enum(['excel', 'csv'], { errorMap: () => ({ message: 'Format must be excel or csv' }) }),
+  // "codebook" describes the variables of the research formats for the same filters
+  format: z.enum(['excel', 'csv', ...RESEARCH_FORMATS, 'codebook'], {
+    errorMap: () => ({ message: `Format must be one of excel, csv, ${RESEARCH_FORMATS.join(', ')} or codebook` }),
+  }),
   filters: z.object({
     groups: z.array(z.string()).optional(),
     dateRange: z.object({
@@ -25,21 +45,21 @@ const ExportSchema = z.object({
   }).optional(),
   anonymize: z.boolean().default(true),
   includeMetadata: z.boolean().default(true),
+  // Adds a "<questionId>_codes" column per coded question, and an excerpts sheet to Excel exports
+  includeCoding: z.boolean().default(false),
 });
 
 export async function POST(request: NextRequest) {
   try {
     console.log('📊 Processing data export request');
 
-    // Verify admin session
-    const session = await getSessionFromRequest(request);
-    if (!session || session.type !== 'admin') {
+    // Verify admin session and role
+    const guard = await requireAdminPermission(request, PERMISSIONS.RESPONSES_EXPORT);
+    if (guard.response) {
       console.log('❌ Unauthorized export attempt');
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      );
+      return guard.response;
     }
+    const { session } = guard;
 
     // Parse and validate request body
     const body = await request.json();
@@ -53,7 +73,7 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { format, filters, anonymize, includeMetadata } = validation.data;
+    const { format, filters, anonymize, includeMetadata, includeCoding } = validation.data;
 
     // ✅ CRITICAL: Automatically exclude test accounts in production mode
     const productionMode = await getProductionMode();
@@ -95,6 +115,7 @@ export async function POST(request: NextRequest) {
             version: true,
             group: true,
             description: true,
+            questions: true,
           },
         },
       },
@@ -110,21 +131,90 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    let codings: ExportedCoding[] = [];
+    if (includeCoding) {
+      const rows = await prisma.answerCoding.findMany({
+        where: { responseId: { in: responses.map(response => response.id) } },
+        include: {
+          excerpts: {
+            select: { text: true, code: { select: { name: true } } },
+            orderBy: { start: 'asc' },
+          },
+        },
+        orderBy: [{ responseId: 'asc' }, { questionId: 'asc' }, { coderEmail: 'asc' }],
+      });
+      codings = rows.map(row => ({
+        responseId: row.responseId,
+        questionId: row.questionId,
+        coderEmail: row.coderEmail,
+        excerpts: row.excerpts.map(excerpt => ({ code: excerpt.code.name, text: excerpt.text })),
+      }));
+    }
+    const codingColumns = buildCodingColumns(responses.map(response => response.id), codings);
+    const participantIds = new Map(
+      responses.map(response => [response.id, anonymize ? hashEmail(response.email) : response.email])
+    );
+
+    // Record who took which data out, before the file leaves the server
+    await recordAuditEvent({
+      action: AUDIT_ACTIONS.RESPONSES_EXPORTED,
+      actor: session,
+      targetType: 'survey_responses',
+      after: {
+        format,
+        filters: filters || {},
+        anonymize,
+        includeMetadata,
+        includeCoding,
+        productionMode,
+        responseCount: responses.length,
+      },
+      request,
+    });
+
+    // Codebook formats are laid out from the question definitions, not the stored JSON keys
+    if (format !== 'excel' && format !== 'csv') {
+      const versions = new Map<number, ExportVersion>();
+      responses.forEach(response => versions.set(response.versionId, {
+        id: response.versionId,
+        version: response.version.version,
+        questions: Array.isArray(response.version.questions) ? (response.version.questions as unknown as SurveyQuestion[]) : [],
+      }));
+
+      const file = generateResearchExport(format, [...versions.values()], responses.map(response => ({
+        ...response,
+        participantId: participantIds.get(response.id) || '',
+        codes: codingColumns.get(response.id),
+      })), { includeMetadata, includeCoding });
+
+      return new NextResponse(file.body, {
+        headers: {
+          'Content-Type': file.contentType,
+          'Content-Disposition': `attachment; filename="${file.filename}"`,
+        },
+      });
+    }
+
     // Process and anonymize data
     const processedData = responses.map(response => {
       const baseData = {
-        participantId: anonymize ? hashEmail(response.email) : response.email,
+        participantId: participantIds.get(response.id),
         group: response.group,
         surveyVersion: response.version.version,
         submittedAt: response.submittedAt.toISOString(),
         isPartial: response.partial,
+        submissionNumber: response.submissionNumber,
+        isResubmission: response.isResubmission,
         ...response.responses, // Spread individual question responses
+        ...codingColumns.get(response.id),
       };
 
       if (includeMetadata) {
         return {
           ...baseData,
           completionTime: response.completionTime,
+          activeTime: response.activeTime,
+          idleTime: response.idleTime,
           deviceType: response.deviceType,
           submissionDate: response.submittedAt.toLocaleDateString(),
           submissionTime: response.submittedAt.toLocaleTimeString(),
@@ -140,6 +230,14 @@ export async function POST(request: NextRequest) {
         anonymized: anonymize,
         includeMetadata,
         filters: filters || {},
+        codedExcerpts: codings.flatMap(coding => coding.excerpts.map(excerpt => ({
+          participantId: participantIds.get(coding.responseId),
+          responseId: coding.responseId,
+          questionId: coding.questionId,
+          coder: coding.coderEmail,
+          code: excerpt.code,
+          excerpt: excerpt.text,
+        }))),
       });
 
       const filename = `survey_responses_${new Date().toISOString().split('T')[0]}.xlsx`;
@@ -177,7 +275,7 @@ export async function POST(request: NextRequest) {
  */
 async function generateExcelExport(
   data: any[], 
-  options: { anonymized: boolean; includeMetadata: boolean; filters: any }
+  options: { anonymized: boolean; includeMetadata: boolean; filters: any; codedExcerpts: Record<string, unknown>[] }
 ): Promise<Buffer> {
   const workbook = new ExcelJS.Workbook();
   
@@ -221,6 +319,16 @@ async function generateExcelExport(
     });
   }
 
+  // Coded excerpts sheet - one row per excerpt per coder
+  if (options.codedExcerpts.length > 0) {
+    const codingSheet = workbook.addWorksheet('Coded Excerpts');
+    codingSheet.addRow(Object.keys(options.codedExcerpts[0]));
+    codingSheet.getRow(1).font = { bold: true };
+    options.codedExcerpts.forEach(row => {
+      codingSheet.addRow(Object.values(row));
+    });
+  }
+
   // Group summary sheet
   const summarySheet = workbook.addWorksheet('Group Summary');
   const groupCounts = data.reduce((acc, item) => {
@@ -263,3 +371,50 @@ function generateCSVExport(data: any[]): string {
 
   return csvRows.join('\n');
 }
+
+
+/**
+ * Generates an SPSS, long CSV or JSON Lines export, or the codebook describing them
+ */
+function generateResearchExport(
+  format: ResearchFormat | 'codebook',
+  versions: ExportVersion[],
+  responses: ExportResponse[],
+  options: { includeMetadata: boolean; includeCoding: boolean }
+): { body: string | Uint8Array<ArrayBuffer>; contentType: string; filename: string } {
+  const date = new Date().toISOString().split('T')[0];
+  const codebook = buildCodebook(versions, {
+    includeMetadata: options.includeMetadata,
+    codingColumns: Object.keys(responses[0]?.codes || {}),
+  });
+
+  switch (format) {
+    case 'spss':
+      return {
+        body: new Uint8Array(buildSavExport(codebook, responses, versions, `NCLB survey responses ${date}`)),
+        contentType: 'application/x-spss-sav',
+        filename: `survey_responses_${date}.sav`,
+      };
+    case 'long_csv':
+      return {
+        body: toCsv(
+          [...LONG_CSV_HEADERS, ...(options.includeCoding ? ['codes'] : [])],
+          buildLongRows(codebook, responses, versions, options.includeCoding)
+        ),
+        contentType: 'text/csv; charset=utf-8',
+        filename: `survey_responses_long_${date}.csv`,
+      };
+    case 'jsonl':
+      return {
+        body: buildJsonLines(codebook, responses, versions),
+        contentType: 'application/x-ndjson',
+        filename: `survey_responses_${date}.jsonl`,
+      };
+    default:
+      return {
+        body: codebookCsv(codebook),
+        contentType: 'text/csv; charset=utf-8',
+        filename: `survey_codebook_${date}.csv`,
+      };
+  }
+}
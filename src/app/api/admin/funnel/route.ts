@@ -0,0 +1,153 @@
+/**
+ * Admin Participation Funnel API Endpoint
+ * Distinct participants at each step from invitation to completion, per group,
+ * with trends over time and where unfinished drafts stopped. In production mode
+ * test accounts are left out.
+ * @rule 060 "API standards with proper data aggregation"
+ * @rule 130 "Error handling for dashboard data"
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { requireAdminPermission } from '@/lib/admin-guard';
+import { PERMISSIONS } from '@/lib/permissions';
+import { getProductionMode, TEST_ACCOUNT_DOMAIN } from '@/lib/production-mode';
+import {
+  buildFunnels,
+  buildQuestionDropOff,
+  buildTrend,
+  FunnelQuerySchema,
+  type ParticipantProgress,
+} from '@/lib/funnel';
+import type { SurveyQuestion } from '@/lib/validation';
+
+const DEFAULT_TREND_DAYS = 30;
+
+export async function GET(request: NextRequest) {
+  try {
+    console.log('🪜 Fetching participation funnel');
+
+    // Verify admin session and role
+    const guard = await requireAdminPermission(request, PERMISSIONS.DASHBOARD_VIEW);
+    if (guard.response) {
+      return guard.response;
+    }
+
+    const validation = FunnelQuerySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams));
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid funnel query', details: validation.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const query = validation.data;
+    const productionMode = await getProductionMode();
+
+    const inviteWhere: Prisma.InvitedUserWhereInput = {
+      ...(query.group && { group: query.group }),
+      ...((query.from || query.to) && {
+        invitedAt: {
+          ...(query.from && { gte: query.from }),
+          ...(query.to && { lte: query.to }),
+        },
+      }),
+      ...(productionMode && { NOT: { email: { endsWith: TEST_ACCOUNT_DOMAIN } } }),
+    };
+
+    const [invites, sentEmails, otpRequests, responseGroups, drafts] = await Promise.all([
+      prisma.invitedUser.findMany({
+        where: inviteWhere,
+        select: { email: true, group: true, invitedAt: true, consented: true, surveyStartedAt: true },
+      }),
+      prisma.emailSend.groupBy({ by: ['email'], where: { status: 'sent' } }),
+      prisma.otpAttempt.findMany({ where: { lastRequestedAt: { not: null } }, select: { email: true } }),
+      prisma.surveyResponse.groupBy({
+        by: ['email', 'partial', 'versionId'],
+        _min: { submittedAt: true },
+        _count: { lastSavedAt: true },
+      }),
+      prisma.surveyResponse.findMany({
+        where: { partial: true },
+        select: { email: true, versionId: true, lastQuestionId: true },
+      }),
+    ]);
+
+    const emailed = new Set(sentEmails.map(row => row.email));
+    const requestedCode = new Set(otpRequests.map(row => row.email));
+    const savedProgress = new Set<string>();
+    const firstCompletion = new Map<string, Date>();
+    const completersByVersion = new Map<number, Set<string>>();
+    for (const row of responseGroups) {
+      if (row._count.lastSavedAt > 0) savedProgress.add(row.email);
+      if (row.partial || !row._min.submittedAt) continue;
+
+      const earliest = firstCompletion.get(row.email);
+      if (!earliest || row._min.submittedAt < earliest) firstCompletion.set(row.email, row._min.submittedAt);
+      completersByVersion.set(row.versionId, (completersByVersion.get(row.versionId) || new Set()).add(row.email));
+    }
+
+    const participants: ParticipantProgress[] = invites.map(invite => ({
+      email: invite.email,
+      group: invite.group,
+      invitedAt: invite.invitedAt,
+      emailed: emailed.has(invite.email),
+      otpRequested: requestedCode.has(invite.email),
+      consented: invite.consented,
+      startedAt: invite.surveyStartedAt,
+      savedProgress: savedProgress.has(invite.email),
+      completedAt: firstCompletion.get(invite.email) || null,
+    }));
+
+    const to = query.to || new Date();
+    const from = query.from || new Date(to.getTime() - DEFAULT_TREND_DAYS * 24 * 60 * 60 * 1000);
+
+    // Drop-off only covers the cohort's unfinished drafts, per survey version
+    const cohort = new Set(invites.map(invite => invite.email));
+    const abandoned = drafts.filter(draft => cohort.has(draft.email) && !firstCompletion.has(draft.email));
+    const versionIds = [...new Set(abandoned.map(draft => draft.versionId))];
+    const versions = await prisma.surveyVersion.findMany({
+      where: { id: { in: versionIds } },
+      select: { id: true, version: true, group: true, questions: true },
+      orderBy: [{ group: 'asc' }, { createdAt: 'desc' }],
+    });
+
+    const dropOff = versions.map(version => {
+      const questions = Array.isArray(version.questions) ? (version.questions as unknown as SurveyQuestion[]) : [];
+      const positions = abandoned.filter(draft => draft.versionId === version.id).map(draft => draft.lastQuestionId);
+      const completers = [...(completersByVersion.get(version.id) || [])].filter(email => cohort.has(email));
+
+      return {
+        versionId: version.id,
+        version: version.version,
+        group: version.group,
+        abandoned: positions.length,
+        questions: buildQuestionDropOff(questions, positions, completers.length),
+      };
+    });
+
+    console.log('✅ Participation funnel compiled:', participants.length, 'participants');
+
+    return NextResponse.json({
+      success: true,
+      excludedTestAccounts: productionMode,
+      funnels: buildFunnels(participants),
+      trend: {
+        bucket: query.bucket,
+        from: from.toISOString(),
+        to: to.toISOString(),
+        points: buildTrend(participants, from, to, query.bucket),
+      },
+      dropOff,
+    });
+
+  } catch (error) {
+    console.error('❌ Participation funnel error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch participation funnel' },
+      { status: 500 }
+    );
+  }
+}
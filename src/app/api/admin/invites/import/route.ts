@@ -0,0 +1,96 @@
+/**
+ * Admin Bulk Invite Import API Endpoint
+ * Accepts a CSV/XLSX upload with email and group columns. Without commit=true
+ * it only returns the row-by-row report so the admin can review it first.
+ * @rule 060 "API standards for admin bulk operations"
+ * @rule 012 "API security for critical operations"
+ * @rule 130 "Error handling with per-row validation feedback"
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdminPermission } from '@/lib/admin-guard';
+import { PERMISSIONS } from '@/lib/permissions';
+import {
+  commitInviteImport,
+  InviteImportError,
+  MAX_IMPORT_FILE_BYTES,
+  parseInviteFile,
+  planInviteImport,
+} from '@/lib/invite-import';
+import { AUDIT_ACTIONS, recordAuditEvent } from '@/lib/audit';
+
+export async function POST(request: NextRequest) {
+  try {
+    console.log('📥 Processing invite import');
+
+    // Verify admin session and role
+    const guard = await requireAdminPermission(request, PERMISSIONS.INVITES_MANAGE);
+    if (guard.response) {
+      return guard.response;
+    }
+    const { session } = guard;
+
+    const formData = await request.formData();
+    const file = formData.get('file');
+    const commit = formData.get('commit') === 'true';
+
+    if (!(file instanceof File)) {
+      return NextResponse.json(
+        { error: 'A CSV or Excel file is required' },
+        { status: 400 }
+      );
+    }
+
+    if (file.size > MAX_IMPORT_FILE_BYTES) {
+      return NextResponse.json(
+        { error: 'File is too large (maximum 5 MB)' },
+        { status: 413 }
+      );
+    }
+
+    const rows = await parseInviteFile(Buffer.from(await file.arrayBuffer()), file.name);
+    const report = commit ? await commitInviteImport(rows) : await planInviteImport(rows);
+
+    // Previews change nothing, so only committed imports are audited
+    if (commit) {
+      await recordAuditEvent({
+        action: AUDIT_ACTIONS.INVITES_IMPORTED,
+        actor: session,
+        targetType: 'import_file',
+        targetId: file.name,
+        after: {
+          summary: report.summary,
+          created: report.rows.filter(row => row.status === 'created').map(row => row.email),
+        },
+        request,
+      });
+    }
+
+    console.log(commit ? '✅ Invite import committed:' : '🔍 Invite import previewed:', report.summary, 'by', session.email);
+
+    return NextResponse.json({
+      success: true,
+      committed: commit,
+      message: commit
+        ? `Imported ${report.summary.created} invite${report.summary.created === 1 ? '' : 's'}`
+        : 'Import preview ready',
+      filename: file.name,
+      summary: report.summary,
+      rows: report.rows,
+    });
+
+  } catch (error) {
+    if (error instanceof InviteImportError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+
+    console.error('❌ Invite import error:', error);
+    return NextResponse.json(
+      { error: 'Failed to import invites' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,28 +1,45 @@
 /**
- * Admin Invites API Endpoint - GET method
+ * Admin Invites API Endpoint - GET and POST methods
  * @rule 060 "API standards for admin data retrieval"
  * @rule 130 "Error handling for admin operations"
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { Prisma } from '@prisma/client';
 import { prisma } from '@/lib/prisma';
-import { getSessionFromRequest } from '@/lib/auth';
+import { requireAdminPermission } from '@/lib/admin-guard';
+import { PERMISSIONS } from '@/lib/permissions';
+import { EmailSchema, STAKEHOLDER_GROUPS } from '@/lib/validation';
+import { SEND_STATUS } from '@/lib/campaigns';
+import { AUDIT_ACTIONS, recordAuditEvent } from '@/lib/audit';
+
+const CreateInviteSchema = z.object({
+  email: z.string().trim().toLowerCase().pipe(EmailSchema),
+  group: z.enum(STAKEHOLDER_GROUPS),
+});
 
 export async function GET(request: NextRequest) {
   try {
     console.log('📋 Fetching invited users for admin');
 
-    // Verify admin session
-    const session = await getSessionFromRequest(request);
-    if (!session) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      );
+    // Verify admin session and role
+    const guard = await requireAdminPermission(request, PERMISSIONS.INVITES_VIEW);
+    if (guard.response) {
+      return guard.response;
     }
 
+    // Optional ?status=blocked|active filter for the block list
+    const status = request.nextUrl.searchParams.get('status');
+    const where = status === 'blocked'
+      ? { isBlocked: true }
+      : status === 'active'
+        ? { isBlocked: false }
+        : {};
+
     // Get all invited users with their response counts
     const invitedUsers = await prisma.invitedUser.findMany({
+      where,
       select: {
         id: true,
         email: true,
@@ -32,12 +49,24 @@ export async function GET(request: NextRequest) {
         consented: true,
         remindersSent: true,
         lastReminderAt: true,
+        isBlocked: true,
+        blockedAt: true,
+        blockedReason: true,
+        blockedBy: true,
       },
       orderBy: {
         invitedAt: 'desc',
       },
     });
 
+    // Last successful campaign email per participant
+    const lastContacts = await prisma.emailSend.groupBy({
+      by: ['email'],
+      where: { status: SEND_STATUS.SENT },
+      _max: { sentAt: true },
+    });
+    const lastContactedAt = new Map(lastContacts.map(contact => [contact.email, contact._max.sentAt]));
+
     // Get response counts for each user
     const usersWithResponseCounts = await Promise.all(
       invitedUsers.map(async (user) => {
@@ -66,6 +95,11 @@ export async function GET(request: NextRequest) {
         consented: user.consented,
         remindersSent: user.remindersSent || 0,
         lastReminderAt: user.lastReminderAt?.toISOString() || null,
+        lastContactedAt: lastContactedAt.get(user.email)?.toISOString() || null,
+        isBlocked: user.isBlocked,
+        blockedAt: user.blockedAt?.toISOString() || null,
+        blockedReason: user.blockedReason,
+        blockedBy: user.blockedBy,
         responseCount: user.responseCount,
         hasEverSubmitted: user.hasEverSubmitted,
         // Determine if resubmit button should show
@@ -82,4 +116,86 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    console.log('➕ Processing new invite request');
+
+    // Verify admin session and role
+    const guard = await requireAdminPermission(request, PERMISSIONS.INVITES_MANAGE);
+    if (guard.response) {
+      return guard.response;
+    }
+    const { session } = guard;
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validation = CreateInviteSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid invite data', details: validation.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const { email, group } = validation.data;
+
+    // Invites are stored lower-cased, so the normalized email finds any existing invite
+    const existingUser = await prisma.invitedUser.findUnique({
+      where: { email },
+      select: { id: true },
+    });
+
+    if (existingUser) {
+      return NextResponse.json(
+        { error: 'This email has already been invited' },
+        { status: 409 }
+      );
+    }
+
+    const invite = await prisma.invitedUser.create({
+      data: { email, group },
+    });
+
+    await recordAuditEvent({
+      action: AUDIT_ACTIONS.INVITE_CREATED,
+      actor: session,
+      targetType: 'participant',
+      targetId: invite.email,
+      after: { email: invite.email, group: invite.group },
+      request,
+    });
+
+    console.log('✅ Invite created:', email.replace(/(.{2}).*(@.*)/, '$1***$2'), 'in', group, 'by', session.email);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Invite added successfully',
+      invite: {
+        id: invite.id,
+        email: invite.email,
+        group: invite.group,
+        invitedAt: invite.invitedAt.toISOString(),
+        hasTaken: invite.hasTaken,
+        consented: invite.consented,
+      },
+    }, { status: 201 });
+
+  } catch (error) {
+    // Lost a race with a concurrent add of the same email
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return NextResponse.json(
+        { error: 'This email has already been invited' },
+        { status: 409 }
+      );
+    }
+
+    console.error('❌ Admin invite create error:', error);
+    return NextResponse.json(
+      { error: 'Failed to add invite' },
+      { status: 500 }
+    );
+  }
+}
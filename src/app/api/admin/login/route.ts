@@ -9,6 +9,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { prisma } from '@/lib/prisma';
 import { verifyPassword, createAdminSessionToken } from '@/lib/auth';
+import { AUDIT_ACTIONS, recordAuditEvent } from '@/lib/audit';
+import { enforceRateLimit, RATE_LIMITS } from '@/lib/rate-limiter';
 
 const LoginSchema = z.object({
   email: z.string().email('Please enter a valid email address'),
@@ -36,13 +38,27 @@ export async function POST(request: NextRequest) {
 
     const { email, password } = validation.data;
 
+    const limited = await enforceRateLimit(request, RATE_LIMITS.ADMIN_LOGIN, { email });
+    if (limited) {
+      return limited;
+    }
+
     // Find admin user
     const admin = await prisma.adminUser.findUnique({
       where: { email },
     });
 
-    if (!admin) {
-      console.log('❌ Admin not found:', email);
+    // Deactivated accounts get the same generic message as unknown ones
+    if (!admin || !admin.isActive) {
+      console.log('❌ Admin not found or deactivated:', email);
+      await recordAuditEvent({
+        action: AUDIT_ACTIONS.ADMIN_LOGIN_FAILED,
+        actor: { id: admin?.id, email, role: admin?.role },
+        targetType: 'admin_user',
+        targetId: admin?.id,
+        reason: admin ? 'Account deactivated' : 'Unknown account',
+        request,
+      });
       // Use generic message to prevent email enumeration
       return NextResponse.json(
         { error: 'Invalid email or password' },
@@ -55,6 +71,14 @@ export async function POST(request: NextRequest) {
 
     if (!isValidPassword) {
       console.log('❌ Invalid password for admin:', email);
+      await recordAuditEvent({
+        action: AUDIT_ACTIONS.ADMIN_LOGIN_FAILED,
+        actor: admin,
+        targetType: 'admin_user',
+        targetId: admin.id,
+        reason: 'Invalid password',
+        request,
+      });
       return NextResponse.json(
         { error: 'Invalid email or password' },
         { status: 401 }
@@ -75,6 +99,14 @@ export async function POST(request: NextRequest) {
       role: admin.role,
     });
 
+    await recordAuditEvent({
+      action: AUDIT_ACTIONS.ADMIN_LOGIN,
+      actor: admin,
+      targetType: 'admin_user',
+      targetId: admin.id,
+      request,
+    });
+
     console.log('✅ Admin login successful:', email);
 
     // Create response with HTTP-only cookie
@@ -87,6 +119,7 @@ export async function POST(request: NextRequest) {
         name: admin.name,
         role: admin.role,
       },
+      mustChangePassword: admin.mustChangePassword,
     });
 
     // Set secure session cookie
@@ -4,12 +4,29 @@
  * @rule 130 "Error handling with proper cleanup"
  */
 
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionFromRequest } from '@/lib/auth';
+import { AUDIT_ACTIONS, recordAuditEvent } from '@/lib/audit';
 
-export async function POST() {
+export async function POST(request: NextRequest) {
   try {
     console.log('🔓 Processing admin logout');
 
+    const session = await getSessionFromRequest(request);
+    if (session?.type === 'admin' && typeof session.email === 'string') {
+      await recordAuditEvent({
+        action: AUDIT_ACTIONS.ADMIN_LOGOUT,
+        actor: {
+          id: typeof session.id === 'number' ? session.id : null,
+          email: session.email,
+          role: typeof session.role === 'string' ? session.role : null,
+        },
+        targetType: 'admin_user',
+        targetId: typeof session.id === 'number' ? session.id : null,
+        request,
+      });
+    }
+
     const response = NextResponse.json({
       success: true,
       message: 'Logged out successfully',
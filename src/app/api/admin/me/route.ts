@@ -0,0 +1,42 @@
+/**
+ * Current Admin API Endpoint
+ * Returns the signed-in admin's role and permissions so the UI can hide actions
+ * the role can't perform. The API routes enforce the same matrix regardless.
+ * @rule 060 "API standards for session management"
+ * @rule 012 "API security for access control"
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdminSession } from '@/lib/admin-guard';
+import { getRolePermissions } from '@/lib/permissions';
+
+export async function GET(request: NextRequest) {
+  try {
+    // Also answers for admins who still have to change a temporary password
+    const guard = await requireAdminSession(request);
+    if (guard.response) {
+      return guard.response;
+    }
+    const { session } = guard;
+
+    return NextResponse.json({
+      success: true,
+      user: {
+        id: session.id,
+        email: session.email,
+        name: session.name,
+        role: session.role,
+        mustChangePassword: session.mustChangePassword,
+      },
+      // Nothing is usable until a temporary password has been replaced
+      permissions: session.mustChangePassword ? [] : getRolePermissions(session.role),
+    });
+
+  } catch (error) {
+    console.error('❌ Current admin fetch error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load admin profile' },
+      { status: 500 }
+    );
+  }
+}
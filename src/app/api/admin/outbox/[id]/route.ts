@@ -0,0 +1,58 @@
+/**
+ * Admin Single Outbox Email API Endpoint
+ * Returns one captured email with its rendered HTML
+ * @rule 060 "API standards for admin email operations"
+ * @rule 012 "API security for critical operations"
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requireAdminPermission } from '@/lib/admin-guard';
+import { PERMISSIONS } from '@/lib/permissions';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Verify admin session and role
+    const guard = await requireAdminPermission(request, PERMISSIONS.OUTBOX_VIEW);
+    if (guard.response) {
+      return guard.response;
+    }
+
+    const messageId = Number((await params).id);
+    if (!Number.isInteger(messageId) || messageId <= 0) {
+      return NextResponse.json(
+        { error: 'Invalid message ID' },
+        { status: 400 }
+      );
+    }
+
+    const message = await prisma.outboxEmail.findUnique({
+      where: { id: messageId },
+    });
+
+    if (!message) {
+      return NextResponse.json(
+        { error: 'Message not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: {
+        ...message,
+        createdAt: message.createdAt.toISOString(),
+      },
+    });
+
+  } catch (error) {
+    console.error('❌ Outbox message fetch error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch message' },
+      { status: 500 }
+    );
+  }
+}
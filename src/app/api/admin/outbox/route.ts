@@ -0,0 +1,121 @@
+/**
+ * Admin Email Outbox API Endpoint - GET and DELETE methods
+ * Lists emails captured by the outbox transport; e2e specs read OTP codes from here
+ * @rule 060 "API standards for admin email operations"
+ * @rule 012 "API security for critical operations"
+ * @rule 130 "Error handling for email operations"
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { requireAdminPermission } from '@/lib/admin-guard';
+import { PERMISSIONS } from '@/lib/permissions';
+import { AUDIT_ACTIONS, recordAuditEvent } from '@/lib/audit';
+import { EMAIL_CATEGORIES, resolveTransportName } from '@/lib/email-transport';
+
+const OutboxQuerySchema = z.object({
+  to: z.string().trim().toLowerCase().optional(),
+  category: z.nativeEnum(EMAIL_CATEGORIES).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+export async function GET(request: NextRequest) {
+  try {
+    console.log('📥 Fetching email outbox');
+
+    // Verify admin session and role
+    const guard = await requireAdminPermission(request, PERMISSIONS.OUTBOX_VIEW);
+    if (guard.response) {
+      return guard.response;
+    }
+
+    const validation = OutboxQuerySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams));
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid outbox query', details: validation.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const { to, category, limit } = validation.data;
+    const where = {
+      ...(to && { to: { contains: to } }),
+      ...(category && { category }),
+    };
+
+    const [messages, total] = await Promise.all([
+      prisma.outboxEmail.findMany({
+        where,
+        select: { id: true, createdAt: true, category: true, from: true, to: true, subject: true, text: true },
+        orderBy: { id: 'desc' },
+        take: limit,
+      }),
+      prisma.outboxEmail.count({ where }),
+    ]);
+
+    let transport: string;
+    try {
+      transport = resolveTransportName();
+    } catch {
+      transport = 'misconfigured';
+    }
+
+    return NextResponse.json({
+      success: true,
+      transport,
+      messages: messages.map(message => ({
+        ...message,
+        createdAt: message.createdAt.toISOString(),
+      })),
+      total,
+    });
+
+  } catch (error) {
+    console.error('❌ Email outbox fetch error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch outbox' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    console.log('🧹 Clearing email outbox');
+
+    // Verify admin session and role
+    const guard = await requireAdminPermission(request, PERMISSIONS.OUTBOX_MANAGE);
+    if (guard.response) {
+      return guard.response;
+    }
+    const { session } = guard;
+
+    const { count } = await prisma.outboxEmail.deleteMany({});
+
+    await recordAuditEvent({
+      action: AUDIT_ACTIONS.OUTBOX_CLEARED,
+      actor: session,
+      targetType: 'outbox',
+      before: { messages: count },
+      after: { messages: 0 },
+      request,
+    });
+
+    console.log('✅ Outbox cleared:', count, 'messages by', session.email);
+
+    return NextResponse.json({
+      success: true,
+      message: `Cleared ${count} message${count === 1 ? '' : 's'}`,
+      deleted: count,
+    });
+
+  } catch (error) {
+    console.error('❌ Email outbox clear error:', error);
+    return NextResponse.json(
+      { error: 'Failed to clear outbox' },
+      { status: 500 }
+    );
+  }
+}
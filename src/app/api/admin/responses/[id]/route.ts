@@ -0,0 +1,121 @@
+/**
+ * Admin Single Survey Response API Endpoint
+ * Returns one response with each answer next to its question text, plus the
+ * participant's other submissions
+ * @rule 060 "API standards for admin data retrieval"
+ * @rule 130 "Error handling for admin operations"
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requireAdminPermission } from '@/lib/admin-guard';
+import { PERMISSIONS } from '@/lib/permissions';
+import { buildAnswerSheet } from '@/lib/response-detail';
+import type { SurveyQuestion } from '@/lib/validation';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    // Verify admin session and role
+    const guard = await requireAdminPermission(request, PERMISSIONS.RESPONSES_VIEW);
+    if (guard.response) {
+      return guard.response;
+    }
+
+    const { id } = await context.params;
+    const responseId = Number(id);
+    if (!Number.isInteger(responseId) || responseId <= 0) {
+      return NextResponse.json(
+        { error: 'Invalid response ID' },
+        { status: 400 }
+      );
+    }
+
+    console.log('📄 Fetching survey response detail:', responseId);
+
+    const response = await prisma.surveyResponse.findUnique({
+      where: { id: responseId },
+      include: {
+        version: {
+          select: { id: true, version: true, group: true, description: true, questions: true },
+        },
+      },
+    });
+
+    if (!response) {
+      return NextResponse.json(
+        { error: 'Response not found' },
+        { status: 404 }
+      );
+    }
+
+    const submissions = await prisma.surveyResponse.findMany({
+      where: { email: response.email },
+      select: {
+        id: true,
+        submittedAt: true,
+        partial: true,
+        submissionNumber: true,
+        version: { select: { version: true } },
+      },
+      orderBy: { id: 'asc' },
+    });
+
+    const questions = Array.isArray(response.version.questions)
+      ? (response.version.questions as unknown as SurveyQuestion[])
+      : [];
+    const sheet = buildAnswerSheet(questions, response.responses);
+
+    const submissionHistory = submissions.map(submission => ({
+      id: submission.id,
+      submittedAt: submission.submittedAt.toISOString(),
+      partial: submission.partial,
+      version: submission.version.version,
+      submissionNumber: submission.submissionNumber,
+    }));
+
+    return NextResponse.json({
+      success: true,
+      response: {
+        id: response.id,
+        email: response.email.replace(/(.{2}).*(@.*)/, '$1***$2'), // Mask email for privacy
+        group: response.group,
+        partial: response.partial,
+        submittedAt: response.submittedAt.toISOString(),
+        lastSavedAt: response.lastSavedAt?.toISOString() || null,
+        lastQuestionId: response.lastQuestionId,
+        completionTime: response.completionTime,
+        activeTime: response.activeTime,
+        idleTime: response.idleTime,
+        deviceType: response.deviceType || 'unknown',
+        userAgent: response.userAgent || 'unknown',
+        version: {
+          id: response.version.id,
+          version: response.version.version,
+          group: response.version.group,
+          description: response.version.description,
+        },
+        submissionNumber: response.submissionNumber,
+        isResubmission: response.isResubmission,
+      },
+      answers: sheet.items,
+      // Seconds of active time per question id, for responses submitted with timing
+      questionTimings: response.questionTimings,
+      unmatchedAnswers: sheet.unmatched,
+      summary: {
+        answered: sheet.items.filter(item => item.status === 'answered').length,
+        skipped: sheet.items.filter(item => item.status === 'skipped').length,
+        hidden: sheet.items.filter(item => item.status === 'hidden').length,
+      },
+      submissions: submissionHistory,
+    });
+
+  } catch (error) {
+    console.error('❌ Survey response detail error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch survey response' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,88 +1,52 @@
 /**
  * Admin Survey Responses API Endpoint
+ * Cursor-paginated list with filters, search over open-ended answers and sort
+ * options; statistics reflect the same filters
  * @rule 060 "API standards for admin data retrieval"
  * @rule 130 "Error handling for admin operations"
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { prisma } from '@/lib/prisma';
-import { getSessionFromRequest } from '@/lib/auth';
+import { requireAdminPermission } from '@/lib/admin-guard';
+import { PERMISSIONS } from '@/lib/permissions';
+import { ResponseQuerySchema } from '@/lib/response-filters';
+import { getResponseFilterOptions, getResponseStats, listResponses } from '@/lib/response-query';
 
 export async function GET(request: NextRequest) {
   try {
     console.log('📊 Fetching survey responses for admin');
 
-    // Verify admin session
-    const session = await getSessionFromRequest(request);
-    if (!session) {
+    // Verify admin session and role
+    const guard = await requireAdminPermission(request, PERMISSIONS.RESPONSES_VIEW);
+    if (guard.response) {
+      return guard.response;
+    }
+
+    const validation = ResponseQuerySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams));
+
+    if (!validation.success) {
       return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
+        { error: 'Invalid responses query', details: validation.error.issues },
+        { status: 400 }
       );
     }
 
-    // Get all survey responses with related data
-    const responses = await prisma.surveyResponse.findMany({
-      select: {
-        id: true,
-        email: true,
-        group: true,
-        versionId: true,
-        responses: true,
-        submittedAt: true,
-        completionTime: true,
-        partial: true,
-        userAgent: true,
-        deviceType: true,
-        ipAddressHash: true,
-        version: {
-          select: {
-            version: true,
-            group: true,
-            description: true,
-          },
-        },
-      },
-      orderBy: {
-        submittedAt: 'desc',
-      },
-    });
+    const query = validation.data;
+    const { where, responses, nextCursor } = await listResponses(query);
 
-    // Transform data for frontend
-    const transformedResponses = responses.map(response => ({
-      id: response.id,
-      email: response.email.replace(/(.{2}).*(@.*)/, '$1***$2'), // Mask email for privacy
-      group: response.group,
-      submittedAt: response.submittedAt.toISOString(),
-      completionTime: response.completionTime,
-      partial: response.partial,
-      deviceType: response.deviceType || 'unknown',
-      userAgent: response.userAgent || 'unknown',
-      questionsAnswered: response.responses ? Object.keys(response.responses).length : 0,
-      version: {
-        version: response.version?.version || 'v1.0',
-        group: response.version?.group || response.group,
-        description: response.version?.description || 'Survey version',
-      },
-      // Check if this is a resubmission
-      submissionNumber: responses.filter(r => r.email === response.email).length,
-    }));
+    // Later pages only need rows - the client keeps the first page's stats
+    const [stats, filterOptions] = query.cursor
+      ? [undefined, undefined]
+      : await Promise.all([getResponseStats(where), getResponseFilterOptions()]);
 
-    console.log('✅ Survey responses loaded:', transformedResponses.length, 'responses');
+    console.log('✅ Survey responses loaded:', responses.length, 'responses');
 
     return NextResponse.json({
       success: true,
-      responses: transformedResponses,
-      total: transformedResponses.length,
-      stats: {
-        totalResponses: transformedResponses.length,
-        completedResponses: transformedResponses.filter(r => !r.partial).length,
-        partialResponses: transformedResponses.filter(r => r.partial).length,
-        byGroup: transformedResponses.reduce((acc, r) => {
-          acc[r.group] = (acc[r.group] || 0) + 1;
-          return acc;
-        }, {} as Record<string, number>),
-      },
+      responses,
+      nextCursor,
+      ...(stats && { stats, total: stats.totalResponses }),
+      ...(filterOptions && { filterOptions }),
     });
 
   } catch (error) {
@@ -93,4 +57,3 @@ export async function GET(request: NextRequest) {
     );
   }
 }
-
@@ -0,0 +1,96 @@
+/**
+ * Admin Participant Submission History API Endpoint
+ * All complete submissions of the participant who made the given response,
+ * side by side with what changed between each one and the next
+ * @rule 060 "API standards for admin data retrieval"
+ * @rule 130 "Error handling for admin operations"
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { requireAdminPermission } from '@/lib/admin-guard';
+import { PERMISSIONS } from '@/lib/permissions';
+import { buildSubmissionDiff } from '@/lib/submission-diff';
+import type { SurveyQuestion } from '@/lib/validation';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    // Verify admin session and role
+    const guard = await requireAdminPermission(request, PERMISSIONS.RESPONSES_VIEW);
+    if (guard.response) {
+      return guard.response;
+    }
+
+    const { id } = await context.params;
+    const responseId = Number(id);
+    if (!Number.isInteger(responseId) || responseId <= 0) {
+      return NextResponse.json(
+        { error: 'Invalid response ID' },
+        { status: 400 }
+      );
+    }
+
+    console.log('🔁 Fetching submission history for response:', responseId);
+
+    const response = await prisma.surveyResponse.findUnique({
+      where: { id: responseId },
+      select: { email: true },
+    });
+
+    if (!response) {
+      return NextResponse.json(
+        { error: 'Response not found' },
+        { status: 404 }
+      );
+    }
+
+    const [submissions, invite] = await Promise.all([
+      prisma.surveyResponse.findMany({
+        where: { email: response.email, partial: false },
+        include: {
+          version: { select: { version: true, questions: true } },
+        },
+        orderBy: { id: 'asc' },
+      }),
+      prisma.invitedUser.findUnique({
+        where: { email: response.email },
+        select: { group: true, hasTaken: true },
+      }),
+    ]);
+
+    const diff = buildSubmissionDiff(submissions.map(submission => ({
+      id: submission.id,
+      questions: Array.isArray(submission.version.questions)
+        ? (submission.version.questions as unknown as SurveyQuestion[])
+        : [],
+      responses: submission.responses,
+    })));
+
+    return NextResponse.json({
+      success: true,
+      participant: {
+        email: response.email.replace(/(.{2}).*(@.*)/, '$1***$2'), // Mask email for privacy
+        group: invite?.group || submissions[0]?.group || 'unknown',
+        canResubmit: invite ? !invite.hasTaken : false,
+      },
+      submissions: submissions.map((submission, index) => ({
+        id: submission.id,
+        submissionNumber: submission.submissionNumber ?? index + 1,
+        submittedAt: submission.submittedAt.toISOString(),
+        completionTime: submission.completionTime,
+        version: submission.version.version,
+        changedQuestions: diff.changedCounts[index],
+      })),
+      rows: diff.rows,
+    });
+
+  } catch (error) {
+    console.error('❌ Submission history error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch submission history' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * Admin Resubmission History API Endpoint
+ * Participants with complete submissions, how many they have made and whether
+ * they may currently submit again
+ * @rule 060 "API standards for admin data retrieval"
+ * @rule 130 "Error handling for admin operations"
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { requireAdminPermission } from '@/lib/admin-guard';
+import { PERMISSIONS } from '@/lib/permissions';
+
+const ResubmissionQuerySchema = z.object({
+  scope: z.enum(['resubmitted', 'all']).default('resubmitted'),
+});
+
+export async function GET(request: NextRequest) {
+  try {
+    console.log('📊 Fetching participant submission history');
+
+    // Verify admin session and role
+    const guard = await requireAdminPermission(request, PERMISSIONS.RESPONSES_VIEW);
+    if (guard.response) {
+      return guard.response;
+    }
+
+    const validation = ResubmissionQuerySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams));
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid resubmissions query', details: validation.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const { scope } = validation.data;
+
+    const participants = await prisma.surveyResponse.groupBy({
+      by: ['email'],
+      where: { partial: false },
+      _count: { _all: true },
+      _max: { id: true, submittedAt: true },
+      ...(scope === 'resubmitted' && { having: { id: { _count: { gt: 1 } } } }),
+      orderBy: { _max: { submittedAt: 'desc' } },
+    });
+
+    const invites = await prisma.invitedUser.findMany({
+      where: { email: { in: participants.map(participant => participant.email) } },
+      select: { email: true, group: true, hasTaken: true },
+    });
+    const invitesByEmail = new Map(invites.map(invite => [invite.email, invite]));
+
+    console.log('✅ Submission history loaded:', participants.length, 'participants');
+
+    return NextResponse.json({
+      success: true,
+      participants: participants.map(participant => {
+        const invite = invitesByEmail.get(participant.email);
+        return {
+          email: participant.email.replace(/(.{2}).*(@.*)/, '$1***$2'), // Mask email for privacy
+          group: invite?.group || 'unknown',
+          // Reset by an admin and not yet resubmitted
+          canResubmit: invite ? !invite.hasTaken : false,
+          submissionCount: participant._count._all,
+          latestResponseId: participant._max.id,
+          lastSubmittedAt: participant._max.submittedAt?.toISOString() || null,
+        };
+      }),
+    });
+
+  } catch (error) {
+    console.error('❌ Resubmission history fetch error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch submission history' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,112 @@
+/**
+ * Admin Text Analysis API Endpoint
+ * Word and phrase frequencies, TF-IDF keywords per group and co-occurrence themes
+ * for the answers to one open-ended question, computed locally on each request.
+ * In production mode test accounts are left out.
+ * @rule 060 "API standards with proper data aggregation"
+ * @rule 130 "Error handling for dashboard data"
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { requireAdminPermission } from '@/lib/admin-guard';
+import { PERMISSIONS } from '@/lib/permissions';
+import { getProductionMode, TEST_ACCOUNT_DOMAIN } from '@/lib/production-mode';
+import { getResponseFilterOptions } from '@/lib/response-query';
+import { collectQuestions, latestSubmissions } from '@/lib/question-analytics';
+import { analyzeAnswers, TextAnalysisQuerySchema } from '@/lib/text-analysis';
+import type { SurveyQuestion } from '@/lib/validation';
+
+export async function GET(request: NextRequest) {
+  try {
+    console.log('🔤 Fetching text analysis');
+
+    // Verify admin session and role
+    const guard = await requireAdminPermission(request, PERMISSIONS.RESPONSES_VIEW);
+    if (guard.response) {
+      return guard.response;
+    }
+
+    const validation = TextAnalysisQuerySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams));
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid text analysis query', details: validation.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const query = validation.data;
+    const productionMode = await getProductionMode();
+
+    const [versionRows, filterOptions] = await Promise.all([
+      prisma.surveyVersion.findMany({
+        where: {
+          ...(query.versionId && { id: query.versionId }),
+          ...(query.group && { group: query.group }),
+          responses: { some: {} },
+        },
+        select: { id: true, questions: true },
+        orderBy: { createdAt: 'desc' },
+      }),
+      getResponseFilterOptions(),
+    ]);
+
+    const versions = versionRows.map(version => ({
+      id: version.id,
+      questions: Array.isArray(version.questions) ? (version.questions as unknown as SurveyQuestion[]) : [],
+    }));
+    const questions = collectQuestions(versions)
+      .filter(question => question.type === 'open_ended')
+      .map(question => ({ id: question.id, text: question.text }));
+    const question = questions.find(entry => entry.id === query.questionId) || questions[0] || null;
+
+    let analysis = null;
+    if (question) {
+      const where: Prisma.SurveyResponseWhereInput = {
+        partial: false,
+        versionId: { in: versions.filter(version => version.questions.some(entry => entry.id === question.id)).map(version => version.id) },
+        ...(query.group && { group: query.group }),
+        ...((query.from || query.to) && {
+          submittedAt: {
+            ...(query.from && { gte: query.from }),
+            ...(query.to && { lte: query.to }),
+          },
+        }),
+        ...(productionMode && { NOT: { email: { endsWith: TEST_ACCOUNT_DOMAIN } } }),
+      };
+
+      const responses = await prisma.surveyResponse.findMany({
+        where,
+        select: { id: true, email: true, group: true, responses: true },
+        orderBy: { id: 'asc' },
+      });
+
+      const rows = query.submissions === 'latest' ? latestSubmissions(responses) : responses;
+      const answers = rows
+        .map(row => ({ group: row.group, text: (row.responses as Record<string, unknown> | null)?.[question.id] }))
+        .filter((answer): answer is { group: string; text: string } => typeof answer.text === 'string' && answer.text.trim().length > 0);
+
+      analysis = analyzeAnswers(answers);
+    }
+
+    console.log('✅ Text analysis compiled:', question?.id || 'no open-ended questions', analysis?.overall.answers || 0, 'answers');
+
+    return NextResponse.json({
+      success: true,
+      excludedTestAccounts: productionMode,
+      questions,
+      question,
+      analysis,
+      filterOptions: { versions: filterOptions.versions },
+    });
+
+  } catch (error) {
+    console.error('❌ Text analysis error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch text analysis' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,127 @@
+/**
+ * Admin Response Timing API Endpoint
+ * Completion, active and idle time statistics, time spent per question and speeders
+ * for complete responses, using the same filters as question analytics.
+ * In production mode test accounts are left out.
+ * @rule 060 "API standards with proper data aggregation"
+ * @rule 130 "Error handling for dashboard data"
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { requireAdminPermission } from '@/lib/admin-guard';
+import { PERMISSIONS } from '@/lib/permissions';
+import { getProductionMode, TEST_ACCOUNT_DOMAIN } from '@/lib/production-mode';
+import { AnalyticsQuerySchema, collectQuestions, latestSubmissions } from '@/lib/question-analytics';
+import {
+  findSpeeders,
+  summarizeDurations,
+  summarizeQuestionTimes,
+  SPEEDER_MEDIAN_RATIO,
+  MIN_RESPONSES_FOR_SPEEDERS,
+  type TimedResponse,
+} from '@/lib/timing-analytics';
+import type { SurveyQuestion } from '@/lib/validation';
+
+export async function GET(request: NextRequest) {
+  try {
+    console.log('⏱️ Fetching response timing');
+
+    // Verify admin session and role
+    const guard = await requireAdminPermission(request, PERMISSIONS.RESPONSES_VIEW);
+    if (guard.response) {
+      return guard.response;
+    }
+
+    const validation = AnalyticsQuerySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams));
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid timing query', details: validation.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const query = validation.data;
+    const productionMode = await getProductionMode();
+
+    const where: Prisma.SurveyResponseWhereInput = {
+      partial: false,
+      ...(query.versionId && { versionId: query.versionId }),
+      ...(query.group && { group: query.group }),
+      ...((query.from || query.to) && {
+        submittedAt: {
+          ...(query.from && { gte: query.from }),
+          ...(query.to && { lte: query.to }),
+        },
+      }),
+      ...(productionMode && { NOT: { email: { endsWith: TEST_ACCOUNT_DOMAIN } } }),
+    };
+
+    const [responses, versionRows] = await Promise.all([
+      prisma.surveyResponse.findMany({
+        where,
+        select: {
+          id: true,
+          email: true,
+          group: true,
+          versionId: true,
+          completionTime: true,
+          activeTime: true,
+          idleTime: true,
+          questionTimings: true,
+        },
+        orderBy: { id: 'asc' },
+      }),
+      prisma.surveyVersion.findMany({
+        where: {
+          ...(query.versionId && { id: query.versionId }),
+          ...(query.group && { group: query.group }),
+          responses: { some: {} },
+        },
+        select: { id: true, version: true, questions: true },
+        orderBy: { createdAt: 'desc' },
+      }),
+    ]);
+
+    const rows = query.submissions === 'latest' ? latestSubmissions(responses) : responses;
+    // Responses submitted before timing was measured have no completion time
+    const timed: TimedResponse[] = rows.flatMap(row =>
+      row.completionTime === null ? [] : [{ ...row, completionTime: row.completionTime }]
+    );
+    const versionNames = new Map(versionRows.map(version => [version.id, version.version]));
+    const questions = collectQuestions(versionRows.map(version => ({
+      id: version.id,
+      questions: Array.isArray(version.questions) ? (version.questions as unknown as SurveyQuestion[]) : [],
+    })));
+
+    const speeders = findSpeeders(timed).map(speeder => ({
+      ...speeder,
+      email: speeder.email.replace(/(.{2}).*(@.*)/, '$1***$2'), // Mask email for privacy
+      version: versionNames.get(speeder.versionId) || String(speeder.versionId),
+    }));
+
+    console.log('✅ Response timing compiled:', timed.length, 'timed responses,', speeders.length, 'speeders');
+
+    return NextResponse.json({
+      success: true,
+      respondents: rows.length,
+      timedResponses: timed.length,
+      excludedTestAccounts: productionMode,
+      completionTime: summarizeDurations(timed.map(row => row.completionTime)),
+      activeTime: summarizeDurations(timed.flatMap(row => row.activeTime ?? [])),
+      idleTime: summarizeDurations(timed.flatMap(row => row.idleTime ?? [])),
+      questions: summarizeQuestionTimes(questions, timed),
+      speeders,
+      speederRule: { medianRatio: SPEEDER_MEDIAN_RATIO, minResponses: MIN_RESPONSES_FOR_SPEEDERS },
+    });
+
+  } catch (error) {
+    console.error('❌ Response timing error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch response timing' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,81 @@
+/**
+ * Admin Revert to Development Mode API Endpoint
+ * Leaves production mode, optionally restoring the snapshot taken when it was activated
+ * @rule 060 "API standards for admin operations"
+ * @rule 012 "API security for critical operations"
+ * @rule 130 "Error handling for system changes"
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireAdminPermission } from '@/lib/admin-guard';
+import { PERMISSIONS } from '@/lib/permissions';
+import { AUDIT_ACTIONS, recordAuditEvent } from '@/lib/audit';
+import { deactivateProductionMode, ProductionModeError } from '@/lib/production-snapshot';
+
+const RevertSchema = z.object({
+  confirmation: z.literal('DEVELOPMENT'), // Must type exactly "DEVELOPMENT"
+  reason: z.string().trim().min(1, 'A reason is required').max(500),
+  restoreSnapshotId: z.number().int().positive().optional(),
+});
+
+export async function POST(request: NextRequest) {
+  try {
+    console.log('↩️ Processing revert to development mode');
+
+    // Verify admin session and role
+    const guard = await requireAdminPermission(request, PERMISSIONS.PRODUCTION_MANAGE);
+    if (guard.response) {
+      return guard.response;
+    }
+    const { session } = guard;
+
+    // Parse and validate confirmation
+    const body = await request.json();
+    const validation = RevertSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Must type DEVELOPMENT and give a reason to confirm', details: validation.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const { reason, restoreSnapshotId } = validation.data;
+
+    const result = await deactivateProductionMode(session.email, restoreSnapshotId);
+
+    await recordAuditEvent({
+      action: AUDIT_ACTIONS.PRODUCTION_REVERTED,
+      actor: session,
+      targetType: 'system_settings',
+      targetId: restoreSnapshotId,
+      reason,
+      before: result.previousSettings,
+      after: { productionMode: false, restored: result.restored },
+      request,
+    });
+
+    console.log('✅ DEVELOPMENT MODE RESTORED by', session.email, result.restored ? `(snapshot ${result.restored.snapshotId})` : '');
+
+    return NextResponse.json({
+      success: true,
+      message: 'Switched back to development mode',
+      restored: result.restored,
+    });
+
+  } catch (error) {
+    if (error instanceof ProductionModeError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+
+    console.error('❌ Revert to development mode error:', error);
+    return NextResponse.json(
+      { error: 'Failed to switch back to development mode' },
+      { status: 500 }
+    );
+  }
+}
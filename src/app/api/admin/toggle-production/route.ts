@@ -8,21 +8,27 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { prisma } from '@/lib/prisma';
-import { getSessionFromRequest } from '@/lib/auth';
+import { getProductionMode } from '@/lib/production-mode';
+import { activateProductionMode, getProductionSwitchPlan, ProductionModeError } from '@/lib/production-snapshot';
+import { requireAdminPermission } from '@/lib/admin-guard';
+import { PERMISSIONS } from '@/lib/permissions';
+import { AUDIT_ACTIONS, recordAuditEvent } from '@/lib/audit';
 
-const ToggleSchema = z.object({
-  confirmation: z.literal('PRODUCTION'), // Must type exactly "PRODUCTION"
-});
+const ToggleSchema = z.union([
+  z.object({ dryRun: z.literal(true) }),
+  z.object({ confirmation: z.literal('PRODUCTION') }), // Must type exactly "PRODUCTION"
+]);
 
 export async function POST(request: NextRequest) {
   try {
     console.log('🚀 Processing production mode toggle request');
 
-    // Verify admin session
-    const session = await getSessionFromRequest(request);
-    if (!session) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    // Verify admin session and role
+    const guard = await requireAdminPermission(request, PERMISSIONS.PRODUCTION_MANAGE);
+    if (guard.response) {
+      return guard.response;
     }
+    const { session } = guard;
 
     // Parse and validate confirmation
     const body = await request.json();
@@ -35,41 +41,45 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    console.log('🚀 Switching to PRODUCTION MODE');
-    console.log('👤 Initiated by:', session.email);
-
-    // Check current mode
-    const currentSettings = await prisma.systemSettings.findFirst();
-
-    if (currentSettings?.productionMode) {
-      return NextResponse.json(
-        { error: 'Already in production mode' },
-        { status: 400 }
-      );
+    // Dry run: report what would be deleted without touching anything
+    if ('dryRun' in validation.data) {
+      if (await getProductionMode()) {
+        return NextResponse.json(
+          { error: 'Already in production mode' },
+          { status: 400 }
+        );
+      }
+
+      const plan = await getProductionSwitchPlan();
+      console.log('🔍 Production switch dry run:', plan.responses.total, 'responses,', plan.invitesToReset.length, 'invites');
+
+      return NextResponse.json({
+        success: true,
+        dryRun: true,
+        plan,
+      });
     }
 
-    // Step 1: Delete all survey responses
-    const deletedResponses = await prisma.surveyResponse.deleteMany({});
-    console.log('🗑️ Deleted', deletedResponses.count, 'survey responses');
-
-    // Step 2: Reset all invited users (clear OTP, consent, hasTaken)
-    const resetUsers = await prisma.invitedUser.updateMany({
-      data: {
-        hasTaken: false,
-        consented: false,
-        otpCode: null,
-        otpExpiry: null,
-      },
-    });
-    console.log('🔄 Reset', resetUsers.count, 'invited users');
+    console.log('🚀 Switching to PRODUCTION MODE');
+    console.log('👤 Initiated by:', session.email);
 
-    // Step 3: Toggle production mode
-    await prisma.systemSettings.updateMany({
-      data: {
+    const result = await activateProductionMode(session.email);
+    console.log('📦 Snapshot saved:', result.snapshotId);
+    console.log('🗑️ Deleted', result.deletedResponses, 'survey responses');
+    console.log('🔄 Reset', result.resetUsers, 'invited users');
+
+    await recordAuditEvent({
+      action: AUDIT_ACTIONS.PRODUCTION_TOGGLED,
+      actor: session,
+      targetType: 'system_settings',
+      before: result.previousSettings ?? { productionMode: false },
+      after: {
         productionMode: true,
-        toggledAt: new Date(),
-        toggledBy: session.email,
+        snapshotId: result.snapshotId,
+        deletedResponses: result.deletedResponses,
+        resetUsers: result.resetUsers,
       },
+      request,
     });
 
     console.log('✅ PRODUCTION MODE ACTIVATED');
@@ -77,13 +87,21 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({
       success: true,
       message: 'Production mode activated successfully',
-      deletedResponses: deletedResponses.count,
-      resetUsers: resetUsers.count,
+      snapshotId: result.snapshotId,
+      deletedResponses: result.deletedResponses,
+      resetUsers: result.resetUsers,
       activatedBy: session.email,
-      activatedAt: new Date().toISOString(),
+      activatedAt: result.toggledAt.toISOString(),
     });
 
   } catch (error) {
+    if (error instanceof ProductionModeError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+
     console.error('❌ Toggle production mode error:', error);
     return NextResponse.json(
       { error: 'Failed to toggle production mode' },
@@ -93,8 +111,13 @@ export async function POST(request: NextRequest) {
 }
 
 // GET endpoint to check current mode
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
+    const guard = await requireAdminPermission(request, PERMISSIONS.DASHBOARD_VIEW);
+    if (guard.response) {
+      return guard.response;
+    }
+
     const settings = await prisma.systemSettings.findFirst();
     return NextResponse.json({
       productionMode: settings?.productionMode || false,
@@ -0,0 +1,35 @@
+/**
+ * Admin Production Snapshots API Endpoint
+ * Lists the development-data snapshots taken each time production mode was activated
+ * @rule 060 "API standards for admin operations"
+ * @rule 012 "API security for critical operations"
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdminPermission } from '@/lib/admin-guard';
+import { PERMISSIONS } from '@/lib/permissions';
+import { listProductionSnapshots } from '@/lib/production-snapshot';
+
+export async function GET(request: NextRequest) {
+  try {
+    // Verify admin session and role
+    const guard = await requireAdminPermission(request, PERMISSIONS.PRODUCTION_MANAGE);
+    if (guard.response) {
+      return guard.response;
+    }
+
+    const snapshots = await listProductionSnapshots();
+
+    return NextResponse.json({
+      success: true,
+      snapshots,
+    });
+
+  } catch (error) {
+    console.error('❌ Production snapshots fetch error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch snapshots' },
+      { status: 500 }
+    );
+  }
+}
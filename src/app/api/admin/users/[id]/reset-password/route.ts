@@ -0,0 +1,71 @@
+/**
+ * Admin Password Reset API Endpoint
+ * Replaces the account's password with a temporary one that must be changed at next login
+ * @rule 060 "API standards for admin user management"
+ * @rule 009 "Security considerations for credentials"
+ * @rule 130 "Error handling for user management"
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdminPermission } from '@/lib/admin-guard';
+import { PERMISSIONS } from '@/lib/permissions';
+import { AdminUserError, resetAdminPassword, serializeAdminUser } from '@/lib/admin-users';
+import { AUDIT_ACTIONS, recordAuditEvent } from '@/lib/audit';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    console.log('🔑 Processing admin password reset');
+
+    // Verify admin session and role
+    const guard = await requireAdminPermission(request, PERMISSIONS.ADMINS_MANAGE);
+    if (guard.response) {
+      return guard.response;
+    }
+    const { session } = guard;
+
+    const adminId = Number((await params).id);
+    if (!Number.isInteger(adminId) || adminId <= 0) {
+      return NextResponse.json(
+        { error: 'Invalid admin user ID' },
+        { status: 400 }
+      );
+    }
+
+    const { admin, temporaryPassword } = await resetAdminPassword(adminId);
+
+    await recordAuditEvent({
+      action: AUDIT_ACTIONS.ADMIN_PASSWORD_RESET,
+      actor: session,
+      targetType: 'admin_user',
+      targetId: admin.id,
+      after: { email: admin.email, mustChangePassword: true },
+      request,
+    });
+
+    console.log('✅ Admin password reset:', admin.email, 'by', session.email);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Password reset - share the temporary password with the user',
+      user: serializeAdminUser(admin),
+      temporaryPassword,
+    });
+
+  } catch (error) {
+    if (error instanceof AdminUserError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+
+    console.error('❌ Admin password reset error:', error);
+    return NextResponse.json(
+      { error: 'Failed to reset password' },
+      { status: 500 }
+    );
+  }
+}
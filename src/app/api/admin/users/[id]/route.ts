@@ -0,0 +1,90 @@
+/**
+ * Admin Single User API Endpoint
+ * Changes an admin's role or deactivates/reactivates the account
+ * @rule 060 "API standards for admin user management"
+ * @rule 012 "API security for critical operations"
+ * @rule 130 "Error handling for user management"
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireAdminPermission } from '@/lib/admin-guard';
+import { ADMIN_ROLES, PERMISSIONS } from '@/lib/permissions';
+import { AdminUserError, serializeAdminUser, updateAdminUser } from '@/lib/admin-users';
+import { AUDIT_ACTIONS, recordAuditEvent } from '@/lib/audit';
+
+const UpdateAdminSchema = z.object({
+  role: z.nativeEnum(ADMIN_ROLES).optional(),
+  isActive: z.boolean().optional(),
+}).refine(data => data.role !== undefined || data.isActive !== undefined, {
+  message: 'Nothing to update',
+});
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    console.log('👥 Processing admin user update');
+
+    // Verify admin session and role
+    const guard = await requireAdminPermission(request, PERMISSIONS.ADMINS_MANAGE);
+    if (guard.response) {
+      return guard.response;
+    }
+    const { session } = guard;
+
+    const adminId = Number((await params).id);
+    if (!Number.isInteger(adminId) || adminId <= 0) {
+      return NextResponse.json(
+        { error: 'Invalid admin user ID' },
+        { status: 400 }
+      );
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validation = UpdateAdminSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: validation.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const { previous, admin } = await updateAdminUser(adminId, validation.data, session.id);
+
+    await recordAuditEvent({
+      action: AUDIT_ACTIONS.ADMIN_UPDATED,
+      actor: session,
+      targetType: 'admin_user',
+      targetId: admin.id,
+      before: { email: previous.email, role: previous.role, isActive: previous.isActive },
+      after: { email: admin.email, role: admin.role, isActive: admin.isActive },
+      request,
+    });
+
+    console.log('✅ Admin user updated:', admin.email, validation.data, 'by', session.email);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Admin user updated',
+      user: serializeAdminUser(admin),
+    });
+
+  } catch (error) {
+    if (error instanceof AdminUserError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+
+    console.error('❌ Admin user update error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update admin user' },
+      { status: 500 }
+    );
+  }
+}
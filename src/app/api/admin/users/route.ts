@@ -0,0 +1,108 @@
+/**
+ * Admin Users API Endpoint - GET and POST methods
+ * Lists admin accounts and adds new ones with a one-time temporary password
+ * @rule 060 "API standards for admin user management"
+ * @rule 012 "API security for critical operations"
+ * @rule 130 "Error handling for user management"
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireAdminPermission } from '@/lib/admin-guard';
+import { ADMIN_ROLES, PERMISSIONS } from '@/lib/permissions';
+import { EmailSchema } from '@/lib/validation';
+import { AdminUserError, createAdminUser, listAdminUsers, serializeAdminUser } from '@/lib/admin-users';
+import { AUDIT_ACTIONS, recordAuditEvent } from '@/lib/audit';
+
+const CreateAdminSchema = z.object({
+  email: z.string().trim().toLowerCase().pipe(EmailSchema),
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  role: z.nativeEnum(ADMIN_ROLES),
+});
+
+export async function GET(request: NextRequest) {
+  try {
+    console.log('👥 Fetching admin users');
+
+    // Verify admin session and role
+    const guard = await requireAdminPermission(request, PERMISSIONS.ADMINS_MANAGE);
+    if (guard.response) {
+      return guard.response;
+    }
+
+    const admins = await listAdminUsers();
+
+    return NextResponse.json({
+      success: true,
+      users: admins.map(serializeAdminUser),
+      total: admins.length,
+    });
+
+  } catch (error) {
+    console.error('❌ Admin users fetch error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch admin users' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    console.log('➕ Processing new admin user');
+
+    // Verify admin session and role
+    const guard = await requireAdminPermission(request, PERMISSIONS.ADMINS_MANAGE);
+    if (guard.response) {
+      return guard.response;
+    }
+    const { session } = guard;
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validation = CreateAdminSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid admin data', details: validation.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const { admin, temporaryPassword } = await createAdminUser(validation.data, session.email);
+
+    // The temporary password is deliberately left out of the audit record
+    await recordAuditEvent({
+      action: AUDIT_ACTIONS.ADMIN_CREATED,
+      actor: session,
+      targetType: 'admin_user',
+      targetId: admin.id,
+      after: { email: admin.email, name: admin.name, role: admin.role },
+      request,
+    });
+
+    console.log('✅ Admin user created:', admin.email, 'as', admin.role, 'by', session.email);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Admin user created',
+      user: serializeAdminUser(admin),
+      // Shown once - only the hash is stored
+      temporaryPassword,
+    }, { status: 201 });
+
+  } catch (error) {
+    if (error instanceof AdminUserError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+
+    console.error('❌ Admin user create error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create admin user' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,283 @@
+/**
+ * Admin Single Survey Version API Endpoint
+ * @rule 060 "API standards for survey version authoring"
+ * @rule 130 "Error handling for admin operations"
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { requireAdminPermission } from '@/lib/admin-guard';
+import { PERMISSIONS } from '@/lib/permissions';
+import { SurveyVersionSchema } from '@/lib/validation';
+import { isEditable } from '@/lib/survey-versions';
+import { AUDIT_ACTIONS, recordAuditEvent } from '@/lib/audit';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+async function resolveVersionId(context: RouteContext): Promise<number | null> {
+  const { id } = await context.params;
+  const versionId = Number(id);
+  return Number.isInteger(versionId) && versionId > 0 ? versionId : null;
+}
+
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    // Verify admin session and role
+    const guard = await requireAdminPermission(request, PERMISSIONS.VERSIONS_VIEW);
+    if (guard.response) {
+      return guard.response;
+    }
+
+    const versionId = await resolveVersionId(context);
+    if (!versionId) {
+      return NextResponse.json(
+        { error: 'Invalid version ID' },
+        { status: 400 }
+      );
+    }
+
+    const surveyVersion = await prisma.surveyVersion.findUnique({
+      where: { id: versionId },
+      include: {
+        _count: {
+          select: { responses: true },
+        },
+      },
+    });
+
+    if (!surveyVersion) {
+      return NextResponse.json(
+        { error: 'Survey version not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      version: {
+        id: surveyVersion.id,
+        version: surveyVersion.version,
+        group: surveyVersion.group,
+        description: surveyVersion.description,
+        questions: surveyVersion.questions,
+        status: surveyVersion.status,
+        publishedAt: surveyVersion.publishedAt?.toISOString() || null,
+        publishedBy: surveyVersion.publishedBy,
+        retiredAt: surveyVersion.retiredAt?.toISOString() || null,
+        maxResponses: surveyVersion.maxResponses,
+        responseCount: surveyVersion._count.responses,
+        createdAt: surveyVersion.createdAt.toISOString(),
+        updatedAt: surveyVersion.updatedAt.toISOString(),
+      },
+    });
+
+  } catch (error) {
+    console.error('❌ Survey version fetch error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch survey version' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: NextRequest, context: RouteContext) {
+  try {
+    console.log('✏️ Processing survey version update request');
+
+    // Verify admin session and role
+    const guard = await requireAdminPermission(request, PERMISSIONS.VERSIONS_MANAGE);
+    if (guard.response) {
+      return guard.response;
+    }
+    const { session } = guard;
+
+    const versionId = await resolveVersionId(context);
+    if (!versionId) {
+      return NextResponse.json(
+        { error: 'Invalid version ID' },
+        { status: 400 }
+      );
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validation = SurveyVersionSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid survey version', details: validation.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const existing = await prisma.surveyVersion.findUnique({
+      where: { id: versionId },
+      include: {
+        _count: {
+          select: { responses: true },
+        },
+      },
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Survey version not found' },
+        { status: 404 }
+      );
+    }
+
+    // Published and retired question sets are frozen so responses keep their meaning
+    if (!isEditable(existing.status) || existing._count.responses > 0) {
+      return NextResponse.json(
+        { error: `This version is ${existing.status} and can no longer be edited. Clone it to make changes.` },
+        { status: 409 }
+      );
+    }
+
+    const { version, group, description, questions, maxResponses } = validation.data;
+
+    if (version !== existing.version) {
+      const nameTaken = await prisma.surveyVersion.findUnique({
+        where: { version },
+        select: { id: true },
+      });
+
+      if (nameTaken) {
+        return NextResponse.json(
+          { error: `Version "${version}" already exists` },
+          { status: 409 }
+        );
+      }
+    }
+
+    const updated = await prisma.surveyVersion.update({
+      where: { id: versionId },
+      data: {
+        version,
+        group,
+        description: description ?? null,
+        questions: questions as Prisma.InputJsonValue,
+        maxResponses: maxResponses ?? null,
+      },
+    });
+
+    await recordAuditEvent({
+      action: AUDIT_ACTIONS.VERSION_UPDATED,
+      actor: session,
+      targetType: 'survey_version',
+      targetId: versionId,
+      before: {
+        version: existing.version,
+        group: existing.group,
+        description: existing.description,
+        questions: existing.questions,
+        maxResponses: existing.maxResponses,
+      },
+      after: {
+        version: updated.version,
+        group: updated.group,
+        description: updated.description,
+        questions: updated.questions,
+        maxResponses: updated.maxResponses,
+      },
+      request,
+    });
+
+    console.log('✅ Survey version updated:', updated.version, 'by', session.email);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Survey version updated successfully',
+      version: {
+        id: updated.id,
+        version: updated.version,
+        group: updated.group,
+      },
+    });
+
+  } catch (error) {
+    console.error('❌ Survey version update error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update survey version' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  try {
+    console.log('🗑️ Processing survey version delete request');
+
+    // Verify admin session and role
+    const guard = await requireAdminPermission(request, PERMISSIONS.VERSIONS_MANAGE);
+    if (guard.response) {
+      return guard.response;
+    }
+    const { session } = guard;
+
+    const versionId = await resolveVersionId(context);
+    if (!versionId) {
+      return NextResponse.json(
+        { error: 'Invalid version ID' },
+        { status: 400 }
+      );
+    }
+
+    const existing = await prisma.surveyVersion.findUnique({
+      where: { id: versionId },
+      include: {
+        _count: {
+          select: { responses: true },
+        },
+      },
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Survey version not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!isEditable(existing.status) || existing._count.responses > 0) {
+      return NextResponse.json(
+        { error: 'Only unused draft versions can be deleted' },
+        { status: 409 }
+      );
+    }
+
+    await prisma.surveyVersion.delete({
+      where: { id: versionId },
+    });
+
+    await recordAuditEvent({
+      action: AUDIT_ACTIONS.VERSION_DELETED,
+      actor: session,
+      targetType: 'survey_version',
+      targetId: versionId,
+      before: {
+        version: existing.version,
+        group: existing.group,
+        description: existing.description,
+        questions: existing.questions,
+        maxResponses: existing.maxResponses,
+      },
+      request,
+    });
+
+    console.log('✅ Survey version deleted:', existing.version, 'by', session.email);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Survey version deleted successfully',
+    });
+
+  } catch (error) {
+    console.error('❌ Survey version delete error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete survey version' },
+      { status: 500 }
+    );
+  }
+}
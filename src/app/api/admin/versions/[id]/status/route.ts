@@ -0,0 +1,120 @@
+/**
+ * Admin Survey Version Publish/Retire API Endpoint
+ * @rule 060 "API standards for admin operations"
+ * @rule 012 "API security for critical operations"
+ * @rule 130 "Error handling for version lifecycle changes"
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireAdminPermission } from '@/lib/admin-guard';
+import { PERMISSIONS } from '@/lib/permissions';
+import { publishVersion, retireVersion, VERSION_STATUS, VersionLifecycleError } from '@/lib/survey-versions';
+import { AUDIT_ACTIONS, recordAuditEvent } from '@/lib/audit';
+
+const VersionStatusSchema = z.object({
+  action: z.enum(['publish', 'retire']),
+});
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    console.log('📢 Processing survey version status change');
+
+    // Verify admin session and role
+    const guard = await requireAdminPermission(request, PERMISSIONS.VERSIONS_MANAGE);
+    if (guard.response) {
+      return guard.response;
+    }
+    const { session } = guard;
+
+    const versionId = Number((await params).id);
+    if (!Number.isInteger(versionId) || versionId <= 0) {
+      return NextResponse.json(
+        { error: 'Invalid version ID' },
+        { status: 400 }
+      );
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validation = VersionStatusSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid request data', details: validation.error.issues },
+        { status: 400 }
+      );
+    }
+
+    if (validation.data.action === 'publish') {
+      const { published, retiredCount } = await publishVersion(versionId, session.email);
+
+      await recordAuditEvent({
+        action: AUDIT_ACTIONS.VERSION_STATUS_CHANGED,
+        actor: session,
+        targetType: 'survey_version',
+        targetId: published.id,
+        before: { status: VERSION_STATUS.DRAFT },
+        after: { status: published.status, retiredVersions: retiredCount },
+        request,
+      });
+
+      console.log('✅ Survey version published:', published.version, 'by', session.email);
+      console.log('📦 Retired previous versions:', retiredCount);
+
+      return NextResponse.json({
+        success: true,
+        message: 'Survey version published successfully',
+        version: {
+          id: published.id,
+          version: published.version,
+          group: published.group,
+          status: published.status,
+        },
+        retiredVersions: retiredCount,
+      });
+    }
+
+    const retired = await retireVersion(versionId);
+
+    await recordAuditEvent({
+      action: AUDIT_ACTIONS.VERSION_STATUS_CHANGED,
+      actor: session,
+      targetType: 'survey_version',
+      targetId: retired.id,
+      before: { status: VERSION_STATUS.PUBLISHED },
+      after: { status: retired.status },
+      request,
+    });
+
+    console.log('✅ Survey version retired:', retired.version, 'by', session.email);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Survey version retired successfully',
+      version: {
+        id: retired.id,
+        version: retired.version,
+        group: retired.group,
+        status: retired.status,
+      },
+    });
+
+  } catch (error) {
+    if (error instanceof VersionLifecycleError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+
+    console.error('❌ Survey version status error:', error);
+    return NextResponse.json(
+      { error: 'Failed to change survey version status' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,190 @@
+/**
+ * Admin Survey Versions API Endpoint
+ * @rule 060 "API standards for survey version authoring"
+ * @rule 130 "Error handling for admin operations"
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { requireAdminPermission } from '@/lib/admin-guard';
+import { PERMISSIONS } from '@/lib/permissions';
+import { SurveyVersionSchema } from '@/lib/validation';
+import { VERSION_STATUS } from '@/lib/survey-versions';
+import { AUDIT_ACTIONS, recordAuditEvent } from '@/lib/audit';
+
+const CreateVersionSchema = z.union([
+  SurveyVersionSchema,
+  z.object({
+    cloneFromId: z.number().int().positive(),
+    version: z.string().trim().min(1, 'Version name is required').max(64),
+    description: z.string().trim().max(500).nullable().optional(),
+  }),
+]);
+
+export async function GET(request: NextRequest) {
+  try {
+    console.log('📋 Fetching survey versions for admin');
+
+    // Verify admin session and role
+    const guard = await requireAdminPermission(request, PERMISSIONS.VERSIONS_VIEW);
+    if (guard.response) {
+      return guard.response;
+    }
+
+    const versions = await prisma.surveyVersion.findMany({
+      select: {
+        id: true,
+        version: true,
+        group: true,
+        description: true,
+        questions: true,
+        status: true,
+        publishedAt: true,
+        retiredAt: true,
+        maxResponses: true,
+        createdAt: true,
+        updatedAt: true,
+        _count: {
+          select: { responses: true },
+        },
+      },
+      orderBy: [{ group: 'asc' }, { createdAt: 'desc' }],
+    });
+
+    console.log('✅ Survey versions loaded:', versions.length, 'versions');
+
+    return NextResponse.json({
+      success: true,
+      versions: versions.map(version => ({
+        id: version.id,
+        version: version.version,
+        group: version.group,
+        description: version.description,
+        questionCount: Array.isArray(version.questions) ? version.questions.length : 0,
+        responseCount: version._count.responses,
+        status: version.status,
+        publishedAt: version.publishedAt?.toISOString() || null,
+        retiredAt: version.retiredAt?.toISOString() || null,
+        maxResponses: version.maxResponses,
+        createdAt: version.createdAt.toISOString(),
+        updatedAt: version.updatedAt.toISOString(),
+      })),
+      total: versions.length,
+    });
+
+  } catch (error) {
+    console.error('❌ Admin versions fetch error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch survey versions' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    console.log('➕ Processing survey version create request');
+
+    // Verify admin session and role
+    const guard = await requireAdminPermission(request, PERMISSIONS.VERSIONS_MANAGE);
+    if (guard.response) {
+      return guard.response;
+    }
+    const { session } = guard;
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validation = CreateVersionSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid survey version', details: validation.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const data = validation.data;
+
+    const existing = await prisma.surveyVersion.findUnique({
+      where: { version: data.version },
+      select: { id: true },
+    });
+
+    if (existing) {
+      return NextResponse.json(
+        { error: `Version "${data.version}" already exists` },
+        { status: 409 }
+      );
+    }
+
+    let createData;
+
+    if ('cloneFromId' in data) {
+      // Clone questions and settings from an existing version
+      const source = await prisma.surveyVersion.findUnique({
+        where: { id: data.cloneFromId },
+      });
+
+      if (!source) {
+        return NextResponse.json(
+          { error: 'Source version not found' },
+          { status: 404 }
+        );
+      }
+
+      createData = {
+        version: data.version,
+        group: source.group,
+        description: data.description ?? source.description,
+        questions: (source.questions ?? []) as Prisma.InputJsonValue,
+        maxResponses: source.maxResponses,
+        // Clones always start as drafts so they can be edited before publishing
+        status: VERSION_STATUS.DRAFT,
+      };
+    } else {
+      createData = {
+        version: data.version,
+        group: data.group,
+        description: data.description ?? null,
+        questions: data.questions as Prisma.InputJsonValue,
+        maxResponses: data.maxResponses ?? null,
+        status: VERSION_STATUS.DRAFT,
+      };
+    }
+
+    const surveyVersion = await prisma.surveyVersion.create({
+      data: createData,
+    });
+
+    await recordAuditEvent({
+      action: AUDIT_ACTIONS.VERSION_CREATED,
+      actor: session,
+      targetType: 'survey_version',
+      targetId: surveyVersion.id,
+      reason: 'cloneFromId' in data ? `Cloned from version ${data.cloneFromId}` : null,
+      after: createData,
+      request,
+    });
+
+    console.log('✅ Survey version created:', surveyVersion.version, 'by', session.email);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Survey version created successfully',
+      version: {
+        id: surveyVersion.id,
+        version: surveyVersion.version,
+        group: surveyVersion.group,
+      },
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('❌ Survey version create error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create survey version' },
+      { status: 500 }
+    );
+  }
+}
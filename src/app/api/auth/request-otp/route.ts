@@ -8,9 +8,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { prisma } from '@/lib/prisma';
-import { generateOTP } from '@/lib/crypto';
-import { sendOTPEmail } from '@/lib/resend';
+import { generateOTP, hashOTP } from '@/lib/crypto';
+import { sendOTPEmail } from '@/lib/email';
 import { canAccessSurvey } from '@/lib/production-mode';
+import { formatRetryAfter, getOtpLockoutStatus, getOtpRequestCooldown, recordOtpRequest } from '@/lib/otp-attempts';
+import { enforceRateLimit, RATE_LIMITS } from '@/lib/rate-limiter';
 
 const RequestOTPSchema = z.object({
   email: z.string().email('Please enter a valid email address'),
@@ -34,12 +36,17 @@ export async function POST(request: NextRequest) {
 
     const { email } = validation.data;
 
+    const limited = await enforceRateLimit(request, RATE_LIMITS.OTP_REQUEST, { email });
+    if (limited) {
+      return limited;
+    }
+
     // ✅ CRITICAL: Check production mode and site admin restrictions
     const access = await canAccessSurvey(email);
     if (!access.allowed) {
       console.log('❌ Survey access blocked:', email.replace(/(.{2}).*(@.*)/, '$1***$2'), '-', access.reason);
       return NextResponse.json(
-        { error: access.reason },
+        { error: access.reason, blocked: access.blocked },
         { status: 403 }
       );
     }
@@ -66,28 +73,41 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // A new code doesn't lift a lockout - otherwise re-requesting would reset the attempt limit
+    const lockout = await getOtpLockoutStatus(email);
+    if (lockout.locked) {
+      console.log('🔒 OTP request while locked out:', email.replace(/(.{2}).*(@.*)/, '$1***$2'));
+      return NextResponse.json(
+        { error: `Too many failed attempts. Try again in ${formatRetryAfter(lockout.retryAfterSeconds)}.` },
+        { status: 429, headers: { 'Retry-After': String(lockout.retryAfterSeconds) } }
+      );
+    }
+
+    const cooldown = await getOtpRequestCooldown(email);
+    if (cooldown > 0) {
+      console.log('⏳ OTP requested again too soon:', email.replace(/(.{2}).*(@.*)/, '$1***$2'));
+      return NextResponse.json(
+        { error: `Please wait ${cooldown} seconds before requesting another code` },
+        { status: 429, headers: { 'Retry-After': String(cooldown) } }
+      );
+    }
+
     // Generate OTP
     const otpCode = generateOTP();
     const otpExpiry = new Date(Date.now() + 10 * 60 * 1000); // 10 minutes
 
-    // Store OTP in database
+    // Store only the hash - the plain code goes out by email and nowhere else
     await prisma.invitedUser.update({
       where: { email },
       data: {
-        otpCode,
+        otpCode: hashOTP(otpCode, email),
         otpExpiry,
-        // Reset attempt counter when new OTP is generated
-        remindersSent: 0,
       },
     });
+    await recordOtpRequest(email);
 
-    // Send email (in development, we'll skip actual email sending)
-    let emailSent = true;
-    if (process.env.NODE_ENV === 'production' && process.env.RESEND_API_KEY) {
-      emailSent = await sendOTPEmail(email, otpCode);
-    } else {
-      console.log('🔧 Development mode - OTP code:', otpCode);
-    }
+    // Always go through the transport - outside production it captures the email in the outbox
+    const emailSent = await sendOTPEmail(email, otpCode, invitedUser.group);
 
     if (!emailSent) {
       console.log('❌ Failed to send OTP email');
@@ -8,9 +8,16 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { prisma } from '@/lib/prisma';
-import { validateOTP } from '@/lib/crypto';
-import { createSurveySessionToken } from '@/lib/auth';
+import { hashOTP, validateOTP } from '@/lib/crypto';
+import { createSurveyAccessToken, createSurveySessionToken } from '@/lib/auth';
 import { canAccessSurvey } from '@/lib/production-mode';
+import {
+  clearOtpAttempts,
+  formatRetryAfter,
+  getOtpLockoutStatus,
+  recordFailedOtpAttempt,
+} from '@/lib/otp-attempts';
+import { enforceRateLimit, RATE_LIMITS } from '@/lib/rate-limiter';
 
 const VerifyOTPSchema = z.object({
   email: z.string().email('Please enter a valid email address'),
@@ -36,12 +43,17 @@ export async function POST(request: NextRequest) {
 
     const { email, code, consented } = validation.data;
 
+    const limited = await enforceRateLimit(request, RATE_LIMITS.OTP_VERIFY, { email });
+    if (limited) {
+      return limited;
+    }
+
     // ✅ CRITICAL: Check production mode and site admin restrictions
     const access = await canAccessSurvey(email);
     if (!access.allowed) {
       console.log('❌ Survey access blocked:', email.replace(/(.{2}).*(@.*)/, '$1***$2'), '-', access.reason);
       return NextResponse.json(
-        { error: access.reason },
+        { error: access.reason, blocked: access.blocked },
         { status: 403 }
       );
     }
@@ -67,22 +79,41 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Validate OTP
+    const lockout = await getOtpLockoutStatus(email);
+    if (lockout.locked) {
+      console.log('🔒 OTP verification while locked out:', email.replace(/(.{2}).*(@.*)/, '$1***$2'));
+      return NextResponse.json(
+        { error: `Too many failed attempts. Try again in ${formatRetryAfter(lockout.retryAfterSeconds)}.` },
+        { status: 429, headers: { 'Retry-After': String(lockout.retryAfterSeconds) } }
+      );
+    }
+
+    // Validate OTP - stored codes are hashes, so compare against the hash of what was entered
     const otpValidation = validateOTP(
-      code,
+      hashOTP(code, email),
       user.otpCode,
       user.otpExpiry,
-      user.remindersSent || 0
+      lockout.failedAttempts
     );
 
     if (!otpValidation.valid) {
       console.log('❌ OTP validation failed:', otpValidation.error);
 
-      // Increment attempt counter
-      await prisma.invitedUser.update({
-        where: { email },
-        data: { remindersSent: (user.remindersSent || 0) + 1 },
-      });
+      const attempt = await recordFailedOtpAttempt(email);
+
+      if (attempt.locked) {
+        // Burn the current code so it can't be used once the lockout ends
+        await prisma.invitedUser.update({
+          where: { email },
+          data: { otpCode: null, otpExpiry: null },
+        });
+
+        console.log('🔒 OTP locked out after repeated failures:', email.replace(/(.{2}).*(@.*)/, '$1***$2'));
+        return NextResponse.json(
+          { error: `Too many failed attempts. Try again in ${formatRetryAfter(attempt.retryAfterSeconds)}.` },
+          { status: 429, headers: { 'Retry-After': String(attempt.retryAfterSeconds) } }
+        );
+      }
 
       return NextResponse.json(
         { error: otpValidation.error },
@@ -97,9 +128,9 @@ export async function POST(request: NextRequest) {
         consented: true,
         otpCode: null,
         otpExpiry: null,
-        remindersSent: 0,
       },
     });
+    await clearOtpAttempts(email);
 
     // Create survey session
     const sessionToken = await createSurveySessionToken({
@@ -116,6 +147,8 @@ export async function POST(request: NextRequest) {
       success: true,
       message: 'Access code verified successfully',
       group: user.group,
+      // Opaque per-participant URL - the email itself never appears in it
+      surveyPath: `/survey/${await createSurveyAccessToken(user.email)}`,
       expiresAt: new Date(Date.now() + 2 * 60 * 60 * 1000).toISOString(),
     });
 
@@ -0,0 +1,47 @@
+/**
+ * Scheduled Campaign Reminder Endpoint
+ * Called by an external scheduler (e.g. Vercel Cron) with
+ * "Authorization: Bearer $CRON_SECRET" to send reminders that are due.
+ * @rule 060 "API standards for scheduled jobs"
+ * @rule 011 "Environment variable security for shared secrets"
+ * @rule 130 "Error handling for email delivery"
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { runDueCampaigns } from '@/lib/campaigns';
+
+export async function GET(request: NextRequest) {
+  try {
+    const cronSecret = process.env.CRON_SECRET;
+
+    // Refuse to run without a configured secret rather than leaving the endpoint open
+    if (!cronSecret || request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    console.log('⏰ Running due email campaigns');
+
+    const results = await runDueCampaigns();
+
+    console.log('✅ Scheduled campaign run complete:', results.length, 'campaign(s)');
+
+    return NextResponse.json({
+      success: true,
+      campaignsRun: results.length,
+      results: results.map(result => ({
+        ...result,
+        nextRunAt: result.nextRunAt?.toISOString() || null,
+      })),
+    });
+
+  } catch (error) {
+    console.error('❌ Scheduled campaign run error:', error);
+    return NextResponse.json(
+      { error: 'Failed to run campaigns' },
+      { status: 500 }
+    );
+  }
+}
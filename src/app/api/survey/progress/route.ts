@@ -0,0 +1,166 @@
+/**
+ * Survey Save-and-Resume API Endpoint
+ * GET restores the participant's draft, PUT autosaves it
+ * @rule 060 "API standards for survey data submission"
+ * @rule 012 "API security using the survey session"
+ * @rule 130 "Error handling for survey progress"
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/prisma';
+import { getSurveySessionFromRequest } from '@/lib/auth';
+import { hashEmail } from '@/lib/crypto';
+import { canAccessSurvey } from '@/lib/production-mode';
+import { VERSION_STATUS } from '@/lib/survey-versions';
+import { findDraftResponse, saveDraftResponse } from '@/lib/survey-progress';
+
+const SaveProgressSchema = z.object({
+  surveyVersionId: z.number().int().positive(),
+  responses: z.record(z.string(), z.unknown()),
+  lastQuestionId: z.string().max(100).optional(),
+  deviceType: z.string().optional(),
+});
+
+export async function GET(request: NextRequest) {
+  try {
+    // Drafts are tied to the survey session created at OTP verification
+    const session = await getSurveySessionFromRequest(request);
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Survey session required' },
+        { status: 401 }
+      );
+    }
+
+    const draft = await findDraftResponse(session.email);
+
+    if (!draft) {
+      return NextResponse.json({ success: true, draft: null });
+    }
+
+    console.log('📂 Restoring survey draft for:', String(session.email).replace(/(.{2}).*(@.*)/, '$1***$2'));
+
+    return NextResponse.json({
+      success: true,
+      draft: {
+        id: draft.id,
+        versionId: draft.versionId,
+        responses: draft.responses,
+        lastQuestionId: draft.lastQuestionId,
+        savedAt: (draft.lastSavedAt || draft.submittedAt).toISOString(),
+      },
+    });
+
+  } catch (error) {
+    console.error('❌ Survey progress fetch error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load survey progress' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await getSurveySessionFromRequest(request);
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Survey session required' },
+        { status: 401 }
+      );
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const validation = SaveProgressSchema.safeParse(body);
+
+    if (!validation.success) {
+      return NextResponse.json(
+        { error: 'Invalid progress data', details: validation.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const { surveyVersionId, responses, lastQuestionId, deviceType } = validation.data;
+    const email: string = session.email;
+
+    // ✅ CRITICAL: Check production mode and site admin restrictions
+    const access = await canAccessSurvey(email);
+    if (!access.allowed) {
+      return NextResponse.json(
+        { error: access.reason, blocked: access.blocked },
+        { status: 403 }
+      );
+    }
+
+    const user = await prisma.invitedUser.findUnique({
+      where: { email },
+      select: { group: true, consented: true, hasTaken: true },
+    });
+
+    if (!user || !user.consented) {
+      return NextResponse.json(
+        { error: 'User consent required' },
+        { status: 403 }
+      );
+    }
+
+    // A tab left open after submitting must not start a new draft
+    if (user.hasTaken) {
+      return NextResponse.json(
+        { error: 'Survey already completed', alreadyCompleted: true, redirectTo: '/survey/already-completed' },
+        { status: 403 }
+      );
+    }
+
+    const surveyVersion = await prisma.surveyVersion.findUnique({
+      where: { id: surveyVersionId },
+      select: { group: true, status: true },
+    });
+
+    if (!surveyVersion || surveyVersion.group !== user.group) {
+      return NextResponse.json(
+        { error: 'Survey version does not match user group' },
+        { status: 400 }
+      );
+    }
+
+    if (surveyVersion.status !== VERSION_STATUS.PUBLISHED) {
+      return NextResponse.json(
+        { error: 'This survey version is no longer accepting responses. Please reload the survey.' },
+        { status: 409 }
+      );
+    }
+
+    const clientIP = request.headers.get('x-forwarded-for') ||
+                    request.headers.get('x-real-ip') ||
+                    'unknown';
+
+    const draft = await saveDraftResponse({
+      email,
+      group: user.group,
+      versionId: surveyVersionId,
+      responses,
+      lastQuestionId,
+      userAgent: request.headers.get('user-agent') || 'unknown',
+      deviceType: deviceType || 'unknown',
+      ipAddressHash: hashEmail(clientIP),
+    });
+
+    console.log('💾 Survey draft saved:', draft.id, '-', Object.keys(responses).length, 'answers');
+
+    return NextResponse.json({
+      success: true,
+      message: 'Survey progress saved',
+      savedAt: draft.lastSavedAt?.toISOString(),
+    });
+
+  } catch (error) {
+    console.error('❌ Survey progress save error:', error);
+    return NextResponse.json(
+      { error: 'Failed to save survey progress' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,8 @@
 /**
  * Survey Submission API Endpoint
+ * The participant is identified by the survey session cookie; an email in the
+ * body is only accepted if it matches that session.
+ * @rule 012 "API security using the survey session"
  * @rule 060 "API standards for survey data submission"
  * @rule 130 "Error handling for survey submission"
  */
@@ -7,23 +10,41 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { prisma } from '@/lib/prisma';
+import { getSurveySessionFromRequest } from '@/lib/auth';
 import { hashEmail } from '@/lib/crypto';
 import { canAccessSurvey } from '@/lib/production-mode';
+import { VERSION_STATUS } from '@/lib/survey-versions';
+import { validateSurveyResponses, type SurveyQuestion } from '@/lib/validation';
+import { getHiddenQuestionIds } from '@/lib/branching';
+import { completeSurveyResponse, saveDraftResponse } from '@/lib/survey-progress';
+import { enforceRateLimit, RATE_LIMITS, releaseRateLimit } from '@/lib/rate-limiter';
+import { SurveyTimingSchema, toStoredTiming } from '@/lib/survey-timing';
 
 const SubmitSurveySchema = z.object({
-  email: z.string().email('Please enter a valid email address'),
+  email: z.string().email('Please enter a valid email address').optional(),
   surveyVersionId: z.number().int().positive(),
   responses: z.record(z.string(), z.unknown()),
-  completionTime: z.number().optional(),
+  timing: SurveyTimingSchema.optional(),
   partial: z.boolean().default(false),
   userAgent: z.string().optional(),
   deviceType: z.string().optional(),
 });
 
 export async function POST(request: NextRequest) {
+  // Set once the submission has been counted against the participant's hourly limit
+  let countedAccount: string | null = null;
+
   try {
     console.log('📤 Processing survey submission');
 
+    const session = await getSurveySessionFromRequest(request);
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Survey session required' },
+        { status: 401 }
+      );
+    }
+
     // Parse and validate request body
     const body = await request.json();
     const validation = SubmitSurveySchema.safeParse(body);
@@ -36,14 +57,23 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { email, surveyVersionId, responses, completionTime, partial, userAgent, deviceType } = validation.data;
+    const { surveyVersionId, responses, timing, partial, userAgent, deviceType } = validation.data;
+    const email: string = session.email;
+
+    if (validation.data.email && validation.data.email.toLowerCase() !== email.toLowerCase()) {
+      console.log('❌ Submission email does not match session:', email.replace(/(.{2}).*(@.*)/, '$1***$2'));
+      return NextResponse.json(
+        { error: 'Email does not match your survey session' },
+        { status: 403 }
+      );
+    }
 
     // ✅ CRITICAL: Check production mode and site admin restrictions
     const access = await canAccessSurvey(email);
     if (!access.allowed) {
       console.log('❌ Survey access blocked:', email.replace(/(.{2}).*(@.*)/, '$1***$2'), '-', access.reason);
       return NextResponse.json(
-        { error: access.reason },
+        { error: access.reason, blocked: access.blocked },
         { status: 403 }
       );
     }
@@ -78,7 +108,15 @@ export async function POST(request: NextRequest) {
 
     // Check if user is allowed to resubmit
     const allowResubmission = request.headers.get('x-allow-resubmission') === 'true';
-    
+
+    // A completed participant can't start a new draft either - same as the progress route
+    if (user.hasTaken && partial && !allowResubmission) {
+      return NextResponse.json(
+        { error: 'Survey already completed', alreadyCompleted: true, redirectTo: '/survey/already-completed' },
+        { status: 403 }
+      );
+    }
+
     if (user.hasTaken && !partial && !allowResubmission) {
       console.log('ℹ️ User has already completed survey:', email.replace(/(.{2}).*(@.*)/, '$1***$2'));
       
@@ -114,6 +152,7 @@ export async function POST(request: NextRequest) {
       select: {
         id: true,
         group: true,
+        status: true,
         questions: true,
       },
     });
@@ -134,48 +173,79 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (surveyVersion.status !== VERSION_STATUS.PUBLISHED) {
+      console.log('❌ Survey version not accepting responses:', surveyVersionId, surveyVersion.status);
+      return NextResponse.json(
+        { error: 'This survey version is no longer accepting responses. Please reload the survey.' },
+        { status: 409 }
+      );
+    }
+
+    // Evaluate branching server-side - answers to hidden questions are dropped and
+    // required questions the participant never saw are not reported as missing
+    const questions = Array.isArray(surveyVersion.questions)
+      ? (surveyVersion.questions as unknown as SurveyQuestion[])
+      : [];
+    const hiddenQuestionIds = new Set(getHiddenQuestionIds(questions, responses));
+    const visibleResponses = Object.fromEntries(
+      Object.entries(responses).filter(([questionId]) => !hiddenQuestionIds.has(questionId))
+    );
+
+    if (!partial) {
+      const responseValidation = validateSurveyResponses(visibleResponses, questions);
+
+      if (!responseValidation.valid) {
+        console.log('❌ Response validation failed:', responseValidation.errors);
+        return NextResponse.json(
+          { error: 'Some answers are missing or invalid', details: responseValidation.errors },
+          { status: 400 }
+        );
+      }
+
+      // Only final submissions count - drafts are saved as the participant goes
+      const limited = await enforceRateLimit(request, RATE_LIMITS.SURVEY_SUBMIT, { account: `participant:${email}` });
+      if (limited) {
+        return limited;
+      }
+      countedAccount = `participant:${email}`;
+    }
+
     // Get client IP and user agent for metadata
     const clientIP = request.headers.get('x-forwarded-for') || 
                     request.headers.get('x-real-ip') || 
                     'unknown';
     const clientUserAgent = userAgent || request.headers.get('user-agent') || 'unknown';
 
-    // Hash email for anonymization
-    const emailHash = hashEmail(email);
+    const responseData = {
+      email: email,
+      group: user.group,
+      versionId: surveyVersionId,
+      responses: visibleResponses,
+      userAgent: clientUserAgent,
+      deviceType: deviceType || 'unknown',
+      ipAddressHash: hashEmail(clientIP),
+    };
 
-    // Always create a new response (keep historical data)
-    // Count existing responses for version tracking
-    const existingResponseCount = await prisma.surveyResponse.count({
-      where: { email: email },
-    });
+    let surveyResponse;
 
-    const submissionVersion = existingResponseCount + 1;
-    
-    // Create new response (preserving all historical data)
-    const surveyResponse = await prisma.surveyResponse.create({
-      data: {
-        email: email,
-        group: user.group,
-        versionId: surveyVersionId,
-        responses: {
-          ...responses,
-          _submissionVersion: submissionVersion, // Track which submission this is
-          _isResubmission: submissionVersion > 1,
-          _previousSubmissions: existingResponseCount,
-        },
-        completionTime: completionTime,
-        partial: partial,
-        userAgent: clientUserAgent,
-        deviceType: deviceType || 'unknown',
-        ipAddressHash: hashEmail(clientIP),
-        submittedAt: new Date(),
-      },
-    });
-    
-    console.log(`✅ Created survey response #${submissionVersion} for user`);
-    
-    if (submissionVersion > 1) {
-      console.log(`📝 This is resubmission #${submissionVersion} - historical data preserved`);
+    if (partial) {
+      // Partial saves update the participant's single draft row
+      surveyResponse = await saveDraftResponse(responseData);
+      console.log('💾 Saved survey draft for user');
+    } else {
+      // Promote the draft (if any) to a complete submission - earlier complete
+      // submissions are never touched, so historical data is preserved
+      const shownQuestionIds = questions.map(q => q.id).filter(id => !hiddenQuestionIds.has(id));
+      surveyResponse = await completeSurveyResponse({
+        ...responseData,
+        timing: timing ? toStoredTiming(timing, shownQuestionIds, new Date()) : null,
+      });
+
+      console.log(`✅ Created survey response #${surveyResponse.submissionNumber} for user`);
+
+      if (surveyResponse.isResubmission) {
+        console.log(`📝 This is resubmission #${surveyResponse.submissionNumber} - historical data preserved`);
+      }
     }
 
     // Update user's hasTaken status if this is a complete submission
@@ -189,7 +259,8 @@ export async function POST(request: NextRequest) {
     console.log('✅ Survey submission successful:', {
       group: user.group,
       responseId: surveyResponse.id,
-      questionsAnswered: Object.keys(responses).length,
+      questionsAnswered: Object.keys(visibleResponses).length,
+      questionsHidden: hiddenQuestionIds.size,
       partial: partial,
     });
 
@@ -197,12 +268,17 @@ export async function POST(request: NextRequest) {
       success: true,
       message: partial ? 'Survey progress saved' : 'Survey submitted successfully',
       responseId: surveyResponse.id,
-      questionsAnswered: Object.keys(responses).length,
-      totalQuestions: Array.isArray(surveyVersion.questions) ? surveyVersion.questions.length : 0,
+      questionsAnswered: Object.keys(visibleResponses).length,
+      totalQuestions: questions.length - hiddenQuestionIds.size,
     });
 
   } catch (error) {
     console.error('❌ Survey submission error:', error);
+
+    // A submission that was never stored must not lock the participant out for an hour
+    if (countedAccount) {
+      await releaseRateLimit(request, RATE_LIMITS.SURVEY_SUBMIT, { account: countedAccount });
+    }
     console.error('❌ Error details:', {
       message: error instanceof Error ? error.message : 'Unknown error',
       stack: error instanceof Error ? error.stack : 'No stack trace',
@@ -1,34 +1,41 @@
 /**
  * Survey Version API Endpoint
+ * Returns the published version for the signed-in participant's group. Identity
+ * comes only from the survey session cookie.
+ * @rule 012 "API security using the survey session"
  * @rule 060 "API standards for survey data retrieval"
  * @rule 130 "Error handling for survey loading"
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { z } from 'zod';
 import { prisma } from '@/lib/prisma';
-import { getSessionFromRequest } from '@/lib/auth';
+import { getSurveySessionFromRequest } from '@/lib/auth';
+import { getPublishedVersion } from '@/lib/survey-versions';
+import { canAccessSurvey } from '@/lib/production-mode';
 
-const GetVersionSchema = z.object({
-  email: z.string().email('Please enter a valid email address'),
-});
-
-export async function POST(request: NextRequest) {
+export async function GET(request: NextRequest) {
   try {
     console.log('📋 Fetching survey version');
 
-    // Parse request body
-    const body = await request.json();
-    const validation = GetVersionSchema.safeParse(body);
-
-    if (!validation.success) {
+    const session = await getSurveySessionFromRequest(request);
+    if (!session) {
       return NextResponse.json(
-        { error: 'Invalid request data' },
-        { status: 400 }
+        { error: 'Survey session required' },
+        { status: 401 }
       );
     }
 
-    const { email } = validation.data;
+    const email: string = session.email;
+
+    // ✅ CRITICAL: Blocked participants and site admins never get the questions
+    const access = await canAccessSurvey(email);
+    if (!access.allowed) {
+      console.log('❌ Survey access blocked:', email.replace(/(.{2}).*(@.*)/, '$1***$2'), '-', access.reason);
+      return NextResponse.json(
+        { error: access.reason, blocked: access.blocked },
+        { status: 403 }
+      );
+    }
 
     // Get user info to determine group
     const user = await prisma.invitedUser.findUnique({
@@ -38,6 +45,7 @@ export async function POST(request: NextRequest) {
         group: true,
         consented: true,
         hasTaken: true,
+        surveyStartedAt: true,
       },
     });
 
@@ -57,24 +65,11 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Get active survey version for user's group
-    const surveyVersion = await prisma.surveyVersion.findFirst({
-      where: {
-        group: user.group,
-        isActive: true,
-      },
-      select: {
-        id: true,
-        version: true,
-        group: true,
-        questions: true,
-        description: true,
-        createdAt: true,
-      },
-    });
+    // Get the published survey version for user's group
+    const surveyVersion = await getPublishedVersion(user.group);
 
     if (!surveyVersion) {
-      console.log('❌ No active survey version for group:', user.group);
+      console.log('❌ No published survey version for group:', user.group);
       return NextResponse.json(
         { error: 'No survey available for your group' },
         { status: 404 }
@@ -83,7 +78,16 @@ export async function POST(request: NextRequest) {
 
     console.log('✅ Survey version found for group:', user.group);
 
+    // First load of the questions marks the participant as started (funnel metrics)
+    if (!user.surveyStartedAt) {
+      await prisma.invitedUser.update({
+        where: { email },
+        data: { surveyStartedAt: new Date() },
+      });
+    }
+
     return NextResponse.json({
+      email: user.email,
       id: surveyVersion.id,
       version: surveyVersion.version,
       group: surveyVersion.group,
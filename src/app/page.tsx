@@ -18,6 +18,7 @@ import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Loader2, Mail, Shield } from "lucide-react";
 import Link from 'next/link';
+import { getBlockedPageUrl } from '@/lib/survey-access';
 
 export default function Home() {
   const [step, setStep] = useState<'email' | 'otp'>('email');
@@ -72,6 +73,12 @@ export default function Home() {
 
       const data = await response.json();
 
+      if (data.blocked) {
+        console.log('🚫 Participant is blocked, redirecting...');
+        window.location.href = getBlockedPageUrl(email, data.blocked);
+        return;
+      }
+
       if (!response.ok) {
         throw new Error(data.error || 'Failed to send access code');
       }
@@ -108,14 +115,20 @@ export default function Home() {
 
       const data = await response.json();
 
+      if (data.blocked) {
+        console.log('🚫 Participant is blocked, redirecting...');
+        window.location.href = getBlockedPageUrl(email, data.blocked);
+        return;
+      }
+
       if (!response.ok) {
         throw new Error(data.error || 'Invalid access code');
       }
 
       console.log('✅ OTP verification successful');
       
-      // Redirect to survey
-      router.push(`/survey/${btoa(email)}`); // Simple token for now
+      // Redirect to the participant's signed survey URL
+      router.push(data.surveyPath);
 
     } catch (error) {
       console.error('❌ OTP verification failed:', error);
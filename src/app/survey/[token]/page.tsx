@@ -6,7 +6,7 @@
 
 'use client';
 
-import { useState, useEffect, use } from 'react';
+import { useState, useEffect, useRef, use } from 'react';
 import { useRouter } from 'next/navigation';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -15,7 +15,19 @@ import { Label } from '@/components/ui/label';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Progress } from '@/components/ui/progress';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { Loader2, ChevronLeft, ChevronRight } from 'lucide-react';
+import { Loader2, ChevronLeft, ChevronRight, Save } from 'lucide-react';
+import { getBlockedPageUrl } from '@/lib/survey-access';
+import { getVisibleQuestions } from '@/lib/branching';
+import { validateQuestionResponse } from '@/lib/validation';
+import {
+  startTiming,
+  recordActivity,
+  enterQuestion,
+  recordHidden,
+  recordVisible,
+  summarizeTiming,
+  type TimingState,
+} from '@/lib/survey-timing';
 
 interface Question {
   id: string;
@@ -28,7 +40,7 @@ interface Question {
     minLength?: number;
     maxLength?: number;
   };
-  branching?: any;
+  branching?: unknown;
 }
 
 interface SurveyVersion {
@@ -39,6 +51,42 @@ interface SurveyVersion {
   description: string;
 }
 
+interface SurveyDraft {
+  versionId: number;
+  responses: Record<string, string>;
+  lastQuestionId: string | null;
+  savedAt: string;
+}
+
+type SaveStatus = 'idle' | 'saving' | 'saved' | 'error';
+
+const AUTOSAVE_DELAY_MS = 1500;
+
+const ACTIVITY_EVENTS = ['keydown', 'pointerdown', 'input', 'scroll'] as const;
+
+const timingStorageKey = (versionId: number) => `survey-timing-${versionId}`;
+
+// Timing survives a reload in the same tab; the time the page was away counts as idle
+function loadTiming(versionId: number, now: number): TimingState {
+  try {
+    const stored = sessionStorage.getItem(timingStorageKey(versionId));
+    if (stored) {
+      return recordVisible(JSON.parse(stored) as TimingState, now);
+    }
+  } catch {
+    // Unreadable or blocked storage - start timing afresh
+  }
+  return startTiming(now);
+}
+
+function storeTiming(versionId: number, state: TimingState) {
+  try {
+    sessionStorage.setItem(timingStorageKey(versionId), JSON.stringify(state));
+  } catch {
+    // Timing is best effort and must never interrupt the survey
+  }
+}
+
 export default function SurveyPage({ params }: { params: Promise<{ token: string }> }) {
   const resolvedParams = use(params);
   const [surveyVersion, setSurveyVersion] = useState<SurveyVersion | null>(null);
@@ -46,45 +94,183 @@ export default function SurveyPage({ params }: { params: Promise<{ token: string
   const [responses, setResponses] = useState<Record<string, string>>({});
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState('');
+  const [questionError, setQuestionError] = useState<string | null>(null);
   const [email, setEmail] = useState('');
+  const [saveStatus, setSaveStatus] = useState<SaveStatus>('idle');
+  const [lastSavedAt, setLastSavedAt] = useState<Date | null>(null);
+  const progressReady = useRef(false);
+  const autosaveTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const timing = useRef<TimingState | null>(null);
   const router = useRouter();
+  const versionId = surveyVersion?.id;
 
   useEffect(() => {
     loadSurveyFromDatabase();
   }, [resolvedParams.token]);
 
-  const loadSurveyFromDatabase = async () => {
+  // Autosave answers and position once the participant pauses
+  useEffect(() => {
+    if (!surveyVersion || !progressReady.current || Object.keys(responses).length === 0) {
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      autosaveTimer.current = null;
+      if (!progressReady.current) {
+        return;
+      }
+      const visible = getVisibleQuestions(surveyVersion.questions, responses);
+      const position = visible[Math.min(currentQuestion, visible.length - 1)];
+      saveProgress(email, surveyVersion.id, responses, position?.id);
+    }, AUTOSAVE_DELAY_MS);
+    autosaveTimer.current = timer;
+
+    return () => clearTimeout(timer);
+  }, [responses, currentQuestion, surveyVersion, email]);
+
+  // Track active time per question and idle gaps while the survey is open
+  useEffect(() => {
+    if (versionId === undefined) {
+      return;
+    }
+
+    timing.current = loadTiming(versionId, Date.now());
+    storeTiming(versionId, timing.current);
+
+    const update = (next: (state: TimingState, now: number) => TimingState) => {
+      if (timing.current) {
+        timing.current = next(timing.current, Date.now());
+        storeTiming(versionId, timing.current);
+      }
+    };
+    const onActivity = () => update(recordActivity);
+    const onVisibilityChange = () => update(document.hidden ? recordHidden : recordVisible);
+
+    ACTIVITY_EVENTS.forEach(event => document.addEventListener(event, onActivity, { passive: true }));
+    document.addEventListener('visibilitychange', onVisibilityChange);
+
+    return () => {
+      ACTIVITY_EVENTS.forEach(event => document.removeEventListener(event, onActivity));
+      document.removeEventListener('visibilitychange', onVisibilityChange);
+    };
+  }, [versionId]);
+
+  useEffect(() => {
+    if (!surveyVersion || !timing.current) {
+      return;
+    }
+
+    const visible = getVisibleQuestions(surveyVersion.questions, responses);
+    const position = visible[Math.min(currentQuestion, visible.length - 1)];
+    if (position && position.id !== timing.current.currentQuestionId) {
+      timing.current = enterQuestion(timing.current, position.id, Date.now());
+      storeTiming(surveyVersion.id, timing.current);
+    }
+  }, [responses, currentQuestion, surveyVersion]);
+
+  const saveProgress = async (
+    participantEmail: string,
+    surveyVersionId: number,
+    answers: Record<string, string>,
+    lastQuestionId?: string
+  ) => {
     try {
-      console.log('📋 Loading survey from database');
+      setSaveStatus('saving');
 
-      // Safely decode email from token
-      let decodedEmail: string;
-      try {
-        // URL decode first in case the token was URL encoded
-        const urlDecoded = decodeURIComponent(resolvedParams.token);
-        // Then base64 decode
-        decodedEmail = atob(urlDecoded);
-      } catch (e) {
-        console.error('❌ Token decode error:', e);
-        throw new Error('Invalid access token format');
+      const response = await fetch('/api/survey/progress', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ surveyVersionId, responses: answers, lastQuestionId }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        if (errorData.blocked) {
+          window.location.href = getBlockedPageUrl(participantEmail, errorData.blocked);
+          return;
+        }
+        if (errorData.alreadyCompleted) {
+          // A save still in flight when this page submitted - the submission does the navigating
+          if (progressReady.current) {
+            window.location.href = errorData.redirectTo;
+          }
+          return;
+        }
+        throw new Error('Failed to save progress');
       }
-      
-      setEmail(decodedEmail);
-      console.log('📧 Loading survey for:', decodedEmail.replace(/(.{2}).*(@.*)/, '$1***$2'));
 
-      // Fetch survey version from database
+      const result = await response.json();
+      setLastSavedAt(result.savedAt ? new Date(result.savedAt) : new Date());
+      setSaveStatus('saved');
+    } catch (error) {
+      console.error('❌ Autosave failed:', error);
+      setSaveStatus('error');
+    }
+  };
+
+  const restoreProgress = async (version: SurveyVersion) => {
+    try {
+      const response = await fetch('/api/survey/progress', {
+        credentials: 'include',
+      });
+
+      if (!response.ok) {
+        // No survey session - the participant can still answer, just without autosave
+        console.log('ℹ️ Survey progress unavailable:', response.status);
+        return;
+      }
+
+      const { draft } = await response.json() as { draft: SurveyDraft | null };
+      if (!draft) {
+        return;
+      }
+
+      // Keep only answers to questions that still exist in the published version
+      const questionIds = new Set(version.questions.map(q => q.id));
+      const restored = Object.fromEntries(
+        Object.entries(draft.responses).filter(([questionId]) => questionIds.has(questionId))
+      );
+
+      const visible = getVisibleQuestions(version.questions, restored);
+      const resumeIndex = visible.findIndex(q => q.id === draft.lastQuestionId);
+
+      setResponses(restored);
+      setCurrentQuestion(resumeIndex >= 0 ? resumeIndex : 0);
+      setLastSavedAt(new Date(draft.savedAt));
+      setSaveStatus('saved');
+
+      console.log('📂 Restored', Object.keys(restored).length, 'saved answers');
+    } catch (error) {
+      console.error('❌ Failed to restore progress:', error);
+    } finally {
+      progressReady.current = true;
+    }
+  };
+
+  const loadSurveyFromDatabase = async () => {
+    try {
+      console.log('📋 Loading survey from database');
+
+      // The participant is identified by the survey session cookie - the URL token
+      // was already checked against it by the middleware
       const response = await fetch('/api/survey/version', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ email: decodedEmail }),
+        credentials: 'include',
       });
 
       if (!response.ok) {
         const errorData = await response.json();
+        if (errorData.blocked) {
+          router.replace(getBlockedPageUrl('', errorData.blocked));
+          return;
+        }
         throw new Error(errorData.error || 'Failed to load survey');
       }
 
       const surveyData = await response.json();
+      setEmail(surveyData.email);
+      console.log('📧 Loading survey for:', surveyData.email.replace(/(.{2}).*(@.*)/, '$1***$2'));
+      await restoreProgress(surveyData);
       setSurveyVersion(surveyData);
       
       console.log('✅ Survey loaded from database:', surveyData.group, 'with', surveyData.questions.length, 'questions');
@@ -125,20 +311,41 @@ export default function SurveyPage({ params }: { params: Promise<{ token: string
     );
   }
 
-  const question = surveyVersion.questions[currentQuestion];
-  const progress = ((currentQuestion + 1) / surveyVersion.questions.length) * 100;
+  // Branching rules only look at earlier answers, so questions before the
+  // current position never change when the current answer changes
+  const visibleQuestions = getVisibleQuestions(surveyVersion.questions, responses);
+  const questionIndex = Math.min(currentQuestion, visibleQuestions.length - 1);
+  const question = visibleQuestions[questionIndex];
+  const isLastQuestion = questionIndex === visibleQuestions.length - 1;
+  const progress = ((questionIndex + 1) / visibleQuestions.length) * 100;
+
+  const updateResponse = (value: string) => {
+    setQuestionError(null);
+    setResponses(prev => ({ ...prev, [question.id]: value }));
+  };
+
+  const validateCurrentQuestion = (): boolean => {
+    const validation = validateQuestionResponse(responses[question.id], question);
+    setQuestionError(validation.error);
+    return validation.valid;
+  };
 
   const handleNext = () => {
-    if (surveyVersion && currentQuestion < surveyVersion.questions.length - 1) {
-      setCurrentQuestion(prev => prev + 1);
-      console.log('➡️ Moving to question', currentQuestion + 2);
+    if (!validateCurrentQuestion()) {
+      return;
+    }
+
+    if (!isLastQuestion) {
+      setCurrentQuestion(questionIndex + 1);
+      console.log('➡️ Moving to question', questionIndex + 2);
     }
   };
 
   const handleBack = () => {
-    if (currentQuestion > 0) {
-      setCurrentQuestion(prev => prev - 1);
-      console.log('⬅️ Moving to question', currentQuestion);
+    if (questionIndex > 0) {
+      setQuestionError(null);
+      setCurrentQuestion(questionIndex - 1);
+      console.log('⬅️ Moving to question', questionIndex);
     }
   };
 
@@ -150,8 +357,23 @@ export default function SurveyPage({ params }: { params: Promise<{ token: string
         throw new Error('Missing survey data');
       }
 
-      // Calculate completion time (mock for now)
-      const completionTime = Math.floor(Math.random() * 300) + 120; // 2-7 minutes
+      if (!validateCurrentQuestion()) {
+        return;
+      }
+
+      // Stop autosaving so a pending save can't recreate the draft after submission
+      progressReady.current = false;
+      if (autosaveTimer.current) {
+        clearTimeout(autosaveTimer.current);
+        autosaveTimer.current = null;
+      }
+
+      // Only submit answers to questions the participant was actually shown
+      const visibleResponses = Object.fromEntries(
+        visibleQuestions
+          .filter(q => responses[q.id] !== undefined)
+          .map(q => [q.id, responses[q.id]])
+      );
 
       // Detect device type
       const userAgent = navigator.userAgent;
@@ -163,10 +385,9 @@ export default function SurveyPage({ params }: { params: Promise<{ token: string
       }
 
       const submissionData = {
-        email: email,
         surveyVersionId: surveyVersion.id,
-        responses: responses,
-        completionTime: completionTime,
+        responses: visibleResponses,
+        timing: timing.current ? summarizeTiming(timing.current, Date.now()) : undefined,
         partial: false,
         userAgent: userAgent,
         deviceType: deviceType,
@@ -174,24 +395,36 @@ export default function SurveyPage({ params }: { params: Promise<{ token: string
 
       console.log('📤 Submitting to database:', {
         email: email.replace(/(.{2}).*(@.*)/, '$1***$2'),
-        questionsAnswered: Object.keys(responses).length,
-        totalQuestions: surveyVersion.questions.length,
+        questionsAnswered: Object.keys(visibleResponses).length,
+        totalQuestions: visibleQuestions.length,
       });
 
       const response = await fetch('/api/survey/submit', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
         body: JSON.stringify(submissionData),
       });
 
       if (!response.ok) {
         const errorData = await response.json();
+        if (errorData.blocked) {
+          router.replace(getBlockedPageUrl(email, errorData.blocked));
+          return;
+        }
         throw new Error(errorData.error || 'Submission failed');
       }
 
       const result = await response.json();
       console.log('✅ Survey submitted successfully:', result);
 
+      timing.current = null;
+      try {
+        sessionStorage.removeItem(timingStorageKey(surveyVersion.id));
+      } catch {
+        // Nothing stored to clear
+      }
+
       // Show success message with details
       alert(`🎉 Survey Submitted Successfully!\n\nGroup: ${surveyVersion.group}\nQuestions Answered: ${result.questionsAnswered}/${result.totalQuestions}\nResponse ID: ${result.responseId}\n\nThank you for participating in the "No Concept Left Behind" research!`);
       
@@ -199,6 +432,7 @@ export default function SurveyPage({ params }: { params: Promise<{ token: string
       
     } catch (error) {
       console.error('❌ Submission failed:', error);
+      progressReady.current = true;
       setError(error instanceof Error ? error.message : 'Failed to submit survey');
     }
   };
@@ -211,10 +445,18 @@ export default function SurveyPage({ params }: { params: Promise<{ token: string
           <CardContent className="pt-6">
             <div className="space-y-2">
               <div className="flex justify-between text-sm text-muted-foreground">
-                <span>Question {currentQuestion + 1} of {surveyVersion.questions.length}</span>
+                <span>Question {questionIndex + 1} of {visibleQuestions.length}</span>
                 <span>{Math.round(progress)}% complete</span>
               </div>
               <Progress value={progress} className="h-2" />
+              {saveStatus !== 'idle' && (
+                <p className="flex items-center text-xs text-muted-foreground" aria-live="polite">
+                  <Save className="h-3 w-3 mr-1" />
+                  {saveStatus === 'saving' && 'Saving progress...'}
+                  {saveStatus === 'saved' && lastSavedAt && `Progress saved at ${lastSavedAt.toLocaleTimeString()} - you can return later to finish`}
+                  {saveStatus === 'error' && 'Progress could not be saved. Your answers are kept on this page.'}
+                </p>
+              )}
             </div>
           </CardContent>
         </Card>
@@ -222,7 +464,7 @@ export default function SurveyPage({ params }: { params: Promise<{ token: string
         {/* Question */}
         <Card>
           <CardHeader>
-            <CardTitle>Question {currentQuestion + 1}</CardTitle>
+            <CardTitle>Question {questionIndex + 1}</CardTitle>
           </CardHeader>
           <CardContent className="space-y-6">
             <div className="space-y-4">
@@ -234,7 +476,7 @@ export default function SurveyPage({ params }: { params: Promise<{ token: string
                 <Textarea
                   placeholder={question.placeholder}
                   value={responses[question.id] || ''}
-                  onChange={(e) => setResponses(prev => ({ ...prev, [question.id]: e.target.value }))}
+                  onChange={(e) => updateResponse(e.target.value)}
                   className="min-h-[150px]"
                 />
               )}
@@ -242,7 +484,7 @@ export default function SurveyPage({ params }: { params: Promise<{ token: string
               {question.type === 'multiple_choice' && question.options && (
                 <RadioGroup 
                   value={responses[question.id] || ''} 
-                  onValueChange={(value) => setResponses(prev => ({ ...prev, [question.id]: value }))}
+                  onValueChange={updateResponse}
                 >
                   {question.options.map((option, index) => (
                     <div key={option} className="flex items-center space-x-2">
@@ -268,6 +510,12 @@ export default function SurveyPage({ params }: { params: Promise<{ token: string
                   </span>
                 </div>
               )}
+
+              {questionError && (
+                <p className="text-sm text-destructive" role="alert">
+                  {questionError}
+                </p>
+              )}
             </div>
 
             {/* Navigation */}
@@ -275,12 +523,12 @@ export default function SurveyPage({ params }: { params: Promise<{ token: string
               <Button
                 variant="outline"
                 onClick={handleBack}
-                disabled={currentQuestion === 0}
+                disabled={questionIndex === 0}
               >
                 Back
               </Button>
 
-              {currentQuestion === surveyVersion.questions.length - 1 ? (
+              {isLastQuestion ? (
                 <Button 
                   onClick={handleSubmit}
                   disabled={question.required && !responses[question.id]}
@@ -305,7 +553,7 @@ export default function SurveyPage({ params }: { params: Promise<{ token: string
           <CardContent className="pt-6 text-center text-sm text-muted-foreground">
             <p>Survey: {surveyVersion.version}</p>
             <p>Group: {surveyVersion.group}</p>
-            <p>Questions: {surveyVersion.questions.length}</p>
+            <p>Questions: {visibleQuestions.length}</p>
           </CardContent>
         </Card>
       </div>
@@ -18,6 +18,7 @@ export default function SurveyBlockedPage() {
   const email = searchParams.get('email') || '';
   const group = searchParams.get('group') || 'Participant';
   const blockedAt = searchParams.get('blockedAt');
+  const reason = searchParams.get('reason');
 
   const maskEmail = (email: string) => {
     if (!email) return 'Participant';
@@ -65,7 +66,9 @@ export default function SurveyBlockedPage() {
             <AlertDescription className="text-left">
               <strong>Access to this survey has been restricted for your account.</strong>
               <br />
-              This may be due to administrative requirements or survey completion policies.
+              {reason
+                ? <>Reason given by the research team: {reason}</>
+                : 'This may be due to administrative requirements or survey completion policies.'}
             </AlertDescription>
           </Alert>
 
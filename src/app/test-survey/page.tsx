@@ -10,21 +10,12 @@ import { Button } from '@/components/ui/button';
 import Link from 'next/link';
 
 export default function TestSurveyPage() {
-  // Create safe base64 tokens
-  const createToken = (email: string) => {
-    try {
-      return btoa(email);
-    } catch (e) {
-      console.error('Token creation error:', e);
-      return encodeURIComponent(email);
-    }
-  };
-
+  // Survey URLs are signed per participant, so testing goes through the normal sign-in
   const testUsers = [
-    { email: 'teacher@example.com', group: 'Teachers', token: createToken('teacher@example.com') },
-    { email: 'student@example.com', group: 'Students', token: createToken('student@example.com') },
-    { email: 'admin_survey@example.com', group: 'Administrators', token: createToken('admin_survey@example.com') },
-    { email: 'it@example.com', group: 'IT_Admins', token: createToken('it@example.com') },
+    { email: 'teacher@example.com', group: 'Teachers' },
+    { email: 'student@example.com', group: 'Students' },
+    { email: 'admin_survey@example.com', group: 'Administrators' },
+    { email: 'it@example.com', group: 'IT_Admins' },
   ];
 
   return (
@@ -36,7 +27,7 @@ export default function TestSurveyPage() {
           </CardHeader>
           <CardContent>
             <p className="text-muted-foreground mb-6">
-              Direct links to test surveys for each stakeholder group:
+              Test accounts for each stakeholder group. Sign in with the email below - in development the access code is shown on screen:
             </p>
             
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -49,9 +40,9 @@ export default function TestSurveyPage() {
                     <p className="text-sm text-muted-foreground">
                       Email: <code className="bg-muted px-1 rounded">{user.email}</code>
                     </p>
-                    <Link href={`/survey/${user.token}`}>
+                    <Link href="/">
                       <Button className="w-full">
-                        Test {user.group} Survey
+                        Sign In as {user.group}
                       </Button>
                     </Link>
                   </CardContent>
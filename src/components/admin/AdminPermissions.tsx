@@ -0,0 +1,77 @@
+/**
+ * Admin Permissions Context
+ * Loaded once by the admin layout; pages use it to hide actions the current
+ * role can't perform. Nothing is allowed until the profile has loaded.
+ * @rule 042 "UI component architecture with proper composition"
+ * @rule 012 "API security for access control"
+ */
+
+'use client';
+
+import { createContext, useContext, useEffect, useState } from 'react';
+import type { AdminRole, Permission } from '@/lib/permissions';
+
+export interface AdminProfile {
+  id: number;
+  email: string;
+  name: string;
+  role: AdminRole;
+  mustChangePassword: boolean;
+}
+
+interface AdminPermissionsValue {
+  user: AdminProfile | null;
+  permissions: Permission[];
+  isLoading: boolean;
+  can: (permission: Permission) => boolean;
+}
+
+const AdminPermissionsContext = createContext<AdminPermissionsValue>({
+  user: null,
+  permissions: [],
+  isLoading: true,
+  can: () => false,
+});
+
+export function AdminPermissionsProvider({ children }: { children: React.ReactNode }) {
+  const [user, setUser] = useState<AdminProfile | null>(null);
+  const [permissions, setPermissions] = useState<Permission[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const loadProfile = async () => {
+      try {
+        const response = await fetch('/api/admin/me', {
+          credentials: 'include',
+        });
+
+        // Not signed in (e.g. on the login page) - leave everything hidden
+        if (!response.ok) {
+          return;
+        }
+
+        const data = await response.json();
+        setUser(data.user);
+        setPermissions(data.permissions);
+      } catch (error) {
+        console.error('❌ Failed to load admin permissions:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadProfile();
+  }, []);
+
+  const can = (permission: Permission) => permissions.includes(permission);
+
+  return (
+    <AdminPermissionsContext.Provider value={{ user, permissions, isLoading, can }}>
+      {children}
+    </AdminPermissionsContext.Provider>
+  );
+}
+
+export function useAdminPermissions() {
+  return useContext(AdminPermissionsContext);
+}
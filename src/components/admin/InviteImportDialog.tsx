@@ -0,0 +1,191 @@
+/**
+ * Bulk Invite Import Dialog
+ * Uploads a CSV/XLSX file, shows the row-by-row report, then commits on confirmation
+ * @rule 042 "UI component architecture with proper composition"
+ * @rule 054 "Accessibility requirements for form elements"
+ * @rule 130 "Error handling for bulk operations"
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Upload, Loader2 } from 'lucide-react';
+import type { ImportReport, ImportRowStatus } from '@/lib/invite-import';
+
+interface InviteImportDialogProps {
+  onImported: () => void;
+}
+
+const STATUS_BADGES: Record<ImportRowStatus, { label: string; variant: 'default' | 'secondary' | 'destructive' | 'outline' }> = {
+  create: { label: 'Will create', variant: 'default' },
+  created: { label: 'Created', variant: 'default' },
+  skipped: { label: 'Skipped', variant: 'secondary' },
+  invalid: { label: 'Invalid', variant: 'destructive' },
+};
+
+export function InviteImportDialog({ onImported }: InviteImportDialogProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [file, setFile] = useState<File | null>(null);
+  const [report, setReport] = useState<(ImportReport & { committed: boolean }) | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState('');
+
+  const reset = () => {
+    setFile(null);
+    setReport(null);
+    setError('');
+  };
+
+  const submitFile = async (commit: boolean) => {
+    if (!file) {
+      setError('Choose a CSV or Excel file first');
+      return;
+    }
+
+    setIsWorking(true);
+    setError('');
+
+    try {
+      console.log(commit ? '📥 Importing invites from' : '🔍 Previewing invites from', file.name);
+
+      const formData = new FormData();
+      formData.append('file', file);
+      formData.append('commit', String(commit));
+
+      const response = await fetch('/api/admin/invites/import', {
+        method: 'POST',
+        credentials: 'include',
+        body: formData,
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to import invites');
+      }
+
+      setReport({ rows: data.rows, summary: data.summary, committed: data.committed });
+
+      if (data.committed) {
+        console.log('✅', data.message);
+        onImported();
+      }
+
+    } catch (error) {
+      console.error('❌ Invite import failed:', error);
+      setError(error instanceof Error ? error.message : 'Failed to import invites');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => { setIsOpen(open); if (!open) reset(); }}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <Upload className="h-4 w-4 mr-2" />
+          Import
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Import Invites</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="invite-import-file">CSV or Excel file</Label>
+            <Input
+              id="invite-import-file"
+              type="file"
+              accept=".csv,.xlsx"
+              onChange={(e) => {
+                setFile(e.target.files?.[0] || null);
+                setReport(null);
+              }}
+              disabled={isWorking}
+            />
+            <p className="text-sm text-muted-foreground">
+              The first row must have <span className="font-mono">email</span> and <span className="font-mono">group</span> columns.
+              Groups: Teachers, Students, Administrators, IT_Admins.
+            </p>
+          </div>
+
+          {report && (
+            <>
+              <div className="flex flex-wrap gap-2" aria-live="polite">
+                {report.committed ? (
+                  <Badge>{report.summary.created} created</Badge>
+                ) : (
+                  <Badge>{report.summary.create} to create</Badge>
+                )}
+                <Badge variant="secondary">{report.summary.skipped} skipped</Badge>
+                <Badge variant="destructive">{report.summary.invalid} invalid</Badge>
+              </div>
+
+              <div className="max-h-80 overflow-y-auto border rounded-md">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Row</TableHead>
+                      <TableHead>Email</TableHead>
+                      <TableHead>Group</TableHead>
+                      <TableHead>Result</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.rows.map((row) => (
+                      <TableRow key={row.row}>
+                        <TableCell>{row.row}</TableCell>
+                        <TableCell className="font-medium">{row.email || '—'}</TableCell>
+                        <TableCell>{row.group || '—'}</TableCell>
+                        <TableCell>
+                          <div className="flex items-center space-x-2">
+                            <Badge variant={STATUS_BADGES[row.status].variant}>{STATUS_BADGES[row.status].label}</Badge>
+                            {row.reason && <span className="text-xs text-muted-foreground">{row.reason}</span>}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </>
+          )}
+
+          <div className="flex justify-end space-x-2">
+            <Button type="button" variant="outline" onClick={() => setIsOpen(false)} disabled={isWorking}>
+              {report?.committed ? 'Close' : 'Cancel'}
+            </Button>
+            {!report?.committed && (
+              report ? (
+                <Button onClick={() => submitFile(true)} disabled={isWorking || report.summary.create === 0}>
+                  {isWorking && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Import {report.summary.create} Invite{report.summary.create === 1 ? '' : 's'}
+                </Button>
+              ) : (
+                <Button onClick={() => submitFile(false)} disabled={isWorking || !file}>
+                  {isWorking && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Preview
+                </Button>
+              )
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,192 @@
+/**
+ * Participation Funnel Panel
+ * Distinct participants at each step from invitation to completion, per group,
+ * with a trend chart and the questions where unfinished drafts stopped
+ * @rule 042 "UI component architecture with proper composition"
+ * @rule 054 "Accessibility requirements for dashboard"
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2 } from 'lucide-react';
+import type { GroupFunnel, QuestionDropOff, TrendBucket, TrendPoint } from '@/lib/funnel';
+
+interface FunnelData {
+  excludedTestAccounts: boolean;
+  funnels: GroupFunnel[];
+  trend: { bucket: TrendBucket; from: string; to: string; points: TrendPoint[] };
+  dropOff: Array<{ versionId: number; version: string; group: string; abandoned: number; questions: QuestionDropOff[] }>;
+}
+
+const groupLabel = (group: string) => group === 'all' ? 'All groups' : group.replace('_', ' ');
+
+export function ParticipationFunnel() {
+  const [data, setData] = useState<FunnelData | null>(null);
+  const [selectedGroup, setSelectedGroup] = useState('all');
+  const [bucket, setBucket] = useState<TrendBucket>('day');
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadFunnel(bucket);
+  }, [bucket]);
+
+  const loadFunnel = async (trendBucket: TrendBucket) => {
+    setIsLoading(true);
+    setError('');
+
+    try {
+      console.log('🪜 Loading participation funnel');
+
+      const response = await fetch(`/api/admin/funnel?bucket=${trendBucket}`, {
+        credentials: 'include',
+      });
+
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to load participation funnel');
+      }
+
+      setData(result);
+      console.log('✅ Participation funnel loaded');
+
+    } catch (error) {
+      console.error('❌ Failed to load participation funnel:', error);
+      setError(error instanceof Error ? error.message : 'Failed to load participation funnel');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const funnel = data?.funnels.find(entry => entry.group === selectedGroup) || data?.funnels[0];
+  const trendMax = Math.max(1, ...(data?.trend.points.map(point => Math.max(point.started, point.completed)) || []));
+  const dropOff = data?.dropOff.filter(entry => entry.abandoned > 0 && (selectedGroup === 'all' || entry.group === selectedGroup)) || [];
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div className="space-y-1.5">
+          <CardTitle>Participation Funnel</CardTitle>
+          <CardDescription>
+            Distinct participants who reached each step
+            {data?.excludedTestAccounts && ' - test accounts excluded in production mode'}
+          </CardDescription>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="funnel-group" className="text-xs">Group</Label>
+          <Select value={selectedGroup} onValueChange={setSelectedGroup}>
+            <SelectTrigger id="funnel-group" className="w-44"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {(data?.funnels || []).map(entry => (
+                <SelectItem key={entry.group} value={entry.group}>{groupLabel(entry.group)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-8">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {isLoading && !data ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : funnel && (
+          <>
+            {/* Funnel steps */}
+            <ol className="space-y-2" aria-label={`Participation funnel for ${groupLabel(funnel.group)}`}>
+              {funnel.steps.map((step, index) => (
+                <li key={step.stage} className="grid grid-cols-[11rem_1fr_9rem] items-center gap-3 text-sm">
+                  <span>{step.label}</span>
+                  <div className="h-5 rounded bg-muted overflow-hidden" aria-hidden="true">
+                    <div className="h-full bg-primary" style={{ width: `${step.percentOfInvited}%` }} />
+                  </div>
+                  <span className="text-right tabular-nums">
+                    {step.count} ({step.percentOfInvited}%)
+                    {index > 0 && step.dropOffRate > 0 && (
+                      <span className="block text-xs text-muted-foreground">-{step.dropOffRate}% from previous</span>
+                    )}
+                  </span>
+                </li>
+              ))}
+            </ol>
+
+            {/* Trend */}
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <h3 className="text-sm font-medium">Started and completed over time</h3>
+                <Select value={bucket} onValueChange={(value) => setBucket(value as TrendBucket)}>
+                  <SelectTrigger className="w-32" aria-label="Trend interval"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="day">Daily</SelectItem>
+                    <SelectItem value="week">Weekly</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex items-end gap-1 h-32" role="img" aria-label="Participants starting and completing the survey per period">
+                {data?.trend.points.map(point => (
+                  <div
+                    key={point.period}
+                    className="flex-1 flex items-end gap-px h-full"
+                    title={`${point.period}: ${point.invited} invited, ${point.started} started, ${point.completed} completed`}
+                  >
+                    <div className="flex-1 bg-primary/40" style={{ height: `${(point.started / trendMax) * 100}%` }} />
+                    <div className="flex-1 bg-primary" style={{ height: `${(point.completed / trendMax) * 100}%` }} />
+                  </div>
+                ))}
+              </div>
+              <div className="flex justify-between text-xs text-muted-foreground">
+                <span>{data?.trend.points[0]?.period}</span>
+                <span className="flex items-center gap-3">
+                  <span className="flex items-center gap-1"><span className="inline-block h-2 w-2 bg-primary/40" /> Started</span>
+                  <span className="flex items-center gap-1"><span className="inline-block h-2 w-2 bg-primary" /> Completed</span>
+                </span>
+                <span>{data?.trend.points[data.trend.points.length - 1]?.period}</span>
+              </div>
+            </div>
+
+            {/* Drop-off per question */}
+            {dropOff.map(entry => (
+              <div key={entry.versionId} className="space-y-2">
+                <h3 className="text-sm font-medium">
+                  Where unfinished surveys stopped &middot; {groupLabel(entry.group)} {entry.version} ({entry.abandoned} drafts)
+                </h3>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Question</TableHead>
+                      <TableHead className="text-right">Reached</TableHead>
+                      <TableHead className="text-right">Stopped here</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {entry.questions.map(question => (
+                      <TableRow key={question.questionId}>
+                        <TableCell>{question.number}. {question.text}</TableCell>
+                        <TableCell className="text-right tabular-nums">{question.reached}</TableCell>
+                        <TableCell className={`text-right tabular-nums ${question.stoppedHere > 0 ? 'font-medium' : 'text-muted-foreground'}`}>
+                          {question.stoppedHere}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            ))}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
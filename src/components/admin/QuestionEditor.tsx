@@ -0,0 +1,441 @@
+/**
+ * Survey Question List Editor
+ * @rule 042 "UI component architecture with proper composition"
+ * @rule 054 "Accessibility requirements for form elements"
+ */
+
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowUp, ArrowDown, Trash2, Plus } from 'lucide-react';
+import type { SurveyQuestion } from '@/lib/validation';
+import { getBranchingRule, BRANCH_OPERATORS, type BranchCondition, type BranchOperator, type BranchingRule } from '@/lib/branching';
+
+interface QuestionEditorProps {
+  questions: SurveyQuestion[];
+  onChange: (questions: SurveyQuestion[]) => void;
+  errors?: Record<number, string[]>;
+  disabled?: boolean;
+}
+
+const QUESTION_TYPE_LABELS: Record<SurveyQuestion['type'], string> = {
+  open_ended: 'Open ended',
+  multiple_choice: 'Multiple choice',
+  likert: 'Likert scale',
+};
+
+const BRANCH_OPERATOR_LABELS: Record<BranchOperator, string> = {
+  equals: 'equals',
+  not_equals: 'does not equal',
+  contains: 'contains any keyword',
+  any_of: 'is any of',
+  gte: 'is at least',
+  lte: 'is at most',
+  answered: 'is answered',
+};
+
+function createCondition(questionId: string, operator: BranchOperator): BranchCondition {
+  switch (operator) {
+    case 'contains':
+      return { questionId, operator, keywords: [] };
+    case 'any_of':
+      return { questionId, operator, values: [] };
+    case 'gte':
+    case 'lte':
+      return { questionId, operator, value: 0 };
+    case 'answered':
+      return { questionId, operator };
+    default:
+      return { questionId, operator, value: '' };
+  }
+}
+
+function parseList(value: string): string[] {
+  return value.split(',').map(item => item.trim()).filter(Boolean);
+}
+
+interface BranchingEditorProps {
+  index: number;
+  question: SurveyQuestion;
+  earlierQuestions: SurveyQuestion[];
+  onChange: (branching: SurveyQuestion['branching']) => void;
+  disabled: boolean;
+}
+
+/**
+ * Edits the show/skip rule of a single question
+ * Conditions may only reference earlier questions so the survey stays linear
+ */
+function BranchingEditor({ index, question, earlierQuestions, onChange, disabled }: BranchingEditorProps) {
+  const rule = getBranchingRule(question);
+
+  const updateRule = (patch: Partial<BranchingRule>) => {
+    if (!rule) return;
+    onChange({ ...rule, ...patch });
+  };
+
+  const updateCondition = (conditionIndex: number, condition: BranchCondition) => {
+    if (!rule) return;
+    updateRule({ conditions: rule.conditions.map((c, i) => (i === conditionIndex ? condition : c)) });
+  };
+
+  const addCondition = () => {
+    const source = earlierQuestions[earlierQuestions.length - 1];
+    const condition = createCondition(source.id, 'answered');
+    if (rule) {
+      updateRule({ conditions: [...rule.conditions, condition] });
+    } else {
+      onChange({ action: 'show', match: 'all', conditions: [condition] });
+    }
+  };
+
+  const removeCondition = (conditionIndex: number) => {
+    if (!rule) return;
+    const conditions = rule.conditions.filter((_, i) => i !== conditionIndex);
+    onChange(conditions.length > 0 ? { ...rule, conditions } : {});
+  };
+
+  if (earlierQuestions.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2 border-t pt-3">
+      <div className="flex items-center justify-between">
+        <Label>Branching</Label>
+        <Button type="button" variant="ghost" size="sm" onClick={addCondition} disabled={disabled}>
+          <Plus className="h-4 w-4 mr-1" />
+          Add Condition
+        </Button>
+      </div>
+
+      {!rule ? (
+        <p className="text-sm text-muted-foreground">Always shown</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 gap-3">
+            <Select
+              value={rule.action}
+              onValueChange={(value) => updateRule({ action: value as BranchingRule['action'] })}
+              disabled={disabled}
+            >
+              <SelectTrigger aria-label={`Question ${index + 1} branching action`}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="show">Only show when</SelectItem>
+                <SelectItem value="skip">Skip when</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select
+              value={rule.match}
+              onValueChange={(value) => updateRule({ match: value as BranchingRule['match'] })}
+              disabled={disabled}
+            >
+              <SelectTrigger aria-label={`Question ${index + 1} branching match`}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">all conditions match</SelectItem>
+                <SelectItem value="any">any condition matches</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {rule.conditions.map((condition, conditionIndex) => (
+            <div key={conditionIndex} className="grid grid-cols-1 md:grid-cols-[1fr_1fr_1fr_auto] gap-2 items-center">
+              <Select
+                value={condition.questionId}
+                onValueChange={(value) => updateCondition(conditionIndex, { ...condition, questionId: value })}
+                disabled={disabled}
+              >
+                <SelectTrigger aria-label="Condition question">
+                  <SelectValue placeholder="Question" />
+                </SelectTrigger>
+                <SelectContent>
+                  {earlierQuestions.map((earlier) => (
+                    <SelectItem key={earlier.id} value={earlier.id}>{earlier.id}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select
+                value={condition.operator}
+                onValueChange={(value) => updateCondition(conditionIndex, createCondition(condition.questionId, value as BranchOperator))}
+                disabled={disabled}
+              >
+                <SelectTrigger aria-label="Condition operator">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {BRANCH_OPERATORS.map((operator) => (
+                    <SelectItem key={operator} value={operator}>{BRANCH_OPERATOR_LABELS[operator]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {condition.operator === 'contains' && (
+                <Input
+                  aria-label="Keywords"
+                  placeholder="Comma-separated keywords"
+                  defaultValue={condition.keywords.join(', ')}
+                  onBlur={(e) => updateCondition(conditionIndex, { ...condition, keywords: parseList(e.target.value) })}
+                  disabled={disabled}
+                />
+              )}
+              {condition.operator === 'any_of' && (
+                <Input
+                  aria-label="Values"
+                  placeholder="Comma-separated values"
+                  defaultValue={condition.values.join(', ')}
+                  onBlur={(e) => updateCondition(conditionIndex, { ...condition, values: parseList(e.target.value) })}
+                  disabled={disabled}
+                />
+              )}
+              {(condition.operator === 'gte' || condition.operator === 'lte') && (
+                <Input
+                  aria-label="Value"
+                  type="number"
+                  value={condition.value}
+                  onChange={(e) => updateCondition(conditionIndex, { ...condition, value: Number(e.target.value) })}
+                  disabled={disabled}
+                />
+              )}
+              {(condition.operator === 'equals' || condition.operator === 'not_equals') && (
+                <Input
+                  aria-label="Value"
+                  value={condition.value}
+                  onChange={(e) => updateCondition(conditionIndex, { ...condition, value: e.target.value })}
+                  disabled={disabled}
+                />
+              )}
+              {condition.operator === 'answered' && <span />}
+              <Button type="button" variant="ghost" size="sm" onClick={() => removeCondition(conditionIndex)} disabled={disabled} title="Remove condition" className="text-destructive hover:text-destructive/90">
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </>
+      )}
+    </div>
+  );
+}
+
+export function createBlankQuestion(index: number): SurveyQuestion {
+  return {
+    id: `q${index + 1}`,
+    text: '',
+    type: 'open_ended',
+    required: true,
+    placeholder: '',
+    validation: { minLength: 30, maxLength: 1000 },
+  };
+}
+
+export function QuestionEditor({ questions, onChange, errors = {}, disabled = false }: QuestionEditorProps) {
+  const updateQuestion = (index: number, patch: Partial<SurveyQuestion>) => {
+    onChange(questions.map((question, i) => (i === index ? { ...question, ...patch } : question)));
+  };
+
+  const changeType = (index: number, type: SurveyQuestion['type']) => {
+    // Reset type-specific settings so stale values don't fail validation
+    const patch: Partial<SurveyQuestion> = { type };
+    if (type === 'multiple_choice') {
+      patch.options = questions[index].options?.length ? questions[index].options : ['', ''];
+      patch.validation = undefined;
+    } else if (type === 'likert') {
+      patch.options = undefined;
+      patch.validation = { min: 1, max: 5 };
+    } else {
+      patch.options = undefined;
+      patch.validation = { minLength: 30, maxLength: 1000 };
+    }
+    updateQuestion(index, patch);
+  };
+
+  const moveQuestion = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= questions.length) return;
+    const reordered = [...questions];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    onChange(reordered);
+  };
+
+  const removeQuestion = (index: number) => {
+    onChange(questions.filter((_, i) => i !== index));
+  };
+
+  const parseOptionalInt = (value: string) => (value === '' ? undefined : parseInt(value, 10));
+
+  return (
+    <div className="space-y-4">
+      {questions.map((question, index) => (
+        <div key={index} className="border rounded-lg p-4 space-y-3">
+          <div className="flex items-center justify-between">
+            <span className="text-sm font-medium">Question {index + 1}</span>
+            <div className="flex space-x-1">
+              <Button type="button" variant="ghost" size="sm" onClick={() => moveQuestion(index, -1)} disabled={disabled || index === 0} title="Move up">
+                <ArrowUp className="h-4 w-4" />
+              </Button>
+              <Button type="button" variant="ghost" size="sm" onClick={() => moveQuestion(index, 1)} disabled={disabled || index === questions.length - 1} title="Move down">
+                <ArrowDown className="h-4 w-4" />
+              </Button>
+              <Button type="button" variant="ghost" size="sm" onClick={() => removeQuestion(index)} disabled={disabled} title="Remove question" className="text-destructive hover:text-destructive/90">
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor={`question-${index}-id`}>Question ID</Label>
+              <Input
+                id={`question-${index}-id`}
+                value={question.id}
+                onChange={(e) => updateQuestion(index, { id: e.target.value })}
+                disabled={disabled}
+                className="font-mono"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Type</Label>
+              <Select
+                value={question.type}
+                onValueChange={(value) => changeType(index, value as SurveyQuestion['type'])}
+                disabled={disabled}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(QUESTION_TYPE_LABELS).map(([type, label]) => (
+                    <SelectItem key={type} value={type}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-end space-x-2 pb-2">
+              <Checkbox
+                id={`question-${index}-required`}
+                checked={question.required}
+                onCheckedChange={(checked) => updateQuestion(index, { required: checked === true })}
+                disabled={disabled}
+              />
+              <Label htmlFor={`question-${index}-required`}>Required</Label>
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor={`question-${index}-text`}>Question Text</Label>
+            <Textarea
+              id={`question-${index}-text`}
+              value={question.text}
+              onChange={(e) => updateQuestion(index, { text: e.target.value })}
+              disabled={disabled}
+            />
+          </div>
+
+          {question.type === 'open_ended' && (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              <div className="space-y-1 md:col-span-1">
+                <Label htmlFor={`question-${index}-placeholder`}>Placeholder</Label>
+                <Input
+                  id={`question-${index}-placeholder`}
+                  value={question.placeholder || ''}
+                  onChange={(e) => updateQuestion(index, { placeholder: e.target.value })}
+                  disabled={disabled}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor={`question-${index}-min-length`}>Min Length</Label>
+                <Input
+                  id={`question-${index}-min-length`}
+                  type="number"
+                  value={question.validation?.minLength ?? ''}
+                  onChange={(e) => updateQuestion(index, { validation: { ...question.validation, minLength: parseOptionalInt(e.target.value) } })}
+                  disabled={disabled}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor={`question-${index}-max-length`}>Max Length</Label>
+                <Input
+                  id={`question-${index}-max-length`}
+                  type="number"
+                  value={question.validation?.maxLength ?? ''}
+                  onChange={(e) => updateQuestion(index, { validation: { ...question.validation, maxLength: parseOptionalInt(e.target.value) } })}
+                  disabled={disabled}
+                />
+              </div>
+            </div>
+          )}
+
+          {question.type === 'multiple_choice' && (
+            <div className="space-y-1">
+              <Label htmlFor={`question-${index}-options`}>Options (one per line)</Label>
+              <Textarea
+                id={`question-${index}-options`}
+                value={(question.options || []).join('\n')}
+                onChange={(e) => updateQuestion(index, { options: e.target.value.split('\n') })}
+                disabled={disabled}
+              />
+            </div>
+          )}
+
+          {question.type === 'likert' && (
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor={`question-${index}-min`}>Scale Min</Label>
+                <Input
+                  id={`question-${index}-min`}
+                  type="number"
+                  value={question.validation?.min ?? ''}
+                  onChange={(e) => updateQuestion(index, { validation: { ...question.validation, min: parseOptionalInt(e.target.value) } })}
+                  disabled={disabled}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor={`question-${index}-max`}>Scale Max</Label>
+                <Input
+                  id={`question-${index}-max`}
+                  type="number"
+                  value={question.validation?.max ?? ''}
+                  onChange={(e) => updateQuestion(index, { validation: { ...question.validation, max: parseOptionalInt(e.target.value) } })}
+                  disabled={disabled}
+                />
+              </div>
+            </div>
+          )}
+
+          <BranchingEditor
+            index={index}
+            question={question}
+            earlierQuestions={questions.slice(0, index)}
+            onChange={(branching) => updateQuestion(index, { branching })}
+            disabled={disabled}
+          />
+
+          {errors[index] && errors[index].length > 0 && (
+            <ul className="text-sm text-destructive space-y-1" role="alert">
+              {errors[index].map((message) => (
+                <li key={message}>{message}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      ))}
+
+      <Button
+        type="button"
+        variant="outline"
+        onClick={() => onChange([...questions, createBlankQuestion(questions.length)])}
+        disabled={disabled}
+      >
+        <Plus className="h-4 w-4 mr-2" />
+        Add Question
+      </Button>
+    </div>
+  );
+}
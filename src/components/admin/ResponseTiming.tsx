@@ -0,0 +1,206 @@
+/**
+ * Response Timing Panel
+ * Completion and active time statistics, time spent per question and responses
+ * completed implausibly fast for the analytics filters in use
+ * @rule 042 "UI component architecture with proper composition"
+ * @rule 054 "Accessibility requirements for dashboard"
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Loader2, Timer } from 'lucide-react';
+import type { DurationSummary, QuestionTiming, Speeder } from '@/lib/timing-analytics';
+
+interface TimingData {
+  respondents: number;
+  timedResponses: number;
+  excludedTestAccounts: boolean;
+  completionTime: DurationSummary | null;
+  activeTime: DurationSummary | null;
+  idleTime: DurationSummary | null;
+  questions: QuestionTiming[];
+  speeders: Array<Speeder & { version: string }>;
+  speederRule: { medianRatio: number; minResponses: number };
+}
+
+const formatDuration = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  return minutes > 0 ? `${minutes} min ${seconds % 60} s` : `${seconds} s`;
+};
+
+function DurationRow({ label, summary }: { label: string; summary: DurationSummary | null }) {
+  return (
+    <TableRow>
+      <TableCell className="font-medium">{label}</TableCell>
+      {summary ? (
+        <>
+          <TableCell className="text-right tabular-nums">{formatDuration(summary.median)}</TableCell>
+          <TableCell className="text-right tabular-nums">{formatDuration(summary.mean)}</TableCell>
+          <TableCell className="text-right tabular-nums">{formatDuration(summary.p25)} – {formatDuration(summary.p75)}</TableCell>
+          <TableCell className="text-right tabular-nums">{formatDuration(summary.p90)}</TableCell>
+        </>
+      ) : (
+        <TableCell colSpan={4} className="text-muted-foreground">No timed responses</TableCell>
+      )}
+    </TableRow>
+  );
+}
+
+/**
+ * @param query - analytics filter parameters (group, versionId, from, to, submissions)
+ */
+export function ResponseTiming({ query }: { query: string }) {
+  const [data, setData] = useState<TimingData | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadTiming(query);
+  }, [query]);
+
+  const loadTiming = async (params: string) => {
+    setIsLoading(true);
+    setError('');
+
+    try {
+      console.log('⏱️ Loading response timing');
+
+      const response = await fetch(`/api/admin/timing?${params}`, {
+        credentials: 'include',
+      });
+
+      const result = await response.json();
+
+      if (!response.ok || !result.success) {
+        throw new Error(result.details?.[0]?.message || result.error || 'Failed to load response timing');
+      }
+
+      setData(result);
+      console.log('✅ Response timing loaded');
+
+    } catch (error) {
+      console.error('❌ Failed to load response timing:', error);
+      setError(error instanceof Error ? error.message : 'Failed to load response timing');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const questionMax = Math.max(1, ...(data?.questions.map(question => question.summary?.median || 0) || []));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Timer className="h-5 w-5" />
+          <span>Response Timing</span>
+        </CardTitle>
+        <CardDescription>
+          {data && <>{data.timedResponses} of {data.respondents} responses were timed. </>}
+          Active time excludes pauses over a minute and time spent in another tab.
+          {data?.excludedTestAccounts && ' Test accounts excluded in production mode.'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className={`space-y-8 ${isLoading && data ? 'opacity-60' : ''}`} aria-busy={isLoading}>
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {isLoading && !data ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : data && data.timedResponses > 0 && (
+          <>
+            {/* Overall durations */}
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead />
+                  <TableHead className="text-right">Median</TableHead>
+                  <TableHead className="text-right">Mean</TableHead>
+                  <TableHead className="text-right">Middle 50%</TableHead>
+                  <TableHead className="text-right">90th percentile</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                <DurationRow label="Completion time" summary={data.completionTime} />
+                <DurationRow label="Active time" summary={data.activeTime} />
+                <DurationRow label="Idle time" summary={data.idleTime} />
+              </TableBody>
+            </Table>
+
+            {/* Median time per question */}
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium">Median active time per question</h3>
+              <ol className="space-y-2">
+                {data.questions.map((question, index) => (
+                  <li key={question.questionId} className="grid grid-cols-[1fr_12rem_6rem] items-center gap-3 text-sm">
+                    <span className="truncate" title={question.text}>{index + 1}. {question.text}</span>
+                    <div className="h-4 rounded bg-muted overflow-hidden" aria-hidden="true">
+                      <div className="h-full bg-primary" style={{ width: `${((question.summary?.median || 0) / questionMax) * 100}%` }} />
+                    </div>
+                    <span className="text-right tabular-nums">
+                      {question.summary ? formatDuration(question.summary.median) : '-'}
+                    </span>
+                  </li>
+                ))}
+              </ol>
+            </div>
+
+            {/* Speeders */}
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium">Possible speeders</h3>
+              <p className="text-xs text-muted-foreground">
+                Answered in under {Math.round(data.speederRule.medianRatio * 100)}% of the median active time for their
+                survey version; responses without activity tracking are judged on completion time. Versions with fewer
+                than {data.speederRule.minResponses} timed responses are not checked.
+              </p>
+              {data.speeders.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No responses flagged.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Participant</TableHead>
+                      <TableHead>Group</TableHead>
+                      <TableHead>Version</TableHead>
+                      <TableHead className="text-right">Time</TableHead>
+                      <TableHead className="text-right">Version median</TableHead>
+                      <TableHead />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {data.speeders.map(speeder => (
+                      <TableRow key={speeder.id} data-testid="speeder">
+                        <TableCell className="font-mono text-sm">{speeder.email}</TableCell>
+                        <TableCell>{speeder.group.replace('_', ' ')}</TableCell>
+                        <TableCell>{speeder.version}</TableCell>
+                        <TableCell className="text-right tabular-nums">
+                          {formatDuration(speeder.time)} {speeder.measure === 'active' ? 'active' : 'total'}{' '}
+                          <Badge variant="secondary">{Math.round(speeder.ratio * 100)}%</Badge>
+                        </TableCell>
+                        <TableCell className="text-right tabular-nums">{formatDuration(speeder.versionMedian)}</TableCell>
+                        <TableCell className="text-right">
+                          <Link href={`/admin/responses/${speeder.id}`} className="text-sm underline">View</Link>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,84 @@
+/**
+ * Shared Email Layout
+ * Branded header and research footer wrapped around every participant email
+ * @rule 042 "UI component architecture for email templates"
+ * @rule 030 "Visual design system for participant communication"
+ */
+
+import type { ReactNode } from 'react';
+
+interface EmailLayoutProps {
+  title: string;
+  tagline: string;
+  children: ReactNode;
+  footer?: string;
+}
+
+const DEFAULT_FOOTER = 'If you have questions, please contact the research team.';
+
+export function EmailLayout({ title, tagline, children, footer = DEFAULT_FOOTER }: EmailLayoutProps) {
+  return (
+    <html lang="en">
+      <head>
+        <meta httpEquiv="Content-Type" content="text/html; charset=UTF-8" />
+        <title>{title}</title>
+      </head>
+      <body style={{ margin: 0, padding: 0, backgroundColor: '#f9fafb' }}>
+        <div style={{ fontFamily: 'Arial, sans-serif', maxWidth: '600px', margin: '0 auto' }}>
+          <div style={{ background: 'linear-gradient(135deg, #6366f1 0%, #a855f7 100%)', padding: '20px', textAlign: 'center' }}>
+            <h1 style={{ color: 'white', margin: 0, fontSize: '24px' }}>AI Education Survey</h1>
+            <p style={{ color: 'white', margin: '10px 0 0 0', opacity: 0.9 }}>{tagline}</p>
+          </div>
+
+          <div style={{ padding: '30px', background: 'white' }}>
+            {children}
+
+            <hr style={{ border: 'none', borderTop: '1px solid #e5e7eb', margin: '30px 0' }} />
+
+            <p style={{ color: '#9ca3af', fontSize: '12px', textAlign: 'center' }}>
+              This survey is part of the &quot;No Concept Left Behind&quot; research initiative.
+              <br />
+              {footer}
+            </p>
+          </div>
+        </div>
+      </body>
+    </html>
+  );
+}
+
+/**
+ * Admin-edited intro text - blank lines start a new paragraph
+ */
+export function IntroParagraphs({ text }: { text: string }) {
+  return (
+    <>
+      {text.split(/\n\s*\n/).map(paragraph => paragraph.trim()).filter(Boolean).map((paragraph, index) => (
+        <p key={index} style={{ color: '#4b5563', lineHeight: 1.6 }}>
+          {paragraph}
+        </p>
+      ))}
+    </>
+  );
+}
+
+export function PrimaryButton({ href, children }: { href: string; children: ReactNode }) {
+  return (
+    <div style={{ textAlign: 'center', margin: '30px 0' }}>
+      <a
+        href={href}
+        style={{
+          background: '#6366f1',
+          color: 'white',
+          padding: '12px 24px',
+          textDecoration: 'none',
+          borderRadius: '6px',
+          fontWeight: 'bold',
+          display: 'inline-block',
+        }}
+      >
+        {children}
+      </a>
+    </div>
+  );
+}
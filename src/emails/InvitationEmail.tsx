@@ -0,0 +1,38 @@
+/**
+ * Survey Invitation Email
+ * @rule 042 "UI component architecture for email templates"
+ */
+
+import { EmailLayout, IntroParagraphs, PrimaryButton } from './EmailLayout';
+
+export interface InvitationEmailProps {
+  subject: string;
+  intro: string;
+  surveyUrl: string;
+}
+
+export function InvitationEmail({ subject, intro, surveyUrl }: InvitationEmailProps) {
+  return (
+    <EmailLayout title={subject} tagline="Research Invitation">
+      <h2 style={{ color: '#1f2937', marginTop: 0 }}>You&apos;re Invited to Participate</h2>
+      <IntroParagraphs text={intro} />
+
+      <div style={{ background: '#f0f9ff', borderLeft: '4px solid #6366f1', padding: '20px', margin: '20px 0' }}>
+        <h3 style={{ color: '#1f2937', margin: '0 0 10px 0' }}>About This Survey</h3>
+        <ul style={{ color: '#4b5563', margin: 0, paddingLeft: '20px' }}>
+          <li>Takes approximately 10-15 minutes to complete</li>
+          <li>Your responses will remain completely anonymous</li>
+          <li>Data will be used for educational research purposes only</li>
+          <li>You can save progress and return later</li>
+        </ul>
+      </div>
+
+      <PrimaryButton href={surveyUrl}>Start Survey</PrimaryButton>
+
+      <p style={{ color: '#4b5563', lineHeight: 1.6, fontSize: '14px' }}>
+        When you click the link above, you&apos;ll be asked to enter your email address to receive an access code.
+        This ensures secure, anonymous participation in our research.
+      </p>
+    </EmailLayout>
+  );
+}
@@ -0,0 +1,39 @@
+/**
+ * Access Code (OTP) Email
+ * @rule 042 "UI component architecture for email templates"
+ */
+
+import { EmailLayout, IntroParagraphs } from './EmailLayout';
+
+export interface OtpEmailProps {
+  subject: string;
+  intro: string;
+  otpCode: string;
+  expiryMinutes: number;
+}
+
+export function OtpEmail({ subject, intro, otpCode, expiryMinutes }: OtpEmailProps) {
+  return (
+    <EmailLayout
+      title={subject}
+      tagline="Access Code Request"
+      footer="Your responses will be kept anonymous and used for educational research purposes only."
+    >
+      <h2 style={{ color: '#1f2937', marginTop: 0 }}>Your Access Code</h2>
+      <IntroParagraphs text={intro} />
+
+      <div style={{ background: '#f3f4f6', padding: '20px', borderRadius: '8px', textAlign: 'center', margin: '20px 0' }}>
+        <div style={{ fontSize: '32px', fontWeight: 'bold', color: '#6366f1', letterSpacing: '4px', fontFamily: 'monospace' }}>
+          {otpCode}
+        </div>
+        <p style={{ color: '#6b7280', margin: '10px 0 0 0', fontSize: '14px' }}>
+          This code expires in {expiryMinutes} minutes
+        </p>
+      </div>
+
+      <p style={{ color: '#4b5563', lineHeight: 1.6 }}>
+        If you didn&apos;t request this code, you can safely ignore this email.
+      </p>
+    </EmailLayout>
+  );
+}
@@ -0,0 +1,27 @@
+/**
+ * Survey Reminder Email
+ * @rule 042 "UI component architecture for email templates"
+ */
+
+import { EmailLayout, IntroParagraphs, PrimaryButton } from './EmailLayout';
+
+export interface ReminderEmailProps {
+  subject: string;
+  intro: string;
+  surveyUrl: string;
+}
+
+export function ReminderEmail({ subject, intro, surveyUrl }: ReminderEmailProps) {
+  return (
+    <EmailLayout title={subject} tagline="Friendly Reminder">
+      <h2 style={{ color: '#1f2937', marginTop: 0 }}>We&apos;d Still Love to Hear From You</h2>
+      <IntroParagraphs text={intro} />
+
+      <p style={{ color: '#4b5563', lineHeight: 1.6 }}>
+        The survey takes approximately 10-15 minutes. If you already started, your progress has been saved.
+      </p>
+
+      <PrimaryButton href={surveyUrl}>Continue to Survey</PrimaryButton>
+    </EmailLayout>
+  );
+}
@@ -0,0 +1,109 @@
+/**
+ * Admin API Guard
+ * Every /api/admin/* handler calls requireAdminPermission first. The account is read
+ * from the database on each request so a demotion or deactivation takes effect
+ * immediately rather than when the 24h session token expires.
+ * @rule 012 "API security for access control"
+ * @rule 060 "API standards with session management"
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from './prisma';
+import { getSessionFromRequest } from './auth';
+import { hasPermission, normalizeRole, type AdminRole, type Permission } from './permissions';
+import { enforceRateLimit, RATE_LIMITS } from './rate-limiter';
+
+export interface AdminRequestSession {
+  id: number;
+  email: string;
+  name: string;
+  role: AdminRole;
+  mustChangePassword: boolean;
+  type: 'admin';
+}
+
+export type AdminGuardResult =
+  | { session: AdminRequestSession; response?: undefined }
+  | { session?: undefined; response: NextResponse };
+
+/**
+ * Any signed-in, active admin - including one who still has to change a temporary
+ * password. Only the profile and change-password endpoints should use this directly.
+ */
+export async function requireAdminSession(request: NextRequest): Promise<AdminGuardResult> {
+  const token = await getSessionFromRequest(request);
+
+  if (!token || token.type !== 'admin' || typeof token.id !== 'number') {
+    return {
+      response: NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      ),
+    };
+  }
+
+  const admin = await prisma.adminUser.findUnique({
+    where: { id: token.id },
+    select: { id: true, email: true, name: true, role: true, isActive: true, mustChangePassword: true },
+  });
+
+  const role = normalizeRole(admin?.role);
+  if (!admin || !admin.isActive || !role) {
+    return {
+      response: NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      ),
+    };
+  }
+
+  const limited = await enforceRateLimit(request, RATE_LIMITS.ADMIN_API, { account: `admin:${admin.id}` });
+  if (limited) {
+    return { response: limited };
+  }
+
+  return {
+    session: {
+      id: admin.id,
+      email: admin.email,
+      name: admin.name,
+      role,
+      mustChangePassword: admin.mustChangePassword,
+      type: 'admin',
+    },
+  };
+}
+
+export async function requireAdminPermission(
+  request: NextRequest,
+  permission: Permission
+): Promise<AdminGuardResult> {
+  const guard = await requireAdminSession(request);
+  if (guard.response) {
+    return guard;
+  }
+
+  const { session } = guard;
+
+  // A temporary password only unlocks the change-password screen
+  if (session.mustChangePassword) {
+    return {
+      response: NextResponse.json(
+        { error: 'You must change your password before continuing', mustChangePassword: true },
+        { status: 403 }
+      ),
+    };
+  }
+
+  if (!hasPermission(session.role, permission)) {
+    console.log('🚫 Permission denied:', session.email, 'lacks', permission);
+    return {
+      response: NextResponse.json(
+        { error: 'Your role does not allow this action', permission },
+        { status: 403 }
+      ),
+    };
+  }
+
+  return guard;
+}
@@ -0,0 +1,212 @@
+/**
+ * Admin Account Management
+ * Owners add admins, change roles, reset passwords and deactivate accounts.
+ * New and reset accounts get a one-time temporary password that must be changed
+ * at next login. There must always be at least one active owner.
+ * @rule 012 "API security for access control"
+ * @rule 009 "Security considerations for credentials"
+ * @rule 130 "Error handling for user management"
+ */
+
+import crypto from 'crypto';
+import { z } from 'zod';
+import { prisma } from './prisma';
+import { hashPassword, verifyPassword } from './auth';
+import { ADMIN_ROLES, MIN_PASSWORD_LENGTH, type AdminRole } from './permissions';
+
+export const PasswordSchema = z
+  .string()
+  .min(MIN_PASSWORD_LENGTH, `Password must be at least ${MIN_PASSWORD_LENGTH} characters`)
+  .max(128, 'Password is too long');
+
+/**
+ * Error raised when an account change is not allowed
+ */
+export class AdminUserError extends Error {
+  constructor(message: string, public readonly status: number = 409) {
+    super(message);
+    this.name = 'AdminUserError';
+  }
+}
+
+const ADMIN_USER_SELECT = {
+  id: true,
+  email: true,
+  name: true,
+  role: true,
+  isActive: true,
+  deactivatedAt: true,
+  mustChangePassword: true,
+  lastLogin: true,
+  createdAt: true,
+  createdBy: true,
+} as const;
+
+/**
+ * Random password shown once to the owner who created or reset the account
+ */
+export function generateTemporaryPassword(): string {
+  return crypto.randomBytes(12).toString('base64url');
+}
+
+type AdminUserRow = Awaited<ReturnType<typeof findAdminUser>>;
+
+export function serializeAdminUser(admin: AdminUserRow) {
+  return {
+    ...admin,
+    deactivatedAt: admin.deactivatedAt?.toISOString() || null,
+    lastLogin: admin.lastLogin?.toISOString() || null,
+    createdAt: admin.createdAt.toISOString(),
+  };
+}
+
+export async function listAdminUsers() {
+  return prisma.adminUser.findMany({
+    select: ADMIN_USER_SELECT,
+    orderBy: [{ isActive: 'desc' }, { email: 'asc' }],
+  });
+}
+
+async function findAdminUser(id: number) {
+  const admin = await prisma.adminUser.findUnique({
+    where: { id },
+    select: ADMIN_USER_SELECT,
+  });
+
+  if (!admin) {
+    throw new AdminUserError('Admin user not found', 404);
+  }
+
+  return admin;
+}
+
+/**
+ * Refuses a change that would leave no active owner. Legacy "admin" rows were
+ * migrated to owner, so only the owner role counts here.
+ */
+async function assertOwnerRemains(excludingId: number) {
+  const owners = await prisma.adminUser.count({
+    where: { role: ADMIN_ROLES.OWNER, isActive: true, id: { not: excludingId } },
+  });
+
+  if (owners === 0) {
+    throw new AdminUserError('At least one active owner is required');
+  }
+}
+
+export async function createAdminUser(
+  input: { email: string; name: string; role: AdminRole },
+  createdBy: string
+) {
+  const existing = await prisma.adminUser.findUnique({
+    where: { email: input.email },
+    select: { id: true },
+  });
+
+  if (existing) {
+    throw new AdminUserError('An admin with this email already exists');
+  }
+
+  // Site admins can never take the survey, so an invited participant can't become one
+  const participant = await prisma.invitedUser.findUnique({
+    where: { email: input.email },
+    select: { id: true },
+  });
+
+  if (participant) {
+    throw new AdminUserError('This email is a survey participant - use a different address for the admin account');
+  }
+
+  const temporaryPassword = generateTemporaryPassword();
+  const admin = await prisma.adminUser.create({
+    data: {
+      email: input.email,
+      name: input.name,
+      role: input.role,
+      password: await hashPassword(temporaryPassword),
+      mustChangePassword: true,
+      createdBy,
+    },
+    select: ADMIN_USER_SELECT,
+  });
+
+  return { admin, temporaryPassword };
+}
+
+export async function updateAdminUser(
+  id: number,
+  changes: { role?: AdminRole; isActive?: boolean },
+  actingAdminId: number
+) {
+  const admin = await findAdminUser(id);
+
+  if (id === actingAdminId && changes.isActive === false) {
+    throw new AdminUserError('You cannot deactivate your own account');
+  }
+
+  const losesOwner =
+    admin.role === ADMIN_ROLES.OWNER &&
+    admin.isActive &&
+    ((changes.role !== undefined && changes.role !== ADMIN_ROLES.OWNER) || changes.isActive === false);
+
+  if (losesOwner) {
+    await assertOwnerRemains(id);
+  }
+
+  const updated = await prisma.adminUser.update({
+    where: { id },
+    data: {
+      ...(changes.role !== undefined && { role: changes.role }),
+      ...(changes.isActive !== undefined && {
+        isActive: changes.isActive,
+        deactivatedAt: changes.isActive ? null : new Date(),
+      }),
+    },
+    select: ADMIN_USER_SELECT,
+  });
+
+  return { previous: admin, admin: updated };
+}
+
+export async function resetAdminPassword(id: number) {
+  await findAdminUser(id);
+
+  const temporaryPassword = generateTemporaryPassword();
+  const admin = await prisma.adminUser.update({
+    where: { id },
+    data: {
+      password: await hashPassword(temporaryPassword),
+      mustChangePassword: true,
+    },
+    select: ADMIN_USER_SELECT,
+  });
+
+  return { admin, temporaryPassword };
+}
+
+/**
+ * Self-service password change - also clears a forced change after first login
+ */
+export async function changeOwnPassword(id: number, currentPassword: string, newPassword: string) {
+  const admin = await prisma.adminUser.findUnique({
+    where: { id },
+    select: { password: true },
+  });
+
+  if (!admin || !(await verifyPassword(currentPassword, admin.password))) {
+    throw new AdminUserError('Current password is incorrect', 400);
+  }
+
+  if (await verifyPassword(newPassword, admin.password)) {
+    throw new AdminUserError('New password must be different from the current one', 400);
+  }
+
+  await prisma.adminUser.update({
+    where: { id },
+    data: {
+      password: await hashPassword(newPassword),
+      mustChangePassword: false,
+      passwordChangedAt: new Date(),
+    },
+  });
+}
@@ -0,0 +1,272 @@
+/**
+ * Administrative Audit Trail
+ * Every /api/admin/* mutation and export writes one AuditLog row. Rows are hash-chained:
+ * each hash covers the entry's fields plus the previous entry's hash, so editing or
+ * removing any row is detectable by re-walking the chain (the table also rejects
+ * UPDATE and DELETE at the database level).
+ * @rule 009 "Security and privacy for research data"
+ * @rule 012 "API security for critical operations"
+ * @rule 130 "Error handling for audit logging"
+ */
+
+import type { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { Prisma, type AuditLog } from '@prisma/client';
+import { prisma } from './prisma';
+import { AUDIT_GENESIS_HASH, computeAuditHash, serializeAuditState, type AuditHashFields } from './audit-chain';
+
+export const AUDIT_ACTIONS = {
+  ADMIN_LOGIN: 'admin.login',
+  ADMIN_LOGIN_FAILED: 'admin.login_failed',
+  ADMIN_LOGOUT: 'admin.logout',
+  ADMIN_PASSWORD_CHANGED: 'admin.password_changed',
+  ADMIN_CREATED: 'admin.created',
+  ADMIN_UPDATED: 'admin.updated',
+  ADMIN_PASSWORD_RESET: 'admin.password_reset',
+  PARTICIPANT_BLOCKED: 'participant.blocked',
+  PARTICIPANT_UNBLOCKED: 'participant.unblocked',
+  RESUBMISSION_ALLOWED: 'participant.resubmission_allowed',
+  INVITE_CREATED: 'invite.created',
+  INVITES_IMPORTED: 'invite.imported',
+  CAMPAIGN_CREATED: 'campaign.created',
+  CAMPAIGN_PAUSED: 'campaign.paused',
+  CAMPAIGN_RESUMED: 'campaign.resumed',
+  CAMPAIGN_RUN: 'campaign.run',
+  EMAIL_TEMPLATE_UPDATED: 'email_template.updated',
+  EMAIL_TEMPLATE_RESET: 'email_template.reset',
+  VERSION_CREATED: 'survey_version.created',
+  VERSION_UPDATED: 'survey_version.updated',
+  VERSION_DELETED: 'survey_version.deleted',
+  VERSION_STATUS_CHANGED: 'survey_version.status_changed',
+  PRODUCTION_TOGGLED: 'system.production_toggled',
+  PRODUCTION_REVERTED: 'system.production_reverted',
+  RESPONSES_EXPORTED: 'responses.exported',
+  CODEBOOK_CODE_CREATED: 'codebook.code_created',
+  CODEBOOK_CODE_UPDATED: 'codebook.code_updated',
+  CODEBOOK_CODE_DELETED: 'codebook.code_deleted',
+  CODING_SAVED: 'coding.saved',
+  CODING_WITHDRAWN: 'coding.withdrawn',
+  AUDIT_EXPORTED: 'audit.exported',
+  OUTBOX_CLEARED: 'outbox.cleared',
+} as const;
+
+export type AuditAction = typeof AUDIT_ACTIONS[keyof typeof AUDIT_ACTIONS];
+
+export interface AuditActor {
+  id?: number | null;
+  email: string;
+  role?: string | null;
+}
+
+export interface AuditEventInput {
+  action: AuditAction;
+  actor: AuditActor;
+  targetType?: string;
+  targetId?: string | number | null;
+  reason?: string | null;
+  before?: unknown;
+  after?: unknown;
+  request?: NextRequest;
+}
+
+export interface AuditChainStatus {
+  valid: boolean;
+  checked: number;
+  brokenAtId: number | null;
+}
+
+const CHAIN_WRITE_ATTEMPTS = 3;
+const VERIFY_BATCH_SIZE = 500;
+
+export const AuditQuerySchema = z.object({
+  search: z.string().trim().max(200).optional(),
+  action: z.string().trim().max(100).optional(),
+  actor: z.string().trim().max(200).optional(),
+  from: z.string().datetime().optional(),
+  to: z.string().datetime().optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+export type AuditQuery = z.infer<typeof AuditQuerySchema>;
+
+export function getRequestMetadata(request?: NextRequest) {
+  if (!request) {
+    return { ipAddress: null, userAgent: null, requestPath: null };
+  }
+
+  const forwardedFor = request.headers.get('x-forwarded-for');
+  const ipAddress = forwardedFor?.split(',')[0]?.trim() || request.headers.get('x-real-ip') || null;
+
+  return {
+    ipAddress,
+    userAgent: request.headers.get('user-agent')?.slice(0, 500) || null,
+    requestPath: `${request.method} ${request.nextUrl.pathname}`,
+  };
+}
+
+/**
+ * Appends an entry to the audit chain. Audit failures are logged rather than thrown:
+ * by the time this runs the action has already happened, and failing the request
+ * would only hide that from the admin who performed it.
+ */
+export async function recordAuditEvent(input: AuditEventInput): Promise<void> {
+  const fields: Omit<AuditHashFields, 'createdAt'> = {
+    actorId: input.actor.id ?? null,
+    actorEmail: input.actor.email.toLowerCase(),
+    actorRole: input.actor.role ?? null,
+    action: input.action,
+    targetType: input.targetType ?? null,
+    targetId: input.targetId === undefined || input.targetId === null ? null : String(input.targetId),
+    reason: input.reason?.trim() || null,
+    beforeState: serializeAuditState(input.before),
+    afterState: serializeAuditState(input.after),
+    ...getRequestMetadata(input.request),
+  };
+
+  for (let attempt = 1; attempt <= CHAIN_WRITE_ATTEMPTS; attempt++) {
+    try {
+      const previous = await prisma.auditLog.findFirst({
+        orderBy: { id: 'desc' },
+        select: { hash: true },
+      });
+      const prevHash = previous?.hash ?? AUDIT_GENESIS_HASH;
+      const createdAt = new Date();
+
+      await prisma.auditLog.create({
+        data: {
+          ...fields,
+          createdAt,
+          prevHash,
+          hash: computeAuditHash(prevHash, { ...fields, createdAt }),
+        },
+      });
+
+      console.log('📝 Audit:', fields.action, 'by', fields.actorEmail, fields.targetId ? `on ${fields.targetType}:${fields.targetId}` : '');
+      return;
+
+    } catch (error) {
+      // prevHash is unique - another request appended first, so re-read the tail and retry
+      const lostRace = error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+      if (!lostRace || attempt === CHAIN_WRITE_ATTEMPTS) {
+        console.error('❌ Failed to write audit entry:', fields.action, error);
+        return;
+      }
+    }
+  }
+}
+
+/**
+ * Re-walks the whole chain and reports the first entry whose hash or link doesn't match
+ */
+export async function verifyAuditChain(): Promise<AuditChainStatus> {
+  let expectedPrevHash = AUDIT_GENESIS_HASH;
+  let lastId = 0;
+  let checked = 0;
+
+  for (;;) {
+    const batch = await prisma.auditLog.findMany({
+      where: { id: { gt: lastId } },
+      orderBy: { id: 'asc' },
+      take: VERIFY_BATCH_SIZE,
+    });
+
+    if (batch.length === 0) {
+      return { valid: true, checked, brokenAtId: null };
+    }
+
+    for (const entry of batch) {
+      if (entry.prevHash !== expectedPrevHash || entry.hash !== computeAuditHash(entry.prevHash, entry)) {
+        return { valid: false, checked, brokenAtId: entry.id };
+      }
+      expectedPrevHash = entry.hash;
+      lastId = entry.id;
+      checked++;
+    }
+  }
+}
+
+export function buildAuditWhere(query: Omit<AuditQuery, 'page' | 'limit'>): Prisma.AuditLogWhereInput {
+  const where: Prisma.AuditLogWhereInput = {};
+
+  if (query.action) {
+    where.action = query.action;
+  }
+
+  if (query.actor) {
+    where.actorEmail = { contains: query.actor.toLowerCase() };
+  }
+
+  if (query.from || query.to) {
+    where.createdAt = {
+      ...(query.from && { gte: new Date(query.from) }),
+      ...(query.to && { lte: new Date(query.to) }),
+    };
+  }
+
+  if (query.search) {
+    where.OR = [
+      { targetId: { contains: query.search } },
+      { reason: { contains: query.search } },
+      { actorEmail: { contains: query.search.toLowerCase() } },
+      { beforeState: { contains: query.search } },
+      { afterState: { contains: query.search } },
+    ];
+  }
+
+  return where;
+}
+
+function parseAuditState(state: string | null): unknown {
+  if (!state) {
+    return null;
+  }
+  try {
+    return JSON.parse(state);
+  } catch {
+    return state;
+  }
+}
+
+export function serializeAuditEntry(entry: AuditLog) {
+  return {
+    id: entry.id,
+    createdAt: entry.createdAt.toISOString(),
+    actorId: entry.actorId,
+    actorEmail: entry.actorEmail,
+    actorRole: entry.actorRole,
+    action: entry.action,
+    targetType: entry.targetType,
+    targetId: entry.targetId,
+    reason: entry.reason,
+    before: parseAuditState(entry.beforeState),
+    after: parseAuditState(entry.afterState),
+    ipAddress: entry.ipAddress,
+    userAgent: entry.userAgent,
+    requestPath: entry.requestPath,
+    hash: entry.hash,
+  };
+}
+
+const CSV_COLUMNS = [
+  'id', 'createdAt', 'actorId', 'actorEmail', 'actorRole', 'action', 'targetType', 'targetId', 'reason',
+  'beforeState', 'afterState', 'ipAddress', 'userAgent', 'requestPath', 'prevHash', 'hash',
+] as const;
+
+function escapeCsvValue(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Raw rows including both hashes, so an exported copy can be verified offline
+ */
+export function auditEntriesToCsv(entries: AuditLog[]): string {
+  return [
+    CSV_COLUMNS.join(','),
+    ...entries.map(entry => CSV_COLUMNS.map(column => escapeCsvValue(entry[column])).join(',')),
+  ].join('\n');
+}
@@ -93,6 +93,64 @@ export async function getSessionFromRequest(request: NextRequest): Promise<any |
   return null;
 }
 
+/**
+ * Extracts only the participant session - survey routes must never fall back to
+ * the admin cookie, even when an admin is signed in on the same browser
+ */
+export async function getSurveySessionFromRequest(
+  request: NextRequest
+): Promise<{ email: string; group: string; consented: boolean; type: 'survey' } | null> {
+  const surveyToken = request.cookies.get('survey-session')?.value;
+
+  if (!surveyToken) {
+    return null;
+  }
+
+  const session = await validateSessionToken(surveyToken);
+  return session?.type === 'survey' && typeof session.email === 'string' ? session : null;
+}
+
+/**
+ * Creates the opaque token used in the participant's survey URL.
+ * It is an HMAC of the email, so it reveals nothing and can't be forged without
+ * the session secret. Uses Web Crypto so middleware can verify it on the edge.
+ */
+export async function createSurveyAccessToken(email: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    JWT_SECRET,
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = new Uint8Array(
+    await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(`survey-access:${email.toLowerCase()}`))
+  );
+
+  return btoa(String.fromCharCode(...signature))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+/**
+ * Checks that a survey URL token belongs to the given participant
+ */
+export async function verifySurveyAccessToken(token: string, email: string): Promise<boolean> {
+  const expected = await createSurveyAccessToken(email);
+
+  if (token.length !== expected.length) {
+    return false;
+  }
+
+  // Constant-time comparison so timing doesn't reveal a partial match
+  let mismatch = 0;
+  for (let i = 0; i < expected.length; i++) {
+    mismatch |= token.charCodeAt(i) ^ expected.charCodeAt(i);
+  }
+  return mismatch === 0;
+}
+
 /**
  * Hashes password using bcrypt
  */
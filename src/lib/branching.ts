@@ -0,0 +1,190 @@
+/**
+ * Question Branching Rules
+ * Shared by the survey navigator (client) and validateSurveyResponses (server)
+ * so both sides agree on which questions a participant actually saw.
+ * @rule 105 "TypeScript strict typing"
+ * @rule 150 "Preventing technical debt with a single rule evaluator"
+ */
+
+import { z } from 'zod';
+
+export const BRANCH_OPERATORS = [
+  'equals',
+  'not_equals',
+  'contains',
+  'any_of',
+  'gte',
+  'lte',
+  'answered',
+] as const;
+
+export type BranchOperator = typeof BRANCH_OPERATORS[number];
+
+export const BranchConditionSchema = z.discriminatedUnion('operator', [
+  z.object({
+    questionId: z.string().min(1),
+    operator: z.literal('equals'),
+    value: z.union([z.string(), z.number()]),
+  }),
+  z.object({
+    questionId: z.string().min(1),
+    operator: z.literal('not_equals'),
+    value: z.union([z.string(), z.number()]),
+  }),
+  z.object({
+    questionId: z.string().min(1),
+    operator: z.literal('contains'),
+    keywords: z.array(z.string().trim().min(1)).min(1, 'At least one keyword is required'),
+  }),
+  z.object({
+    questionId: z.string().min(1),
+    operator: z.literal('any_of'),
+    values: z.array(z.string()).min(1, 'At least one option is required'),
+  }),
+  z.object({
+    questionId: z.string().min(1),
+    operator: z.literal('gte'),
+    value: z.number(),
+  }),
+  z.object({
+    questionId: z.string().min(1),
+    operator: z.literal('lte'),
+    value: z.number(),
+  }),
+  z.object({
+    questionId: z.string().min(1),
+    operator: z.literal('answered'),
+  }),
+]);
+
+export type BranchCondition = z.infer<typeof BranchConditionSchema>;
+
+/**
+ * A rule attached to the question it controls:
+ * - show: the question is only shown when the conditions match
+ * - skip: the question is hidden when the conditions match
+ */
+export const BranchingRuleSchema = z.object({
+  action: z.enum(['show', 'skip']),
+  match: z.enum(['all', 'any']).default('all'),
+  conditions: z.array(BranchConditionSchema).min(1, 'A branching rule needs at least one condition'),
+});
+
+export type BranchingRule = z.infer<typeof BranchingRuleSchema>;
+
+/**
+ * Branching field as stored on a question - an empty object means "always shown"
+ */
+export const QuestionBranchingSchema = z.union([
+  BranchingRuleSchema,
+  z.object({}).strict(),
+]);
+
+interface BranchableQuestion {
+  id: string;
+  branching?: unknown;
+}
+
+/**
+ * Returns the typed rule for a question, or null when it is always shown
+ * Unrecognized (legacy free-text) rules are ignored rather than hiding questions
+ */
+export function getBranchingRule(question: BranchableQuestion): BranchingRule | null {
+  const parsed = BranchingRuleSchema.safeParse(question.branching);
+  return parsed.success ? parsed.data : null;
+}
+
+function isAnswered(value: unknown): boolean {
+  if (value === null || value === undefined) return false;
+  if (typeof value === 'string') return value.trim().length > 0;
+  if (Array.isArray(value)) return value.length > 0;
+  return true;
+}
+
+function normalize(value: unknown): string {
+  return String(value).trim().toLowerCase();
+}
+
+/**
+ * Evaluates a single condition against an answer
+ */
+export function evaluateCondition(condition: BranchCondition, answer: unknown): boolean {
+  if (condition.operator === 'answered') {
+    return isAnswered(answer);
+  }
+
+  if (!isAnswered(answer)) {
+    return false;
+  }
+
+  switch (condition.operator) {
+    case 'equals':
+      return normalize(answer) === normalize(condition.value);
+
+    case 'not_equals':
+      return normalize(answer) !== normalize(condition.value);
+
+    case 'contains': {
+      const text = normalize(answer);
+      return condition.keywords.some(keyword => text.includes(normalize(keyword)));
+    }
+
+    case 'any_of': {
+      const answers = Array.isArray(answer) ? answer.map(normalize) : [normalize(answer)];
+      return condition.values.some(value => answers.includes(normalize(value)));
+    }
+
+    case 'gte':
+    case 'lte': {
+      const numeric = typeof answer === 'number' ? answer : Number(answer);
+      if (Number.isNaN(numeric)) return false;
+      return condition.operator === 'gte' ? numeric >= condition.value : numeric <= condition.value;
+    }
+
+    default:
+      return false;
+  }
+}
+
+/**
+ * Evaluates a rule given the answers to questions that are currently visible
+ */
+export function evaluateRule(rule: BranchingRule, answers: Record<string, unknown>): boolean {
+  const results = rule.conditions.map(condition => evaluateCondition(condition, answers[condition.questionId]));
+  const matched = rule.match === 'any' ? results.some(Boolean) : results.every(Boolean);
+  return rule.action === 'show' ? matched : !matched;
+}
+
+/**
+ * Walks the questions in order and returns the ones the participant is shown
+ * Answers to hidden questions never influence later rules.
+ */
+export function getVisibleQuestions<T extends BranchableQuestion>(
+  questions: T[],
+  responses: Record<string, unknown>
+): T[] {
+  const visible: T[] = [];
+  const visibleAnswers: Record<string, unknown> = {};
+
+  for (const question of questions) {
+    const rule = getBranchingRule(question);
+
+    if (!rule || evaluateRule(rule, visibleAnswers)) {
+      visible.push(question);
+      visibleAnswers[question.id] = responses[question.id];
+    }
+  }
+
+  return visible;
+}
+
+/**
+ * Returns the IDs of questions hidden by branching for the given answers
+ */
+export function getHiddenQuestionIds(
+  questions: BranchableQuestion[],
+  responses: Record<string, unknown>
+): string[] {
+  const visibleIds = new Set(getVisibleQuestions(questions, responses).map(question => question.id));
+  return questions.filter(question => !visibleIds.has(question.id)).map(question => question.id);
+}
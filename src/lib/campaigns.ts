@@ -0,0 +1,319 @@
+/**
+ * Invitation and Reminder Campaigns
+ * A campaign invites every non-responder in its groups, then reminds them at a fixed
+ * interval until they respond or hit the reminder cap. Every attempt is recorded in
+ * EmailSend so the admin can see who was contacted when, and what failed.
+ * @rule 060 "API standards for admin email operations"
+ * @rule 130 "Error handling for email delivery"
+ */
+
+import type { EmailCampaign } from '@prisma/client';
+import { prisma } from './prisma';
+import { sendInvitationEmail, sendReminderEmail, type EmailSendResult } from './email';
+
+export const CAMPAIGN_STATUS = {
+  ACTIVE: 'active',
+  PAUSED: 'paused',
+  COMPLETED: 'completed',
+} as const;
+
+export type CampaignStatus = typeof CAMPAIGN_STATUS[keyof typeof CAMPAIGN_STATUS];
+
+export const SEND_TYPE = {
+  INVITATION: 'invitation',
+  REMINDER: 'reminder',
+} as const;
+
+export const SEND_STATUS = {
+  SENT: 'sent',
+  FAILED: 'failed',
+} as const;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// A run lease older than this was left by a crashed process and may be taken over
+const RUN_LEASE_MS = 30 * 60 * 1000;
+
+/**
+ * Error raised when a campaign action is not allowed
+ */
+export class CampaignError extends Error {
+  constructor(message: string, public readonly status: number = 409) {
+    super(message);
+    this.name = 'CampaignError';
+  }
+}
+
+export interface CampaignRunResult {
+  campaignId: number;
+  invitationsSent: number;
+  remindersSent: number;
+  failures: number;
+  status: string;
+  nextRunAt: Date | null;
+}
+
+interface SendRecord {
+  email: string;
+  type: string;
+  status: string;
+  sentAt: Date;
+}
+
+export function getCampaignGroups(groups: unknown): string[] {
+  return Array.isArray(groups) ? groups.filter((group): group is string => typeof group === 'string') : [];
+}
+
+function summarizeHistory(history: SendRecord[]) {
+  const delivered = history.filter(send => send.status === SEND_STATUS.SENT);
+  return {
+    invited: delivered.some(send => send.type === SEND_TYPE.INVITATION),
+    reminders: delivered.filter(send => send.type === SEND_TYPE.REMINDER).length,
+    lastContactedAt: delivered.reduce<Date | null>(
+      (latest, send) => (!latest || send.sentAt > latest ? send.sentAt : latest),
+      null
+    ),
+  };
+}
+
+/**
+ * Sends whatever each recipient is due: an invitation (also retried after a failure)
+ * or the next reminder once the interval has passed since they were last contacted
+ */
+export async function runCampaign(campaignId: number, now: Date = new Date()): Promise<CampaignRunResult> {
+  const campaign = await prisma.emailCampaign.findUnique({
+    where: { id: campaignId },
+  });
+
+  if (!campaign) {
+    throw new CampaignError('Campaign not found', 404);
+  }
+
+  if (campaign.status !== CAMPAIGN_STATUS.ACTIVE) {
+    throw new CampaignError(`Only active campaigns can be run (current status: ${campaign.status})`);
+  }
+
+  // Take the run lease in one conditional write: a scheduler tick or manual run that
+  // starts while this one is still sending finds it held and backs off
+  const claimed = await prisma.emailCampaign.updateMany({
+    where: {
+      id: campaignId,
+      status: CAMPAIGN_STATUS.ACTIVE,
+      OR: [
+        { runningSince: null },
+        { runningSince: { lt: new Date(now.getTime() - RUN_LEASE_MS) } },
+      ],
+    },
+    data: { runningSince: now, lastRunAt: now },
+  });
+
+  if (claimed.count === 0) {
+    throw new CampaignError('Campaign is already being run');
+  }
+
+  try {
+    return await sendCampaignRound(campaign, now);
+  } finally {
+    // Release the lease whether the round finished or failed part-way
+    await prisma.emailCampaign.update({
+      where: { id: campaignId },
+      data: { runningSince: null },
+    });
+  }
+}
+
+async function sendCampaignRound(campaign: EmailCampaign, now: Date): Promise<CampaignRunResult> {
+  const campaignId = campaign.id;
+
+  // Participants who already completed the survey, or were blocked, are never contacted again
+  const recipients = await prisma.invitedUser.findMany({
+    where: {
+      group: { in: getCampaignGroups(campaign.groups) },
+      hasTaken: false,
+      isBlocked: false,
+    },
+    select: { email: true, group: true },
+    orderBy: { id: 'asc' },
+  });
+
+  const sends = await prisma.emailSend.findMany({
+    where: { campaignId },
+    select: { email: true, type: true, status: true, sentAt: true },
+  });
+
+  const historyByEmail = new Map<string, SendRecord[]>();
+  sends.forEach(send => {
+    historyByEmail.set(send.email, [...(historyByEmail.get(send.email) || []), send]);
+  });
+
+  const reminderDue = new Date(now.getTime() - campaign.reminderIntervalDays * DAY_MS);
+  const result = { invitationsSent: 0, remindersSent: 0, failures: 0 };
+  let pendingRecipients = 0;
+
+  for (const recipient of recipients) {
+    const history = summarizeHistory(historyByEmail.get(recipient.email) || []);
+
+    let type: string | null = null;
+    let outcome: EmailSendResult | null = null;
+
+    if (!history.invited) {
+      type = SEND_TYPE.INVITATION;
+      outcome = await sendInvitationEmail(recipient.email, recipient.group);
+    } else if (
+      history.reminders < campaign.maxReminders &&
+      history.lastContactedAt &&
+      history.lastContactedAt <= reminderDue
+    ) {
+      type = SEND_TYPE.REMINDER;
+      outcome = await sendReminderEmail(recipient.email, recipient.group, history.reminders + 1);
+    }
+
+    if (type && outcome) {
+      await prisma.emailSend.create({
+        data: {
+          campaignId,
+          email: recipient.email,
+          type,
+          status: outcome.success ? SEND_STATUS.SENT : SEND_STATUS.FAILED,
+          error: outcome.error,
+          sentAt: now,
+        },
+      });
+
+      if (!outcome.success) {
+        result.failures += 1;
+      } else if (type === SEND_TYPE.INVITATION) {
+        result.invitationsSent += 1;
+      } else {
+        result.remindersSent += 1;
+        await prisma.invitedUser.update({
+          where: { email: recipient.email },
+          data: { lastReminderAt: now, remindersSent: { increment: 1 } },
+        });
+      }
+    }
+
+    // Anyone not yet invited, or still under the reminder cap, keeps the campaign running
+    const invitedNow = history.invited || (type === SEND_TYPE.INVITATION && outcome?.success);
+    const remindersNow = history.reminders + (type === SEND_TYPE.REMINDER && outcome?.success ? 1 : 0);
+    if (!invitedNow || remindersNow < campaign.maxReminders) {
+      pendingRecipients += 1;
+    }
+  }
+
+  const completed = pendingRecipients === 0;
+  // Only while still active - a pause during the run must stick, not be rescheduled over
+  await prisma.emailCampaign.updateMany({
+    where: { id: campaignId, status: CAMPAIGN_STATUS.ACTIVE },
+    data: {
+      status: completed ? CAMPAIGN_STATUS.COMPLETED : CAMPAIGN_STATUS.ACTIVE,
+      lastRunAt: now,
+      nextRunAt: completed ? null : new Date(now.getTime() + campaign.reminderIntervalDays * DAY_MS),
+    },
+  });
+
+  const updated = await prisma.emailCampaign.findUniqueOrThrow({
+    where: { id: campaignId },
+    select: { status: true, nextRunAt: true },
+  });
+
+  console.log('📬 Campaign run complete:', campaign.name, result);
+
+  return {
+    campaignId,
+    ...result,
+    status: updated.status,
+    nextRunAt: updated.nextRunAt,
+  };
+}
+
+/**
+ * Runs every active campaign whose next run is due - called by the scheduler
+ */
+export async function runDueCampaigns(now: Date = new Date()): Promise<CampaignRunResult[]> {
+  const due = await prisma.emailCampaign.findMany({
+    where: {
+      status: CAMPAIGN_STATUS.ACTIVE,
+      nextRunAt: { lte: now },
+    },
+    select: { id: true },
+    orderBy: { nextRunAt: 'asc' },
+  });
+
+  const results: CampaignRunResult[] = [];
+  for (const campaign of due) {
+    try {
+      results.push(await runCampaign(campaign.id, now));
+    } catch (error) {
+      // One failing campaign shouldn't hold up the others
+      console.error('❌ Scheduled campaign run failed:', campaign.id, error);
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Pause or resume a campaign - resuming schedules the next run immediately
+ */
+export async function setCampaignPaused(campaignId: number, paused: boolean) {
+  const campaign = await prisma.emailCampaign.findUnique({
+    where: { id: campaignId },
+  });
+
+  if (!campaign) {
+    throw new CampaignError('Campaign not found', 404);
+  }
+
+  const expected = paused ? CAMPAIGN_STATUS.ACTIVE : CAMPAIGN_STATUS.PAUSED;
+  if (campaign.status !== expected) {
+    throw new CampaignError(`Only ${expected} campaigns can be ${paused ? 'paused' : 'resumed'} (current status: ${campaign.status})`);
+  }
+
+  return prisma.emailCampaign.update({
+    where: { id: campaignId },
+    data: paused
+      ? { status: CAMPAIGN_STATUS.PAUSED, nextRunAt: null }
+      : { status: CAMPAIGN_STATUS.ACTIVE, nextRunAt: new Date() },
+  });
+}
+
+/**
+ * Per-recipient contact history for a campaign
+ */
+export async function getCampaignRecipients(campaignId: number, groups: string[]) {
+  const [users, sends] = await Promise.all([
+    prisma.invitedUser.findMany({
+      where: { group: { in: groups } },
+      select: { email: true, group: true, hasTaken: true, isBlocked: true },
+      orderBy: { email: 'asc' },
+    }),
+    prisma.emailSend.findMany({
+      where: { campaignId },
+      orderBy: { sentAt: 'asc' },
+    }),
+  ]);
+
+  return users.map(user => {
+    const history = sends.filter(send => send.email === user.email);
+    const summary = summarizeHistory(history);
+    const lastFailure = [...history].reverse().find(send => send.status === SEND_STATUS.FAILED);
+
+    return {
+      email: user.email,
+      group: user.group,
+      hasTaken: user.hasTaken,
+      isBlocked: user.isBlocked,
+      invited: summary.invited,
+      remindersSent: summary.reminders,
+      lastContactedAt: summary.lastContactedAt?.toISOString() || null,
+      failures: history.filter(send => send.status === SEND_STATUS.FAILED).length,
+      lastError: lastFailure?.error || null,
+      history: history.map(send => ({
+        type: send.type,
+        status: send.status,
+        error: send.error,
+        sentAt: send.sentAt.toISOString(),
+      })),
+    };
+  });
+}
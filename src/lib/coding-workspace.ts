@@ -0,0 +1,157 @@
+/**
+ * Qualitative Coding Workspace Queries
+ * Loads the open-ended questions that can be coded and, for one question, its
+ * codebook, a page of answers with the signed-in coder's excerpts, and agreement
+ * between coders. In production mode test accounts are left out.
+ * @rule 060 "API standards for admin data retrieval"
+ * @rule 105 "TypeScript strict typing"
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import { getProductionMode, TEST_ACCOUNT_DOMAIN } from './production-mode';
+import { collectQuestions } from './question-analytics';
+import {
+  buildAgreement,
+  codableText,
+  summarizeCodeUse,
+  CODING_PAGE_SIZE,
+  type CodingQuery,
+} from './qualitative-coding';
+import type { SurveyQuestion } from './validation';
+
+export interface CodableQuestion {
+  id: string;
+  text: string;
+  versionIds: number[];
+}
+
+/**
+ * Open-ended questions from every version with responses, in the latest wording
+ */
+export async function getCodableQuestions(): Promise<CodableQuestion[]> {
+  const versions = await prisma.surveyVersion.findMany({
+    where: { responses: { some: {} } },
+    select: { id: true, questions: true },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  const parsed = versions.map(version => ({
+    id: version.id,
+    questions: Array.isArray(version.questions) ? (version.questions as unknown as SurveyQuestion[]) : [],
+  }));
+
+  return collectQuestions(parsed)
+    .filter(question => question.type === 'open_ended')
+    .map(question => ({
+      id: question.id,
+      text: question.text,
+      versionIds: parsed
+        .filter(version => version.questions.some(entry => entry.id === question.id))
+        .map(version => version.id),
+    }));
+}
+
+export async function loadCodingWorkspace(query: CodingQuery, coderEmail: string) {
+  const questions = await getCodableQuestions();
+  const question = questions.find(entry => entry.id === query.questionId) || questions[0];
+
+  if (!question) {
+    return { questions, question: null };
+  }
+
+  const productionMode = await getProductionMode();
+  const where: Prisma.SurveyResponseWhereInput = {
+    partial: false,
+    versionId: { in: question.versionIds },
+    ...(productionMode && { NOT: { email: { endsWith: TEST_ACCOUNT_DOMAIN } } }),
+  };
+
+  const [responses, codes, codings] = await Promise.all([
+    prisma.surveyResponse.findMany({
+      where,
+      select: {
+        id: true,
+        group: true,
+        submittedAt: true,
+        responses: true,
+        version: { select: { version: true } },
+      },
+      orderBy: { id: 'asc' },
+    }),
+    prisma.codebookCode.findMany({
+      where: { questionId: question.id },
+      orderBy: { name: 'asc' },
+    }),
+    prisma.answerCoding.findMany({
+      where: { questionId: question.id, response: where },
+      include: {
+        excerpts: {
+          select: { id: true, codeId: true, start: true, end: true, text: true },
+          orderBy: { start: 'asc' },
+        },
+      },
+    }),
+  ]);
+
+  // Skipped questions and blank answers have nothing to code
+  const answers = responses
+    .map(response => ({
+      ...response,
+      text: codableText((response.responses as Record<string, unknown> | null)?.[question.id]),
+    }))
+    .filter(response => response.text.trim().length > 0);
+
+  const mine = new Map(codings.filter(coding => coding.coderEmail === coderEmail).map(coding => [coding.responseId, coding]));
+  const reviewers = new Map<number, number>();
+  codings.forEach(coding => reviewers.set(coding.responseId, (reviewers.get(coding.responseId) || 0) + 1));
+
+  const filtered = answers.filter(answer =>
+    query.status === 'all' || (query.status === 'coded') === mine.has(answer.id)
+  );
+  const pageCount = Math.max(1, Math.ceil(filtered.length / CODING_PAGE_SIZE));
+  const page = Math.min(query.page, pageCount);
+
+  const usage = summarizeCodeUse(
+    codes,
+    codings.flatMap(coding => coding.excerpts.map(excerpt => ({ codeId: excerpt.codeId, responseId: coding.responseId })))
+  );
+
+  return {
+    questions,
+    question,
+    codes: codes.map((code, index) => ({
+      id: code.id,
+      name: code.name,
+      description: code.description,
+      createdBy: code.createdBy,
+      answers: usage[index].answers,
+      excerpts: usage[index].excerpts,
+    })),
+    progress: {
+      answers: answers.length,
+      codedByMe: answers.filter(answer => mine.has(answer.id)).length,
+      codedByAnyone: answers.filter(answer => reviewers.has(answer.id)).length,
+    },
+    page,
+    pageCount,
+    answers: filtered.slice((page - 1) * CODING_PAGE_SIZE, page * CODING_PAGE_SIZE).map(answer => {
+      const coding = mine.get(answer.id);
+      return {
+        responseId: answer.id,
+        group: answer.group,
+        version: answer.version.version,
+        submittedAt: answer.submittedAt.toISOString(),
+        text: answer.text,
+        // Null until this coder has reviewed the answer
+        excerpts: coding ? coding.excerpts : null,
+        otherCoders: (reviewers.get(answer.id) || 0) - (coding ? 1 : 0),
+      };
+    }),
+    agreement: buildAgreement(codes, codings.map(coding => ({
+      responseId: coding.responseId,
+      coderEmail: coding.coderEmail,
+      codeIds: coding.excerpts.map(excerpt => excerpt.codeId),
+    }))),
+  };
+}
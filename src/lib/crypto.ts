@@ -32,10 +32,23 @@ export function hashEmail(email: string): string {
   return hash.digest('hex').substring(0, 16);
 }
 
+/**
+ * Hashes an OTP code for storage so a database leak doesn't expose live codes
+ * 
+ * @param code - The 6-digit code sent to the participant
+ * @param email - Participant email, binding the hash to one account
+ * @returns Hex-encoded HMAC-SHA256 of the code
+ */
+export function hashOTP(code: string, email: string): string {
+  const hmac = crypto.createHmac('sha256', process.env.SESSION_SECRET || 'fallback-secret-key-for-development');
+  hmac.update(`${email.toLowerCase()}:${code}`);
+  return hmac.digest('hex');
+}
+
 /**
  * Validates OTP code against stored values
  * 
- * @param providedCode - Code provided by user
+ * @param providedCode - Code provided by user (hashed with hashOTP when the stored code is a hash)
  * @param storedCode - Code stored in database
  * @param expiry - Expiration timestamp
  * @param attempts - Number of failed attempts
@@ -59,7 +72,10 @@ export function validateOTP(
     return { valid: false, error: 'OTP has expired' };
   }
 
-  if (providedCode !== storedCode) {
+  // Constant-time comparison so response timing doesn't leak how much of the code matched
+  const provided = Buffer.from(providedCode);
+  const stored = Buffer.from(storedCode);
+  if (provided.length !== stored.length || !crypto.timingSafeEqual(provided, stored)) {
     return { valid: false, error: 'Invalid OTP code' };
   }
 
@@ -0,0 +1,156 @@
+/**
+ * Email Template Rendering
+ * Default wording for every email (with per-group variants), placeholder substitution
+ * and rendering of the React templates in src/emails to HTML plus a plaintext part.
+ * Database overrides are resolved in email-templates.ts; nothing here touches Prisma.
+ * @rule 060 "API standards for external service integration"
+ * @rule 105 "TypeScript strict typing"
+ */
+
+import { render, toPlainText } from '@react-email/render';
+import { OtpEmail } from '@/emails/OtpEmail';
+import { InvitationEmail } from '@/emails/InvitationEmail';
+import { ReminderEmail } from '@/emails/ReminderEmail';
+import { STAKEHOLDER_GROUPS } from './validation';
+// Type-only: email-transport pulls in Prisma for the outbox
+import type { EmailCategory } from './email-transport';
+
+// Template group used when a stakeholder group has no wording of its own
+export const ALL_GROUPS = 'all';
+
+export const EMAIL_TEMPLATE_GROUPS = [ALL_GROUPS, ...STAKEHOLDER_GROUPS] as const;
+
+export type EmailTemplateGroup = typeof EMAIL_TEMPLATE_GROUPS[number];
+
+export interface EmailTemplateContent {
+  subject: string;
+  intro: string;
+}
+
+export interface EmailRenderData {
+  group: string;
+  otpCode?: string;
+  expiryMinutes?: number;
+  reminderNumber?: number;
+  surveyUrl?: string;
+}
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+// Placeholders admins can use in subjects and intros
+export const TEMPLATE_PLACEHOLDERS = ['group', 'expiryMinutes', 'reminderNumber'] as const;
+
+export const SAMPLE_RENDER_DATA: Omit<EmailRenderData, 'group'> = {
+  otpCode: '123456',
+  expiryMinutes: 10,
+  reminderNumber: 1,
+};
+
+const DEFAULT_TEMPLATES: Record<EmailCategory, Partial<Record<EmailTemplateGroup, EmailTemplateContent>> & { all: EmailTemplateContent }> = {
+  otp: {
+    all: {
+      subject: 'AI Education Survey - Access Code',
+      intro: 'Thank you for participating in our AI in Education survey. Use the code below to access your survey:',
+    },
+  },
+  invitation: {
+    all: {
+      subject: 'Invitation: AI in Education Survey',
+      intro: 'Hello! You\'ve been invited to participate in our research survey about AI integration in education. As a member of the {{group}} group, your perspective is valuable to our research.',
+    },
+    Teachers: {
+      subject: 'Invitation: Share Your Classroom Experience with AI',
+      intro: 'Hello! As a teacher, you see firsthand how AI tools are changing lessons, homework and assessment. We\'d like to hear how AI is showing up in your classroom - what helps, what worries you, and what support you need.',
+    },
+    Students: {
+      subject: 'Invitation: Tell Us How You Use AI for School',
+      intro: 'Hi! We\'re researching how students actually use AI tools for learning. There are no right or wrong answers - we want your honest experience, and your responses stay anonymous.',
+    },
+    Administrators: {
+      subject: 'Invitation: AI in Education Leadership Survey',
+      intro: 'Hello! School and district leaders shape how AI is adopted, governed and supported. We\'d value your perspective on policy, training and the decisions in front of your institution.',
+    },
+    IT_Admins: {
+      subject: 'Invitation: AI Infrastructure in Schools Survey',
+      intro: 'Hello! IT teams carry the practical load of deploying, securing and supporting AI tools in schools. We\'d like to learn about the infrastructure, privacy and support challenges you\'re seeing.',
+    },
+  },
+  reminder: {
+    all: {
+      subject: 'Reminder: AI in Education Survey',
+      intro: 'You recently received an invitation to our research survey about AI integration in education. We haven\'t received your response yet, and the {{group}} perspective is important to our research.',
+    },
+  },
+};
+
+export function isTemplateGroup(group: string): group is EmailTemplateGroup {
+  return (EMAIL_TEMPLATE_GROUPS as readonly string[]).includes(group);
+}
+
+/**
+ * Built-in wording for a group, falling back to the all-groups default
+ */
+export function getDefaultTemplate(key: EmailCategory, group: string): EmailTemplateContent {
+  const templates = DEFAULT_TEMPLATES[key];
+  return (isTemplateGroup(group) && templates[group]) || templates.all;
+}
+
+export function hasGroupDefault(key: EmailCategory, group: EmailTemplateGroup): boolean {
+  return Boolean(DEFAULT_TEMPLATES[key][group]);
+}
+
+/**
+ * Replaces {{placeholder}} tokens; unknown placeholders are left as typed so mistakes show up in previews
+ */
+export function interpolate(template: string, data: EmailRenderData): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) => {
+    const value = data[name as keyof EmailRenderData];
+    return value === undefined ? match : String(value);
+  });
+}
+
+function getSurveyUrl(data: EmailRenderData): string {
+  return data.surveyUrl || process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3001';
+}
+
+/**
+ * The React element for an email - exported so it can be rendered without the async renderer
+ */
+export function buildEmailElement(key: EmailCategory, content: EmailTemplateContent, data: EmailRenderData) {
+  const subject = interpolate(content.subject, data);
+  const intro = interpolate(content.intro, data);
+
+  switch (key) {
+    case 'otp':
+      return (
+        <OtpEmail
+          subject={subject}
+          intro={intro}
+          otpCode={data.otpCode ?? ''}
+          expiryMinutes={data.expiryMinutes ?? 10}
+        />
+      );
+    case 'invitation':
+      return <InvitationEmail subject={subject} intro={intro} surveyUrl={getSurveyUrl(data)} />;
+    case 'reminder':
+      return <ReminderEmail subject={subject} intro={intro} surveyUrl={getSurveyUrl(data)} />;
+  }
+}
+
+export async function renderEmailTemplate(
+  key: EmailCategory,
+  content: EmailTemplateContent,
+  data: EmailRenderData
+): Promise<RenderedEmail> {
+  const html = await render(buildEmailElement(key, content, data));
+
+  return {
+    subject: interpolate(content.subject, data),
+    html,
+    text: toPlainText(html),
+  };
+}
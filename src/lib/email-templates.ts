@@ -0,0 +1,139 @@
+/**
+ * Admin-Editable Email Templates
+ * Subjects and intros can be overridden per email and per stakeholder group. The most
+ * specific wording wins: a group override, then the all-groups override, then the
+ * built-in group variant, then the built-in default.
+ * @rule 060 "API standards for admin email operations"
+ * @rule 105 "TypeScript strict typing"
+ */
+
+import { z } from 'zod';
+import { prisma } from './prisma';
+import { EMAIL_CATEGORIES, type EmailCategory } from './email-transport';
+import {
+  ALL_GROUPS,
+  EMAIL_TEMPLATE_GROUPS,
+  getDefaultTemplate,
+  hasGroupDefault,
+  renderEmailTemplate,
+  type EmailRenderData,
+  type EmailTemplateContent,
+  type EmailTemplateGroup,
+  type RenderedEmail,
+} from './email-rendering';
+
+export const EmailTemplateKeySchema = z.object({
+  key: z.nativeEnum(EMAIL_CATEGORIES),
+  group: z.enum(EMAIL_TEMPLATE_GROUPS),
+});
+
+export const EmailTemplateSchema = EmailTemplateKeySchema.extend({
+  subject: z.string().trim().min(1, 'Subject is required').max(200),
+  intro: z.string().trim().min(1, 'Intro is required').max(2000),
+});
+
+export type EmailTemplateSource = 'override' | 'all-override' | 'group-default' | 'default';
+
+export interface ResolvedEmailTemplate extends EmailTemplateContent {
+  key: EmailCategory;
+  group: EmailTemplateGroup;
+  source: EmailTemplateSource;
+  updatedAt: string | null;
+  updatedBy: string | null;
+}
+
+type TemplateRow = { key: string; group: string; subject: string; intro: string; updatedAt: Date; updatedBy: string };
+
+function resolveFromRows(key: EmailCategory, group: EmailTemplateGroup, rows: TemplateRow[]): ResolvedEmailTemplate {
+  const own = rows.find(row => row.key === key && row.group === group);
+  const shared = group !== ALL_GROUPS ? rows.find(row => row.key === key && row.group === ALL_GROUPS) : undefined;
+  const override = own || shared;
+
+  if (override) {
+    return {
+      key,
+      group,
+      subject: override.subject,
+      intro: override.intro,
+      source: own ? 'override' : 'all-override',
+      updatedAt: override.updatedAt.toISOString(),
+      updatedBy: override.updatedBy,
+    };
+  }
+
+  return {
+    key,
+    group,
+    ...getDefaultTemplate(key, group),
+    source: group !== ALL_GROUPS && hasGroupDefault(key, group) ? 'group-default' : 'default',
+    updatedAt: null,
+    updatedBy: null,
+  };
+}
+
+/**
+ * Effective wording for a single email and group
+ */
+export async function resolveEmailTemplate(key: EmailCategory, group: string): Promise<ResolvedEmailTemplate> {
+  const templateGroup = (EMAIL_TEMPLATE_GROUPS as readonly string[]).includes(group)
+    ? group as EmailTemplateGroup
+    : ALL_GROUPS;
+
+  const rows = await prisma.emailTemplate.findMany({
+    where: { key, group: { in: [templateGroup, ALL_GROUPS] } },
+  });
+
+  return resolveFromRows(key, templateGroup, rows);
+}
+
+/**
+ * Effective wording for every email and group, for the admin editor
+ */
+export async function listEmailTemplates(): Promise<ResolvedEmailTemplate[]> {
+  const rows = await prisma.emailTemplate.findMany();
+
+  return Object.values(EMAIL_CATEGORIES).flatMap(key =>
+    EMAIL_TEMPLATE_GROUPS.map(group => resolveFromRows(key, group, rows))
+  );
+}
+
+/**
+ * Renders an email with the stored wording, falling back to defaults if the lookup fails
+ * so a database hiccup never blocks an access code
+ */
+export async function renderEmail(key: EmailCategory, data: EmailRenderData): Promise<RenderedEmail> {
+  let content: EmailTemplateContent;
+  try {
+    content = await resolveEmailTemplate(key, data.group);
+  } catch (error) {
+    console.error('❌ Email template lookup failed, using default:', error);
+    content = getDefaultTemplate(key, data.group);
+  }
+
+  return renderEmailTemplate(key, content, data);
+}
+
+export async function saveEmailTemplate(input: z.infer<typeof EmailTemplateSchema>, updatedBy: string) {
+  const { key, group, subject, intro } = input;
+
+  return prisma.emailTemplate.upsert({
+    where: { key_group: { key, group } },
+    create: { key, group, subject, intro, updatedBy },
+    update: { subject, intro, updatedBy },
+  });
+}
+
+/**
+ * Removes an override so the email falls back to the next most specific wording
+ */
+export async function resetEmailTemplate(key: EmailCategory, group: EmailTemplateGroup) {
+  const existing = await prisma.emailTemplate.findUnique({
+    where: { key_group: { key, group } },
+  });
+
+  if (existing) {
+    await prisma.emailTemplate.delete({ where: { id: existing.id } });
+  }
+
+  return existing;
+}
@@ -0,0 +1,223 @@
+/**
+ * Pluggable Email Transport
+ * Message builders in email.ts hand finished messages to whichever transport is
+ * configured: Resend or SMTP for real delivery, or the outbox, which stores each
+ * message in the database so testers and e2e specs can read it without a network.
+ * @rule 060 "API standards for external service integration"
+ * @rule 130 "Error handling for email operations"
+ * @rule 011 "Environment variable security for API keys"
+ */
+
+import { Resend } from 'resend';
+import nodemailer from 'nodemailer';
+import { prisma } from './prisma';
+
+export const EMAIL_TRANSPORTS = {
+  RESEND: 'resend',
+  SMTP: 'smtp',
+  OUTBOX: 'outbox',
+} as const;
+
+export type EmailTransportName = typeof EMAIL_TRANSPORTS[keyof typeof EMAIL_TRANSPORTS];
+
+export const EMAIL_CATEGORIES = {
+  OTP: 'otp',
+  INVITATION: 'invitation',
+  REMINDER: 'reminder',
+} as const;
+
+export type EmailCategory = typeof EMAIL_CATEGORIES[keyof typeof EMAIL_CATEGORIES];
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+  category: EmailCategory;
+}
+
+/**
+ * Result of an email send - campaigns record the error in the send history
+ */
+export interface EmailSendResult {
+  success: boolean;
+  id?: string;
+  error?: string;
+}
+
+export interface EmailTransport {
+  readonly name: EmailTransportName;
+  send(message: EmailMessage & { from: string }): Promise<EmailSendResult>;
+}
+
+/**
+ * Error raised when the selected transport is missing its configuration
+ */
+export class EmailConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EmailConfigError';
+  }
+}
+
+export function createResendTransport(apiKey: string): EmailTransport {
+  const resend = new Resend(apiKey);
+
+  return {
+    name: EMAIL_TRANSPORTS.RESEND,
+    async send(message) {
+      const { data, error } = await resend.emails.send({
+        from: message.from,
+        to: [message.to],
+        subject: message.subject,
+        html: message.html,
+        text: message.text,
+      });
+
+      if (error) {
+        return { success: false, error: error.message };
+      }
+      return { success: true, id: data?.id };
+    },
+  };
+}
+
+export function createSmtpTransport(options: {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  password?: string;
+}): EmailTransport {
+  const transporter = nodemailer.createTransport({
+    host: options.host,
+    port: options.port,
+    secure: options.secure,
+    ...(options.user && { auth: { user: options.user, pass: options.password } }),
+  });
+
+  return {
+    name: EMAIL_TRANSPORTS.SMTP,
+    async send(message) {
+      const info = await transporter.sendMail({
+        from: message.from,
+        to: message.to,
+        subject: message.subject,
+        html: message.html,
+        text: message.text,
+      });
+
+      if (info.rejected.length > 0) {
+        return { success: false, error: `Rejected by SMTP server: ${info.response}` };
+      }
+      return { success: true, id: info.messageId };
+    },
+  };
+}
+
+export function createOutboxTransport(): EmailTransport {
+  return {
+    name: EMAIL_TRANSPORTS.OUTBOX,
+    async send(message) {
+      const stored = await prisma.outboxEmail.create({
+        data: {
+          category: message.category,
+          from: message.from,
+          to: message.to.toLowerCase(),
+          subject: message.subject,
+          html: message.html,
+          text: message.text,
+        },
+        select: { id: true },
+      });
+
+      console.log('📥 Email captured in outbox:', stored.id, message.subject);
+      return { success: true, id: `outbox-${stored.id}` };
+    },
+  };
+}
+
+/**
+ * EMAIL_TRANSPORT picks the transport explicitly. Without it, production with a Resend
+ * key sends through Resend and everything else outside production goes to the outbox.
+ * Production never falls back to the outbox: it stores access codes in plain text for
+ * any researcher to read, so it has to be opted into with EMAIL_OUTBOX_IN_PRODUCTION.
+ */
+export function resolveTransportName(env: NodeJS.ProcessEnv = process.env): EmailTransportName {
+  const configured = env.EMAIL_TRANSPORT?.trim().toLowerCase();
+  const production = env.NODE_ENV === 'production';
+
+  if (configured) {
+    const known = Object.values(EMAIL_TRANSPORTS) as string[];
+    if (!known.includes(configured)) {
+      throw new EmailConfigError(`Unknown EMAIL_TRANSPORT "${configured}" (expected ${known.join(', ')})`);
+    }
+    if (configured === EMAIL_TRANSPORTS.OUTBOX && production && env.EMAIL_OUTBOX_IN_PRODUCTION !== 'true') {
+      throw new EmailConfigError('The outbox transport does not deliver email; set EMAIL_OUTBOX_IN_PRODUCTION=true to use it in production');
+    }
+    return configured as EmailTransportName;
+  }
+
+  if (!production) {
+    return EMAIL_TRANSPORTS.OUTBOX;
+  }
+  if (!env.RESEND_API_KEY) {
+    throw new EmailConfigError('No email transport configured for production - set EMAIL_TRANSPORT (or RESEND_API_KEY)');
+  }
+  return EMAIL_TRANSPORTS.RESEND;
+}
+
+function createConfiguredTransport(): EmailTransport {
+  const name = resolveTransportName();
+
+  if (name === EMAIL_TRANSPORTS.RESEND) {
+    if (!process.env.RESEND_API_KEY) {
+      throw new EmailConfigError('RESEND_API_KEY is required for the resend transport');
+    }
+    return createResendTransport(process.env.RESEND_API_KEY);
+  }
+
+  if (name === EMAIL_TRANSPORTS.SMTP) {
+    if (!process.env.SMTP_HOST) {
+      throw new EmailConfigError('SMTP_HOST is required for the smtp transport');
+    }
+    return createSmtpTransport({
+      host: process.env.SMTP_HOST,
+      port: Number(process.env.SMTP_PORT) || 587,
+      secure: process.env.SMTP_SECURE === 'true',
+      user: process.env.SMTP_USER,
+      password: process.env.SMTP_PASSWORD,
+    });
+  }
+
+  if (process.env.NODE_ENV === 'production') {
+    console.warn('⚠️ Email outbox transport enabled in production - messages are stored, not delivered');
+  }
+  return createOutboxTransport();
+}
+
+let activeTransport: EmailTransport | null = null;
+
+export function getEmailTransport(): EmailTransport {
+  if (!activeTransport) {
+    activeTransport = createConfiguredTransport();
+    console.log('📮 Email transport:', activeTransport.name);
+  }
+  return activeTransport;
+}
+
+export function getEmailFromAddress(): string {
+  return process.env.EMAIL_FROM || process.env.RESEND_FROM_EMAIL || 'noreply@localhost';
+}
+
+/**
+ * Sends through the configured transport; never throws so callers only check success
+ */
+export async function deliverEmail(message: EmailMessage): Promise<EmailSendResult> {
+  try {
+    return await getEmailTransport().send({ ...message, from: getEmailFromAddress() });
+  } catch (error) {
+    console.error('❌ Email transport error:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown email error' };
+  }
+}
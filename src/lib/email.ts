@@ -0,0 +1,107 @@
+/**
+ * Participant Emails
+ * Renders the OTP, invitation and reminder templates (see src/emails and
+ * email-templates.ts); delivery goes through the configured transport (see email-transport.ts)
+ * @rule 060 "API standards for external service integration"
+ * @rule 130 "Error handling for email operations"
+ */
+
+import { deliverEmail, EMAIL_CATEGORIES, type EmailSendResult } from './email-transport';
+import { renderEmail } from './email-templates';
+import { ALL_GROUPS } from './email-rendering';
+
+export type { EmailSendResult };
+
+const OTP_EXPIRY_MINUTES = 10;
+
+/**
+ * Sends OTP verification email to participant
+ */
+export async function sendOTPEmail(email: string, otpCode: string, group: string = ALL_GROUPS): Promise<boolean> {
+  try {
+    console.log('📧 Sending OTP email to:', email.replace(/(.{2}).*(@.*)/, '$1***$2'));
+
+    const rendered = await renderEmail(EMAIL_CATEGORIES.OTP, {
+      group,
+      otpCode,
+      expiryMinutes: OTP_EXPIRY_MINUTES,
+    });
+
+    const result = await deliverEmail({
+      category: EMAIL_CATEGORIES.OTP,
+      to: email,
+      ...rendered,
+    });
+
+    if (!result.success) {
+      console.error('❌ Email sending failed:', result.error);
+      return false;
+    }
+
+    console.log('✅ OTP email sent successfully:', result.id);
+    return true;
+
+  } catch (error) {
+    console.error('❌ Email service error:', error);
+    return false;
+  }
+}
+
+
+/**
+ * Sends invitation email to participant
+ */
+export async function sendInvitationEmail(email: string, group: string): Promise<EmailSendResult> {
+  try {
+    console.log('📨 Sending invitation email to:', email.replace(/(.{2}).*(@.*)/, '$1***$2'));
+
+    const rendered = await renderEmail(EMAIL_CATEGORIES.INVITATION, { group });
+
+    const result = await deliverEmail({
+      category: EMAIL_CATEGORIES.INVITATION,
+      to: email,
+      ...rendered,
+    });
+
+    if (!result.success) {
+      console.error('❌ Invitation email failed:', result.error);
+      return result;
+    }
+
+    console.log('✅ Invitation email sent successfully:', result.id);
+    return result;
+
+  } catch (error) {
+    console.error('❌ Invitation email service error:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown email error' };
+  }
+}
+
+/**
+ * Sends a reminder email to a participant who has not completed the survey
+ */
+export async function sendReminderEmail(email: string, group: string, reminderNumber: number): Promise<EmailSendResult> {
+  try {
+    console.log('🔔 Sending reminder', reminderNumber, 'to:', email.replace(/(.{2}).*(@.*)/, '$1***$2'));
+
+    const rendered = await renderEmail(EMAIL_CATEGORIES.REMINDER, { group, reminderNumber });
+
+    const result = await deliverEmail({
+      category: EMAIL_CATEGORIES.REMINDER,
+      to: email,
+      ...rendered,
+    });
+
+    if (!result.success) {
+      console.error('❌ Reminder email failed:', result.error);
+      return result;
+    }
+
+    console.log('✅ Reminder email sent successfully:', result.id);
+    return result;
+
+  } catch (error) {
+    console.error('❌ Reminder email service error:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown email error' };
+  }
+}
@@ -0,0 +1,191 @@
+/**
+ * Participation Funnel
+ * Counts distinct participants at each step from invitation to completion, trends
+ * over time and where drafts were abandoned. Works on per-participant facts loaded
+ * by the funnel API so it can be tested without Prisma.
+ * @rule 060 "API standards with proper data aggregation"
+ * @rule 105 "TypeScript strict typing"
+ */
+
+import { z } from 'zod';
+import { STAKEHOLDER_GROUPS, type SurveyQuestion } from './validation';
+
+export const FUNNEL_STAGES = [
+  { key: 'invited', label: 'Invited' },
+  { key: 'emailed', label: 'Emailed' },
+  { key: 'otpRequested', label: 'Requested access code' },
+  { key: 'consented', label: 'Verified and consented' },
+  { key: 'started', label: 'Started survey' },
+  { key: 'savedProgress', label: 'Saved progress' },
+  { key: 'completed', label: 'Completed' },
+] as const;
+
+export type FunnelStage = typeof FUNNEL_STAGES[number]['key'];
+
+export const TREND_BUCKETS = ['day', 'week'] as const;
+
+export const FunnelQuerySchema = z.object({
+  group: z.enum(STAKEHOLDER_GROUPS).optional(),
+  // Invitation dates: the funnel follows the cohort invited in this range
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  bucket: z.enum(TREND_BUCKETS).default('day'),
+}).refine(query => !query.from || !query.to || query.from <= query.to, {
+  message: 'Start date must be before end date',
+  path: ['from'],
+});
+
+export type FunnelQuery = z.infer<typeof FunnelQuerySchema>;
+export type TrendBucket = typeof TREND_BUCKETS[number];
+
+export interface ParticipantProgress {
+  email: string;
+  group: string;
+  invitedAt: Date;
+  emailed: boolean;
+  otpRequested: boolean;
+  consented: boolean;
+  startedAt: Date | null;
+  savedProgress: boolean;
+  completedAt: Date | null; // first complete submission
+}
+
+export interface FunnelStep {
+  stage: FunnelStage;
+  label: string;
+  count: number;
+  percentOfInvited: number;
+  // Share of the previous step that did not reach this one
+  dropOffRate: number;
+}
+
+export interface GroupFunnel {
+  group: string;
+  steps: FunnelStep[];
+  completionRate: number;
+}
+
+export interface TrendPoint {
+  period: string;
+  invited: number;
+  started: number;
+  completed: number;
+}
+
+export interface QuestionDropOff {
+  number: number;
+  questionId: string;
+  text: string;
+  // Participants who got at least this far: completers plus drafts saved here or later
+  reached: number;
+  // Unfinished drafts whose last saved position is this question
+  stoppedHere: number;
+}
+
+function percentOf(count: number, total: number): number {
+  return total > 0 ? Math.round((count / total) * 1000) / 10 : 0;
+}
+
+/**
+ * Index into FUNNEL_STAGES of the furthest step a participant reached. Later evidence
+ * implies the earlier steps, e.g. someone invited by hand and told their code still
+ * counts as emailed once they consent.
+ */
+export function furthestStage(participant: ParticipantProgress): number {
+  if (participant.completedAt) return 6;
+  if (participant.savedProgress) return 5;
+  if (participant.startedAt) return 4;
+  if (participant.consented) return 3;
+  if (participant.otpRequested) return 2;
+  if (participant.emailed) return 1;
+  return 0;
+}
+
+function buildSteps(participants: ParticipantProgress[]): FunnelStep[] {
+  const furthest = participants.map(furthestStage);
+  const counts = FUNNEL_STAGES.map((_, index) => furthest.filter(stage => stage >= index).length);
+
+  return FUNNEL_STAGES.map((stage, index) => ({
+    stage: stage.key,
+    label: stage.label,
+    count: counts[index],
+    percentOfInvited: percentOf(counts[index], counts[0]),
+    dropOffRate: index === 0 ? 0 : percentOf(counts[index - 1] - counts[index], counts[index - 1]),
+  }));
+}
+
+/**
+ * Funnel for all participants ("all") followed by one per stakeholder group present
+ */
+export function buildFunnels(participants: ParticipantProgress[]): GroupFunnel[] {
+  const groups = STAKEHOLDER_GROUPS.filter(group => participants.some(participant => participant.group === group));
+
+  return [
+    { group: 'all', members: participants },
+    ...groups.map(group => ({ group, members: participants.filter(participant => participant.group === group) })),
+  ].map(({ group, members }) => {
+    const steps = buildSteps(members);
+    return { group, steps, completionRate: steps[steps.length - 1].percentOfInvited };
+  });
+}
+
+/**
+ * UTC calendar day, or the Monday starting its week
+ */
+export function periodOf(date: Date, bucket: TrendBucket): string {
+  const day = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  if (bucket === 'week') {
+    day.setUTCDate(day.getUTCDate() - ((day.getUTCDay() + 6) % 7));
+  }
+  return day.toISOString().slice(0, 10);
+}
+
+/**
+ * Participants invited, starting and completing per period, with empty periods filled in
+ */
+export function buildTrend(participants: ParticipantProgress[], from: Date, to: Date, bucket: TrendBucket): TrendPoint[] {
+  const points = new Map<string, TrendPoint>();
+  const step = bucket === 'week' ? 7 : 1;
+  for (let cursor = new Date(periodOf(from, bucket)); cursor <= to; cursor.setUTCDate(cursor.getUTCDate() + step)) {
+    const period = cursor.toISOString().slice(0, 10);
+    points.set(period, { period, invited: 0, started: 0, completed: 0 });
+  }
+
+  const count = (date: Date | null, field: 'invited' | 'started' | 'completed') => {
+    if (!date || date < from || date > to) return;
+    const point = points.get(periodOf(date, bucket));
+    if (point) point[field]++;
+  };
+
+  for (const participant of participants) {
+    count(participant.invitedAt, 'invited');
+    count(participant.startedAt, 'started');
+    count(participant.completedAt, 'completed');
+  }
+
+  return [...points.values()];
+}
+
+/**
+ * Where unfinished drafts stopped, in question order
+ */
+export function buildQuestionDropOff(
+  questions: SurveyQuestion[],
+  draftPositions: Array<string | null>,
+  completedCount: number
+): QuestionDropOff[] {
+  const indexById = new Map(questions.map((question, index) => [question.id, index]));
+  const stoppedAt = questions.map(() => 0);
+  for (const questionId of draftPositions) {
+    const index = questionId ? indexById.get(questionId) : undefined;
+    if (index !== undefined) stoppedAt[index]++;
+  }
+
+  return questions.map((question, index) => ({
+    number: index + 1,
+    questionId: question.id,
+    text: question.text,
+    reached: completedCount + stoppedAt.slice(index).reduce((sum, count) => sum + count, 0),
+    stoppedHere: stoppedAt[index],
+  }));
+}
@@ -0,0 +1,203 @@
+/**
+ * Bulk Invitation Import
+ * Parses CSV/XLSX uploads and builds a row-by-row report before anything is written
+ * @rule 060 "API standards for admin bulk operations"
+ * @rule 130 "Error handling with per-row validation feedback"
+ */
+
+import { Readable } from 'stream';
+import ExcelJS from 'exceljs';
+import { Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import { EmailSchema, STAKEHOLDER_GROUPS } from './validation';
+
+export const MAX_IMPORT_ROWS = 5000;
+export const MAX_IMPORT_FILE_BYTES = 5 * 1024 * 1024;
+
+type StakeholderGroup = typeof STAKEHOLDER_GROUPS[number];
+
+export type ImportRowStatus = 'create' | 'created' | 'skipped' | 'invalid';
+
+export interface ImportReportRow {
+  row: number;
+  email: string;
+  group: string;
+  status: ImportRowStatus;
+  reason?: string;
+}
+
+export interface ImportReport {
+  rows: ImportReportRow[];
+  summary: Record<ImportRowStatus, number>;
+}
+
+interface ParsedRow {
+  row: number;
+  email: string;
+  group: string;
+}
+
+/**
+ * Error raised when the uploaded file itself cannot be imported
+ */
+export class InviteImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InviteImportError';
+  }
+}
+
+const EMAIL_HEADERS = ['email', 'e-mail', 'email address'];
+const GROUP_HEADERS = ['group', 'stakeholder group', 'stakeholder'];
+
+/**
+ * Maps spreadsheet spellings ("it admins", "Teacher") onto the canonical group names
+ */
+export function normalizeGroup(value: string): StakeholderGroup | null {
+  const key = value.trim().toLowerCase().replace(/[\s-]+/g, '_');
+  const match = STAKEHOLDER_GROUPS.find(group => {
+    const canonical = group.toLowerCase();
+    return canonical === key || canonical === `${key}s`;
+  });
+  return match || null;
+}
+
+export function normalizeEmail(value: string): string {
+  return value.trim().toLowerCase();
+}
+
+/**
+ * Reads email/group rows from the first worksheet of a CSV or XLSX file
+ */
+export async function parseInviteFile(buffer: Buffer, filename: string): Promise<ParsedRow[]> {
+  const workbook = new ExcelJS.Workbook();
+  const extension = filename.toLowerCase().split('.').pop();
+
+  let worksheet: ExcelJS.Worksheet | undefined;
+  try {
+    if (extension === 'csv') {
+      worksheet = await workbook.csv.read(Readable.from([buffer]));
+    } else if (extension === 'xlsx') {
+      await workbook.xlsx.load(buffer as unknown as ArrayBuffer);
+      worksheet = workbook.worksheets[0];
+    } else {
+      throw new InviteImportError('Only .csv and .xlsx files are supported');
+    }
+  } catch (error) {
+    if (error instanceof InviteImportError) throw error;
+    throw new InviteImportError('The file could not be read. Check that it is a valid CSV or Excel file.');
+  }
+
+  if (!worksheet || worksheet.rowCount === 0) {
+    throw new InviteImportError('The file is empty');
+  }
+
+  // Locate the columns by header so column order doesn't matter
+  const headerRow = worksheet.getRow(1);
+  let emailColumn = 0;
+  let groupColumn = 0;
+  headerRow.eachCell((cell, columnNumber) => {
+    const header = cell.text.trim().toLowerCase();
+    if (!emailColumn && EMAIL_HEADERS.includes(header)) emailColumn = columnNumber;
+    if (!groupColumn && GROUP_HEADERS.includes(header)) groupColumn = columnNumber;
+  });
+
+  if (!emailColumn || !groupColumn) {
+    throw new InviteImportError('The first row must contain "email" and "group" column headers');
+  }
+
+  const rows: ParsedRow[] = [];
+  worksheet.eachRow((row, rowNumber) => {
+    if (rowNumber === 1) return;
+
+    const email = row.getCell(emailColumn).text.trim();
+    const group = row.getCell(groupColumn).text.trim();
+
+    // Ignore fully blank lines (common at the end of exported sheets)
+    if (!email && !group) return;
+
+    rows.push({ row: rowNumber, email, group });
+  });
+
+  if (rows.length === 0) {
+    throw new InviteImportError('The file has no invite rows');
+  }
+
+  if (rows.length > MAX_IMPORT_ROWS) {
+    throw new InviteImportError(`Files are limited to ${MAX_IMPORT_ROWS} rows`);
+  }
+
+  return rows;
+}
+
+function summarize(rows: ImportReportRow[]): Record<ImportRowStatus, number> {
+  const summary: Record<ImportRowStatus, number> = { create: 0, created: 0, skipped: 0, invalid: 0 };
+  rows.forEach(row => {
+    summary[row.status] += 1;
+  });
+  return summary;
+}
+
+/**
+ * Validates rows and dedupes them against each other and existing InvitedUser rows
+ */
+export async function planInviteImport(
+  rows: ParsedRow[],
+  db: Prisma.TransactionClient = prisma
+): Promise<ImportReport> {
+  const existing = await db.invitedUser.findMany({
+    select: { email: true },
+  });
+  const existingEmails = new Set(existing.map(user => normalizeEmail(user.email)));
+  const seenInFile = new Map<string, number>();
+
+  const reportRows = rows.map((parsed): ImportReportRow => {
+    const email = normalizeEmail(parsed.email);
+    const base = { row: parsed.row, email, group: parsed.group };
+
+    if (!EmailSchema.safeParse(email).success) {
+      return { ...base, status: 'invalid', reason: 'Invalid email address' };
+    }
+
+    const group = normalizeGroup(parsed.group);
+    if (!group) {
+      return { ...base, status: 'invalid', reason: `Unknown group (expected ${STAKEHOLDER_GROUPS.join(', ')})` };
+    }
+
+    if (existingEmails.has(email)) {
+      return { ...base, group, status: 'skipped', reason: 'Already invited' };
+    }
+
+    const firstRow = seenInFile.get(email);
+    if (firstRow) {
+      return { ...base, group, status: 'skipped', reason: `Duplicate of row ${firstRow}` };
+    }
+
+    seenInFile.set(email, parsed.row);
+    return { ...base, group, status: 'create' };
+  });
+
+  return { rows: reportRows, summary: summarize(reportRows) };
+}
+
+/**
+ * Creates every "create" row of a freshly planned report in one transaction
+ */
+export async function commitInviteImport(rows: ParsedRow[]): Promise<ImportReport> {
+  return prisma.$transaction(async (tx) => {
+    const plan = await planInviteImport(rows, tx);
+    const toCreate = plan.rows.filter(row => row.status === 'create');
+
+    if (toCreate.length > 0) {
+      await tx.invitedUser.createMany({
+        data: toCreate.map(row => ({ email: row.email, group: row.group })),
+      });
+    }
+
+    const committedRows = plan.rows.map(row =>
+      row.status === 'create' ? { ...row, status: 'created' as const } : row
+    );
+
+    return { rows: committedRows, summary: summarize(committedRows) };
+  });
+}
@@ -0,0 +1,100 @@
+/**
+ * OTP Attempt Tracking and Lockout
+ * Failed verifications are counted per email in OtpAttempt. Reaching the limit
+ * locks the account for a fixed period, and requesting a new code neither
+ * clears the count nor lifts the lockout.
+ * @rule 009 "Security considerations for OTP validation"
+ * @rule 060 "API standards with session management"
+ */
+
+import { prisma } from './prisma';
+
+export const OTP_MAX_FAILED_ATTEMPTS = 5;
+export const OTP_LOCKOUT_MINUTES = 15;
+export const OTP_REQUEST_COOLDOWN_SECONDS = 60;
+
+export interface OtpLockoutStatus {
+  locked: boolean;
+  retryAfterSeconds: number;
+  failedAttempts: number;
+}
+
+/**
+ * Current lockout state for an email - a missing row means no failures yet
+ */
+export async function getOtpLockoutStatus(email: string, now: Date = new Date()): Promise<OtpLockoutStatus> {
+  const attempt = await prisma.otpAttempt.findUnique({
+    where: { email },
+  });
+
+  if (attempt?.lockedUntil && attempt.lockedUntil > now) {
+    return {
+      locked: true,
+      retryAfterSeconds: Math.ceil((attempt.lockedUntil.getTime() - now.getTime()) / 1000),
+      failedAttempts: attempt.failedAttempts,
+    };
+  }
+
+  return { locked: false, retryAfterSeconds: 0, failedAttempts: attempt?.failedAttempts || 0 };
+}
+
+/**
+ * Seconds the participant must wait before another code can be sent, or 0
+ */
+export async function getOtpRequestCooldown(email: string, now: Date = new Date()): Promise<number> {
+  const attempt = await prisma.otpAttempt.findUnique({
+    where: { email },
+    select: { lastRequestedAt: true },
+  });
+
+  if (!attempt?.lastRequestedAt) {
+    return 0;
+  }
+
+  const elapsed = (now.getTime() - attempt.lastRequestedAt.getTime()) / 1000;
+  return Math.max(0, Math.ceil(OTP_REQUEST_COOLDOWN_SECONDS - elapsed));
+}
+
+export async function recordOtpRequest(email: string, now: Date = new Date()) {
+  await prisma.otpAttempt.upsert({
+    where: { email },
+    create: { email, lastRequestedAt: now },
+    update: { lastRequestedAt: now },
+  });
+}
+
+/**
+ * Count a failed verification, locking the email once the limit is reached
+ */
+export async function recordFailedOtpAttempt(email: string, now: Date = new Date()): Promise<OtpLockoutStatus> {
+  const attempt = await prisma.otpAttempt.upsert({
+    where: { email },
+    create: { email, failedAttempts: 1, lastFailedAt: now },
+    update: { failedAttempts: { increment: 1 }, lastFailedAt: now },
+  });
+
+  if (attempt.failedAttempts < OTP_MAX_FAILED_ATTEMPTS) {
+    return { locked: false, retryAfterSeconds: 0, failedAttempts: attempt.failedAttempts };
+  }
+
+  // Start a fresh count after the lockout so the next window gets the full allowance
+  const lockedUntil = new Date(now.getTime() + OTP_LOCKOUT_MINUTES * 60 * 1000);
+  await prisma.otpAttempt.update({
+    where: { email },
+    data: { failedAttempts: 0, lockedUntil },
+  });
+
+  return { locked: true, retryAfterSeconds: OTP_LOCKOUT_MINUTES * 60, failedAttempts: attempt.failedAttempts };
+}
+
+export async function clearOtpAttempts(email: string) {
+  await prisma.otpAttempt.updateMany({
+    where: { email },
+    data: { failedAttempts: 0, lockedUntil: null },
+  });
+}
+
+export function formatRetryAfter(seconds: number): string {
+  const minutes = Math.ceil(seconds / 60);
+  return minutes <= 1 ? 'a minute' : `${minutes} minutes`;
+}
@@ -0,0 +1,99 @@
+/**
+ * Admin Roles and Permission Matrix (client-safe)
+ * Shared by the API guard and the admin UI so both agree on what each role can do
+ * @rule 012 "API security for access control"
+ * @rule 105 "TypeScript strict typing"
+ */
+
+export const ADMIN_ROLES = {
+  OWNER: 'owner',
+  RESEARCHER: 'researcher',
+  VIEWER: 'viewer',
+  DATA_EXPORTER: 'data_exporter',
+} as const;
+
+export type AdminRole = typeof ADMIN_ROLES[keyof typeof ADMIN_ROLES];
+
+export const ADMIN_ROLE_LABELS: Record<AdminRole, string> = {
+  owner: 'Owner',
+  researcher: 'Researcher',
+  viewer: 'Viewer',
+  data_exporter: 'Data Exporter',
+};
+
+export const MIN_PASSWORD_LENGTH = 12;
+
+export const PERMISSIONS = {
+  DASHBOARD_VIEW: 'dashboard:view',
+  RESPONSES_VIEW: 'responses:view',
+  RESPONSES_EXPORT: 'responses:export',
+  CODING_MANAGE: 'coding:manage',
+  INVITES_VIEW: 'invites:view',
+  INVITES_MANAGE: 'invites:manage',
+  PARTICIPANTS_BLOCK: 'participants:block',
+  CAMPAIGNS_VIEW: 'campaigns:view',
+  CAMPAIGNS_MANAGE: 'campaigns:manage',
+  VERSIONS_VIEW: 'versions:view',
+  VERSIONS_MANAGE: 'versions:manage',
+  PRODUCTION_MANAGE: 'production:manage',
+  ADMINS_MANAGE: 'admins:manage',
+  AUDIT_VIEW: 'audit:view',
+  OUTBOX_VIEW: 'outbox:view',
+  OUTBOX_MANAGE: 'outbox:manage',
+} as const;
+
+export type Permission = typeof PERMISSIONS[keyof typeof PERMISSIONS];
+
+const ROLE_PERMISSIONS: Record<AdminRole, readonly Permission[]> = {
+  owner: Object.values(PERMISSIONS),
+  researcher: [
+    PERMISSIONS.DASHBOARD_VIEW,
+    PERMISSIONS.RESPONSES_VIEW,
+    PERMISSIONS.RESPONSES_EXPORT,
+    PERMISSIONS.CODING_MANAGE,
+    PERMISSIONS.INVITES_VIEW,
+    PERMISSIONS.INVITES_MANAGE,
+    PERMISSIONS.PARTICIPANTS_BLOCK,
+    PERMISSIONS.CAMPAIGNS_VIEW,
+    PERMISSIONS.CAMPAIGNS_MANAGE,
+    PERMISSIONS.VERSIONS_VIEW,
+    PERMISSIONS.VERSIONS_MANAGE,
+    PERMISSIONS.OUTBOX_VIEW,
+  ],
+  viewer: [
+    PERMISSIONS.DASHBOARD_VIEW,
+    PERMISSIONS.RESPONSES_VIEW,
+    PERMISSIONS.INVITES_VIEW,
+    PERMISSIONS.CAMPAIGNS_VIEW,
+    PERMISSIONS.VERSIONS_VIEW,
+  ],
+  data_exporter: [
+    PERMISSIONS.DASHBOARD_VIEW,
+    PERMISSIONS.RESPONSES_VIEW,
+    PERMISSIONS.RESPONSES_EXPORT,
+  ],
+};
+
+export function isAdminRole(role: unknown): role is AdminRole {
+  return typeof role === 'string' && Object.hasOwn(ROLE_PERMISSIONS, role);
+}
+
+/**
+ * Maps a stored role to a known one - accounts created before roles existed
+ * were all "admin" and keep full access as owners; anything else gets nothing
+ */
+export function normalizeRole(role: unknown): AdminRole | null {
+  if (role === 'admin') {
+    return ADMIN_ROLES.OWNER;
+  }
+  return isAdminRole(role) ? role : null;
+}
+
+export function getRolePermissions(role: unknown): Permission[] {
+  const normalized = normalizeRole(role);
+  return normalized ? [...ROLE_PERMISSIONS[normalized]] : [];
+}
+
+export function hasPermission(role: unknown, permission: Permission): boolean {
+  return getRolePermissions(role).includes(permission);
+}
@@ -5,6 +5,7 @@
  */
 
 import { prisma } from './prisma';
+import type { BlockDetails } from './survey-access';
 
 /**
  * Get current production mode status
@@ -14,11 +15,13 @@ export async function getProductionMode(): Promise<boolean> {
   return settings?.productionMode || false;
 }
 
+export const TEST_ACCOUNT_DOMAIN = '@example.com';
+
 /**
  * Check if email is a test account
  */
 export function isTestAccount(email: string): boolean {
-  return email.endsWith('@example.com');
+  return email.endsWith(TEST_ACCOUNT_DOMAIN);
 }
 
 /**
@@ -46,13 +49,34 @@ export async function canTakeSurvey(email: string): Promise<boolean> {
   return true;
 }
 
+/**
+ * Block details if an admin has blocked this participant, otherwise null
+ */
+export async function getBlockDetails(email: string): Promise<BlockDetails | null> {
+  const user = await prisma.invitedUser.findUnique({
+    where: { email },
+    select: { isBlocked: true, blockedReason: true, blockedAt: true },
+  });
+
+  if (!user?.isBlocked) {
+    return null;
+  }
+
+  return {
+    reason: user.blockedReason,
+    blockedAt: user.blockedAt?.toISOString() || null,
+  };
+}
+
 /**
  * Comprehensive check for survey access
- * Handles both site admin blocking AND production mode restrictions
+ * Handles site admin blocking, participant blocks AND production mode restrictions.
+ * When a participant is blocked, `blocked` carries the details for the blocked page.
  */
 export async function canAccessSurvey(email: string): Promise<{
   allowed: boolean;
   reason?: string;
+  blocked?: BlockDetails;
 }> {
   // Site admin can NEVER access surveys (in any mode)
   // This checks the AdminUser table - ANY user in that table is blocked
@@ -65,6 +89,15 @@ export async function canAccessSurvey(email: string): Promise<{
     };
   }
 
+  const blocked = await getBlockDetails(email);
+  if (blocked) {
+    return {
+      allowed: false,
+      reason: 'Your access to this survey has been restricted. Please contact the research team.',
+      blocked,
+    };
+  }
+
   const productionMode = await getProductionMode();
 
   if (productionMode && isTestAccount(email)) {
@@ -0,0 +1,376 @@
+/**
+ * Production Mode Switching with Snapshots
+ * Going live wipes the testing-phase responses and resets every invite. Before it does,
+ * the current responses, invites and settings are archived in ProductionSnapshot so an
+ * owner can switch back to development mode and, if needed, bring the old data back.
+ * @rule 060 "API standards for production mode changes"
+ * @rule 012 "API security for critical operations"
+ * @rule 130 "Error handling for system changes"
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+
+/**
+ * Error raised when a production mode change is not allowed
+ */
+export class ProductionModeError extends Error {
+  constructor(message: string, public readonly status: number = 409) {
+    super(message);
+    this.name = 'ProductionModeError';
+  }
+}
+
+const SNAPSHOT_FORMAT_VERSION = 3;
+
+// Copying every response can outlast Prisma's default 5s interactive transaction
+const SWITCH_TRANSACTION_OPTIONS = { timeout: 60_000 };
+
+type SnapshotResponse = Omit<
+  Prisma.SurveyResponseGetPayload<object>,
+  'submittedAt' | 'lastSavedAt' | 'startedAt' | 'responses' | 'questionTimings'
+> & {
+  responses: Prisma.JsonValue;
+  submittedAt: string;
+  lastSavedAt: string | null;
+  // Absent from snapshots taken before timings were recorded
+  startedAt?: string | null;
+  questionTimings?: Prisma.JsonValue;
+};
+
+interface SnapshotCoding {
+  responseId: number;
+  questionId: string;
+  coderEmail: string;
+  updatedAt: string;
+  excerpts: Array<{ codeId: number; start: number; end: number; text: string }>;
+}
+
+interface SnapshotInvite {
+  email: string;
+  hasTaken: boolean;
+  consented: boolean;
+  // Absent from snapshots before format 3
+  surveyStartedAt?: string | null;
+}
+
+interface SnapshotData {
+  formatVersion: number;
+  responses: SnapshotResponse[];
+  // Absent from format 1 snapshots, which predate qualitative coding
+  codings?: SnapshotCoding[];
+  invites: SnapshotInvite[];
+  settings: {
+    productionMode: boolean;
+    toggledAt: string | null;
+    toggledBy: string | null;
+  } | null;
+}
+
+export interface ProductionSwitchPlan {
+  responses: {
+    total: number;
+    partial: number;
+    byGroup: Record<string, number>;
+    items: Array<{ id: number; email: string; group: string; submittedAt: string; partial: boolean }>;
+  };
+  invitesToReset: Array<{ email: string; group: string; hasTaken: boolean; consented: boolean; hasPendingCode: boolean }>;
+  otpAttemptsCleared: number;
+}
+
+/**
+ * Exactly what activating production mode would delete or reset - nothing is changed
+ */
+export async function getProductionSwitchPlan(): Promise<ProductionSwitchPlan> {
+  const [responses, invites, otpAttemptsCleared] = await Promise.all([
+    prisma.surveyResponse.findMany({
+      select: { id: true, email: true, group: true, submittedAt: true, partial: true },
+      orderBy: { submittedAt: 'asc' },
+    }),
+    prisma.invitedUser.findMany({
+      where: {
+        OR: [{ hasTaken: true }, { consented: true }, { otpCode: { not: null } }],
+      },
+      select: { email: true, group: true, hasTaken: true, consented: true, otpCode: true },
+      orderBy: { email: 'asc' },
+    }),
+    prisma.otpAttempt.count(),
+  ]);
+
+  const byGroup = responses.reduce((acc, response) => {
+    acc[response.group] = (acc[response.group] || 0) + 1;
+    return acc;
+  }, {} as Record<string, number>);
+
+  return {
+    responses: {
+      total: responses.length,
+      partial: responses.filter(response => response.partial).length,
+      byGroup,
+      items: responses.map(response => ({
+        ...response,
+        submittedAt: response.submittedAt.toISOString(),
+      })),
+    },
+    invitesToReset: invites.map(({ otpCode, ...invite }) => ({
+      ...invite,
+      hasPendingCode: otpCode !== null,
+    })),
+    otpAttemptsCleared,
+  };
+}
+
+/**
+ * Snapshots the development data, then wipes it and switches to production mode
+ */
+export async function activateProductionMode(activatedBy: string) {
+  return prisma.$transaction(async (tx) => {
+    const settings = await tx.systemSettings.findFirst();
+
+    if (settings?.productionMode) {
+      throw new ProductionModeError('Already in production mode', 400);
+    }
+
+    const [responses, codings, invites] = await Promise.all([
+      tx.surveyResponse.findMany({ orderBy: { id: 'asc' } }),
+      // Cascade-deleted with the responses, so they have to travel in the snapshot too
+      tx.answerCoding.findMany({
+        select: {
+          responseId: true,
+          questionId: true,
+          coderEmail: true,
+          updatedAt: true,
+          excerpts: { select: { codeId: true, start: true, end: true, text: true } },
+        },
+        orderBy: { id: 'asc' },
+      }),
+      tx.invitedUser.findMany({
+        where: { OR: [{ hasTaken: true }, { consented: true }, { surveyStartedAt: { not: null } }] },
+        select: { email: true, hasTaken: true, consented: true, surveyStartedAt: true },
+      }),
+    ]);
+
+    const data: SnapshotData = {
+      formatVersion: SNAPSHOT_FORMAT_VERSION,
+      responses: responses.map(response => ({
+        ...response,
+        submittedAt: response.submittedAt.toISOString(),
+        lastSavedAt: response.lastSavedAt?.toISOString() || null,
+        startedAt: response.startedAt?.toISOString() || null,
+      })),
+      codings: codings.map(coding => ({
+        ...coding,
+        updatedAt: coding.updatedAt.toISOString(),
+      })),
+      invites: invites.map(invite => ({
+        ...invite,
+        surveyStartedAt: invite.surveyStartedAt?.toISOString() || null,
+      })),
+      settings: settings && {
+        productionMode: settings.productionMode,
+        toggledAt: settings.toggledAt?.toISOString() || null,
+        toggledBy: settings.toggledBy,
+      },
+    };
+
+    const snapshot = await tx.productionSnapshot.create({
+      data: {
+        createdBy: activatedBy,
+        responseCount: responses.length,
+        inviteCount: invites.length,
+        data: JSON.stringify(data),
+      },
+      select: { id: true },
+    });
+
+    const deletedResponses = await tx.surveyResponse.deleteMany({});
+
+    const resetUsers = await tx.invitedUser.updateMany({
+      data: {
+        hasTaken: false,
+        consented: false,
+        otpCode: null,
+        otpExpiry: null,
+        surveyStartedAt: null,
+      },
+    });
+
+    // Testing-phase lockouts shouldn't follow participants into the live survey
+    await tx.otpAttempt.deleteMany({});
+
+    const toggledAt = new Date();
+    if (settings) {
+      await tx.systemSettings.update({
+        where: { id: settings.id },
+        data: { productionMode: true, toggledAt, toggledBy: activatedBy },
+      });
+    } else {
+      await tx.systemSettings.create({
+        data: { productionMode: true, toggledAt, toggledBy: activatedBy },
+      });
+    }
+
+    return {
+      snapshotId: snapshot.id,
+      deletedResponses: deletedResponses.count,
+      resetUsers: resetUsers.count,
+      previousSettings: data.settings,
+      toggledAt,
+    };
+  }, SWITCH_TRANSACTION_OPTIONS);
+}
+
+/**
+ * Switches back to development mode. With a snapshot, the archived responses are put
+ * back alongside anything collected since - responses whose id or survey version no
+ * longer exists are skipped rather than overwriting live data.
+ */
+export async function deactivateProductionMode(deactivatedBy: string, restoreSnapshotId?: number) {
+  return prisma.$transaction(async (tx) => {
+    const settings = await tx.systemSettings.findFirst();
+
+    if (!settings?.productionMode) {
+      throw new ProductionModeError('Already in development mode', 400);
+    }
+
+    let restored: {
+      snapshotId: number;
+      restoredResponses: number;
+      skippedResponses: number;
+      restoredCodings: number;
+      restoredInvites: number;
+    } | null = null;
+
+    if (restoreSnapshotId !== undefined) {
+      const snapshot = await tx.productionSnapshot.findUnique({
+        where: { id: restoreSnapshotId },
+      });
+
+      if (!snapshot) {
+        throw new ProductionModeError('Snapshot not found', 404);
+      }
+
+      if (snapshot.restoredAt) {
+        throw new ProductionModeError(`Snapshot was already restored on ${snapshot.restoredAt.toISOString()}`);
+      }
+
+      const data = JSON.parse(snapshot.data) as SnapshotData;
+
+      const [existingIds, versionIds, codeIds] = await Promise.all([
+        tx.surveyResponse.findMany({
+          where: { id: { in: data.responses.map(response => response.id) } },
+          select: { id: true },
+        }),
+        tx.surveyVersion.findMany({ select: { id: true } }),
+        tx.codebookCode.findMany({ select: { id: true } }),
+      ]);
+      const takenIds = new Set(existingIds.map(row => row.id));
+      const validVersions = new Set(versionIds.map(row => row.id));
+
+      const toRestore = data.responses.filter(
+        response => !takenIds.has(response.id) && validVersions.has(response.versionId)
+      );
+
+      if (toRestore.length > 0) {
+        await tx.surveyResponse.createMany({
+          data: toRestore.map(response => ({
+            ...response,
+            responses: response.responses as Prisma.InputJsonValue,
+            submittedAt: new Date(response.submittedAt),
+            lastSavedAt: response.lastSavedAt ? new Date(response.lastSavedAt) : null,
+            startedAt: response.startedAt ? new Date(response.startedAt) : null,
+            questionTimings: response.questionTimings ? (response.questionTimings as Prisma.InputJsonValue) : Prisma.DbNull,
+          })),
+        });
+      }
+
+      // Codings follow their response; excerpts of codes deleted since are dropped
+      const restoredIds = new Set(toRestore.map(response => response.id));
+      const validCodes = new Set(codeIds.map(row => row.id));
+      const codingsToRestore = (data.codings || []).filter(coding => restoredIds.has(coding.responseId));
+
+      for (const coding of codingsToRestore) {
+        await tx.answerCoding.create({
+          data: {
+            responseId: coding.responseId,
+            questionId: coding.questionId,
+            coderEmail: coding.coderEmail,
+            updatedAt: new Date(coding.updatedAt),
+            excerpts: {
+              create: coding.excerpts.filter(excerpt => validCodes.has(excerpt.codeId)),
+            },
+          },
+        });
+      }
+
+      // Only ever set flags - a participant who responded in production stays "taken"
+      let restoredInvites = 0;
+      for (const invite of data.invites) {
+        const result = await tx.invitedUser.updateMany({
+          where: { email: invite.email },
+          data: {
+            ...(invite.hasTaken && { hasTaken: true }),
+            ...(invite.consented && { consented: true }),
+          },
+        });
+        restoredInvites += result.count;
+
+        // Likewise a start recorded in production is kept over the archived one
+        if (invite.surveyStartedAt) {
+          await tx.invitedUser.updateMany({
+            where: { email: invite.email, surveyStartedAt: null },
+            data: { surveyStartedAt: new Date(invite.surveyStartedAt) },
+          });
+        }
+      }
+
+      await tx.productionSnapshot.update({
+        where: { id: snapshot.id },
+        data: { restoredAt: new Date(), restoredBy: deactivatedBy },
+      });
+
+      restored = {
+        snapshotId: snapshot.id,
+        restoredResponses: toRestore.length,
+        skippedResponses: data.responses.length - toRestore.length,
+        restoredCodings: codingsToRestore.length,
+        restoredInvites,
+      };
+    }
+
+    await tx.systemSettings.update({
+      where: { id: settings.id },
+      data: { productionMode: false, toggledAt: new Date(), toggledBy: deactivatedBy },
+    });
+
+    return {
+      previousSettings: {
+        productionMode: settings.productionMode,
+        toggledAt: settings.toggledAt?.toISOString() || null,
+        toggledBy: settings.toggledBy,
+      },
+      restored,
+    };
+  }, SWITCH_TRANSACTION_OPTIONS);
+}
+
+export async function listProductionSnapshots() {
+  const snapshots = await prisma.productionSnapshot.findMany({
+    select: {
+      id: true,
+      createdAt: true,
+      createdBy: true,
+      responseCount: true,
+      inviteCount: true,
+      restoredAt: true,
+      restoredBy: true,
+    },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  return snapshots.map(snapshot => ({
+    ...snapshot,
+    createdAt: snapshot.createdAt.toISOString(),
+    restoredAt: snapshot.restoredAt?.toISOString() || null,
+  }));
+}
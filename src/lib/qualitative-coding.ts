@@ -0,0 +1,262 @@
+/**
+ * Qualitative Coding
+ * Codebook and excerpt validation for coding open-ended answers, inter-rater
+ * agreement between coders (Cohen's kappa) and coded columns for data exports.
+ * Works on rows already loaded by the coding APIs so it can be tested without Prisma.
+ * @rule 060 "API standards with proper data aggregation"
+ * @rule 105 "TypeScript strict typing"
+ */
+
+import { z } from 'zod';
+
+export const MAX_EXCERPTS_PER_ANSWER = 50;
+export const CODING_PAGE_SIZE = 20;
+
+export const CodingQuerySchema = z.object({
+  questionId: z.string().trim().min(1).optional(),
+  // Relative to the signed-in coder
+  status: z.enum(['all', 'uncoded', 'coded']).default('all'),
+  page: z.coerce.number().int().positive().default(1),
+});
+
+export type CodingQuery = z.infer<typeof CodingQuerySchema>;
+
+export const CodeSchema = z.object({
+  questionId: z.string().trim().min(1, 'Question is required'),
+  name: z.string().trim().min(1, 'Code name is required').max(80, 'Code name must be 80 characters or fewer'),
+  description: z.string().trim().max(500, 'Description must be 500 characters or fewer').optional(),
+});
+
+export const CodeUpdateSchema = CodeSchema.omit({ questionId: true }).partial();
+
+export const ExcerptInputSchema = z.object({
+  codeId: z.number().int().positive(),
+  // Leave both offsets out to code the whole answer
+  start: z.number().int().nonnegative().optional(),
+  end: z.number().int().positive().optional(),
+}).refine(excerpt => (excerpt.start === undefined) === (excerpt.end === undefined), {
+  message: 'An excerpt needs both a start and an end',
+  path: ['end'],
+}).refine(excerpt => excerpt.start === undefined || excerpt.end === undefined || excerpt.end > excerpt.start, {
+  message: 'An excerpt must end after it starts',
+  path: ['end'],
+});
+
+export const AnswerCodingSchema = z.object({
+  responseId: z.number().int().positive(),
+  questionId: z.string().trim().min(1),
+  // An empty list records that the coder reviewed the answer and no code applied
+  excerpts: z.array(ExcerptInputSchema).max(MAX_EXCERPTS_PER_ANSWER),
+});
+
+export type ExcerptInput = z.infer<typeof ExcerptInputSchema>;
+
+export interface ResolvedExcerpt {
+  codeId: number;
+  start: number;
+  end: number;
+  text: string;
+}
+
+export type ExcerptResolution =
+  | { valid: true; excerpts: ResolvedExcerpt[] }
+  | { valid: false; error: string };
+
+export interface CoderDecision {
+  responseId: number;
+  coderEmail: string;
+  codeIds: number[];
+}
+
+export interface CodeAgreement {
+  codeId: number;
+  name: string;
+  kappa: number | null;
+  percentAgreement: number;
+  // Answers each coder of the pair applied the code to
+  appliedBy: [number, number];
+}
+
+export interface CoderPairAgreement {
+  coders: [string, string];
+  // Answers both coders reviewed
+  units: number;
+  kappa: number | null;
+  percentAgreement: number;
+  codes: CodeAgreement[];
+}
+
+export interface CodeUsage {
+  codeId: number;
+  answers: number;
+  excerpts: number;
+}
+
+export interface ExportedCoding {
+  responseId: number;
+  questionId: string;
+  coderEmail: string;
+  excerpts: Array<{ code: string; text: string }>;
+}
+
+/**
+ * Only free-text answers can be coded
+ */
+export function codableText(answer: unknown): string {
+  return typeof answer === 'string' ? answer : '';
+}
+
+/**
+ * Checks offsets against the answer and copies the excerpt text from it, so a
+ * stored excerpt always matches what the participant wrote
+ */
+export function resolveExcerpts(answer: string, excerpts: ExcerptInput[]): ExcerptResolution {
+  if (excerpts.length > 0 && answer.trim().length === 0) {
+    return { valid: false, error: 'This answer is empty and cannot be coded' };
+  }
+
+  const resolved = new Map<string, ResolvedExcerpt>();
+  for (const excerpt of excerpts) {
+    const start = excerpt.start ?? 0;
+    const end = excerpt.end ?? answer.length;
+
+    if (end > answer.length) {
+      return { valid: false, error: 'Excerpt extends past the end of the answer' };
+    }
+
+    // The same code on the same span twice is one excerpt
+    resolved.set(`${excerpt.codeId}:${start}:${end}`, {
+      codeId: excerpt.codeId,
+      start,
+      end,
+      text: answer.slice(start, end),
+    });
+  }
+
+  return { valid: true, excerpts: [...resolved.values()].sort((a, b) => a.start - b.start || a.codeId - b.codeId) };
+}
+
+function round(value: number, places: number): number {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Cohen's kappa for two raters' labels of the same units. Null when there is nothing
+ * to compare, or when both raters used a single label throughout and chance
+ * agreement is already certain.
+ */
+export function cohensKappa(pairs: Array<[string, string]>): number | null {
+  if (pairs.length === 0) return null;
+
+  const total = pairs.length;
+  const observed = pairs.filter(([first, second]) => first === second).length / total;
+  const labels = new Set(pairs.flat());
+
+  let expected = 0;
+  for (const label of labels) {
+    const first = pairs.filter(([rating]) => rating === label).length / total;
+    const second = pairs.filter(([, rating]) => rating === label).length / total;
+    expected += first * second;
+  }
+
+  if (expected >= 1) return null;
+  return round((observed - expected) / (1 - expected), 3);
+}
+
+function percentAgreement(pairs: Array<[string, string]>): number {
+  if (pairs.length === 0) return 0;
+  return round((pairs.filter(([first, second]) => first === second).length / pairs.length) * 100, 1);
+}
+
+/**
+ * Agreement for every pair of coders over the answers both reviewed. Each code is a
+ * present/absent decision per answer; the overall kappa pools every decision.
+ */
+export function buildAgreement(codes: Array<{ id: number; name: string }>, decisions: CoderDecision[]): CoderPairAgreement[] {
+  const byCoder = new Map<string, Map<number, Set<number>>>();
+  for (const decision of decisions) {
+    const answers = byCoder.get(decision.coderEmail) || new Map<number, Set<number>>();
+    answers.set(decision.responseId, new Set(decision.codeIds));
+    byCoder.set(decision.coderEmail, answers);
+  }
+
+  const coders = [...byCoder.keys()].sort();
+  const agreements: CoderPairAgreement[] = [];
+
+  for (let i = 0; i < coders.length; i++) {
+    for (let j = i + 1; j < coders.length; j++) {
+      const first = byCoder.get(coders[i]) || new Map<number, Set<number>>();
+      const second = byCoder.get(coders[j]) || new Map<number, Set<number>>();
+      const shared = [...first.keys()].filter(responseId => second.has(responseId));
+
+      const perCode = codes.map(code => {
+        const pairs = shared.map((responseId): [string, string] => [
+          first.get(responseId)?.has(code.id) ? 'yes' : 'no',
+          second.get(responseId)?.has(code.id) ? 'yes' : 'no',
+        ]);
+        return { code, pairs };
+      });
+      const pooled = perCode.flatMap(entry => entry.pairs);
+
+      agreements.push({
+        coders: [coders[i], coders[j]],
+        units: shared.length,
+        kappa: cohensKappa(pooled),
+        percentAgreement: percentAgreement(pooled),
+        codes: perCode.map(({ code, pairs }) => ({
+          codeId: code.id,
+          name: code.name,
+          kappa: cohensKappa(pairs),
+          percentAgreement: percentAgreement(pairs),
+          appliedBy: [
+            pairs.filter(([rating]) => rating === 'yes').length,
+            pairs.filter(([, rating]) => rating === 'yes').length,
+          ],
+        })),
+      });
+    }
+  }
+
+  return agreements;
+}
+
+/**
+ * How many answers and excerpts each code has across all coders
+ */
+export function summarizeCodeUse(
+  codes: Array<{ id: number }>,
+  excerpts: Array<{ codeId: number; responseId: number }>
+): CodeUsage[] {
+  return codes.map(code => {
+    const applied = excerpts.filter(excerpt => excerpt.codeId === code.id);
+    return {
+      codeId: code.id,
+      answers: new Set(applied.map(excerpt => excerpt.responseId)).size,
+      excerpts: applied.length,
+    };
+  });
+}
+
+/**
+ * One "<questionId>_codes" column per coded question, listing every code any coder
+ * applied to the answer. Every response gets every column so export headers line up.
+ */
+export function buildCodingColumns(responseIds: number[], codings: ExportedCoding[]): Map<number, Record<string, string>> {
+  const applied = new Map<string, Set<string>>();
+  for (const coding of codings) {
+    const key = `${coding.responseId}:${coding.questionId}`;
+    const codes = applied.get(key) || new Set<string>();
+    coding.excerpts.forEach(excerpt => codes.add(excerpt.code));
+    applied.set(key, codes);
+  }
+
+  const questionIds = [...new Set(codings.map(coding => coding.questionId))].sort();
+  return new Map(responseIds.map(responseId => [
+    responseId,
+    Object.fromEntries(questionIds.map(questionId => [
+      `${questionId}_codes`,
+      [...(applied.get(`${responseId}:${questionId}`) || [])].sort().join('; '),
+    ])),
+  ]));
+}
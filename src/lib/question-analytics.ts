@@ -0,0 +1,309 @@
+/**
+ * Question-Level Analytics
+ * Answer distributions, descriptive statistics and skip rates per question and
+ * stakeholder group, plus cross-tabulation of two questions. Works on rows already
+ * loaded by the analytics API so it can be tested without Prisma.
+ * @rule 060 "API standards with proper data aggregation"
+ * @rule 105 "TypeScript strict typing"
+ */
+
+import { z } from 'zod';
+import { getHiddenQuestionIds } from './branching';
+import { getAnswerEntries, isAnswered } from './response-detail';
+import { STAKEHOLDER_GROUPS, type SurveyQuestion } from './validation';
+
+export const AnalyticsQuerySchema = z.object({
+  versionId: z.coerce.number().int().positive().optional(),
+  group: z.enum(STAKEHOLDER_GROUPS).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  // A participant who resubmitted counts once, with their latest answers, unless asked otherwise
+  submissions: z.enum(['latest', 'all']).default('latest'),
+  rowQuestionId: z.string().trim().min(1).optional(),
+  columnQuestionId: z.string().trim().min(1).optional(),
+}).refine(query => !query.from || !query.to || query.from <= query.to, {
+  message: 'Start date must be before end date',
+  path: ['from'],
+}).refine(query => Boolean(query.rowQuestionId) === Boolean(query.columnQuestionId), {
+  message: 'Cross-tabulation needs both a row and a column question',
+  path: ['columnQuestionId'],
+});
+
+export type AnalyticsQuery = z.infer<typeof AnalyticsQuerySchema>;
+
+export interface AnalyticsVersion {
+  id: number;
+  questions: SurveyQuestion[];
+}
+
+export interface AnalyticsRow {
+  id: number;
+  email: string;
+  group: string;
+  versionId: number;
+  responses: unknown;
+}
+
+export interface AnalyticsQuestion {
+  id: string;
+  text: string;
+  type: SurveyQuestion['type'];
+  options?: string[];
+  scale?: { min: number; max: number };
+}
+
+export interface NumericSummary {
+  count: number;
+  mean: number;
+  median: number;
+  stdDev: number;
+  min: number;
+  max: number;
+}
+
+export interface CategoryCount {
+  value: string;
+  count: number;
+  percent: number;
+}
+
+export interface QuestionTally {
+  group: string;
+  // Respondents whose version asked the question and whose branching showed it
+  shown: number;
+  answered: number;
+  skipped: number;
+  skipRate: number;
+  distribution: CategoryCount[];
+  summary: NumericSummary | null;
+}
+
+export interface QuestionAnalytics extends AnalyticsQuestion {
+  overall: QuestionTally;
+  byGroup: QuestionTally[];
+}
+
+export interface CrossTabulation {
+  rowQuestionId: string;
+  columnQuestionId: string;
+  rowCategories: string[];
+  columnCategories: string[];
+  counts: number[][];
+  rowTotals: number[];
+  columnTotals: number[];
+  total: number;
+}
+
+const ALL_GROUPS = 'all';
+
+function round(value: number, digits: number): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+function percentOf(count: number, total: number): number {
+  return total > 0 ? round((count / total) * 100, 1) : 0;
+}
+
+export function isCategorical(question: AnalyticsQuestion): boolean {
+  return question.type === 'multiple_choice' || question.type === 'likert';
+}
+
+/**
+ * Sample standard deviation, matching what SPSS and R report
+ */
+export function summarizeNumbers(values: number[]): NumericSummary | null {
+  if (values.length === 0) return null;
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const mean = sorted.reduce((sum, value) => sum + value, 0) / sorted.length;
+  const middle = Math.floor(sorted.length / 2);
+  const median = sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+  const variance = sorted.length > 1
+    ? sorted.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (sorted.length - 1)
+    : 0;
+
+  return {
+    count: sorted.length,
+    mean: round(mean, 2),
+    median,
+    stdDev: round(Math.sqrt(variance), 2),
+    min: sorted[0],
+    max: sorted[sorted.length - 1],
+  };
+}
+
+/**
+ * Each participant's most recent submission only
+ */
+export function latestSubmissions<T extends Pick<AnalyticsRow, 'id' | 'email'>>(rows: T[]): T[] {
+  const latest = new Map<string, T>();
+  for (const row of rows) {
+    const current = latest.get(row.email);
+    if (!current || row.id > current.id) latest.set(row.email, row);
+  }
+  return rows.filter(row => latest.get(row.email) === row);
+}
+
+/**
+ * One entry per question id across versions, in the order versions are given
+ * (newest first gives the latest wording); multiple-choice options are merged
+ */
+export function collectQuestions(versions: AnalyticsVersion[]): AnalyticsQuestion[] {
+  const questions = new Map<string, AnalyticsQuestion>();
+
+  for (const version of versions) {
+    for (const question of version.questions) {
+      const existing = questions.get(question.id);
+      if (existing) {
+        if (existing.options && question.options) {
+          existing.options = [...new Set([...existing.options, ...question.options])];
+        }
+        continue;
+      }
+
+      questions.set(question.id, {
+        id: question.id,
+        text: question.text,
+        type: question.type,
+        ...(question.options && { options: [...question.options] }),
+        ...(question.type === 'likert' && {
+          scale: { min: question.validation?.min ?? 1, max: question.validation?.max ?? 5 },
+        }),
+      });
+    }
+  }
+
+  return [...questions.values()];
+}
+
+function categoriesFor(question: AnalyticsQuestion): string[] {
+  if (question.type === 'likert' && question.scale) {
+    const { min, max } = question.scale;
+    return Array.from({ length: max - min + 1 }, (_, index) => String(min + index));
+  }
+  return question.options ? [...question.options] : [];
+}
+
+interface ShownAnswer {
+  group: string;
+  answer: unknown;
+}
+
+/**
+ * Per question, the answers of every row that was shown it (null when skipped)
+ */
+function collectShownAnswers(versions: AnalyticsVersion[], rows: AnalyticsRow[]): Map<string, ShownAnswer[]> {
+  const questionsByVersion = new Map(versions.map(version => [version.id, version.questions]));
+  const shown = new Map<string, ShownAnswer[]>();
+
+  for (const row of rows) {
+    const questions = questionsByVersion.get(row.versionId) || [];
+    const answers = getAnswerEntries(row.responses);
+    const hidden = new Set(getHiddenQuestionIds(questions, answers));
+
+    for (const question of questions) {
+      if (hidden.has(question.id)) continue;
+      const answer = isAnswered(answers[question.id]) ? answers[question.id] : null;
+      const entries = shown.get(question.id) || [];
+      entries.push({ group: row.group, answer });
+      shown.set(question.id, entries);
+    }
+  }
+
+  return shown;
+}
+
+function tally(question: AnalyticsQuestion, group: string, entries: ShownAnswer[]): QuestionTally {
+  const answers = entries.map(entry => entry.answer).filter(answer => answer !== null);
+  const skipped = entries.length - answers.length;
+
+  let distribution: CategoryCount[] = [];
+  if (isCategorical(question)) {
+    const counts = new Map(categoriesFor(question).map(category => [category, 0]));
+    for (const answer of answers) {
+      // Values no longer offered (e.g. an option renamed) are still counted
+      const key = String(answer);
+      counts.set(key, (counts.get(key) || 0) + 1);
+    }
+    distribution = [...counts].map(([value, count]) => ({ value, count, percent: percentOf(count, answers.length) }));
+  }
+
+  const numbers = question.type === 'likert'
+    ? answers.map(Number).filter(value => Number.isFinite(value))
+    : [];
+
+  return {
+    group,
+    shown: entries.length,
+    answered: answers.length,
+    skipped,
+    skipRate: percentOf(skipped, entries.length),
+    distribution,
+    summary: summarizeNumbers(numbers),
+  };
+}
+
+export function buildQuestionAnalytics(versions: AnalyticsVersion[], rows: AnalyticsRow[]): QuestionAnalytics[] {
+  const shown = collectShownAnswers(versions, rows);
+  const groups = STAKEHOLDER_GROUPS.filter(group => rows.some(row => row.group === group));
+
+  return collectQuestions(versions).map(question => {
+    const entries = shown.get(question.id) || [];
+    return {
+      ...question,
+      overall: tally(question, ALL_GROUPS, entries),
+      byGroup: groups.map(group => tally(question, group, entries.filter(entry => entry.group === group))),
+    };
+  });
+}
+
+/**
+ * Counts of respondents by their answers to two categorical questions;
+ * only respondents who answered both are included
+ */
+export function crossTabulate(
+  rowQuestion: AnalyticsQuestion,
+  columnQuestion: AnalyticsQuestion,
+  versions: AnalyticsVersion[],
+  rows: AnalyticsRow[]
+): CrossTabulation {
+  const rowCategories = categoriesFor(rowQuestion);
+  const columnCategories = categoriesFor(columnQuestion);
+  const questionsByVersion = new Map(versions.map(version => [version.id, version.questions]));
+  const pairs: Array<[string, string]> = [];
+
+  for (const row of rows) {
+    const questions = questionsByVersion.get(row.versionId) || [];
+    const answers = getAnswerEntries(row.responses);
+    const hidden = new Set(getHiddenQuestionIds(questions, answers));
+    const rowAnswer = answers[rowQuestion.id];
+    const columnAnswer = answers[columnQuestion.id];
+
+    if (hidden.has(rowQuestion.id) || hidden.has(columnQuestion.id)) continue;
+    if (!isAnswered(rowAnswer) || !isAnswered(columnAnswer)) continue;
+
+    pairs.push([String(rowAnswer), String(columnAnswer)]);
+  }
+
+  for (const [rowValue, columnValue] of pairs) {
+    if (!rowCategories.includes(rowValue)) rowCategories.push(rowValue);
+    if (!columnCategories.includes(columnValue)) columnCategories.push(columnValue);
+  }
+
+  const counts = rowCategories.map(() => columnCategories.map(() => 0));
+  for (const [rowValue, columnValue] of pairs) {
+    counts[rowCategories.indexOf(rowValue)][columnCategories.indexOf(columnValue)]++;
+  }
+
+  return {
+    rowQuestionId: rowQuestion.id,
+    columnQuestionId: columnQuestion.id,
+    rowCategories,
+    columnCategories,
+    counts,
+    rowTotals: counts.map(cells => cells.reduce((sum, count) => sum + count, 0)),
+    columnTotals: columnCategories.map((_, column) => counts.reduce((sum, cells) => sum + cells[column], 0)),
+    total: pairs.length,
+  };
+}
@@ -0,0 +1,82 @@
+/**
+ * Sliding-Window Rate Limit Core
+ * The store contract and window arithmetic shared by every backend. A store keeps the
+ * timestamps of admitted requests per key; a request is admitted when fewer than the
+ * limit fall inside the trailing window. The in-memory store lives here too - it backs
+ * single-process setups and tests, while rate-limiter.ts adds the database store.
+ * @rule 009 "Security considerations for abuse prevention"
+ * @rule 105 "TypeScript strict typing"
+ */
+
+export interface RateLimitConfig {
+  name: string;
+  requests: number;
+  windowMs: number;
+  // Limit for the per-IP key of anonymous requests, where a whole school can share one address
+  ipRequests?: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetAt: Date;
+  retryAfterSeconds: number;
+}
+
+/**
+ * Storage backend for rate limit counters. Implementations must count the current
+ * request before deciding, so concurrent requests can't both slip under the limit.
+ */
+export interface RateLimitStore {
+  readonly name: string;
+  hit(key: string, config: RateLimitConfig, now: Date): Promise<RateLimitResult>;
+  // Takes back the latest admitted hit, for a request that was counted but then failed
+  release(key: string): Promise<void>;
+  reset(key: string): Promise<void>;
+}
+
+/**
+ * Decides a request from the hits inside the window, oldest first, including the
+ * current one. A rejected request is not counted against later requests.
+ */
+export function evaluateSlidingWindow(config: RateLimitConfig, hits: Date[], now: Date): RateLimitResult {
+  const allowed = hits.length <= config.requests;
+  const admitted = allowed ? hits : hits.slice(0, config.requests);
+
+  // The next slot opens when enough of the oldest admitted hits have aged out
+  const freesSlot = admitted[Math.max(0, admitted.length - config.requests)];
+  const resetAt = new Date((freesSlot ?? now).getTime() + config.windowMs);
+
+  return {
+    allowed,
+    limit: config.requests,
+    remaining: Math.max(0, config.requests - admitted.length),
+    resetAt,
+    retryAfterSeconds: allowed ? 0 : Math.max(1, Math.ceil((resetAt.getTime() - now.getTime()) / 1000)),
+  };
+}
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  readonly name = 'memory';
+  private hits = new Map<string, Date[]>();
+
+  async hit(key: string, config: RateLimitConfig, now: Date): Promise<RateLimitResult> {
+    const windowStart = now.getTime() - config.windowMs;
+    const inWindow = (this.hits.get(key) || []).filter(hit => hit.getTime() > windowStart);
+    inWindow.push(now);
+
+    const result = evaluateSlidingWindow(config, inWindow, now);
+    this.hits.set(key, result.allowed ? inWindow : inWindow.slice(0, -1));
+
+    return result;
+  }
+
+  async release(key: string): Promise<void> {
+    this.hits.set(key, (this.hits.get(key) || []).slice(0, -1));
+  }
+
+  async reset(key: string): Promise<void> {
+    this.hits.delete(key);
+  }
+}
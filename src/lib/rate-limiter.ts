@@ -1,137 +1,232 @@
 /**
  * Rate Limiting Implementation
+ * Sliding-window limits kept in the database by default, so they survive restarts and
+ * hold across every instance that shares it. RATE_LIMIT_STORE=memory keeps counters in
+ * process instead; another backend (e.g. Redis) only has to implement RateLimitStore.
  * @rule 009 "Security considerations for abuse prevention"
  * @rule 060 "API standards for rate limiting"
  * @rule 105 "TypeScript strict typing"
  */
 
-interface RateLimitEntry {
-  count: number;
-  resetTime: number;
-}
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from './prisma';
+import {
+  evaluateSlidingWindow,
+  MemoryRateLimitStore,
+  type RateLimitConfig,
+  type RateLimitResult,
+  type RateLimitStore,
+} from './rate-limit-window';
 
-class RateLimiter {
-  private attempts = new Map<string, RateLimitEntry>();
+export type { RateLimitConfig, RateLimitResult, RateLimitStore };
 
-  /**
-   * Check if request is within rate limit
-   */
-  check(identifier: string, limit: number, windowMs: number): boolean {
-    const now = Date.now();
-    const record = this.attempts.get(identifier);
+// Rate limit configurations
+export const RATE_LIMITS = {
+  OTP_REQUEST: { name: 'otp_request', requests: 5, ipRequests: 120, windowMs: 60 * 1000 }, // 5 per email, 120 per IP a minute
+  OTP_VERIFY: { name: 'otp_verify', requests: 10, ipRequests: 240, windowMs: 60 * 1000 }, // 10 per email, 240 per IP a minute
+  ADMIN_LOGIN: { name: 'admin_login', requests: 5, windowMs: 15 * 60 * 1000 }, // 5 per 15 minutes
+  SURVEY_SUBMIT: { name: 'survey_submit', requests: 1, windowMs: 60 * 60 * 1000 }, // 1 per hour
+  ADMIN_API: { name: 'admin_api', requests: 100, windowMs: 60 * 1000 }, // 100 per minute
+} as const satisfies Record<string, RateLimitConfig>;
 
-    // No previous record or window expired
-    if (!record || now > record.resetTime) {
-      this.attempts.set(identifier, { count: 1, resetTime: now + windowMs });
-      return true;
-    }
+// Hits older than the longest window can never count again
+const LONGEST_WINDOW_MS = Math.max(...Object.values(RATE_LIMITS).map(config => config.windowMs));
+
+export class PrismaRateLimitStore implements RateLimitStore {
+  readonly name = 'database';
+
+  async hit(key: string, config: RateLimitConfig, now: Date): Promise<RateLimitResult> {
+    const windowStart = new Date(now.getTime() - config.windowMs);
+
+    // Insert first, then count: two concurrent requests both see each other's row
+    const created = await prisma.rateLimitHit.create({
+      data: { key, createdAt: now },
+      select: { id: true },
+    });
 
-    // Within window, check if over limit
-    if (record.count >= limit) {
-      return false;
+    const hits = await prisma.rateLimitHit.findMany({
+      where: { key, createdAt: { gt: windowStart } },
+      select: { createdAt: true },
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+    });
+
+    const result = evaluateSlidingWindow(config, hits.map(hit => hit.createdAt), now);
+
+    if (!result.allowed) {
+      await prisma.rateLimitHit.delete({ where: { id: created.id } });
     }
 
-    // Increment count
-    record.count++;
-    return true;
+    await prisma.rateLimitHit.deleteMany({
+      where: { createdAt: { lte: new Date(now.getTime() - LONGEST_WINDOW_MS) } },
+    });
+
+    return result;
   }
 
-  /**
-   * Get remaining requests for identifier
-   */
-  getRemaining(identifier: string, limit: number): number {
-    const record = this.attempts.get(identifier);
-    if (!record || Date.now() > record.resetTime) {
-      return limit;
+  async release(key: string): Promise<void> {
+    const latest = await prisma.rateLimitHit.findFirst({
+      where: { key },
+      select: { id: true },
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+    });
+
+    if (latest) {
+      await prisma.rateLimitHit.delete({ where: { id: latest.id } });
     }
-    return Math.max(0, limit - record.count);
   }
 
-  /**
-   * Get reset time for identifier
-   */
-  getResetTime(identifier: string): number {
-    const record = this.attempts.get(identifier);
-    return record?.resetTime || Date.now();
+  async reset(key: string): Promise<void> {
+    await prisma.rateLimitHit.deleteMany({ where: { key } });
   }
+}
+
+let activeStore: RateLimitStore | null = null;
 
-  /**
-   * Clear rate limit for identifier (for testing)
-   */
-  clear(identifier: string): void {
-    this.attempts.delete(identifier);
+export function getRateLimitStore(): RateLimitStore {
+  if (!activeStore) {
+    activeStore = process.env.RATE_LIMIT_STORE === 'memory'
+      ? new MemoryRateLimitStore()
+      : new PrismaRateLimitStore();
+    console.log('🚦 Rate limit store:', activeStore.name);
   }
+  return activeStore;
 }
 
-// Rate limit configurations
-export const RATE_LIMITS = {
-  OTP_REQUEST: { requests: 5, windowMs: 60 * 1000 }, // 5 per minute
-  OTP_VERIFY: { requests: 10, windowMs: 60 * 1000 }, // 10 per minute
-  ADMIN_LOGIN: { requests: 5, windowMs: 15 * 60 * 1000 }, // 5 per 15 minutes
-  SURVEY_SUBMIT: { requests: 1, windowMs: 60 * 60 * 1000 }, // 1 per hour
-  ADMIN_API: { requests: 100, windowMs: 60 * 1000 }, // 100 per minute
-} as const;
-
-// Global rate limiter instances
-export const otpRateLimiter = new RateLimiter();
-export const adminRateLimiter = new RateLimiter();
-export const surveyRateLimiter = new RateLimiter();
-
 /**
  * Get client identifier for rate limiting
  */
 export function getClientIdentifier(request: Request): string {
-  // Use IP address if available, fallback to user agent
   const forwarded = request.headers.get('x-forwarded-for');
-  const ip = forwarded ? forwarded.split(',')[0] : 
-             request.headers.get('x-real-ip') || 
+  const ip = forwarded ? forwarded.split(',')[0].trim() :
+             request.headers.get('x-real-ip') ||
              'unknown';
-  
+
   return ip;
 }
 
+export interface RateLimitSubject {
+  // Email an anonymous request acts on (OTP requests, logins)
+  email?: string;
+  // Signed-in account, e.g. "admin:3" or "participant:a@b.org"
+  account?: string;
+}
+
+export interface RateLimitKey {
+  key: string;
+  config: RateLimitConfig;
+}
+
 /**
- * Apply rate limiting to API route
+ * Keys a request is counted under, each with the limit it is held to. Signed-in users
+ * are limited per account - schools often share one IP. Anyone else is limited per
+ * client IP plus the email they act on, so neither rotating addresses nor spreading
+ * attempts across emails gets around it; the IP key takes the config's ipRequests so a
+ * classroom behind one address can still sign in together.
  */
-export function withRateLimit(
-  rateLimiter: RateLimiter,
-  config: { requests: number; windowMs: number }
-) {
-  return (handler: Function) => {
-    return async (request: Request, ...args: any[]) => {
-      const identifier = getClientIdentifier(request);
-      
-      if (!rateLimiter.check(identifier, config.requests, config.windowMs)) {
-        console.log('🚫 Rate limit exceeded for:', identifier);
-        
-        return new Response(
-          JSON.stringify({
-            error: 'Too many requests',
-            retryAfter: Math.ceil((rateLimiter.getResetTime(identifier) - Date.now()) / 1000),
-          }),
+export function getRateLimitKeys(request: Request, config: RateLimitConfig, subject: RateLimitSubject = {}): RateLimitKey[] {
+  if (subject.account) {
+    return [{ key: `${config.name}:${subject.account.toLowerCase()}`, config }];
+  }
+
+  const keys = [{
+    key: `${config.name}:ip:${getClientIdentifier(request)}`,
+    config: { ...config, requests: config.ipRequests ?? config.requests },
+  }];
+
+  if (subject.email) {
+    keys.push({ key: `${config.name}:email:${subject.email.trim().toLowerCase()}`, config });
+  }
+
+  return keys;
+}
+
+/**
+ * Counts the request against every key and returns a 429 response if any limit is
+ * exceeded, or null to continue. A rejected request gives back what it counted on the
+ * other keys. A store failure lets the request through - the limiter must never take
+ * the survey down with it.
+ */
+export async function enforceRateLimit(
+  request: NextRequest,
+  config: RateLimitConfig,
+  subject: RateLimitSubject = {}
+): Promise<NextResponse | null> {
+  try {
+    const store = getRateLimitStore();
+    const now = new Date();
+    const counted: string[] = [];
+
+    for (const { key, config: keyConfig } of getRateLimitKeys(request, config, subject)) {
+      const result = await store.hit(key, keyConfig, now);
+
+      if (!result.allowed) {
+        for (const countedKey of counted) {
+          await store.release(countedKey);
+        }
+
+        console.log('🚫 Rate limit exceeded for:', key.replace(/(:email:.{2}).*(@.*)/, '$1***$2'));
+
+        return NextResponse.json(
+          {
+            error: 'Too many requests. Please try again later.',
+            retryAfter: result.retryAfterSeconds,
+          },
           {
             status: 429,
             headers: {
-              'Content-Type': 'application/json',
-              'Retry-After': Math.ceil((rateLimiter.getResetTime(identifier) - Date.now()) / 1000).toString(),
-              'X-RateLimit-Limit': config.requests.toString(),
-              'X-RateLimit-Remaining': rateLimiter.getRemaining(identifier, config.requests).toString(),
-              'X-RateLimit-Reset': rateLimiter.getResetTime(identifier).toString(),
+              'Retry-After': result.retryAfterSeconds.toString(),
+              'X-RateLimit-Limit': result.limit.toString(),
+              'X-RateLimit-Remaining': result.remaining.toString(),
+              'X-RateLimit-Reset': Math.ceil(result.resetAt.getTime() / 1000).toString(),
             },
           }
         );
       }
 
-      // Add rate limit headers to successful responses
-      const response = await handler(request, ...args);
-      
-      if (response instanceof Response) {
-        response.headers.set('X-RateLimit-Limit', config.requests.toString());
-        response.headers.set('X-RateLimit-Remaining', rateLimiter.getRemaining(identifier, config.requests).toString());
-        response.headers.set('X-RateLimit-Reset', rateLimiter.getResetTime(identifier).toString());
-      }
+      counted.push(key);
+    }
+
+    return null;
 
-      return response;
-    };
-  };
+  } catch (error) {
+    console.error('❌ Rate limiter error:', error);
+    return null;
+  }
+}
+
+/**
+ * Un-counts a request that passed enforceRateLimit but then failed, so an error on
+ * our side never uses up the caller's allowance
+ */
+export async function releaseRateLimit(
+  request: NextRequest,
+  config: RateLimitConfig,
+  subject: RateLimitSubject = {}
+): Promise<void> {
+  try {
+    const store = getRateLimitStore();
+    for (const { key } of getRateLimitKeys(request, config, subject)) {
+      await store.release(key);
+    }
+  } catch (error) {
+    console.error('❌ Rate limiter release error:', error);
+  }
+}
+
+/**
+ * Clears every hit counted for a subject, e.g. when an admin lets a participant resubmit
+ */
+export async function resetRateLimit(
+  request: NextRequest,
+  config: RateLimitConfig,
+  subject: RateLimitSubject = {}
+): Promise<void> {
+  try {
+    const store = getRateLimitStore();
+    for (const { key } of getRateLimitKeys(request, config, subject)) {
+      await store.reset(key);
+    }
+  } catch (error) {
+    console.error('❌ Rate limiter reset error:', error);
+  }
 }
@@ -0,0 +1,390 @@
+/**
+ * Research Export Formats
+ * Builds a codebook from the survey version question definitions and uses it to
+ * lay out responses for statistics packages: a labelled SPSS .sav (one row per
+ * submission), a tidy long-format CSV (one row per submission and question) and
+ * JSON Lines (one object per submission). Works on rows already loaded by the
+ * export API so it can be tested without Prisma.
+ * @rule 060 "API standards for data export operations"
+ * @rule 105 "TypeScript strict typing"
+ */
+
+import { collectQuestions } from './question-analytics';
+import { buildAnswerSheet, getAnswerEntries, isAnswered } from './response-detail';
+import { writeSavFile, type SavMeasure, type SavValue } from './spss-writer';
+import { STAKEHOLDER_GROUPS, type SurveyQuestion } from './validation';
+
+export const RESEARCH_FORMATS = ['spss', 'long_csv', 'jsonl'] as const;
+
+export type ResearchFormat = typeof RESEARCH_FORMATS[number];
+
+// Words SPSS reserves, which cannot be variable names
+const RESERVED_NAMES = new Set(['all', 'and', 'by', 'eq', 'ge', 'gt', 'le', 'lt', 'ne', 'not', 'or', 'to', 'with']);
+
+export interface ExportVersion {
+  id: number;
+  version: string;
+  questions: SurveyQuestion[];
+}
+
+export interface ExportResponse {
+  id: number;
+  participantId: string;
+  group: string;
+  versionId: number;
+  submittedAt: Date;
+  partial: boolean;
+  submissionNumber: number | null;
+  isResubmission: boolean;
+  completionTime: number | null;
+  activeTime: number | null;
+  idleTime: number | null;
+  deviceType: string | null;
+  responses: unknown;
+  // "<questionId>_codes" columns from buildCodingColumns()
+  codes?: Record<string, string>;
+}
+
+export interface ValueLabel {
+  value: number;
+  label: string;
+}
+
+export interface CodebookVariable {
+  name: string;
+  label: string;
+  source: 'submission' | 'question' | 'coding';
+  // Set for question and coding variables
+  questionId?: string;
+  questionType?: SurveyQuestion['type'];
+  storage: 'numeric' | 'string' | 'datetime';
+  measure: SavMeasure;
+  valueLabels: ValueLabel[];
+  // Survey versions that ask the question
+  versions: string[];
+}
+
+const yesNo: ValueLabel[] = [{ value: 0, label: 'No' }, { value: 1, label: 'Yes' }];
+const groupLabels: ValueLabel[] = STAKEHOLDER_GROUPS.map((group, index) => ({ value: index + 1, label: group.replace('_', ' ') }));
+
+function submissionVariable(
+  name: string,
+  label: string,
+  storage: CodebookVariable['storage'],
+  measure: SavMeasure,
+  valueLabels: ValueLabel[] = []
+): CodebookVariable {
+  return { name, label, source: 'submission', storage, measure, valueLabels, versions: [] };
+}
+
+const SUBMISSION_VARIABLES = [
+  submissionVariable('participant_id', 'Participant ID', 'string', 'nominal'),
+  submissionVariable('response_id', 'Response ID', 'numeric', 'nominal'),
+  submissionVariable('stakeholder_group', 'Stakeholder group', 'numeric', 'nominal', groupLabels),
+  submissionVariable('survey_version', 'Survey version', 'string', 'nominal'),
+  submissionVariable('submitted_at', 'Submitted at (UTC)', 'datetime', 'scale'),
+  submissionVariable('is_partial', 'Partial response', 'numeric', 'nominal', yesNo),
+  submissionVariable('submission_number', 'Submission number for the participant', 'numeric', 'scale'),
+  submissionVariable('is_resubmission', 'Resubmission', 'numeric', 'nominal', yesNo),
+];
+
+const TIMING_VARIABLES = [
+  submissionVariable('completion_time', 'Completion time (seconds)', 'numeric', 'scale'),
+  submissionVariable('active_time', 'Active time (seconds)', 'numeric', 'scale'),
+  submissionVariable('idle_time', 'Idle time (seconds)', 'numeric', 'scale'),
+  submissionVariable('device_type', 'Device type', 'string', 'nominal'),
+];
+
+function groupCode(group: string): number | null {
+  const index = STAKEHOLDER_GROUPS.indexOf(group as typeof STAKEHOLDER_GROUPS[number]);
+  return index === -1 ? null : index + 1;
+}
+
+// Coded values of the submission variables, as stored in the .sav
+const SUBMISSION_VALUES: Record<string, (response: ExportResponse, version: string) => SavValue> = {
+  participant_id: response => response.participantId,
+  response_id: response => response.id,
+  stakeholder_group: response => groupCode(response.group),
+  survey_version: (_, version) => version,
+  submitted_at: response => response.submittedAt,
+  is_partial: response => Number(response.partial),
+  submission_number: response => response.submissionNumber,
+  is_resubmission: response => Number(response.isResubmission),
+  completion_time: response => response.completionTime,
+  active_time: response => response.activeTime,
+  idle_time: response => response.idleTime,
+  device_type: response => response.deviceType,
+};
+
+/**
+ * A valid, unused SPSS variable name for a question ID. IDs are already lower-case
+ * identifiers, so only reserved words, clashes and overlong IDs need changing.
+ */
+export function toVariableName(id: string, taken: Set<string>): string {
+  const base = (/^[a-z]/i.test(id) ? id : `q_${id}`).replace(/[^A-Za-z0-9_.@#$]/g, '_').slice(0, 64);
+  let name = RESERVED_NAMES.has(base.toLowerCase()) || taken.has(base.toLowerCase()) ? `q_${base}`.slice(0, 64) : base;
+  for (let counter = 2; taken.has(name.toLowerCase()); counter++) {
+    name = `${base.slice(0, 64 - String(counter).length - 1)}_${counter}`;
+  }
+  taken.add(name.toLowerCase());
+  return name;
+}
+
+/**
+ * One variable per submission field, question and coded question. Multiple choice
+ * options are numbered from 1 in question order (options added in later versions
+ * continue the numbering); Likert answers keep their scale points as values.
+ */
+export function buildCodebook(
+  versions: ExportVersion[],
+  options: { includeMetadata: boolean; codingColumns?: string[] }
+): CodebookVariable[] {
+  const submission = [...SUBMISSION_VARIABLES, ...(options.includeMetadata ? TIMING_VARIABLES : [])];
+  const taken = new Set(submission.map(variable => variable.name));
+  const versionsAsking = (questionId: string) => versions
+    .filter(version => version.questions.some(question => question.id === questionId))
+    .map(version => version.version);
+
+  const questions = collectQuestions(versions).map((question): CodebookVariable => {
+    const base = {
+      name: toVariableName(question.id, taken),
+      label: question.text,
+      source: 'question' as const,
+      questionId: question.id,
+      questionType: question.type,
+      versions: versionsAsking(question.id),
+    };
+
+    if (question.type === 'multiple_choice') {
+      return {
+        ...base,
+        storage: 'numeric',
+        measure: 'nominal',
+        valueLabels: (question.options || []).map((option, index) => ({ value: index + 1, label: option })),
+      };
+    }
+    if (question.type === 'likert' && question.scale) {
+      const { min, max } = question.scale;
+      return {
+        ...base,
+        storage: 'numeric',
+        measure: 'ordinal',
+        valueLabels: Array.from({ length: max - min + 1 }, (_, index) => ({
+          value: min + index,
+          label: index === 0 ? `${min} (lowest)` : min + index === max ? `${max} (highest)` : String(min + index),
+        })),
+      };
+    }
+    return { ...base, storage: 'string', measure: 'nominal', valueLabels: [] };
+  });
+
+  const codes = (options.codingColumns || []).map((column): CodebookVariable => {
+    const questionId = column.replace(/_codes$/, '');
+    const question = questions.find(entry => entry.questionId === questionId);
+    return {
+      name: toVariableName(column, taken),
+      label: `Qualitative codes: ${question?.label || questionId}`,
+      source: 'coding',
+      questionId,
+      storage: 'string',
+      measure: 'nominal',
+      valueLabels: [],
+      versions: question?.versions || [],
+    };
+  });
+
+  return [...submission, ...questions, ...codes];
+}
+
+/**
+ * Numeric value of an answer for a labelled variable, or null when it has none
+ * (unanswered, or an option that is not in the codebook)
+ */
+export function answerCode(variable: CodebookVariable, answer: unknown): number | null {
+  if (!isAnswered(answer)) return null;
+
+  if (variable.questionType === 'multiple_choice') {
+    const label = variable.valueLabels.find(entry => entry.label === String(answer));
+    return label ? label.value : null;
+  }
+  if (variable.questionType === 'likert') {
+    const value = Number(answer);
+    return Number.isFinite(value) ? value : null;
+  }
+  return null;
+}
+
+function answerText(answer: unknown): string {
+  if (!isAnswered(answer)) return '';
+  return Array.isArray(answer) ? answer.join('; ') : String(answer);
+}
+
+/**
+ * Labelled SPSS system file with one case per submission, in codebook order
+ */
+export function buildSavExport(
+  codebook: CodebookVariable[],
+  responses: ExportResponse[],
+  versions: ExportVersion[],
+  label?: string
+): Buffer {
+  const versionLabels = new Map(versions.map(version => [version.id, version.version]));
+
+  return writeSavFile({
+    label,
+    variables: codebook.map(variable => ({
+      name: variable.name,
+      label: variable.label,
+      type: variable.storage,
+      measure: variable.measure,
+      valueLabels: variable.valueLabels,
+    })),
+    cases: responses.map(response => {
+      const answers = getAnswerEntries(response.responses);
+      return codebook.map(variable => {
+        if (variable.source === 'submission') {
+          return SUBMISSION_VALUES[variable.name](response, versionLabels.get(response.versionId) || '');
+        }
+        const questionId = variable.questionId || '';
+        if (variable.source === 'coding') return response.codes?.[`${questionId}_codes`] || null;
+        if (variable.storage === 'numeric') return answerCode(variable, answers[questionId]);
+        return answerText(answers[questionId]) || null;
+      });
+    }),
+  });
+}
+
+export interface LongRow {
+  participant_id: string;
+  response_id: number;
+  stakeholder_group: string;
+  survey_version: string;
+  submitted_at: string;
+  submission_number: number | null;
+  question_number: number;
+  question_id: string;
+  variable: string;
+  question_type: string;
+  // answered, skipped, or hidden by branching
+  status: string;
+  answer: string;
+  answer_code: number | null;
+  codes?: string;
+}
+
+/**
+ * Tidy rows: one per question each submission's version asked, hidden and skipped
+ * questions included so denominators can be rebuilt from the file alone
+ */
+export function buildLongRows(
+  codebook: CodebookVariable[],
+  responses: ExportResponse[],
+  versions: ExportVersion[],
+  includeCoding: boolean
+): LongRow[] {
+  const versionsById = new Map(versions.map(version => [version.id, version]));
+  const variables = new Map(
+    codebook.filter(variable => variable.source === 'question').map(variable => [variable.questionId, variable])
+  );
+
+  return responses.flatMap(response => {
+    const version = versionsById.get(response.versionId);
+    if (!version) return [];
+
+    return buildAnswerSheet(version.questions, response.responses).items.map(item => {
+      const variable = variables.get(item.questionId);
+      return {
+        participant_id: response.participantId,
+        response_id: response.id,
+        stakeholder_group: response.group,
+        survey_version: version.version,
+        submitted_at: response.submittedAt.toISOString(),
+        submission_number: response.submissionNumber,
+        question_number: item.number,
+        question_id: item.questionId,
+        variable: variable?.name || item.questionId,
+        question_type: item.type,
+        status: item.status,
+        answer: item.status === 'answered' ? answerText(item.answer) : '',
+        answer_code: variable && item.status === 'answered' ? answerCode(variable, item.answer) : null,
+        ...(includeCoding && { codes: response.codes?.[`${item.questionId}_codes`] || '' }),
+      };
+    });
+  });
+}
+
+/**
+ * One JSON object per submission; answers keep their original values and are keyed
+ * by codebook variable name, with numeric codes alongside for labelled questions
+ */
+export function buildJsonLines(
+  codebook: CodebookVariable[],
+  responses: ExportResponse[],
+  versions: ExportVersion[]
+): string {
+  const versionLabels = new Map(versions.map(version => [version.id, version.version]));
+
+  return responses.map(response => {
+    const answers = getAnswerEntries(response.responses);
+    const record: Record<string, unknown> = {};
+
+    for (const variable of codebook) {
+      const questionId = variable.questionId || '';
+      if (variable.source === 'submission') {
+        const value = SUBMISSION_VALUES[variable.name](response, versionLabels.get(response.versionId) || '');
+        // JSON can carry the group name itself
+        record[variable.name] = variable.name === 'stakeholder_group' ? response.group : value;
+      } else if (variable.source === 'coding') {
+        record[variable.name] = response.codes?.[`${questionId}_codes`] ?? null;
+      } else {
+        const answer = answers[questionId];
+        record[variable.name] = isAnswered(answer) ? answer : null;
+        if (variable.storage === 'numeric') {
+          record[`${variable.name}_code`] = answerCode(variable, answer);
+        }
+      }
+    }
+
+    return JSON.stringify(record);
+  }).join('\n') + '\n';
+}
+
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * RFC 4180 CSV with a fixed column order; quotes any cell with commas, quotes or line breaks
+ */
+export function toCsv<Row extends object>(headers: string[], rows: Row[]): string {
+  return [
+    headers.join(','),
+    ...rows.map(row => headers.map(header => csvCell((row as Record<string, unknown>)[header])).join(',')),
+  ].join('\r\n') + '\r\n';
+}
+
+export const LONG_CSV_HEADERS: Array<keyof LongRow> = [
+  'participant_id', 'response_id', 'stakeholder_group', 'survey_version', 'submitted_at', 'submission_number',
+  'question_number', 'question_id', 'variable', 'question_type', 'status', 'answer', 'answer_code',
+];
+
+/**
+ * The codebook as CSV, with value labels written "1=Yes; 2=No"
+ */
+export function codebookCsv(codebook: CodebookVariable[]): string {
+  return toCsv(
+    ['variable', 'label', 'question_id', 'question_type', 'storage', 'measure', 'value_labels', 'versions'],
+    codebook.map(variable => ({
+      variable: variable.name,
+      label: variable.label,
+      question_id: variable.questionId,
+      question_type: variable.questionType,
+      storage: variable.storage,
+      measure: variable.measure,
+      value_labels: variable.valueLabels.map(entry => `${entry.value}=${entry.label}`).join('; '),
+      versions: variable.versions.join('; '),
+    }))
+  );
+}
@@ -0,0 +1,80 @@
+/**
+ * Response Detail Assembly
+ * Joins a stored answers object to the questions of its survey version, in question
+ * order, so admins can read a response without exporting it
+ * @rule 105 "TypeScript strict typing"
+ * @rule 150 "Preventing technical debt with a single rule evaluator"
+ */
+
+import { getHiddenQuestionIds } from './branching';
+import type { SurveyQuestion } from './validation';
+
+export type AnswerStatus = 'answered' | 'skipped' | 'hidden';
+
+export interface AnswerSheetItem {
+  number: number;
+  questionId: string;
+  text: string;
+  type: string;
+  required: boolean;
+  status: AnswerStatus;
+  answer: unknown;
+  options?: string[];
+  scale?: { min: number; max: number };
+}
+
+export interface AnswerSheet {
+  items: AnswerSheetItem[];
+  // Answers whose question is no longer in the version (e.g. edited after responses came in)
+  unmatched: Array<{ questionId: string; answer: unknown }>;
+}
+
+export function isAnswered(answer: unknown): boolean {
+  if (answer === undefined || answer === null) return false;
+  if (typeof answer === 'string') return answer.trim().length > 0;
+  if (Array.isArray(answer)) return answer.length > 0;
+  return true;
+}
+
+/**
+ * Keys starting with "_" are submission bookkeeping, not answers
+ */
+export function getAnswerEntries(responses: unknown): Record<string, unknown> {
+  if (!responses || typeof responses !== 'object' || Array.isArray(responses)) {
+    return {};
+  }
+  return Object.fromEntries(
+    Object.entries(responses as Record<string, unknown>).filter(([key]) => !key.startsWith('_'))
+  );
+}
+
+export function buildAnswerSheet(questions: SurveyQuestion[], responses: unknown): AnswerSheet {
+  const answers = getAnswerEntries(responses);
+  const hidden = new Set(getHiddenQuestionIds(questions, answers));
+  const questionIds = new Set(questions.map(question => question.id));
+
+  const items = questions.map((question, index): AnswerSheetItem => {
+    const answer = answers[question.id];
+
+    return {
+      number: index + 1,
+      questionId: question.id,
+      text: question.text,
+      type: question.type,
+      required: question.required,
+      // A branched-out question counts as hidden even if an answer was stored before the branch changed
+      status: hidden.has(question.id) ? 'hidden' : isAnswered(answer) ? 'answered' : 'skipped',
+      answer: answer ?? null,
+      ...(question.options && { options: question.options }),
+      ...(question.type === 'likert' && {
+        scale: { min: question.validation?.min ?? 1, max: question.validation?.max ?? 5 },
+      }),
+    };
+  });
+
+  const unmatched = Object.entries(answers)
+    .filter(([questionId]) => !questionIds.has(questionId))
+    .map(([questionId, answer]) => ({ questionId, answer }));
+
+  return { items, unmatched };
+}
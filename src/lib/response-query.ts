@@ -0,0 +1,184 @@
+/**
+ * Paginated Response Queries
+ * Builds the filtered, cursor-paginated response list and its statistics for the
+ * admin responses page. Counts come from database aggregates; only the requested
+ * page of rows is ever loaded.
+ * @rule 060 "API standards for admin data retrieval"
+ * @rule 105 "TypeScript strict typing"
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import {
+  getResponseOrderBy,
+  isDurationSort,
+  toLikePattern,
+  type ResponseQuery,
+} from './response-filters';
+
+/**
+ * Ids of responses whose open-ended answers contain the search text
+ */
+async function findResponseIdsMatching(search: string): Promise<number[]> {
+  const versions = await prisma.surveyVersion.findMany({
+    select: { questions: true },
+  });
+
+  const openEndedIds = new Set<string>();
+  for (const version of versions) {
+    const questions = Array.isArray(version.questions) ? version.questions : [];
+    for (const question of questions) {
+      if (question && typeof question === 'object' && 'type' in question && question.type === 'open_ended' && 'id' in question) {
+        openEndedIds.add(String(question.id));
+      }
+    }
+  }
+
+  if (openEndedIds.size === 0) {
+    return [];
+  }
+
+  const rows = await prisma.$queryRaw<Array<{ id: number }>>`
+    SELECT DISTINCT r.id AS id
+    FROM SurveyResponse r, json_each(r.responses) answer
+    WHERE answer.key IN (${Prisma.join([...openEndedIds])})
+      AND answer.type = 'text'
+      AND answer.value LIKE ${toLikePattern(search)} ESCAPE '\\'
+  `;
+
+  return rows.map(row => Number(row.id));
+}
+
+export async function buildResponseWhere(query: ResponseQuery): Promise<Prisma.SurveyResponseWhereInput> {
+  const conditions: Prisma.SurveyResponseWhereInput[] = [];
+
+  if (query.group) conditions.push({ group: query.group });
+  if (query.versionId) conditions.push({ versionId: query.versionId });
+  if (query.status) conditions.push({ partial: query.status === 'partial' });
+  if (query.deviceType) conditions.push({ deviceType: query.deviceType });
+  if (query.from || query.to) {
+    conditions.push({
+      submittedAt: {
+        ...(query.from && { gte: query.from }),
+        ...(query.to && { lte: query.to }),
+      },
+    });
+  }
+  if (isDurationSort(query.sort)) {
+    conditions.push({ completionTime: { not: null } });
+  }
+
+  if (query.resubmission) {
+    conditions.push({ isResubmission: query.resubmission === 'only' });
+  }
+
+  if (query.search) {
+    conditions.push({ id: { in: await findResponseIdsMatching(query.search) } });
+  }
+
+  return conditions.length > 0 ? { AND: conditions } : {};
+}
+
+export async function getResponseStats(where: Prisma.SurveyResponseWhereInput) {
+  const [byStatus, byGroup, participants, timing] = await Promise.all([
+    prisma.surveyResponse.groupBy({ by: ['partial'], where, _count: { _all: true } }),
+    prisma.surveyResponse.groupBy({ by: ['group'], where, _count: { _all: true } }),
+    prisma.surveyResponse.groupBy({ by: ['email'], where }),
+    prisma.surveyResponse.aggregate({ where: { AND: [where, { partial: false }] }, _avg: { completionTime: true } }),
+  ]);
+
+  const countFor = (partial: boolean) => byStatus.find(row => row.partial === partial)?._count._all || 0;
+
+  return {
+    totalResponses: countFor(true) + countFor(false),
+    completedResponses: countFor(false),
+    partialResponses: countFor(true),
+    uniqueParticipants: participants.length,
+    averageCompletionTime: timing._avg.completionTime === null ? null : Math.round(timing._avg.completionTime),
+    byGroup: Object.fromEntries(byGroup.map(row => [row.group, row._count._all])),
+  };
+}
+
+/**
+ * Values present in the data, for the filter dropdowns
+ */
+export async function getResponseFilterOptions() {
+  const [versions, deviceTypes] = await Promise.all([
+    prisma.surveyVersion.findMany({
+      where: { responses: { some: {} } },
+      select: { id: true, version: true, group: true },
+      orderBy: [{ group: 'asc' }, { createdAt: 'desc' }],
+    }),
+    prisma.surveyResponse.groupBy({
+      by: ['deviceType'],
+      where: { deviceType: { not: null } },
+    }),
+  ]);
+
+  return {
+    versions,
+    deviceTypes: deviceTypes.map(row => row.deviceType).filter((type): type is string => type !== null),
+  };
+}
+
+export async function listResponses(query: ResponseQuery) {
+  const where = await buildResponseWhere(query);
+
+  const rows = await prisma.surveyResponse.findMany({
+    where,
+    select: {
+      id: true,
+      email: true,
+      group: true,
+      versionId: true,
+      responses: true,
+      submittedAt: true,
+      completionTime: true,
+      partial: true,
+      userAgent: true,
+      deviceType: true,
+      submissionNumber: true,
+      isResubmission: true,
+      version: {
+        select: {
+          version: true,
+          group: true,
+          description: true,
+        },
+      },
+    },
+    orderBy: getResponseOrderBy(query.sort),
+    take: query.limit + 1,
+    ...(query.cursor && { cursor: { id: query.cursor }, skip: 1 }),
+  });
+
+  const hasMore = rows.length > query.limit;
+  const page = rows.slice(0, query.limit);
+
+  return {
+    where,
+    nextCursor: hasMore ? page[page.length - 1].id : null,
+    responses: page.map(response => ({
+      id: response.id,
+      email: response.email.replace(/(.{2}).*(@.*)/, '$1***$2'), // Mask email for privacy
+      group: response.group,
+      versionId: response.versionId,
+      submittedAt: response.submittedAt.toISOString(),
+      completionTime: response.completionTime,
+      partial: response.partial,
+      deviceType: response.deviceType || 'unknown',
+      userAgent: response.userAgent || 'unknown',
+      questionsAnswered: response.responses && typeof response.responses === 'object'
+        ? Object.keys(response.responses).filter(key => !key.startsWith('_')).length
+        : 0,
+      version: {
+        version: response.version?.version || 'v1.0',
+        group: response.version?.group || response.group,
+        description: response.version?.description || 'Survey version',
+      },
+      // Stored when the submission completes; null while a draft
+      submissionNumber: response.submissionNumber,
+      isResubmission: response.isResubmission,
+    })),
+  };
+}
@@ -0,0 +1,301 @@
+/**
+ * SPSS System File Writer
+ * Writes an uncompressed, little-endian .sav file: variable and value labels,
+ * long variable names, very long strings, measurement levels and UTF-8 text. Reads in SPSS, PSPP,
+ * R (haven) and Stata 16+ (import spss). Pure so it can be tested byte by byte.
+ * @rule 060 "API standards for data export operations"
+ * @rule 105 "TypeScript strict typing"
+ */
+
+// Longest string a variable can hold; longer text is cut on a character boundary
+export const SAV_MAX_STRING = 32767;
+// Longer strings are stored as a run of segment variables: each of the leading
+// segments is 255 bytes wide but carries only 252 bytes of the value
+const SAV_SEGMENT_WIDTH = 255;
+const SAV_SEGMENT_BYTES = 252;
+// Value labels longer than this are rejected by older SPSS releases
+export const SAV_MAX_VALUE_LABEL = 120;
+const SAV_MAX_VARIABLE_LABEL = 255;
+const SAV_MAX_FILE_LABEL = 64;
+
+const SYSMIS = -Number.MAX_VALUE;
+// Seconds between the SPSS epoch (14 Oct 1582) and the Unix epoch
+const SPSS_EPOCH_OFFSET = -Date.UTC(1582, 9, 14) / 1000;
+
+const FORMAT_TYPES = { string: 1, numeric: 5, datetime: 22 } as const;
+const MEASURES = { nominal: 1, ordinal: 2, scale: 3 } as const;
+
+export type SavMeasure = keyof typeof MEASURES;
+
+export interface SavVariable {
+  // 1-64 characters: a letter, then letters, digits, "_", ".", "@", "#" or "$"
+  name: string;
+  label?: string;
+  type: 'numeric' | 'string' | 'datetime';
+  measure: SavMeasure;
+  decimals?: number;
+  valueLabels?: Array<{ value: number; label: string }>;
+}
+
+export type SavValue = number | string | Date | null;
+
+export interface SavFile {
+  label?: string;
+  variables: SavVariable[];
+  // One array per case, in variable order
+  cases: SavValue[][];
+  createdAt?: Date;
+}
+
+/**
+ * UTF-8 bytes of a string cut to at most maxBytes without splitting a character
+ */
+export function truncateUtf8(text: string, maxBytes: number): Buffer {
+  const bytes = Buffer.from(text, 'utf8');
+  if (bytes.length <= maxBytes) return bytes;
+
+  let end = maxBytes;
+  // Back up over continuation bytes (10xxxxxx) to the start of the cut character
+  while (end > 0 && (bytes[end] & 0xc0) === 0x80) end--;
+  return bytes.subarray(0, end);
+}
+
+export function toSpssDateTime(date: Date): number {
+  return date.getTime() / 1000 + SPSS_EPOCH_OFFSET;
+}
+
+/**
+ * Unique, upper-case names of at most eight bytes for the dictionary; the full
+ * names are restored from the long variable names record
+ */
+export function shortVariableNames(names: string[]): string[] {
+  const taken = new Set<string>();
+  return names.map(name => {
+    const base = name.toUpperCase().slice(0, 8);
+    let short = base;
+    for (let counter = 1; taken.has(short); counter++) {
+      short = `${base.slice(0, 8 - String(counter).length)}${counter}`;
+    }
+    taken.add(short);
+    return short;
+  });
+}
+
+class SavBuffer {
+  private chunks: Buffer[] = [];
+
+  int32(...values: number[]) {
+    const chunk = Buffer.alloc(values.length * 4);
+    values.forEach((value, index) => chunk.writeInt32LE(value, index * 4));
+    this.chunks.push(chunk);
+  }
+
+  float64(...values: number[]) {
+    const chunk = Buffer.alloc(values.length * 8);
+    values.forEach((value, index) => chunk.writeDoubleLE(value, index * 8));
+    this.chunks.push(chunk);
+  }
+
+  // Text space-padded (or cut) to exactly length bytes
+  text(value: string | Buffer, length: number) {
+    const chunk = Buffer.alloc(length, ' ');
+    (typeof value === 'string' ? truncateUtf8(value, length) : value).copy(chunk, 0, 0, length);
+    this.chunks.push(chunk);
+  }
+
+  bytes(chunk: Buffer) {
+    this.chunks.push(chunk);
+  }
+
+  toBuffer() {
+    return Buffer.concat(this.chunks);
+  }
+}
+
+const roundUp = (value: number, multiple: number) => Math.ceil(value / multiple) * multiple;
+
+function packFormat(type: number, width: number, decimals: number) {
+  return (type << 16) | (width << 8) | decimals;
+}
+
+interface Segment {
+  width: number;
+  // The slice of the value this segment stores
+  offset: number;
+  length: number;
+}
+
+/**
+ * How a variable is laid out in the dictionary: one segment, or for strings over
+ * 255 bytes a very long string split across several
+ */
+function segmentsFor(width: number): Segment[] {
+  if (width <= SAV_SEGMENT_WIDTH) return [{ width, offset: 0, length: width }];
+
+  const count = Math.ceil(width / SAV_SEGMENT_BYTES);
+  return Array.from({ length: count }, (_, index) => {
+    const offset = index * SAV_SEGMENT_BYTES;
+    return index < count - 1
+      ? { width: SAV_SEGMENT_WIDTH, offset, length: SAV_SEGMENT_BYTES }
+      : { width: width - offset, offset, length: width - offset };
+  });
+}
+
+function stringWidth(cases: SavValue[][], index: number): number {
+  const longest = cases.reduce((max, row) => {
+    const value = row[index];
+    return typeof value === 'string' ? Math.max(max, Buffer.byteLength(value, 'utf8')) : max;
+  }, 1);
+  return Math.min(longest, SAV_MAX_STRING);
+}
+
+function writeHeader(out: SavBuffer, file: SavFile, caseSize: number) {
+  const created = file.createdAt || new Date();
+  const [, day, month, year] = created.toUTCString().split(' ').map(part => part.replace(',', ''));
+  const pad = (value: number) => String(value).padStart(2, '0');
+
+  out.text('$FL2', 4);
+  out.text('@(#) SPSS DATA FILE NCLB Survey App', 60);
+  // Layout code 2, case size in 8-byte units, no compression, no weight variable, case count
+  out.int32(2, caseSize, 0, 0, file.cases.length);
+  out.float64(100);
+  out.text(`${day} ${month} ${year.slice(-2)}`, 9);
+  out.text(`${pad(created.getUTCHours())}:${pad(created.getUTCMinutes())}:${pad(created.getUTCSeconds())}`, 8);
+  out.text(file.label || '', SAV_MAX_FILE_LABEL);
+  out.text('', 3);
+}
+
+function writeExtension(out: SavBuffer, subtype: number, size: number, data: Buffer) {
+  out.int32(7, subtype, size, data.length / size);
+  out.bytes(data);
+}
+
+function int32Block(values: number[]): Buffer {
+  const block = Buffer.alloc(values.length * 4);
+  values.forEach((value, index) => block.writeInt32LE(value, index * 4));
+  return block;
+}
+
+function float64Block(values: number[]): Buffer {
+  const block = Buffer.alloc(values.length * 8);
+  values.forEach((value, index) => block.writeDoubleLE(value, index * 8));
+  return block;
+}
+
+export function writeSavFile(file: SavFile): Buffer {
+  const widths = file.variables.map((variable, index) => (
+    variable.type === 'string' ? stringWidth(file.cases, index) : 0
+  ));
+  const segments = widths.map(segmentsFor);
+  // 8-byte slots per segment; a string takes one slot per started 8 bytes
+  const slots = segments.map(parts => parts.map(part => (part.width > 0 ? roundUp(part.width, 8) / 8 : 1)));
+
+  // Variables keep the names they'd have without segments; the extra segments are named after them
+  const segmentNames = file.variables.flatMap((variable, index) => (
+    segments[index].slice(1).map((_, segment) => `${variable.name}_${segment + 1}`)
+  ));
+  const allShortNames = shortVariableNames([...file.variables.map(variable => variable.name), ...segmentNames]);
+  const shortNames = allShortNames.slice(0, file.variables.length);
+  let nextSegmentName = file.variables.length;
+
+  const out = new SavBuffer();
+  writeHeader(out, file, slots.flat().reduce((sum, count) => sum + count, 0));
+
+  // Variable records, each string segment followed by one continuation record per extra slot
+  const positions: number[] = [];
+  let position = 1;
+  file.variables.forEach((variable, index) => {
+    positions.push(position);
+    const label = variable.label ? truncateUtf8(variable.label, SAV_MAX_VARIABLE_LABEL) : null;
+
+    segments[index].forEach((part, segment) => {
+      position += slots[index][segment];
+
+      const format = variable.type === 'string'
+        ? packFormat(FORMAT_TYPES.string, part.width, 0)
+        : variable.type === 'datetime'
+          ? packFormat(FORMAT_TYPES.datetime, 20, 0)
+          : packFormat(FORMAT_TYPES.numeric, 8, variable.decimals ?? 0);
+      // Only the first segment carries the label
+      const segmentLabel = segment === 0 ? label : null;
+
+      out.int32(2, part.width, segmentLabel ? 1 : 0, 0, format, format);
+      out.text(segment === 0 ? shortNames[index] : allShortNames[nextSegmentName++], 8);
+      if (segmentLabel) {
+        out.int32(segmentLabel.length);
+        out.text(segmentLabel, roundUp(segmentLabel.length, 4));
+      }
+
+      for (let slot = 1; slot < slots[index][segment]; slot++) {
+        out.int32(2, -1, 0, 0, 0, 0);
+        out.text('', 8);
+      }
+    });
+  });
+
+  // Value labels, one record pair per numeric variable that has them
+  file.variables.forEach((variable, index) => {
+    if (variable.type === 'string' || !variable.valueLabels?.length) return;
+
+    out.int32(3, variable.valueLabels.length);
+    for (const { value, label } of variable.valueLabels) {
+      const text = truncateUtf8(label, SAV_MAX_VALUE_LABEL);
+      out.float64(value);
+      // Length byte plus label, padded to a multiple of 8
+      const entry = Buffer.alloc(roundUp(text.length + 1, 8), ' ');
+      entry.writeUInt8(text.length, 0);
+      text.copy(entry, 1);
+      out.bytes(entry);
+    }
+    out.int32(4, 1, positions[index]);
+  });
+
+  // Machine integer info: release 1.0.0, IEEE 754 floats, little-endian, UTF-8 (code page 65001)
+  writeExtension(out, 3, 4, int32Block([1, 0, 0, -1, 1, 1, 2, 65001]));
+  // Machine floating point info: system-missing, highest and lowest values
+  const lowest = Buffer.from('feffffffffffefff', 'hex').readDoubleLE(0);
+  writeExtension(out, 4, 8, float64Block([SYSMIS, Number.MAX_VALUE, lowest]));
+  // Display parameters, one entry per segment: measurement level, column width and
+  // alignment (left for text, right for numbers)
+  writeExtension(out, 11, 4, int32Block(file.variables.flatMap((variable, index) => (
+    segments[index].flatMap(() => [
+      MEASURES[variable.measure],
+      variable.type === 'string' ? Math.max(8, Math.min(widths[index], 40)) : 8,
+      variable.type === 'string' ? 0 : 1,
+    ])
+  ))));
+  // Long variable names as SHORT=Long pairs separated by tabs
+  writeExtension(out, 13, 1, Buffer.from(
+    file.variables.map((variable, index) => `${shortNames[index]}=${variable.name}`).join('\t'),
+    'utf8'
+  ));
+  // Very long strings as SHORT=width pairs, each ended by a NUL and a tab
+  const veryLong = file.variables
+    .map((_, index) => (segments[index].length > 1 ? `${shortNames[index]}=${String(widths[index]).padStart(5, '0')}\0\t` : ''))
+    .join('');
+  if (veryLong) {
+    writeExtension(out, 14, 1, Buffer.from(veryLong, 'utf8'));
+  }
+  writeExtension(out, 20, 1, Buffer.from('UTF-8', 'ascii'));
+
+  // Dictionary terminator
+  out.int32(999, 0);
+
+  for (const row of file.cases) {
+    file.variables.forEach((variable, index) => {
+      const value = row[index];
+      if (variable.type === 'string') {
+        const bytes = typeof value === 'string' ? truncateUtf8(value, widths[index]) : Buffer.alloc(0);
+        segments[index].forEach((part, segment) => {
+          out.text(bytes.subarray(part.offset, part.offset + part.length), slots[index][segment] * 8);
+        });
+      } else if (value instanceof Date) {
+        out.float64(toSpssDateTime(value));
+      } else {
+        out.float64(typeof value === 'number' && Number.isFinite(value) ? value : SYSMIS);
+      }
+    });
+  }
+
+  return out.toBuffer();
+}
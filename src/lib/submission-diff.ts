@@ -0,0 +1,97 @@
+/**
+ * Submission History Diff
+ * Lines up a participant's complete submissions question by question and marks
+ * what changed from each submission to the next
+ * @rule 105 "TypeScript strict typing"
+ * @rule 150 "Preventing technical debt with a single rule evaluator"
+ */
+
+import { buildAnswerSheet } from './response-detail';
+import type { SurveyQuestion } from './validation';
+
+export type AnswerChange = 'unchanged' | 'changed' | 'added' | 'removed';
+
+export interface DiffSubmission {
+  id: number;
+  questions: SurveyQuestion[];
+  responses: unknown;
+}
+
+export interface SubmissionDiffRow {
+  questionId: string;
+  text: string;
+  type: string;
+  // One entry per submission, in submission order; null when not answered or not shown
+  answers: unknown[];
+  // Compared with the previous submission; null for the first
+  changes: Array<AnswerChange | null>;
+}
+
+export interface SubmissionDiff {
+  rows: SubmissionDiffRow[];
+  // Number of questions whose answer changed, per submission (0 for the first)
+  changedCounts: number[];
+}
+
+/**
+ * Whitespace and the order of multi-select choices are not changes
+ */
+function normalizeAnswer(answer: unknown): string {
+  if (typeof answer === 'string') return JSON.stringify(answer.trim());
+  if (Array.isArray(answer)) return JSON.stringify(answer.map(normalizeAnswer).sort());
+  return JSON.stringify(answer);
+}
+
+export function compareAnswers(before: unknown, after: unknown): AnswerChange {
+  if (before === null && after === null) return 'unchanged';
+  if (before === null) return 'added';
+  if (after === null) return 'removed';
+  return normalizeAnswer(before) === normalizeAnswer(after) ? 'unchanged' : 'changed';
+}
+
+export function buildSubmissionDiff(submissions: DiffSubmission[]): SubmissionDiff {
+  const sheets = submissions.map(submission => buildAnswerSheet(submission.questions, submission.responses));
+
+  // Latest wording and order first, then questions only earlier versions asked
+  const rowsById = new Map<string, Pick<SubmissionDiffRow, 'questionId' | 'text' | 'type'>>();
+  for (const sheet of [...sheets].reverse()) {
+    for (const item of sheet.items) {
+      if (!rowsById.has(item.questionId)) {
+        rowsById.set(item.questionId, { questionId: item.questionId, text: item.text, type: item.type });
+      }
+    }
+  }
+  for (const sheet of sheets) {
+    for (const entry of sheet.unmatched) {
+      if (!rowsById.has(entry.questionId)) {
+        rowsById.set(entry.questionId, { questionId: entry.questionId, text: entry.questionId, type: 'unknown' });
+      }
+    }
+  }
+
+  const answerMaps = sheets.map(sheet => {
+    const answers = new Map<string, unknown>();
+    for (const item of sheet.items) {
+      if (item.status === 'answered') answers.set(item.questionId, item.answer);
+    }
+    for (const entry of sheet.unmatched) {
+      answers.set(entry.questionId, entry.answer);
+    }
+    return answers;
+  });
+
+  const changedCounts = submissions.map(() => 0);
+  const rows = [...rowsById.values()].map((row): SubmissionDiffRow => {
+    const answers = answerMaps.map(answers => answers.get(row.questionId) ?? null);
+    const changes = answers.map((answer, index) => {
+      if (index === 0) return null;
+      const change = compareAnswers(answers[index - 1], answer);
+      if (change !== 'unchanged') changedCounts[index]++;
+      return change;
+    });
+
+    return { ...row, answers, changes };
+  });
+
+  return { rows, changedCounts };
+}
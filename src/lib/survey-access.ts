@@ -0,0 +1,26 @@
+/**
+ * Survey Access Helpers (client-safe)
+ * Shared by the API routes that refuse blocked participants and the pages that
+ * send them to the blocked page
+ * @rule 012 "API security for access control"
+ */
+
+export interface BlockDetails {
+  reason: string | null;
+  blockedAt: string | null;
+}
+
+/**
+ * Blocked page URL carrying the participant's masked-on-display email and the admin's reason
+ */
+export function getBlockedPageUrl(email: string, blocked: BlockDetails): string {
+  const params = new URLSearchParams({ email });
+  if (blocked.reason) {
+    params.set('reason', blocked.reason);
+  }
+  if (blocked.blockedAt) {
+    // The blocked page expects a millisecond timestamp
+    params.set('blockedAt', new Date(blocked.blockedAt).getTime().toString());
+  }
+  return `/survey/blocked?${params.toString()}`;
+}
@@ -0,0 +1,132 @@
+/**
+ * Survey Save-and-Resume Helpers
+ * Each participant has at most one partial (draft) SurveyResponse row. Autosaves
+ * update it in place and a complete submission promotes it rather than adding a row.
+ * @rule 060 "API standards for survey data submission"
+ * @rule 150 "Preventing technical debt with a single draft per participant"
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import type { StoredTiming } from './survey-timing';
+
+export interface DraftInput {
+  email: string;
+  group: string;
+  versionId: number;
+  responses: Record<string, unknown>;
+  lastQuestionId?: string | null;
+  userAgent?: string;
+  deviceType?: string;
+  ipAddressHash?: string;
+}
+
+/**
+ * Get the participant's in-progress draft, if any
+ * Ordered by recency so rows left over from before drafts were tracked never win
+ */
+export async function findDraftResponse(email: string) {
+  return prisma.surveyResponse.findFirst({
+    where: { email, partial: true },
+    orderBy: { submittedAt: 'desc' },
+  });
+}
+
+/**
+ * Create or update the participant's single draft response
+ */
+export async function saveDraftResponse(input: DraftInput) {
+  const now = new Date();
+  const data = {
+    group: input.group,
+    versionId: input.versionId,
+    responses: input.responses as Prisma.InputJsonValue,
+    lastQuestionId: input.lastQuestionId ?? null,
+    lastSavedAt: now,
+    userAgent: input.userAgent,
+    deviceType: input.deviceType,
+    ipAddressHash: input.ipAddressHash,
+  };
+
+  return prisma.$transaction(async (tx) => {
+    const draft = await tx.surveyResponse.findFirst({
+      where: { email: input.email, partial: true },
+      orderBy: { submittedAt: 'desc' },
+      select: { id: true },
+    });
+
+    if (draft) {
+      return tx.surveyResponse.update({
+        where: { id: draft.id },
+        data,
+      });
+    }
+
+    return tx.surveyResponse.create({
+      data: {
+        ...data,
+        email: input.email,
+        partial: true,
+        submittedAt: now,
+      },
+    });
+  });
+}
+
+/**
+ * Turn the participant's draft into a complete submission, or create one if there is no draft
+ * Numbers the submission against the participant's earlier complete ones, which are never touched
+ */
+export async function completeSurveyResponse(input: DraftInput & { timing?: StoredTiming | null }) {
+  const now = new Date();
+
+  return prisma.$transaction(async (tx) => {
+    const [draft, previous] = await Promise.all([
+      tx.surveyResponse.findFirst({
+        where: { email: input.email, partial: true },
+        orderBy: { submittedAt: 'desc' },
+        select: { id: true },
+      }),
+      tx.surveyResponse.findFirst({
+        where: { email: input.email, partial: false },
+        orderBy: { id: 'desc' },
+        select: { id: true, submissionNumber: true },
+      }),
+    ]);
+
+    const submissionNumber = previous ? (previous.submissionNumber ?? 1) + 1 : 1;
+    const data = {
+      group: input.group,
+      versionId: input.versionId,
+      responses: input.responses as Prisma.InputJsonValue,
+      completionTime: input.timing?.completionTime ?? null,
+      startedAt: input.timing?.startedAt ?? null,
+      activeTime: input.timing?.activeTime ?? null,
+      idleTime: input.timing?.idleTime ?? null,
+      questionTimings: input.timing ? (input.timing.questionTimings as Prisma.InputJsonValue) : Prisma.DbNull,
+      partial: false,
+      lastQuestionId: null,
+      userAgent: input.userAgent,
+      deviceType: input.deviceType,
+      ipAddressHash: input.ipAddressHash,
+      submittedAt: now,
+      submissionNumber,
+      isResubmission: submissionNumber > 1,
+      previousResponseId: previous?.id ?? null,
+    };
+
+    if (draft) {
+      return tx.surveyResponse.update({
+        where: { id: draft.id },
+        data,
+      });
+    }
+
+    return tx.surveyResponse.create({
+      data: {
+        ...data,
+        email: input.email,
+      },
+    });
+  });
+}
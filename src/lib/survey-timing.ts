@@ -0,0 +1,137 @@
+/**
+ * Survey Timing
+ * Client-side tracking of when the participant started, how long they actively spent
+ * on each question and how long they were idle, plus the submission schema and the
+ * server-side checks applied before timings are stored.
+ * @rule 105 "TypeScript strict typing"
+ * @rule 060 "API standards for survey data submission"
+ */
+
+import { z } from 'zod';
+
+// A pause longer than this counts as idle beyond the first IDLE_THRESHOLD_MS
+export const IDLE_THRESHOLD_MS = 60_000;
+
+export interface TimingState {
+  startedAt: number;
+  currentQuestionId: string | null;
+  lastActivityAt: number;
+  hidden: boolean;
+  activeMs: Record<string, number>;
+  idleMs: number;
+  idleGaps: number;
+}
+
+export const SurveyTimingSchema = z.object({
+  startedAt: z.string().datetime(),
+  activeSeconds: z.number().int().nonnegative(),
+  idleSeconds: z.number().int().nonnegative(),
+  idleGaps: z.number().int().nonnegative(),
+  questionTimes: z.record(z.string(), z.number().int().nonnegative()),
+});
+
+export type SurveyTiming = z.infer<typeof SurveyTimingSchema>;
+
+export interface StoredTiming {
+  startedAt: Date;
+  completionTime: number;
+  activeTime: number;
+  idleTime: number;
+  questionTimings: Record<string, number>;
+}
+
+export function startTiming(now: number): TimingState {
+  return {
+    startedAt: now,
+    currentQuestionId: null,
+    lastActivityAt: now,
+    hidden: false,
+    activeMs: {},
+    idleMs: 0,
+    idleGaps: 0,
+  };
+}
+
+/**
+ * Credits the time since the last activity to the current question, up to the idle threshold
+ */
+function advance(state: TimingState, now: number, allIdle: boolean): TimingState {
+  const elapsed = Math.max(0, now - state.lastActivityAt);
+  const active = allIdle ? 0 : Math.min(elapsed, IDLE_THRESHOLD_MS);
+  const idle = elapsed - active;
+  const questionId = state.currentQuestionId;
+
+  return {
+    ...state,
+    lastActivityAt: now,
+    activeMs: questionId && active > 0
+      ? { ...state.activeMs, [questionId]: (state.activeMs[questionId] || 0) + active }
+      : state.activeMs,
+    idleMs: state.idleMs + idle,
+    idleGaps: state.idleGaps + (idle > 0 ? 1 : 0),
+  };
+}
+
+export function recordActivity(state: TimingState, now: number): TimingState {
+  return state.hidden ? state : advance(state, now, false);
+}
+
+export function enterQuestion(state: TimingState, questionId: string, now: number): TimingState {
+  return { ...recordActivity(state, now), currentQuestionId: questionId };
+}
+
+/**
+ * Time with the tab in the background, or between a reload and the survey reappearing, is idle
+ */
+export function recordHidden(state: TimingState, now: number): TimingState {
+  return { ...recordActivity(state, now), hidden: true };
+}
+
+export function recordVisible(state: TimingState, now: number): TimingState {
+  return { ...advance(state, now, true), hidden: false };
+}
+
+export function summarizeTiming(state: TimingState, now: number): SurveyTiming {
+  const finished = recordActivity(state, now);
+  const questionTimes = Object.fromEntries(
+    Object.entries(finished.activeMs).map(([questionId, ms]) => [questionId, Math.round(ms / 1000)])
+  );
+
+  return {
+    startedAt: new Date(finished.startedAt).toISOString(),
+    activeSeconds: Object.values(questionTimes).reduce((sum, seconds) => sum + seconds, 0),
+    idleSeconds: Math.round(finished.idleMs / 1000),
+    idleGaps: finished.idleGaps,
+    questionTimes,
+  };
+}
+
+/**
+ * Completion time is measured on the server from the reported start, so a wrong
+ * client clock can't produce negative or future timings; question times are kept
+ * only for questions the participant was shown
+ */
+export function toStoredTiming(timing: SurveyTiming, shownQuestionIds: string[], now: Date): StoredTiming | null {
+  const startedAt = new Date(timing.startedAt);
+  if (Number.isNaN(startedAt.getTime()) || startedAt > now) {
+    return null;
+  }
+
+  const completionTime = Math.round((now.getTime() - startedAt.getTime()) / 1000);
+  const shown = new Set(shownQuestionIds);
+  const questionTimings = Object.fromEntries(
+    Object.entries(timing.questionTimes).filter(([questionId]) => shown.has(questionId))
+  );
+  const activeTime = Math.min(
+    completionTime,
+    Object.values(questionTimings).reduce((sum, seconds) => sum + seconds, 0)
+  );
+
+  return {
+    startedAt,
+    completionTime,
+    activeTime,
+    idleTime: Math.min(timing.idleSeconds, completionTime - activeTime),
+    questionTimings,
+  };
+}
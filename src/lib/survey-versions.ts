@@ -0,0 +1,134 @@
+/**
+ * Survey Version Lifecycle Helpers
+ * @rule 060 "API standards for survey version publishing"
+ * @rule 150 "Preventing technical debt with a single source of version state"
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from './prisma';
+import { QuestionListSchema } from './validation';
+
+export const VERSION_STATUS = {
+  DRAFT: 'draft',
+  PUBLISHED: 'published',
+  RETIRED: 'retired',
+} as const;
+
+export type VersionStatus = typeof VERSION_STATUS[keyof typeof VERSION_STATUS];
+
+/**
+ * Error raised when a lifecycle transition is not allowed
+ */
+export class VersionLifecycleError extends Error {
+  constructor(message: string, public readonly status: number = 409) {
+    super(message);
+    this.name = 'VersionLifecycleError';
+  }
+}
+
+/**
+ * Get the single published survey version for a group
+ * Ordered by publish date so a stray duplicate never makes the result ambiguous
+ */
+export async function getPublishedVersion(group: string) {
+  return prisma.surveyVersion.findFirst({
+    where: {
+      group,
+      status: VERSION_STATUS.PUBLISHED,
+    },
+    orderBy: { publishedAt: 'desc' },
+  });
+}
+
+/**
+ * Only drafts can be edited or deleted - published and retired question sets are frozen
+ */
+export function isEditable(status: string): boolean {
+  return status === VERSION_STATUS.DRAFT;
+}
+
+/**
+ * Publish a draft version, retiring whichever version is currently published for the group
+ */
+export async function publishVersion(versionId: number, publishedBy: string) {
+  try {
+    return await publishInTransaction(versionId, publishedBy);
+  } catch (error) {
+    // The partial unique index on published versions caught a concurrent publish
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      throw new VersionLifecycleError('Another version of this group was published at the same time - reload and try again');
+    }
+    throw error;
+  }
+}
+
+async function publishInTransaction(versionId: number, publishedBy: string) {
+  return prisma.$transaction(async (tx) => {
+    const version = await tx.surveyVersion.findUnique({
+      where: { id: versionId },
+    });
+
+    if (!version) {
+      throw new VersionLifecycleError('Survey version not found', 404);
+    }
+
+    if (version.status !== VERSION_STATUS.DRAFT) {
+      throw new VersionLifecycleError(`Only draft versions can be published (current status: ${version.status})`);
+    }
+
+    const questions = QuestionListSchema.safeParse(version.questions);
+    if (!questions.success) {
+      throw new VersionLifecycleError('Version has invalid questions and cannot be published', 400);
+    }
+
+    const now = new Date();
+
+    // Retire every other published version so exactly one stays live per group
+    const retired = await tx.surveyVersion.updateMany({
+      where: {
+        group: version.group,
+        status: VERSION_STATUS.PUBLISHED,
+      },
+      data: {
+        status: VERSION_STATUS.RETIRED,
+        retiredAt: now,
+      },
+    });
+
+    const published = await tx.surveyVersion.update({
+      where: { id: versionId },
+      data: {
+        status: VERSION_STATUS.PUBLISHED,
+        publishedAt: now,
+        publishedBy,
+      },
+    });
+
+    return { published, retiredCount: retired.count };
+  });
+}
+
+/**
+ * Retire a published version - its responses stay linked to the frozen questions
+ */
+export async function retireVersion(versionId: number) {
+  const version = await prisma.surveyVersion.findUnique({
+    where: { id: versionId },
+  });
+
+  if (!version) {
+    throw new VersionLifecycleError('Survey version not found', 404);
+  }
+
+  if (version.status !== VERSION_STATUS.PUBLISHED) {
+    throw new VersionLifecycleError(`Only published versions can be retired (current status: ${version.status})`);
+  }
+
+  return prisma.surveyVersion.update({
+    where: { id: versionId },
+    data: {
+      status: VERSION_STATUS.RETIRED,
+      retiredAt: new Date(),
+    },
+  });
+}
@@ -0,0 +1,242 @@
+/**
+ * Open-Ended Text Analysis
+ * A local, deterministic pipeline for open-ended answers: tokenization with stop
+ * words, word and phrase frequencies, TF-IDF keywords per stakeholder group and
+ * themes from words that tend to appear in the same answers. No external service
+ * is involved, so the same answers always give the same results.
+ * @rule 060 "API standards with proper data aggregation"
+ * @rule 105 "TypeScript strict typing"
+ */
+
+import { z } from 'zod';
+import { STAKEHOLDER_GROUPS } from './validation';
+
+export const TOP_TERMS = 15;
+export const MAX_THEMES = 6;
+// Words in fewer answers than this are too rare to build themes from
+export const MIN_THEME_DOCUMENTS = 2;
+// Jaccard similarity a word needs with a theme's seed word to join it
+export const THEME_SIMILARITY = 0.25;
+
+export const TextAnalysisQuerySchema = z.object({
+  questionId: z.string().trim().min(1).optional(),
+  versionId: z.coerce.number().int().positive().optional(),
+  group: z.enum(STAKEHOLDER_GROUPS).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  submissions: z.enum(['latest', 'all']).default('latest'),
+}).refine(query => !query.from || !query.to || query.from <= query.to, {
+  message: 'Start date must be before end date',
+  path: ['from'],
+});
+
+export type TextAnalysisQuery = z.infer<typeof TextAnalysisQuerySchema>;
+
+// Common English function words, plus filler that carries no meaning in survey answers
+export const STOP_WORDS = new Set([
+  'a', 'about', 'above', 'after', 'again', 'against', 'all', 'also', 'am', 'an', 'and', 'any', 'are', 'as', 'at',
+  'be', 'because', 'been', 'before', 'being', 'below', 'between', 'both', 'but', 'by',
+  'can', 'could', 'did', 'do', 'does', 'doing', 'done', 'down', 'during',
+  'each', 'either', 'else', 'etc', 'even', 'ever', 'every',
+  'few', 'for', 'from', 'further', 'get', 'gets', 'getting', 'got',
+  'had', 'has', 'have', 'having', 'he', 'her', 'here', 'hers', 'herself', 'him', 'himself', 'his', 'how',
+  'i', 'if', 'in', 'into', 'is', 'it', 'its', 'itself', 'just',
+  'kind', 'know', 'let', 'like', 'lot', 'lots',
+  'may', 'maybe', 'me', 'might', 'more', 'most', 'much', 'must', 'my', 'myself',
+  'no', 'nor', 'not', 'now', 'of', 'off', 'often', 'on', 'once', 'one', 'only', 'or', 'other', 'others', 'our',
+  'ours', 'ourselves', 'out', 'over', 'own',
+  'quite', 'rather', 'really', 'same', 'see', 'she', 'should', 'so', 'some', 'something', 'sometimes', 'such',
+  'than', 'that', 'the', 'their', 'theirs', 'them', 'themselves', 'then', 'there', 'these', 'they', 'thing',
+  'things', 'think', 'this', 'those', 'though', 'through', 'to', 'too',
+  'under', 'until', 'up', 'us', 'use', 'used', 'uses', 'using',
+  'very', 'was', 'way', 'we', 'well', 'were', 'what', 'when', 'where', 'which', 'while', 'who', 'whom', 'why',
+  'will', 'with', 'within', 'without', 'would',
+  'yes', 'yet', 'you', 'your', 'yours', 'yourself', 'yourselves',
+]);
+
+export interface TermCount {
+  term: string;
+  count: number;
+  // Answers containing the term at least once
+  answers: number;
+}
+
+export interface Keyword {
+  term: string;
+  score: number;
+  count: number;
+}
+
+export interface Theme {
+  terms: string[];
+  answers: number;
+}
+
+export interface TextSummary {
+  answers: number;
+  words: number;
+  topTerms: TermCount[];
+  topPhrases: TermCount[];
+  themes: Theme[];
+}
+
+export interface GroupTextSummary extends TextSummary {
+  group: string;
+  keywords: Keyword[];
+}
+
+/**
+ * Lower-cased words without stop words or numbers. Contractions are kept whole
+ * ("don't") and possessives dropped ("student's" counts as "student").
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[‘’]/g, "'")
+    .split(/[^a-z0-9']+/)
+    .map(word => word.replace(/^'+|'+$/g, '').replace(/'s$/, ''))
+    .filter(word => word.length >= 2 && !/^\d+$/.test(word) && !STOP_WORDS.has(word));
+}
+
+/**
+ * Adjacent word pairs within one answer, after stop words are removed
+ */
+export function phrases(tokens: string[]): string[] {
+  return tokens.slice(1).map((token, index) => `${tokens[index]} ${token}`);
+}
+
+function countTerms(documents: string[][]): TermCount[] {
+  const counts = new Map<string, TermCount>();
+  for (const document of documents) {
+    for (const term of document) {
+      const entry = counts.get(term) || { term, count: 0, answers: 0 };
+      entry.count++;
+      counts.set(term, entry);
+    }
+    for (const term of new Set(document)) {
+      const entry = counts.get(term);
+      if (entry) entry.answers++;
+    }
+  }
+  return [...counts.values()];
+}
+
+// Most frequent first; ties alphabetically so results never depend on input order
+const byFrequency = (a: TermCount, b: TermCount) => b.count - a.count || b.answers - a.answers || a.term.localeCompare(b.term);
+
+export function topTerms(documents: string[][], limit = TOP_TERMS): TermCount[] {
+  return countTerms(documents).sort(byFrequency).slice(0, limit);
+}
+
+/**
+ * Phrases repeated across answers; a phrase from a single answer is not a pattern
+ */
+export function topPhrases(documents: string[][], limit = TOP_TERMS): TermCount[] {
+  return countTerms(documents.map(phrases))
+    .filter(entry => entry.answers >= 2)
+    .sort(byFrequency)
+    .slice(0, limit);
+}
+
+/**
+ * Smoothed inverse document frequency of every term over all answers
+ */
+export function inverseDocumentFrequency(documents: string[][]): Map<string, number> {
+  const total = documents.length;
+  return new Map(countTerms(documents).map(entry => [entry.term, Math.log((1 + total) / (1 + entry.answers)) + 1]));
+}
+
+/**
+ * Words frequent in one group's answers but uncommon across all answers
+ */
+export function tfidfKeywords(groupDocuments: string[][], idf: Map<string, number>, limit = TOP_TERMS): Keyword[] {
+  const words = groupDocuments.reduce((sum, document) => sum + document.length, 0);
+  if (words === 0) return [];
+
+  return countTerms(groupDocuments)
+    .map(entry => ({
+      term: entry.term,
+      score: Math.round((entry.count / words) * (idf.get(entry.term) || 1) * 10000) / 10000,
+      count: entry.count,
+    }))
+    .sort((a, b) => b.score - a.score || a.term.localeCompare(b.term))
+    .slice(0, limit);
+}
+
+/**
+ * Groups frequent words that co-occur in the same answers. Each theme grows from the
+ * most common unassigned word, taking every other unassigned word whose Jaccard
+ * similarity with it (shared answers over answers with either) reaches the threshold.
+ */
+export function findThemes(documents: string[][], maxThemes = MAX_THEMES, similarity = THEME_SIMILARITY): Theme[] {
+  const answersWith = new Map<string, Set<number>>();
+  documents.forEach((document, index) => {
+    for (const term of new Set(document)) {
+      answersWith.set(term, (answersWith.get(term) || new Set<number>()).add(index));
+    }
+  });
+
+  const candidates = [...answersWith.entries()]
+    .filter(([, answers]) => answers.size >= MIN_THEME_DOCUMENTS)
+    .sort(([a, first], [b, second]) => second.size - first.size || a.localeCompare(b))
+    .slice(0, TOP_TERMS * 2)
+    .map(([term]) => term);
+
+  const jaccard = (a: string, b: string) => {
+    const first = answersWith.get(a) || new Set<number>();
+    const second = answersWith.get(b) || new Set<number>();
+    const shared = [...first].filter(index => second.has(index)).length;
+    return shared / (first.size + second.size - shared);
+  };
+
+  const assigned = new Set<string>();
+  const themes: Theme[] = [];
+  for (const seed of candidates) {
+    if (assigned.has(seed) || themes.length >= maxThemes) continue;
+
+    const terms = [seed, ...candidates.filter(term => term !== seed && !assigned.has(term) && jaccard(seed, term) >= similarity)];
+    // A lone word is already in the frequency list
+    if (terms.length < 2) continue;
+
+    terms.forEach(term => assigned.add(term));
+    const answers = new Set(terms.flatMap(term => [...(answersWith.get(term) || [])]));
+    themes.push({ terms, answers: answers.size });
+  }
+
+  return themes;
+}
+
+export function summarizeText(documents: string[][]): TextSummary {
+  return {
+    answers: documents.length,
+    words: documents.reduce((sum, document) => sum + document.length, 0),
+    topTerms: topTerms(documents),
+    topPhrases: topPhrases(documents),
+    themes: findThemes(documents),
+  };
+}
+
+/**
+ * Overall summary for a question plus one per stakeholder group, with keywords
+ * weighted against every group's answers
+ */
+export function analyzeAnswers(answers: Array<{ group: string; text: string }>): {
+  overall: TextSummary;
+  byGroup: GroupTextSummary[];
+} {
+  const documents = answers.map(answer => ({ group: answer.group, tokens: tokenize(answer.text) }));
+  const idf = inverseDocumentFrequency(documents.map(document => document.tokens));
+  const groups = STAKEHOLDER_GROUPS.filter(group => documents.some(document => document.group === group));
+
+  return {
+    overall: summarizeText(documents.map(document => document.tokens)),
+    byGroup: groups.map(group => {
+      const groupDocuments = documents.filter(document => document.group === group).map(document => document.tokens);
+      return {
+        group,
+        ...summarizeText(groupDocuments),
+        keywords: tfidfKeywords(groupDocuments, idf),
+      };
+    }),
+  };
+}
@@ -0,0 +1,142 @@
+/**
+ * Response Timing Analytics
+ * Completion and per-question time statistics, and speeders - responses answered
+ * implausibly fast compared with others on the same survey version
+ * @rule 060 "API standards with proper data aggregation"
+ * @rule 105 "TypeScript strict typing"
+ */
+
+import type { SurveyQuestion } from './validation';
+
+// Answering in under this share of the version's median time flags a speeder
+export const SPEEDER_MEDIAN_RATIO = 0.4;
+// Medians from fewer timed responses than this are too noisy to judge speed against
+export const MIN_RESPONSES_FOR_SPEEDERS = 5;
+
+export interface TimedResponse {
+  id: number;
+  email: string;
+  group: string;
+  versionId: number;
+  completionTime: number;
+  activeTime: number | null;
+  idleTime: number | null;
+  questionTimings: unknown;
+}
+
+export interface DurationSummary {
+  count: number;
+  mean: number;
+  median: number;
+  p25: number;
+  p75: number;
+  p90: number;
+}
+
+export interface QuestionTiming {
+  questionId: string;
+  text: string;
+  summary: DurationSummary | null;
+}
+
+export interface Speeder {
+  id: number;
+  email: string;
+  group: string;
+  versionId: number;
+  completionTime: number;
+  // Active time when it was measured, otherwise completion time
+  measure: 'active' | 'completion';
+  time: number;
+  // Median of the same measure over the version's responses
+  versionMedian: number;
+  // time as a share of the version median
+  ratio: number;
+}
+
+/**
+ * Linear interpolation between closest ranks
+ */
+function percentile(sorted: number[], fraction: number): number {
+  const position = (sorted.length - 1) * fraction;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+export function summarizeDurations(values: number[]): DurationSummary | null {
+  if (values.length === 0) return null;
+
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    count: sorted.length,
+    mean: Math.round(sorted.reduce((sum, value) => sum + value, 0) / sorted.length),
+    median: Math.round(percentile(sorted, 0.5)),
+    p25: Math.round(percentile(sorted, 0.25)),
+    p75: Math.round(percentile(sorted, 0.75)),
+    p90: Math.round(percentile(sorted, 0.9)),
+  };
+}
+
+function timingsOf(response: TimedResponse): Record<string, number> {
+  const timings = response.questionTimings;
+  if (!timings || typeof timings !== 'object' || Array.isArray(timings)) return {};
+  return Object.fromEntries(
+    Object.entries(timings as Record<string, unknown>).filter((entry): entry is [string, number] => typeof entry[1] === 'number')
+  );
+}
+
+export function summarizeQuestionTimes(
+  questions: Array<Pick<SurveyQuestion, 'id' | 'text'>>,
+  responses: TimedResponse[]
+): QuestionTiming[] {
+  const timings = responses.map(timingsOf);
+
+  return questions.map(question => ({
+    questionId: question.id,
+    text: question.text,
+    summary: summarizeDurations(
+      timings.map(entry => entry[question.id]).filter((seconds): seconds is number => seconds !== undefined)
+    ),
+  }));
+}
+
+/**
+ * Judges each response on active time, so an idle tab left open doesn't hide a rushed
+ * set of answers. Responses submitted without activity tracking fall back to
+ * completion time and are compared only with others measured the same way.
+ */
+export function findSpeeders(responses: TimedResponse[], ratio = SPEEDER_MEDIAN_RATIO): Speeder[] {
+  const groups = new Map<string, Array<{ response: TimedResponse; time: number }>>();
+  for (const response of responses) {
+    const measure = response.activeTime !== null ? 'active' : 'completion';
+    const key = `${response.versionId}:${measure}`;
+    const time = response.activeTime ?? response.completionTime;
+    groups.set(key, [...(groups.get(key) || []), { response, time }]);
+  }
+
+  const speeders: Speeder[] = [];
+  for (const [key, measured] of groups) {
+    if (measured.length < MIN_RESPONSES_FOR_SPEEDERS) continue;
+
+    const measure = key.endsWith(':active') ? 'active' : 'completion';
+    const median = summarizeDurations(measured.map(entry => entry.time))?.median || 0;
+    for (const { response, time } of measured) {
+      if (median > 0 && time < median * ratio) {
+        speeders.push({
+          id: response.id,
+          email: response.email,
+          group: response.group,
+          versionId: response.versionId,
+          completionTime: response.completionTime,
+          measure,
+          time,
+          versionMedian: median,
+          ratio: Math.round((time / median) * 100) / 100,
+        });
+      }
+    }
+  }
+
+  return speeders.sort((a, b) => a.ratio - b.ratio);
+}
@@ -7,6 +7,7 @@
 
 import { z } from 'zod';
 import DOMPurify from 'isomorphic-dompurify';
+import { QuestionBranchingSchema, getBranchingRule, getVisibleQuestions } from './branching';
 
 /**
  * Sanitizes HTML input to prevent XSS attacks
@@ -137,6 +138,8 @@ function validateLikertResponse(
 
 /**
  * Validates complete survey responses
+ * Questions hidden by branching rules are skipped, so required questions
+ * the participant never saw are not reported as missing.
  */
 export function validateSurveyResponses(
   responses: Record<string, unknown>,
@@ -146,11 +149,12 @@ export function validateSurveyResponses(
     required: boolean;
     options?: string[];
     validation?: any;
+    branching?: unknown;
   }>
 ): { valid: boolean; errors: Array<{ questionId: string; error: string }> } {
   const errors: Array<{ questionId: string; error: string }> = [];
 
-  for (const question of questions) {
+  for (const question of getVisibleQuestions(questions, responses)) {
     const value = responses[question.id];
     const validation = validateQuestionResponse(value, question);
     
@@ -190,3 +194,86 @@ export const SurveyResponseSchema = z.object({
   completionTime: z.number().int().positive().optional(),
   isPartial: z.boolean().default(false),
 });
+
+/**
+ * Stakeholder groups that survey versions and invites can target
+ */
+export const STAKEHOLDER_GROUPS = ['Teachers', 'Students', 'Administrators', 'IT_Admins'] as const;
+
+export const QUESTION_TYPES = ['open_ended', 'multiple_choice', 'likert'] as const;
+
+/**
+ * Survey question definition schema
+ * Mirrors the question shape consumed by validateQuestionResponse()
+ */
+export const QuestionSchema = z.object({
+  id: z.string().regex(/^[a-z][a-z0-9_]*$/, 'Question ID must be lowercase letters, digits and underscores'),
+  text: z.string().trim().min(1, 'Question text is required'),
+  type: z.enum(QUESTION_TYPES),
+  required: z.boolean(),
+  placeholder: z.string().optional(),
+  options: z.array(z.string().trim().min(1, 'Options cannot be empty')).optional(),
+  validation: z.object({
+    minLength: z.number().int().nonnegative().optional(),
+    maxLength: z.number().int().positive().optional(),
+    min: z.number().int().optional(),
+    max: z.number().int().optional(),
+  }).optional(),
+  branching: QuestionBranchingSchema.optional(),
+}).superRefine((question, ctx) => {
+  if (question.type === 'multiple_choice') {
+    if (!question.options || question.options.length < 2) {
+      ctx.addIssue({ code: 'custom', path: ['options'], message: 'Multiple choice questions need at least two options' });
+    } else if (new Set(question.options).size !== question.options.length) {
+      ctx.addIssue({ code: 'custom', path: ['options'], message: 'Options must be unique' });
+    }
+  }
+
+  const { minLength, maxLength, min, max } = question.validation || {};
+  if (minLength !== undefined && maxLength !== undefined && minLength > maxLength) {
+    ctx.addIssue({ code: 'custom', path: ['validation', 'minLength'], message: 'Minimum length cannot exceed maximum length' });
+  }
+  if (min !== undefined && max !== undefined && min >= max) {
+    ctx.addIssue({ code: 'custom', path: ['validation', 'min'], message: 'Scale minimum must be below scale maximum' });
+  }
+});
+
+export type SurveyQuestion = z.infer<typeof QuestionSchema>;
+
+/**
+ * Question list schema - at least one question, unique IDs
+ */
+export const QuestionListSchema = z.array(QuestionSchema)
+  .min(1, 'A survey version needs at least one question')
+  .superRefine((questions, ctx) => {
+    const seen = new Set<string>();
+    questions.forEach((question, index) => {
+      if (seen.has(question.id)) {
+        ctx.addIssue({ code: 'custom', path: [index, 'id'], message: `Duplicate question ID "${question.id}"` });
+      }
+
+      // Rules may only depend on answers the participant has already given
+      getBranchingRule(question)?.conditions.forEach((condition, conditionIndex) => {
+        if (!seen.has(condition.questionId)) {
+          ctx.addIssue({
+            code: 'custom',
+            path: [index, 'branching', 'conditions', conditionIndex, 'questionId'],
+            message: `Branching condition must reference an earlier question (got "${condition.questionId}")`,
+          });
+        }
+      });
+
+      seen.add(question.id);
+    });
+  });
+
+/**
+ * Survey version authoring schema
+ */
+export const SurveyVersionSchema = z.object({
+  version: z.string().trim().min(1, 'Version name is required').max(64),
+  group: z.enum(STAKEHOLDER_GROUPS),
+  description: z.string().trim().max(500).nullable().optional(),
+  questions: QuestionListSchema,
+  maxResponses: z.number().int().positive().nullable().optional(),
+});
@@ -5,7 +5,10 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { getSessionFromRequest } from '@/lib/auth';
+import { getSessionFromRequest, getSurveySessionFromRequest, verifySurveyAccessToken } from '@/lib/auth';
+
+// Status pages a participant may land on without (or after) a survey session
+const PUBLIC_SURVEY_PAGES = ['/survey/success', '/survey/blocked', '/survey/already-completed'];
 
 export async function middleware(request: NextRequest) {
   const { pathname } = request.nextUrl;
@@ -27,10 +30,28 @@ export async function middleware(request: NextRequest) {
     console.log('✅ Admin access authorized:', session.email);
   }
 
-  // Protect survey routes (will implement in Phase 3)
-  if (pathname.startsWith('/survey/') && pathname !== '/survey/success') {
-    // TODO: Implement survey session validation
-    console.log('🔍 Survey route accessed:', pathname);
+  // Protect survey routes - the URL token must belong to the signed-in participant
+  if (pathname.startsWith('/survey/') && !PUBLIC_SURVEY_PAGES.includes(pathname)) {
+    const session = await getSurveySessionFromRequest(request);
+
+    if (!session) {
+      console.log('❌ Survey accessed without a session:', pathname);
+      return NextResponse.redirect(new URL('/', request.url));
+    }
+
+    let token: string;
+    try {
+      token = decodeURIComponent(pathname.split('/')[2] || '');
+    } catch {
+      // Malformed percent-encoding can't be a token we issued
+      console.log('❌ Survey token is not valid URL encoding');
+      return NextResponse.redirect(new URL('/', request.url));
+    }
+
+    if (!(await verifySurveyAccessToken(token, session.email))) {
+      console.log('❌ Survey token does not match session');
+      return NextResponse.redirect(new URL('/', request.url));
+    }
   }
 
   return NextResponse.next();